@@ -0,0 +1,229 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  filterPackageAdvisories,
+  findOfflineAdvisories,
+  loadAdvisoryDatabase,
+  parseAuditReport,
+  parseYarnBerryAudit,
+  scoreAdvisories,
+} from '../src/utils/advisory-utils';
+import type { Advisory, PackageInfo } from '../src/types';
+
+function pkg(name: string, pkgPath: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: pkgPath,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+function install(dir: string, manifest: Record<string, unknown>) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(manifest));
+}
+
+describe('advisory utils', () => {
+  let tmpRoot: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-advisories-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('parses pnpm and npm v6 advisory maps', () => {
+    const [advisory] = parseAuditReport({
+      advisories: {
+        1096727: {
+          id: 1096727,
+          github_advisory_id: 'GHSA-hrpp-h998-j3pp',
+          module_name: 'qs',
+          severity: 'high',
+          title: 'qs vulnerable to Prototype Pollution',
+          url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+          vulnerable_versions: '<6.10.3',
+          patched_versions: '>=6.10.3',
+          findings: [
+            { version: '6.9.0', paths: ['packages__api>express>qs'] },
+            { version: '6.5.0', paths: ['packages__web>request>qs', 'packages__api>express>qs'] },
+          ],
+        },
+      },
+    });
+
+    expect(advisory).toEqual({
+      id: 'GHSA-hrpp-h998-j3pp',
+      severity: 'high',
+      title: 'qs vulnerable to Prototype Pollution',
+      moduleName: 'qs',
+      vulnerableVersions: '<6.10.3',
+      patchedVersions: '>=6.10.3',
+      url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+      paths: ['packages__api>express>qs', 'packages__web>request>qs'],
+    });
+  });
+
+  test('parses npm v7 vulnerabilities and walks their effects into paths', () => {
+    const advisories = parseAuditReport({
+      auditReportVersion: 2,
+      vulnerabilities: {
+        qs: {
+          name: 'qs',
+          severity: 'high',
+          via: [
+            {
+              source: 1096727,
+              name: 'qs',
+              title: 'qs vulnerable to Prototype Pollution',
+              url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+              severity: 'high',
+              range: '<6.10.3',
+            },
+          ],
+          effects: ['body-parser'],
+          range: '<6.10.3',
+        },
+        'body-parser': { name: 'body-parser', severity: 'high', via: ['qs'], effects: ['express'] },
+        express: { name: 'express', severity: 'high', via: ['body-parser'], effects: [] },
+      },
+    });
+
+    expect(advisories).toHaveLength(1);
+    expect(advisories[0]).toMatchObject({
+      id: 'GHSA-hrpp-h998-j3pp',
+      moduleName: 'qs',
+      vulnerableVersions: '<6.10.3',
+      patchedVersions: null,
+      paths: ['express>body-parser>qs'],
+    });
+  });
+
+  test('parses Yarn Berry audit lines into paths from each dependent', () => {
+    const output = [
+      '➤ YN0000: Audit started',
+      JSON.stringify({
+        value: 'qs',
+        children: {
+          ID: 1096470,
+          Issue: 'qs vulnerable to Prototype Pollution',
+          URL: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+          Severity: 'high',
+          'Vulnerable Versions': '<6.10.3',
+          'Tree Versions': ['6.7.0'],
+          Dependents: ['express@npm:4.17.1', '@acme/web@workspace:packages/web'],
+        },
+      }),
+      '',
+    ].join('\n');
+
+    const advisories = parseYarnBerryAudit(output);
+    expect(advisories).toEqual([
+      {
+        id: 'GHSA-hrpp-h998-j3pp',
+        severity: 'high',
+        title: 'qs vulnerable to Prototype Pollution',
+        moduleName: 'qs',
+        vulnerableVersions: '<6.10.3',
+        patchedVersions: null,
+        url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+        paths: ['express>qs', '@acme/web>qs'],
+      },
+    ]);
+    const web = pkg('@acme/web', path.join(tmpRoot, 'packages', 'web'));
+    expect(filterPackageAdvisories(advisories, web, tmpRoot)[0].paths).toEqual(['qs']);
+  });
+
+  test('keeps the paths that start at the package or its dependencies', () => {
+    const advisory: Advisory = {
+      id: 'GHSA-hrpp-h998-j3pp',
+      severity: 'high',
+      title: 'qs',
+      moduleName: 'qs',
+      vulnerableVersions: '<6.10.3',
+      patchedVersions: null,
+      url: null,
+      paths: ['packages__api>express>qs', 'packages__web>request>qs', 'express>qs'],
+    };
+    const api = pkg('@acme/api', path.join(tmpRoot, 'packages', 'api'), { dependencies: { express: '^4.0.0' } });
+    const web = pkg('@acme/web', path.join(tmpRoot, 'packages', 'web'), { dependencies: { react: '^18.0.0' } });
+
+    expect(filterPackageAdvisories([advisory], api, tmpRoot)[0].paths).toEqual(['express>qs']);
+    expect(filterPackageAdvisories([advisory], web, tmpRoot)[0].paths).toEqual(['request>qs']);
+    expect(filterPackageAdvisories([advisory], pkg('@acme/docs', path.join(tmpRoot, 'docs')), tmpRoot)).toEqual([]);
+  });
+
+  test('matches installed dependencies against an offline database', () => {
+    const api = path.join(tmpRoot, 'packages', 'api');
+    install(api, { name: '@acme/api' });
+    install(path.join(tmpRoot, 'node_modules', 'express'), {
+      name: 'express',
+      version: '4.17.0',
+      dependencies: { qs: '6.9.0' },
+    });
+    install(path.join(tmpRoot, 'node_modules', 'qs'), { name: 'qs', version: '6.9.0' });
+    install(path.join(tmpRoot, 'node_modules', 'lodash'), { name: 'lodash', version: '4.17.21' });
+
+    const databasePath = path.join(tmpRoot, 'advisories.json');
+    fs.writeFileSync(
+      databasePath,
+      JSON.stringify({
+        qs: [{ id: 1096727, title: 'qs vulnerable', severity: 'high', vulnerable_versions: '<6.10.3' }],
+        lodash: [{ id: 1106913, title: 'lodash vulnerable', severity: 'critical', vulnerable_versions: '<4.17.21' }],
+      })
+    );
+
+    const advisories = findOfflineAdvisories(
+      pkg('@acme/api', api, { dependencies: { express: '^4.0.0' }, devDependencies: { lodash: '^4.0.0' } }),
+      loadAdvisoryDatabase(databasePath)
+    );
+
+    expect(advisories).toEqual([
+      {
+        id: '1096727',
+        severity: 'high',
+        title: 'qs vulnerable',
+        moduleName: 'qs',
+        vulnerableVersions: '<6.10.3',
+        patchedVersions: null,
+        url: null,
+        paths: ['express>qs'],
+      },
+    ]);
+  });
+
+  test('scores advisories by severity weight', () => {
+    const advisory = (severity: Advisory['severity']): Advisory => ({
+      id: severity,
+      severity,
+      title: severity,
+      moduleName: severity,
+      vulnerableVersions: '*',
+      patchedVersions: null,
+      url: null,
+      paths: [],
+    });
+
+    expect(scoreAdvisories([])).toEqual({ status: 'pass', score: 1, value: 0 });
+    expect(scoreAdvisories([advisory('info')])).toMatchObject({ status: 'pass', score: 1 });
+    expect(scoreAdvisories([advisory('low'), advisory('moderate')])).toMatchObject({ status: 'warn', score: 0.75 });
+    expect(scoreAdvisories([advisory('high')])).toMatchObject({ status: 'fail', score: 0.5 });
+    expect(scoreAdvisories([advisory('critical'), advisory('high')])).toMatchObject({
+      status: 'fail',
+      score: 0,
+      message: '2 advisories (1 critical, 1 high)',
+    });
+    expect(scoreAdvisories([advisory('high')], { high: 0.25 })).toMatchObject({ score: 0.75 });
+  });
+});
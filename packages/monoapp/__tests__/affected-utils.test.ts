@@ -0,0 +1,63 @@
+import path from 'path';
+
+import { findAffectedPackages, findPackageForFile } from '../src/utils/affected-utils';
+import type { PackageInfo } from '../src/types';
+
+const rootDir = path.join(path.sep, 'repo');
+
+function pkg(name: string, dir: string, dependencies: Record<string, string> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: path.join(rootDir, dir),
+    dependencies,
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+  };
+}
+
+describe('findAffectedPackages', () => {
+  const packages = [
+    pkg('core', 'packages/core'),
+    pkg('core-fixtures', 'packages/core/fixtures'),
+    pkg('ui', 'packages/ui', { core: 'workspace:*' }),
+    pkg('web', 'apps/web', { ui: '^1.0.0' }),
+    pkg('docs', 'apps/docs'),
+  ];
+
+  test('maps files to the deepest owning package and reports unowned files', () => {
+    const { affected, unownedFiles } = findAffectedPackages(rootDir, packages, [
+      'packages/core/fixtures/data.json',
+      'pnpm-lock.yaml',
+    ]);
+
+    expect(affected.map(p => p.name)).toEqual(['core-fixtures']);
+    expect(affected[0]).toMatchObject({
+      reason: 'changed',
+      path: 'packages/core/fixtures',
+      changedFiles: ['packages/core/fixtures/data.json'],
+      depth: 0,
+    });
+    expect(unownedFiles).toEqual(['pnpm-lock.yaml']);
+  });
+
+  test('includes direct and transitive dependents with the chain that reached them', () => {
+    const { affected } = findAffectedPackages(rootDir, packages, ['packages/core/src/index.ts']);
+
+    expect(affected.map(p => [p.name, p.reason, p.depth])).toEqual([
+      ['core', 'changed', 0],
+      ['ui', 'dependent', 1],
+      ['web', 'dependent', 2],
+    ]);
+    expect(affected.find(p => p.name === 'web')?.via).toEqual(['core', 'ui', 'web']);
+  });
+
+  test('finds the package containing a file', () => {
+    expect(findPackageForFile(rootDir, packages, 'packages/core/fixtures/package.json')).toBe('core-fixtures');
+    expect(findPackageForFile(rootDir, packages, 'apps/web/../docs/tsconfig.json')).toBe('docs');
+    expect(findPackageForFile(rootDir, packages, 'tsconfig.base.json')).toBeUndefined();
+  });
+});
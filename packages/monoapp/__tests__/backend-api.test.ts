@@ -56,6 +56,8 @@ jest.mock('../src/utils/monorepo-scanner', () => ({
   funCheckTestCoverage: jest.fn().mockResolvedValue(85),
   funCheckLintStatus: jest.fn().mockResolvedValue('pass'),
   funCheckSecurityAudit: jest.fn().mockResolvedValue('pass'),
+  funAuditPackage: jest.fn().mockResolvedValue([]),
+  funTypeCheckPackage: jest.fn().mockResolvedValue(null),
 }));
 
 jest.mock('../src/utils/ci-status', () => ({
@@ -0,0 +1,91 @@
+import { checkBoundary, getPackageTags, matchesTag, validateBoundaries } from '../src/utils/boundary-utils';
+import type { BoundaryConstraint, PackageInfo } from '../src/types';
+
+function pkg(name: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: `/repo/packages/${name}`,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+const constraints: BoundaryConstraint[] = [
+  { sourceTag: '*', notDependOnTags: ['type:app'] },
+  { sourceTag: 'scope:billing', onlyDependOnTags: ['scope:billing', 'scope:shared'] },
+];
+
+describe('boundary utils', () => {
+  test('matches exact tags and prefixes', () => {
+    expect(matchesTag('scope:billing', 'scope:billing')).toBe(true);
+    expect(matchesTag('scope:billing', 'scope:*')).toBe(true);
+    expect(matchesTag('type:app', 'scope:*')).toBe(false);
+  });
+
+  test('merges package.json and configured tags', () => {
+    const tags = getPackageTags([pkg('web', { tags: ['type:app'] }), pkg('ui')], {
+      web: ['type:app', 'scope:web'],
+      ui: ['scope:shared'],
+    });
+    expect(tags).toEqual({ web: ['type:app', 'scope:web'], ui: ['scope:shared'] });
+  });
+
+  test('reports the first broken constraint with a readable message', () => {
+    const tags = { web: ['type:app'], billing: ['scope:billing'], payments: ['scope:payments'] };
+
+    expect(checkBoundary('billing', 'web', tags, constraints)?.message).toBe(
+      'billing may not depend on packages tagged type:app, but depends on web'
+    );
+    expect(checkBoundary('billing', 'payments', tags, constraints)?.message).toBe(
+      'billing (scope:billing) may only depend on packages tagged scope:billing, scope:shared, but depends on payments'
+    );
+    expect(checkBoundary('web', 'payments', tags, constraints)).toBeNull();
+  });
+
+  test('validates graph edges and undeclared workspace imports', () => {
+    const packages = [
+      pkg('web', { tags: ['type:app'] }),
+      pkg('admin', { tags: ['type:app'], devDependencies: { web: 'workspace:*' } }),
+      pkg('billing', {
+        tags: ['scope:billing'],
+        dependencies: { shared: 'workspace:*', payments: 'workspace:*' },
+      }),
+      pkg('shared', { tags: ['scope:shared'] }),
+      pkg('payments', { tags: ['scope:payments'] }),
+    ];
+    const hygiene = {
+      packages: [
+        {
+          packageName: 'shared',
+          filesScanned: 1,
+          unused: [],
+          missing: [],
+          undeclaredInternal: [{ name: 'web', files: ['src/index.ts'] }],
+        },
+      ],
+      unused: 0,
+      missing: 0,
+      undeclaredInternal: 1,
+    };
+
+    const report = validateBoundaries(packages, { constraints, hygiene });
+
+    expect(report.checkedEdges).toBe(3);
+    expect(report.checkedImports).toBe(1);
+    expect(report.violations.map(({ from, to, source, type, files }) => ({ from, to, source, type, files }))).toEqual([
+      { from: 'admin', to: 'web', source: 'graph', type: 'dev', files: undefined },
+      { from: 'billing', to: 'payments', source: 'graph', type: 'prod', files: undefined },
+      { from: 'shared', to: 'web', source: 'import', type: undefined, files: ['src/index.ts'] },
+    ]);
+
+    const prodOnly = validateBoundaries(packages, { constraints, dependencyTypes: ['prod'] });
+    expect(prodOnly.checkedImports).toBeNull();
+    expect(prodOnly.violations.map(violation => violation.to)).toEqual(['payments']);
+  });
+});
@@ -0,0 +1,118 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  assignPackageOwners,
+  getOwnersForPath,
+  matchesCodeownersPattern,
+  parseCodeowners,
+} from '../src/utils/codeowners-utils';
+import type { PackageInfo } from '../src/types';
+
+function pkg(name: string, pkgPath: string): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: pkgPath,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+  };
+}
+
+describe('codeowners utils', () => {
+  test('parses comments, escapes and GitLab sections', () => {
+    const rules = parseCodeowners(
+      [
+        '# Default owners',
+        '*       @acme/platform',
+        '\\#notes.md @writer # trailing comment',
+        '',
+        '[Frontend] @acme/web',
+        'packages/web/',
+        'packages/ui/ @jane jane@acme.dev',
+        '^[Docs][2] @acme/docs',
+        '*.md',
+      ].join('\n')
+    );
+
+    expect(rules).toEqual([
+      { pattern: '*', owners: ['@acme/platform'], section: null, line: 2 },
+      { pattern: '#notes.md', owners: ['@writer'], section: null, line: 3 },
+      { pattern: 'packages/web/', owners: ['@acme/web'], section: 'Frontend', line: 6 },
+      { pattern: 'packages/ui/', owners: ['@jane', 'jane@acme.dev'], section: 'Frontend', line: 7 },
+      { pattern: '*.md', owners: ['@acme/docs'], section: 'Docs', line: 9 },
+    ]);
+  });
+
+  test('matches patterns the way gitignore does', () => {
+    expect(matchesCodeownersPattern('*', 'packages/ui', true)).toBe(true);
+    expect(matchesCodeownersPattern('*.js', 'packages/ui/index.js')).toBe(true);
+    expect(matchesCodeownersPattern('*.js', 'packages/ui', true)).toBe(false);
+    expect(matchesCodeownersPattern('/packages/ui/', 'packages/ui', true)).toBe(true);
+    expect(matchesCodeownersPattern('/packages/ui/', 'packages/ui')).toBe(false);
+    expect(matchesCodeownersPattern('packages/ui', 'packages/ui/src/index.ts')).toBe(true);
+    expect(matchesCodeownersPattern('packages/ui', 'apps/packages/ui', true)).toBe(false);
+    expect(matchesCodeownersPattern('ui/', 'packages/ui', true)).toBe(true);
+    expect(matchesCodeownersPattern('packages/*', 'packages/ui', true)).toBe(true);
+    expect(matchesCodeownersPattern('packages/*', 'packages/ui/src', true)).toBe(true);
+    expect(matchesCodeownersPattern('**/ui', 'packages/ui', true)).toBe(true);
+    expect(matchesCodeownersPattern('packages/**/src', 'packages/ui/src', true)).toBe(true);
+    expect(matchesCodeownersPattern('packages/u?', 'packages/ui', true)).toBe(true);
+  });
+
+  test('the last match wins, and each GitLab section adds its owners', () => {
+    const github = parseCodeowners(['* @acme/platform', 'packages/ui/ @jane', 'packages/ui/docs/ @writer'].join('\n'));
+    expect(getOwnersForPath(github, 'packages/ui', true)).toEqual(['@jane']);
+    expect(getOwnersForPath(github, 'packages/api', true)).toEqual(['@acme/platform']);
+
+    // A matching rule without owners leaves the path unowned
+    const unowned = parseCodeowners(['* @acme/platform', 'packages/legacy/'].join('\n'));
+    expect(getOwnersForPath(unowned, 'packages/legacy', true)).toEqual([]);
+
+    const gitlab = parseCodeowners(
+      ['* @acme/platform', '[Frontend] @acme/web', 'packages/ui/', '[Security]', 'packages/ @acme/security'].join('\n')
+    );
+    expect(getOwnersForPath(gitlab, 'packages/ui', true)).toEqual(['@acme/platform', '@acme/web', '@acme/security']);
+  });
+
+  describe('assignPackageOwners', () => {
+    let tmpRoot: string;
+
+    beforeEach(() => {
+      tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-codeowners-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpRoot, { recursive: true, force: true });
+    });
+
+    test('reads .github/CODEOWNERS and sets owners per package path', () => {
+      fs.mkdirSync(path.join(tmpRoot, '.github'));
+      fs.writeFileSync(
+        path.join(tmpRoot, '.github', 'CODEOWNERS'),
+        ['* @acme/platform', '/packages/ui/ @acme/web'].join('\n')
+      );
+      const packages = [
+        pkg('@acme/ui', path.join(tmpRoot, 'packages', 'ui')),
+        pkg('@acme/api', path.join(tmpRoot, 'packages', 'api')),
+      ];
+
+      assignPackageOwners(tmpRoot, packages);
+
+      expect(packages.map(({ name, owners }) => [name, owners])).toEqual([
+        ['@acme/ui', ['@acme/web']],
+        ['@acme/api', ['@acme/platform']],
+      ]);
+    });
+
+    test('leaves packages without owners when there is no CODEOWNERS file', () => {
+      const packages = assignPackageOwners(tmpRoot, [pkg('@acme/ui', path.join(tmpRoot, 'packages', 'ui'))]);
+      expect(packages[0].owners).toEqual([]);
+    });
+  });
+});
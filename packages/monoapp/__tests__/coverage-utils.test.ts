@@ -0,0 +1,164 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  parseClover,
+  parseCobertura,
+  parseIstanbulJson,
+  parseLcov,
+  readCoverageReport,
+} from '../src/utils/coverage-utils';
+
+describe('coverage utils', () => {
+  let tmpRoot: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-coverage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('parses lcov records and falls back to counting hit records', () => {
+    const lcov = [
+      `SF:${path.join(tmpRoot, 'src', 'index.ts')}`,
+      'FNF:2',
+      'FNH:1',
+      'BRF:4',
+      'BRH:3',
+      'LF:10',
+      'LH:8',
+      'end_of_record',
+      'SF:src/util.ts',
+      'FN:1,util',
+      'FNDA:0,util',
+      'BRDA:2,0,0,1',
+      'BRDA:2,0,1,-',
+      'DA:1,1',
+      'DA:2,0',
+      'end_of_record',
+    ].join('\n');
+
+    const { totals, files } = parseLcov(lcov, tmpRoot);
+
+    expect(files.map(({ file, lines, branches, functions }) => [file, lines.pct, branches.pct, functions.pct])).toEqual([
+      ['src/index.ts', 80, 75, 50],
+      ['src/util.ts', 50, 50, 0],
+    ]);
+    expect(totals.lines).toEqual({ total: 12, covered: 9, pct: 75 });
+    expect(totals.statements).toEqual(totals.lines);
+  });
+
+  test('parses cobertura classes and merges them per file', () => {
+    const xml = `<?xml version="1.0" ?>
+<coverage lines-valid="4" lines-covered="3">
+  <sources><source>${tmpRoot}</source></sources>
+  <packages><package name="lib"><classes>
+    <class name="a.ts" filename="src/a.ts" line-rate="0.66">
+      <methods>
+        <method name="run" hits="1" signature="()V"><lines><line number="1" hits="1"/></lines></method>
+        <method name="stop" hits="0" signature="()V"><lines><line number="3" hits="0"/></lines></method>
+      </methods>
+      <lines>
+        <line number="1" hits="1"/>
+        <line number="2" hits="4" branch="true" condition-coverage="50% (1/2)"/>
+        <line number="3" hits="0"/>
+      </lines>
+    </class>
+    <class name="a.ts#Inner" filename="src/a.ts" line-rate="1">
+      <methods/>
+      <lines><line number="3" hits="2"/><line number="5" hits="1"/></lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+    const { totals, files } = parseCobertura(xml, tmpRoot);
+
+    expect(files).toHaveLength(1);
+    expect(files[0].file).toBe('src/a.ts');
+    expect(totals.lines).toEqual({ total: 4, covered: 4, pct: 100 });
+    expect(totals.branches).toEqual({ total: 2, covered: 1, pct: 50 });
+    expect(totals.functions).toEqual({ total: 2, covered: 1, pct: 50 });
+  });
+
+  test('parses clover file metrics and line elements', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<coverage generated="1"><project timestamp="1" name="All files">
+  <metrics statements="5" coveredstatements="4"/>
+  <file name="a.ts" path="${path.join(tmpRoot, 'src', 'a.ts')}">
+    <metrics statements="4" coveredstatements="3" conditionals="2" coveredconditionals="2" methods="1" coveredmethods="1"/>
+    <line num="1" count="1" type="method"/>
+    <line num="2" count="1" type="stmt"/>
+    <line num="3" count="0" type="stmt"/>
+    <line num="4" count="2" type="cond" truecount="1" falsecount="1"/>
+  </file>
+</project></coverage>`;
+
+    const { files } = parseClover(xml, tmpRoot);
+
+    expect(files).toEqual([
+      {
+        file: 'src/a.ts',
+        lines: { total: 3, covered: 2, pct: 66.67 },
+        branches: { total: 2, covered: 2, pct: 100 },
+        functions: { total: 1, covered: 1, pct: 100 },
+        statements: { total: 4, covered: 3, pct: 75 },
+      },
+    ]);
+  });
+
+  test('parses istanbul summaries and raw hit counts', () => {
+    const metric = (total: number, covered: number) => ({ total, covered, skipped: 0, pct: 0 });
+    const summary = {
+      total: { lines: metric(4, 2), branches: metric(0, 0), functions: metric(1, 1), statements: metric(5, 3) },
+      [path.join(tmpRoot, 'src', 'a.ts')]: {
+        lines: metric(4, 2),
+        branches: metric(0, 0),
+        functions: metric(1, 1),
+        statements: metric(5, 3),
+      },
+    };
+    const fromSummary = parseIstanbulJson(JSON.stringify(summary), tmpRoot);
+    expect(fromSummary.files[0].file).toBe('src/a.ts');
+    expect(fromSummary.totals.lines.pct).toBe(50);
+    expect(fromSummary.totals.branches.pct).toBe(100);
+
+    const final = {
+      [path.join(tmpRoot, 'src', 'b.ts')]: {
+        path: path.join(tmpRoot, 'src', 'b.ts'),
+        statementMap: {
+          0: { start: { line: 1 }, end: { line: 1 } },
+          1: { start: { line: 1 }, end: { line: 1 } },
+          2: { start: { line: 2 }, end: { line: 2 } },
+        },
+        s: { 0: 0, 1: 3, 2: 0 },
+        fnMap: {},
+        f: { 0: 1, 1: 0 },
+        branchMap: {},
+        b: { 0: [1, 0], 1: [2, 2] },
+      },
+    };
+    const fromFinal = parseIstanbulJson(JSON.stringify(final), tmpRoot);
+    expect(fromFinal.files[0]).toMatchObject({
+      file: 'src/b.ts',
+      lines: { total: 2, covered: 1, pct: 50 },
+      statements: { total: 3, covered: 1, pct: 33.33 },
+      functions: { total: 2, covered: 1, pct: 50 },
+      branches: { total: 4, covered: 3, pct: 75 },
+    });
+  });
+
+  test('reads the first report that parses', () => {
+    expect(readCoverageReport(tmpRoot)).toBeNull();
+
+    fs.mkdirSync(path.join(tmpRoot, 'coverage'));
+    fs.writeFileSync(path.join(tmpRoot, 'coverage', 'coverage-summary.json'), 'not json');
+    fs.writeFileSync(path.join(tmpRoot, 'coverage', 'lcov.info'), 'SF:src/a.ts\nLF:4\nLH:1\nend_of_record\n');
+
+    const report = readCoverageReport(tmpRoot);
+    expect(report).toMatchObject({ format: 'lcov', reportPath: 'coverage/lcov.info' });
+    expect(report?.totals.lines.pct).toBe(25);
+  });
+});
@@ -0,0 +1,93 @@
+import { computeBuildOrder, getInternalEdges } from '../src/utils/graph-utils';
+import type { PackageInfo } from '../src/types';
+
+function pkg(name: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: `packages/${name}`,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+describe('graph utils', () => {
+  test('getInternalEdges keeps workspace edges of the requested types', () => {
+    const packages = [
+      pkg('a', { dependencies: { b: '^1.0.0', react: '^18.0.0' }, devDependencies: { c: '*' } }),
+      pkg('b'),
+      pkg('c', { peerDependencies: { b: '^1.0.0' } }),
+    ];
+
+    expect(getInternalEdges(packages)).toEqual([
+      { from: 'a', to: 'b', type: 'prod', range: '^1.0.0', workspaceProtocol: false, satisfies: true },
+      { from: 'a', to: 'c', type: 'dev', range: '*', workspaceProtocol: false, satisfies: true },
+      { from: 'c', to: 'b', type: 'peer', range: '^1.0.0', workspaceProtocol: false, satisfies: true },
+    ]);
+    expect(getInternalEdges(packages, ['prod'])).toMatchObject([{ from: 'a', to: 'b', type: 'prod' }]);
+  });
+
+  test('getInternalEdges checks declared ranges against local versions', () => {
+    const packages = [
+      pkg('app', {
+        dependencies: { ui: 'workspace:^', utils: '^2.0.0' },
+        devDependencies: { config: 'workspace:~1.0.0' },
+        optionalDependencies: { native: 'file:../native' },
+      }),
+      pkg('ui', { version: '0.4.1' }),
+      pkg('utils'),
+      pkg('config', { version: '1.1.0' }),
+      pkg('native'),
+    ];
+
+    expect(getInternalEdges(packages)).toEqual([
+      { from: 'app', to: 'ui', type: 'prod', range: 'workspace:^', workspaceProtocol: true, satisfies: true },
+      { from: 'app', to: 'utils', type: 'prod', range: '^2.0.0', workspaceProtocol: false, satisfies: false },
+      { from: 'app', to: 'config', type: 'dev', range: 'workspace:~1.0.0', workspaceProtocol: true, satisfies: false },
+      { from: 'app', to: 'native', type: 'optional', range: 'file:../native', workspaceProtocol: false, satisfies: true },
+    ]);
+  });
+
+  test('computeBuildOrder groups packages into parallel layers', () => {
+    const packages = [
+      pkg('app', { dependencies: { ui: '*', utils: '*' } }),
+      pkg('ui', { dependencies: { utils: '*' } }),
+      pkg('utils'),
+      pkg('cli', { devDependencies: { utils: '*' } }),
+    ];
+
+    expect(computeBuildOrder(packages).layers).toEqual([['utils'], ['cli', 'ui'], ['app']]);
+    // Without dev edges the cli has nothing to wait for
+    expect(computeBuildOrder(packages, ['prod']).layers).toEqual([['cli', 'utils'], ['ui'], ['app']]);
+  });
+
+  test('computeBuildOrder reports blocking cycles and the packages behind them', () => {
+    const packages = [
+      pkg('a', { dependencies: { b: '*' } }),
+      pkg('b', { devDependencies: { a: '*' } }),
+      pkg('c', { dependencies: { a: '*' } }),
+      pkg('d'),
+    ];
+
+    const order = computeBuildOrder(packages);
+    expect(order.layers).toEqual([['d']]);
+    expect(order.cycles).toEqual([
+      {
+        packages: ['a', 'b'],
+        edges: [
+          expect.objectContaining({ from: 'a', to: 'b', type: 'prod' }),
+          expect.objectContaining({ from: 'b', to: 'a', type: 'dev' }),
+        ],
+      },
+    ]);
+    expect(order.blocked).toEqual([{ name: 'c', waitingOn: ['a'] }]);
+
+    // The cycle only exists through a dev dependency
+    expect(computeBuildOrder(packages, ['prod', 'peer']).cycles).toEqual([]);
+  });
+});
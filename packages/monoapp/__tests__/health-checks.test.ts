@@ -0,0 +1,194 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  createCustomHealthCheck,
+  getHealthChecks,
+  registerHealthCheck,
+  runHealthChecks,
+} from '../src/utils/health-checks';
+import { funAuditPackage, funRunPackageScript, funTypeCheckPackage } from '../src/utils/monorepo-scanner';
+import type { Advisory, DependencyInfo, PackageInfo, TypeCheckReport } from '../src/types';
+
+jest.mock('../src/utils/monorepo-scanner', () => ({
+  // Only the build script exists and it succeeds
+  funRunPackageScript: jest.fn().mockImplementation(async (_pkg, script: string) =>
+    script === 'build'
+      ? { command: 'pnpm run build', exitCode: 0, stdout: '', stderr: '', durationMs: 5, timedOut: false }
+      : null
+  ),
+  funAuditPackage: jest.fn().mockResolvedValue([]),
+  // No package has a tsconfig.json
+  funTypeCheckPackage: jest.fn().mockResolvedValue(null),
+}));
+
+function pkg(name: string, pkgPath: string, scripts: Record<string, string> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: pkgPath,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts,
+    maintainers: [],
+  };
+}
+
+describe('health checks', () => {
+  let tmpRoot: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-health-checks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('applies enabled and weight overrides and appends custom checks', () => {
+    const checks = getHealthChecks({
+      checks: { coverage: { enabled: false }, build: { weight: 50 } },
+      customChecks: [{ id: 'readme', type: 'file-exists', path: 'README.md', weight: 5 }],
+    });
+
+    expect(checks.map(check => [check.id, check.weight])).toEqual([
+      ['build', 50],
+      ['lint', 25],
+      ['typecheck', 20],
+      ['security', 20],
+      ['dependencies', 10],
+      ['readme', 5],
+    ]);
+  });
+
+  test('runs the built-in checks and scores them', async () => {
+    fs.mkdirSync(path.join(tmpRoot, 'coverage'));
+    fs.writeFileSync(
+      path.join(tmpRoot, 'coverage', 'coverage-summary.json'),
+      JSON.stringify({ total: { lines: { pct: 64 } } })
+    );
+    const dependencies = [{ name: 'lodash', version: '^4.0.0', status: 'outdated' }] as DependencyInfo[];
+
+    const results = await runHealthChecks(pkg('lib', tmpRoot), getHealthChecks(), {
+      rootDir: tmpRoot,
+      licenseViolationPackages: new Set(['lib']),
+      resolvedDependencies: new Map([['lib', dependencies]]),
+    });
+
+    expect(results.map(({ id, status, score }) => [id, status, score])).toEqual([
+      ['build', 'pass', 1],
+      ['coverage', 'warn', 0.64],
+      ['lint', 'skip', 0],
+      ['typecheck', 'skip', 0],
+      ['security', 'fail', 0],
+      ['dependencies', 'warn', 0.6],
+    ]);
+    expect(results.find(result => result.id === 'security')?.message).toBe('Depends on a disallowed license');
+  });
+
+  test('scores advisories by severity and records them', async () => {
+    const advisory = (id: string, severity: Advisory['severity']): Advisory => ({
+      id,
+      severity,
+      title: id,
+      moduleName: 'qs',
+      vulnerableVersions: '<6.10.3',
+      patchedVersions: '>=6.10.3',
+      url: null,
+      paths: ['express>qs'],
+    });
+    (funAuditPackage as jest.Mock).mockResolvedValueOnce([advisory('a', 'moderate'), advisory('b', 'low')]);
+    const advisories = new Map<string, Advisory[]>();
+
+    const security = getHealthChecks().filter(check => check.id === 'security');
+    const [result] = await runHealthChecks(pkg('lib', tmpRoot), security, {
+      rootDir: tmpRoot,
+      advisories,
+      severityWeights: { low: 0.1 },
+    });
+
+    expect(result).toMatchObject({ status: 'warn', value: 2, message: '2 advisories (1 moderate, 1 low)' });
+    expect(result.score).toBeCloseTo(0.7);
+    expect(advisories.get('lib')?.map(item => item.id)).toEqual(['a', 'b']);
+    expect(funAuditPackage).toHaveBeenCalledWith(expect.objectContaining({ name: 'lib' }), tmpRoot, expect.anything());
+  });
+
+  test('fails on type errors and records the report', async () => {
+    const report: TypeCheckReport = {
+      errorCount: 2,
+      warningCount: 1,
+      durationMs: 800,
+      diagnostics: [
+        { file: 'src/index.ts', line: 1, column: 7, category: 'error', code: 2322, message: 'Type mismatch' },
+      ],
+    };
+    const output = { command: 'pnpm exec tsc', exitCode: 2, stdout: '', stderr: '', durationMs: 800, timedOut: false };
+    (funTypeCheckPackage as jest.Mock).mockResolvedValueOnce({ report, output });
+    const typeChecks = new Map<string, TypeCheckReport>();
+
+    const checks = getHealthChecks().filter(check => check.id === 'typecheck');
+    const [result] = await runHealthChecks(pkg('lib', tmpRoot), checks, { rootDir: tmpRoot, typeChecks });
+
+    expect(result).toMatchObject({ status: 'fail', score: 0, value: 2, message: '2 errors, 1 warning' });
+    expect(typeChecks.get('lib')).toBe(report);
+  });
+
+  test('custom file and script checks', async () => {
+    fs.writeFileSync(path.join(tmpRoot, 'README.md'), '# lib');
+    const context = { rootDir: tmpRoot };
+
+    const readme = createCustomHealthCheck({ id: 'readme', type: 'file-exists', path: 'README.md' });
+    const changelog = createCustomHealthCheck({ id: 'changelog', type: 'file-exists', path: 'CHANGELOG.md' });
+    expect(await readme.run(pkg('lib', tmpRoot), context)).toEqual({ status: 'pass' });
+    expect(await changelog.run(pkg('lib', tmpRoot), context)).toEqual({
+      status: 'fail',
+      message: 'CHANGELOG.md is missing',
+    });
+
+    const typecheck = createCustomHealthCheck({ id: 'typecheck', type: 'script', script: 'typecheck' });
+    expect(typecheck.name).toBe('Script: typecheck');
+    expect(await typecheck.run(pkg('lib', tmpRoot), context)).toEqual({
+      status: 'skip',
+      message: 'No typecheck script',
+    });
+  });
+
+  test('keeps the output of a failed script and passes the configured timeout', async () => {
+    const output = {
+      command: 'pnpm run lint',
+      exitCode: 1,
+      stdout: '',
+      stderr: 'src/index.ts: no-unused-vars',
+      durationMs: 900,
+      timedOut: false,
+    };
+    (funRunPackageScript as jest.Mock).mockResolvedValueOnce(output);
+
+    const checks = getHealthChecks({ checks: { lint: { timeoutMs: 5000 } } }).filter(check => check.id === 'lint');
+    const [result] = await runHealthChecks(pkg('lib', tmpRoot, { lint: 'eslint .' }), checks, { rootDir: tmpRoot });
+
+    expect(result).toMatchObject({ status: 'fail', message: 'lint script failed with exit code 1', output });
+    expect(funRunPackageScript).toHaveBeenLastCalledWith(expect.anything(), 'lint', {
+      timeoutMs: 5000,
+      signal: undefined,
+    });
+  });
+
+  test('a check that throws is skipped', async () => {
+    registerHealthCheck({
+      id: 'flaky',
+      name: 'Flaky',
+      weight: 10,
+      run: async () => {
+        throw new Error('boom');
+      },
+    });
+
+    const checks = getHealthChecks().filter(check => check.id === 'flaky');
+    const [result] = await runHealthChecks(pkg('lib', tmpRoot), checks, { rootDir: tmpRoot });
+    expect(result).toMatchObject({ id: 'flaky', status: 'skip', score: 0, weight: 10 });
+  });
+});
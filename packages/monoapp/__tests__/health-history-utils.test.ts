@@ -0,0 +1,93 @@
+import {
+  buildPackageSnapshot,
+  buildRepositorySnapshot,
+  calculateHealthTrend,
+} from '../src/utils/health-history-utils';
+import type { HealthCheckResult, HealthSnapshot } from '../src/types';
+
+function result(id: string, status: HealthCheckResult['status'], score: number): HealthCheckResult {
+  return { id, name: id, status, score, weight: 10 };
+}
+
+function snapshot(overallScore: number, checkScores: Record<string, number> = {}): HealthSnapshot {
+  return {
+    packageName: 'a',
+    overallScore,
+    checkScores,
+    packageCount: 1,
+    healthyCount: 0,
+    createdAt: new Date(),
+  };
+}
+
+describe('health history utils', () => {
+  const refreshedAt = new Date('2026-10-19T10:00:00Z');
+
+  test('package snapshots keep the score of every check that ran', () => {
+    const packageSnapshot = buildPackageSnapshot(
+      'a',
+      85,
+      [result('build', 'pass', 1), result('lint', 'skip', 0), result('coverage', 'warn', 0.6)],
+      refreshedAt
+    );
+
+    expect(packageSnapshot).toEqual({
+      packageName: 'a',
+      overallScore: 85,
+      checkScores: { build: 1, coverage: 0.6 },
+      packageCount: 1,
+      healthyCount: 1,
+      createdAt: refreshedAt,
+    });
+  });
+
+  test('the monorepo snapshot averages packages and each check over the packages it ran for', () => {
+    const repository = buildRepositorySnapshot(
+      [
+        buildPackageSnapshot('a', 90, [result('build', 'pass', 1), result('coverage', 'warn', 0.6)], refreshedAt),
+        buildPackageSnapshot('b', 55, [result('build', 'fail', 0)], refreshedAt),
+        buildPackageSnapshot('c', 80, [result('build', 'pass', 1)], refreshedAt),
+      ],
+      refreshedAt
+    );
+
+    expect(repository).toEqual({
+      packageName: null,
+      overallScore: 75,
+      checkScores: { build: 0.67, coverage: 0.6 },
+      packageCount: 3,
+      healthyCount: 2,
+      createdAt: refreshedAt,
+    });
+    expect(buildRepositorySnapshot([], refreshedAt).overallScore).toBe(0);
+  });
+
+  test('trends report the change over the range and since the previous snapshot', () => {
+    const trend = calculateHealthTrend('a', [
+      snapshot(70, { build: 0, lint: 1 }),
+      snapshot(78, { build: 1, lint: 1 }),
+      snapshot(75, { build: 1, lint: 0.5, coverage: 0.8 }),
+    ]);
+
+    expect(trend).toEqual({
+      packageName: 'a',
+      snapshotCount: 3,
+      first: 70,
+      latest: 75,
+      delta: 5,
+      previousDelta: -3,
+      direction: 'up',
+      checkDeltas: { build: 1, lint: -0.5 },
+    });
+
+    expect(calculateHealthTrend('a', [snapshot(80), snapshot(79.5)]).direction).toBe('stable');
+    expect(calculateHealthTrend('a', [snapshot(80), snapshot(60)]).direction).toBe('down');
+    expect(calculateHealthTrend(null, [])).toMatchObject({
+      snapshotCount: 0,
+      first: null,
+      latest: null,
+      delta: 0,
+      direction: 'stable',
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  applyCheckOverrides,
+  describeCheckPolicies,
+  getHealthLevel,
+  resolvePackageHealthPolicy,
+  resolveThresholds,
+} from '../src/utils/health-policy-utils';
+import type { HealthCheck, HealthConfig } from '../src/types';
+
+function check(id: string, weight: number): HealthCheck {
+  return { id, name: id, weight, run: async () => ({ status: 'pass' }) };
+}
+
+describe('health policy utils', () => {
+  const config: HealthConfig = {
+    thresholds: { healthy: 85 },
+    checks: { coverage: { weight: 10 } },
+    policies: [
+      {
+        name: 'experimental',
+        tags: ['experimental'],
+        checks: { lint: { enabled: false } },
+        thresholds: { healthy: 60, warning: 40 },
+      },
+      { packages: ['@acme/legacy-*'], checks: { coverage: { enabled: false } } },
+    ],
+  };
+
+  test('thresholds fall back to the defaults and keep warning below healthy', () => {
+    expect(resolveThresholds()).toEqual({ healthy: 80, warning: 60 });
+    expect(resolveThresholds({ healthy: 50 })).toEqual({ healthy: 50, warning: 50 });
+    expect(resolveThresholds({ healthy: 120, warning: -5 })).toEqual({ healthy: 100, warning: 0 });
+
+    expect(getHealthLevel(80)).toBe('healthy');
+    expect(getHealthLevel(79)).toBe('warning');
+    expect(getHealthLevel(59)).toBe('error');
+    expect(getHealthLevel(65, { healthy: 60, warning: 40 })).toBe('healthy');
+  });
+
+  test('matching policies apply in order on top of the repository settings', () => {
+    expect(resolvePackageHealthPolicy(config, '@acme/app', ['scope:app'])).toEqual({
+      policies: [],
+      thresholds: { healthy: 85, warning: 60 },
+      checks: { coverage: { weight: 10 } },
+    });
+
+    expect(resolvePackageHealthPolicy(config, '@acme/legacy-ui', ['experimental'])).toEqual({
+      policies: ['experimental', 'policies[1]'],
+      thresholds: { healthy: 60, warning: 40 },
+      checks: { coverage: { weight: 10, enabled: false }, lint: { enabled: false } },
+    });
+  });
+
+  test('overrides disable, reweight and time out checks', () => {
+    const checks = [check('build', 30), check('lint', 25), check('coverage', 25)];
+    const overrides = { lint: { enabled: false }, coverage: { weight: -1, timeoutMs: 1000 } };
+
+    expect(applyCheckOverrides(checks, overrides).map(({ id, weight, timeoutMs }) => ({ id, weight, timeoutMs }))).toEqual([
+      { id: 'build', weight: 30, timeoutMs: undefined },
+      { id: 'coverage', weight: 0, timeoutMs: 1000 },
+    ]);
+    expect(describeCheckPolicies(checks, overrides)).toEqual([
+      { id: 'build', name: 'build', weight: 30, enabled: true },
+      { id: 'lint', name: 'lint', weight: 25, enabled: false },
+      { id: 'coverage', name: 'coverage', weight: 0, enabled: true, timeoutMs: 1000 },
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  analyzeDependencyHygiene,
+  extractImports,
+  getImportedPackageName,
+} from '../src/utils/import-analysis-utils';
+import type { PackageInfo } from '../src/types';
+
+function pkg(name: string, pkgPath: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: pkgPath,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+function writeFile(filePath: string, content: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe('import analysis', () => {
+  test('extracts static, dynamic and require imports but not commented ones', () => {
+    const imports = extractImports(`
+import React, { useState } from 'react';
+import type { Config } from "@scope/config/types";
+import './styles.css';
+export { helper } from '../helper';
+export * from 'lodash/fp';
+const fs = require('fs');
+const lazy = await import('chart.js');
+// import ignored from 'commented';
+/* require('also-commented') */
+const url = 'http://example.com';
+`);
+
+    expect(imports).toEqual([
+      { specifier: 'react', typeOnly: false },
+      { specifier: '@scope/config/types', typeOnly: true },
+      { specifier: './styles.css', typeOnly: false },
+      { specifier: '../helper', typeOnly: false },
+      { specifier: 'lodash/fp', typeOnly: false },
+      { specifier: 'fs', typeOnly: false },
+      { specifier: 'chart.js', typeOnly: false },
+    ]);
+  });
+
+  test('maps specifiers to package names', () => {
+    expect(getImportedPackageName('lodash/fp')).toBe('lodash');
+    expect(getImportedPackageName('@scope/pkg/sub/path')).toBe('@scope/pkg');
+    expect(getImportedPackageName('./local')).toBeNull();
+    expect(getImportedPackageName('fs/promises')).toBeNull();
+    expect(getImportedPackageName('node:path')).toBeNull();
+    expect(getImportedPackageName('@/components/Button')).toBeNull();
+  });
+
+  describe('analyzeDependencyHygiene', () => {
+    let tmpRoot: string;
+
+    beforeEach(() => {
+      tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-imports-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpRoot, { recursive: true, force: true });
+    });
+
+    test('reports unused, missing and undeclared internal dependencies', () => {
+      const webPath = path.join(tmpRoot, 'packages', 'web');
+      writeFile(
+        path.join(webPath, 'src', 'index.tsx'),
+        `import React from 'react';
+import { format } from 'date-fns';
+import { Button } from '@ws/ui';
+import type { Request } from 'express';
+import { helper } from './helper';`
+      );
+      writeFile(path.join(webPath, 'src', 'helper.ts'), `export const helper = require('@ws/utils');`);
+      writeFile(path.join(webPath, 'src', 'types.d.ts'), `import 'declared-only-in-types';`);
+      writeFile(path.join(webPath, 'dist', 'index.js'), `require('bundled');`);
+      writeFile(path.join(webPath, 'node_modules', 'eslint', 'package.json'), '{"bin":{"eslint":"bin/eslint.js"}}');
+
+      const web = pkg('@ws/web', webPath, {
+        dependencies: { react: '^18.0.0', lodash: '^4.0.0', '@ws/utils': 'workspace:*' },
+        devDependencies: { '@types/express': '^4.0.0', '@types/react': '^18.0.0', eslint: '^8.0.0' },
+        scripts: { lint: 'eslint src' },
+      });
+      const report = analyzeDependencyHygiene([
+        web,
+        pkg('@ws/ui', path.join(tmpRoot, 'packages', 'ui')),
+        pkg('@ws/utils', path.join(tmpRoot, 'packages', 'utils')),
+      ]);
+
+      expect(report.packages[0]).toEqual({
+        packageName: '@ws/web',
+        filesScanned: 2,
+        unused: [{ name: 'lodash', type: 'prod' }],
+        missing: [{ name: 'date-fns', files: ['src/index.tsx'] }],
+        undeclaredInternal: [{ name: '@ws/ui', files: ['src/index.tsx'] }],
+      });
+      expect(report.unused).toBe(1);
+      expect(report.missing).toBe(1);
+      expect(report.undeclaredInternal).toBe(1);
+    });
+
+    test('analyzes only the selected packages against every workspace name', () => {
+      const apiPath = path.join(tmpRoot, 'packages', 'api');
+      writeFile(path.join(apiPath, 'index.js'), `const ui = require('@ws/ui');`);
+      writeFile(path.join(apiPath, 'nested', 'package.json'), '{}');
+      writeFile(path.join(apiPath, 'nested', 'index.js'), `require('skipped');`);
+
+      const report = analyzeDependencyHygiene(
+        [pkg('@ws/api', apiPath), pkg('@ws/ui', path.join(tmpRoot, 'packages', 'ui'))],
+        [pkg('@ws/api', apiPath)]
+      );
+
+      expect(report.packages).toHaveLength(1);
+      expect(report.packages[0].undeclaredInternal).toEqual([{ name: '@ws/ui', files: ['index.js'] }]);
+      expect(report.packages[0].missing).toEqual([]);
+    });
+  });
+});
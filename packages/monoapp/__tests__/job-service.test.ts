@@ -0,0 +1,181 @@
+jest.mock('../src/repositories', () => {
+  let nextId = 0;
+  return {
+    JobRepository: {
+      create: jest.fn().mockImplementation(async (type: string) => ({
+        id: `job-${++nextId}`,
+        type,
+        status: 'queued',
+        progressCompleted: 0,
+        progressTotal: 0,
+        result: null,
+        error: null,
+        createdAt: new Date(),
+        startedAt: null,
+        finishedAt: null,
+      })),
+      update: jest.fn().mockResolvedValue(undefined),
+      findById: jest.fn().mockResolvedValue(null),
+    },
+  };
+});
+
+jest.mock('../src/services/health-service', () => ({ healthRefreshService: jest.fn() }));
+jest.mock('../src/services/package-service', () => ({ refreshPackagesService: jest.fn() }));
+jest.mock('../src/services/changeset-service', () => ({ runPublishJob: jest.fn() }));
+
+import { JobRepository } from '../src/repositories';
+import { healthRefreshService } from '../src/services/health-service';
+import { refreshPackagesService } from '../src/services/package-service';
+import { runPublishJob } from '../src/services/changeset-service';
+import {
+  cancelJobService,
+  createJobService,
+  getJobService,
+  subscribeToJob,
+  waitForJobService,
+} from '../src/services/job-service';
+import { throwIfCancelled } from '../src/utils/job-utils';
+import type { JobContext, JobStreamEvent } from '../src/types';
+
+function collectEvents(id: string): Promise<JobStreamEvent[]> {
+  return new Promise(resolve => {
+    const events: JobStreamEvent[] = [];
+    subscribeToJob(id, 0, event => events.push(event), () => resolve(events));
+  });
+}
+
+describe('job service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('streams per-package progress and stores the result', async () => {
+    (refreshPackagesService as jest.Mock).mockImplementation(async (_root: string, context: JobContext) => {
+      context.setTotal(2);
+      for (const name of ['a', 'b']) {
+        context.packageStarted(name);
+        context.packageFinished(name, true, 'added');
+      }
+      return { summary: { added: ['a', 'b'], removed: [], changed: [], unchanged: [] }, packages: [] };
+    });
+
+    const { job, created } = await createJobService('/repo', 'package-refresh');
+    expect(created).toBe(true);
+    const events = await collectEvents(job.id);
+
+    expect(events.map(event => event.type)).toEqual([
+      'status',
+      'status',
+      'progress',
+      'package-start',
+      'package-finish',
+      'progress',
+      'package-start',
+      'package-finish',
+      'progress',
+      'status',
+    ]);
+    expect(events.map(event => event.sequence)).toEqual(events.map((_, index) => index + 1));
+
+    const finished = await getJobService(job.id);
+    expect(finished).toMatchObject({ status: 'succeeded', progress: { completed: 2, total: 2 } });
+    expect(finished?.result).toEqual({ summary: { added: ['a', 'b'], removed: [], changed: [], unchanged: [] } });
+    expect(JobRepository.update).toHaveBeenLastCalledWith(job.id, expect.objectContaining({ status: 'succeeded' }));
+  });
+
+  test('returns the active job instead of starting the same type twice', async () => {
+    let finish: () => void = () => undefined;
+    (healthRefreshService as jest.Mock).mockImplementation(
+      () => new Promise(resolve => (finish = () => resolve({ summary: { total: 0 } })))
+    );
+
+    const first = await createJobService('/repo', 'health-refresh');
+    const second = await createJobService('/repo', 'health-refresh');
+    expect(second).toEqual({ job: first.job, created: false });
+    expect(JobRepository.create).toHaveBeenCalledTimes(1);
+
+    const ended = collectEvents(first.job.id);
+    await new Promise(resolve => setImmediate(resolve));
+    finish();
+    await ended;
+
+    const third = await createJobService('/repo', 'health-refresh');
+    expect(third.created).toBe(true);
+    const thirdEnded = collectEvents(third.job.id);
+    await new Promise(resolve => setImmediate(resolve));
+    finish();
+    await thirdEnded;
+  });
+
+  test('starts one job when the same type is requested concurrently', async () => {
+    let finish: () => void = () => undefined;
+    (refreshPackagesService as jest.Mock).mockImplementation(
+      () => new Promise(resolve => (finish = () => resolve({ summary: {} })))
+    );
+
+    const [first, second] = await Promise.all([
+      createJobService('/repo', 'package-refresh'),
+      createJobService('/repo', 'package-refresh'),
+    ]);
+    expect(first.created).toBe(true);
+    expect(second).toEqual({ job: first.job, created: false });
+    expect(JobRepository.create).toHaveBeenCalledTimes(1);
+
+    const ended = collectEvents(first.job.id);
+    await new Promise(resolve => setImmediate(resolve));
+    finish();
+    await ended;
+  });
+
+  test('waits for a joined job to finish, including when it is cancelled', async () => {
+    (healthRefreshService as jest.Mock).mockImplementation(
+      (_root: string, context: JobContext) =>
+        new Promise((_, reject) => context.signal.addEventListener('abort', () => reject(new Error('aborted'))))
+    );
+
+    const { job } = await createJobService('/repo', 'health-refresh');
+    const waiting = waitForJobService(job.id);
+    await new Promise(resolve => setImmediate(resolve));
+    await cancelJobService(job.id);
+
+    expect(await waiting).toMatchObject({ id: job.id, status: 'cancelled' });
+    expect(await waitForJobService(job.id)).toMatchObject({ status: 'cancelled' });
+    expect(await waitForJobService('missing')).toBeNull();
+  });
+
+  test('stops a cancelled job at the next package', async () => {
+    (runPublishJob as jest.Mock).mockImplementation(async (_root: string, context: JobContext) => {
+      context.setTotal(2);
+      await new Promise<void>(resolve => context.signal.addEventListener('abort', () => resolve()));
+      throwIfCancelled(context);
+      context.packageStarted('never');
+    });
+
+    const { job } = await createJobService('/repo', 'publish');
+    const ended = collectEvents(job.id);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await cancelJobService(job.id)).toMatchObject({ cancelled: true });
+    const events = await ended;
+
+    expect(events.some(event => event.type === 'package-start')).toBe(false);
+    expect(events[events.length - 1]).toMatchObject({ type: 'status', status: 'cancelled' });
+    expect(await cancelJobService(job.id)).toMatchObject({ cancelled: false, job: { status: 'cancelled' } });
+    expect(await cancelJobService('missing')).toBeNull();
+  });
+
+  test('records the error of a failed job', async () => {
+    (runPublishJob as jest.Mock).mockRejectedValue(new Error('No changesets to publish'));
+
+    const { job } = await createJobService('/repo', 'publish');
+    const events = await collectEvents(job.id);
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'status',
+      status: 'failed',
+      error: 'No changesets to publish',
+    });
+    expect((await getJobService(job.id))?.error).toBe('No changesets to publish');
+  });
+});
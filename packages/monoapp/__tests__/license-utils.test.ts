@@ -0,0 +1,128 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  buildLicenseReport,
+  evaluateLicense,
+  getDeclaredLicense,
+  licenseReportToCsv,
+} from '../src/utils/license-utils';
+import type { PackageInfo } from '../src/types';
+
+function pkg(name: string, pkgPath: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: pkgPath,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+function install(dir: string, manifest: Record<string, unknown>) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(manifest));
+}
+
+describe('license utils', () => {
+  test('reads license, license objects and legacy licenses arrays', () => {
+    expect(getDeclaredLicense({ license: 'MIT' })).toBe('MIT');
+    expect(getDeclaredLicense({ license: { type: 'ISC' } })).toBe('ISC');
+    expect(getDeclaredLicense({ licenses: [{ type: 'MIT' }, { type: 'Apache-2.0' }] })).toBe(
+      '(MIT OR Apache-2.0)'
+    );
+    expect(getDeclaredLicense({})).toBeNull();
+  });
+
+  test('evaluates SPDX expressions against allow and deny lists', () => {
+    const policy = { allow: ['MIT', 'Apache-2.0', 'GPL-2.0'], deny: ['GPL-3.0'] };
+
+    expect(evaluateLicense('MIT', policy)).toBe('allowed');
+    expect(evaluateLicense('GPL-3.0', policy)).toBe('denied');
+    expect(evaluateLicense('GPL-3.0+', policy)).toBe('denied');
+    expect(evaluateLicense('BSD-3-Clause', policy)).toBe('not-allowed');
+    expect(evaluateLicense('(MIT OR GPL-3.0)', policy)).toBe('allowed');
+    expect(evaluateLicense('MIT AND GPL-3.0', policy)).toBe('denied');
+    expect(evaluateLicense('GPL-2.0 WITH Classpath-exception-2.0', policy)).toBe('allowed');
+    expect(evaluateLicense('(MIT OR', policy)).toBe('unknown');
+    expect(evaluateLicense('SEE LICENSE IN LICENSE.md', policy)).toBe('unknown');
+    expect(evaluateLicense('BSD-3-Clause', { deny: ['GPL-3.0'] })).toBe('allowed');
+  });
+
+  describe('buildLicenseReport', () => {
+    let tmpRoot: string;
+
+    beforeEach(() => {
+      tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-licenses-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpRoot, { recursive: true, force: true });
+    });
+
+    test('walks node_modules and reports violations with their dependency chain', () => {
+      const webPath = path.join(tmpRoot, 'packages', 'web');
+      const uiPath = path.join(tmpRoot, 'packages', 'ui');
+      const rootModules = path.join(tmpRoot, 'node_modules');
+      install(webPath, { name: '@ws/web' });
+      install(uiPath, { name: '@ws/ui', dependencies: { react: '^18.0.0' } });
+      install(path.join(rootModules, 'react'), {
+        name: 'react',
+        version: '18.2.0',
+        license: 'MIT',
+        dependencies: { 'loose-envify': '^1.0.0' },
+      });
+      install(path.join(rootModules, 'loose-envify'), { name: 'loose-envify', version: '1.4.0', license: 'GPL-3.0' });
+      install(path.join(rootModules, 'mystery'), { name: 'mystery', version: '0.1.0' });
+      install(path.join(rootModules, 'jest'), { name: 'jest', version: '29.0.0', license: 'GPL-3.0' });
+      // Workspace packages are linked into node_modules
+      fs.mkdirSync(path.join(rootModules, '@ws'), { recursive: true });
+      fs.symlinkSync(uiPath, path.join(rootModules, '@ws', 'ui'), 'dir');
+
+      const packages = [
+        pkg('@ws/web', webPath, {
+          dependencies: { '@ws/ui': 'workspace:*', mystery: '^0.1.0', missing: '^1.0.0' },
+          devDependencies: { jest: '^29.0.0' },
+        }),
+        pkg('@ws/ui', uiPath, { dependencies: { react: '^18.0.0' } }),
+      ];
+
+      const report = buildLicenseReport(packages, { deny: ['GPL-3.0'] });
+
+      expect(report.inventory.map(item => [item.name, item.status, item.packages])).toEqual([
+        ['loose-envify', 'denied', ['@ws/web', '@ws/ui']],
+        ['mystery', 'unknown', ['@ws/web']],
+        ['react', 'allowed', ['@ws/web', '@ws/ui']],
+      ]);
+      expect(report.licenses).toEqual({ 'GPL-3.0': 1, UNKNOWN: 1, MIT: 1 });
+      expect(report.violations.map(violation => violation.chain)).toEqual([
+        ['@ws/web', '@ws/ui', 'react', 'loose-envify'],
+        ['@ws/ui', 'react', 'loose-envify'],
+      ]);
+
+      // Dev dependencies are opt-in and unknown licenses fail an allow list
+      const strict = buildLicenseReport(
+        [packages[0]],
+        { allow: ['MIT'], includeDev: true },
+        new Set(['@ws/web', '@ws/ui'])
+      );
+      expect(strict.violations.map(violation => [violation.name, violation.status])).toEqual([
+        ['mystery', 'unknown'],
+        ['jest', 'not-allowed'],
+        ['loose-envify', 'not-allowed'],
+      ]);
+
+      const csv = licenseReportToCsv(report).split('\n');
+      expect(csv[0]).toBe('"Package","Version","License","Status","Used By","Chain"');
+      expect(csv[1]).toBe(
+        '"loose-envify","1.4.0","GPL-3.0","denied","@ws/web @ws/ui","@ws/web > @ws/ui > react > loose-envify; @ws/ui > react > loose-envify"'
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  buildLockfileReport,
+  parseNpmLock,
+  parsePnpmLock,
+  parseYarnLock,
+} from '../src/utils/lockfile-utils';
+import type { PackageInfo } from '../src/types';
+
+function pkg(name: string, pkgPath: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: pkgPath,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+describe('lockfile utils', () => {
+  test('parses pnpm v6 importers and installed versions', () => {
+    const lockfile = parsePnpmLock(`
+lockfileVersion: '6.0'
+importers:
+  packages/web:
+    dependencies:
+      react:
+        specifier: ^18.0.0
+        version: 18.2.0
+      '@ws/ui':
+        specifier: workspace:*
+        version: link:../ui
+    devDependencies:
+      '@testing-library/react':
+        specifier: ^14.0.0
+        version: 14.1.2(react@18.2.0)
+packages:
+  /react@17.0.2:
+    resolution: {integrity: sha512-x}
+  /react@18.2.0:
+    resolution: {integrity: sha512-y}
+  /@testing-library/react@14.1.2(react@18.2.0):
+    resolution: {integrity: sha512-z}
+`);
+
+    expect(lockfile.resolve('packages/web', 'react', '^18.0.0')).toBe('18.2.0');
+    expect(lockfile.resolve('packages/web', '@testing-library/react', '^14.0.0')).toBe('14.1.2');
+    expect(lockfile.resolve('packages/web', '@ws/ui', 'workspace:*')).toBeNull();
+    expect(lockfile.resolve('packages/api', 'react', '^18.0.0')).toBeNull();
+    expect(Array.from(lockfile.versions.get('react')!)).toEqual(['17.0.2', '18.2.0']);
+    expect(Array.from(lockfile.versions.get('@testing-library/react')!)).toEqual(['14.1.2']);
+  });
+
+  test('parses pnpm v5 and v9 package keys', () => {
+    const v5 = parsePnpmLock(`
+lockfileVersion: 5.4
+importers:
+  .:
+    specifiers:
+      react-dom: ^18.0.0
+    dependencies:
+      react-dom: 18.2.0_react@18.2.0
+packages:
+  /react-dom/18.2.0_react@18.2.0:
+    resolution: {integrity: sha512-x}
+  /@babel/core/7.22.0:
+    resolution: {integrity: sha512-y}
+`);
+    expect(v5.resolve('.', 'react-dom', '^18.0.0')).toBe('18.2.0');
+    expect(Array.from(v5.versions.keys())).toEqual(['react-dom', '@babel/core']);
+
+    const v9 = parsePnpmLock(`
+lockfileVersion: '9.0'
+importers:
+  .:
+    dependencies:
+      lodash:
+        specifier: ^4.17.0
+        version: 4.17.21
+packages:
+  lodash@4.17.21:
+    resolution: {integrity: sha512-x}
+`);
+    expect(v9.resolve('.', 'lodash', '^4.17.0')).toBe('4.17.21');
+    expect(Array.from(v9.versions.get('lodash')!)).toEqual(['4.17.21']);
+  });
+
+  test('resolves package-lock.json entries through nested node_modules', () => {
+    const lockfile = parseNpmLock(
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'root' },
+          'node_modules/react': { version: '18.2.0' },
+          'node_modules/@ws/ui': { resolved: 'packages/ui', link: true },
+          'packages/legacy/node_modules/react': { version: '17.0.2' },
+        },
+      })
+    );
+
+    expect(lockfile.resolve('packages/web', 'react', '^18.0.0')).toBe('18.2.0');
+    expect(lockfile.resolve('packages/legacy', 'react', '^17.0.0')).toBe('17.0.2');
+    expect(lockfile.resolve('packages/web', '@ws/ui', '*')).toBeNull();
+    expect(Array.from(lockfile.versions.get('react')!)).toEqual(['18.2.0', '17.0.2']);
+  });
+
+  test('parses classic and berry yarn.lock descriptors', () => {
+    const classic = parseYarnLock(`# yarn lockfile v1
+
+"@babel/core@^7.0.0", "@babel/core@^7.22.0":
+  version "7.22.5"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.22.5.tgz"
+
+lodash@^4.17.0:
+  version "4.17.21"
+`);
+    expect(classic.resolve('.', '@babel/core', '^7.0.0')).toBe('7.22.5');
+    expect(classic.resolve('.', 'lodash', '^4.17.0')).toBe('4.17.21');
+
+    const berry = parseYarnLock(`__metadata:
+  version: 6
+
+"react@npm:^18.2.0":
+  version: 18.2.0
+  resolution: "react@npm:18.2.0"
+
+"@ws/ui@workspace:packages/ui":
+  version: 0.0.0-use.local
+`);
+    expect(berry.resolve('.', 'react', '^18.2.0')).toBe('18.2.0');
+    expect(berry.versions.has('@ws/ui')).toBe(false);
+  });
+
+  test('buildLockfileReport flags duplicates and out of range entries', () => {
+    const lockfile = parsePnpmLock(`
+lockfileVersion: '6.0'
+importers:
+  packages/web:
+    dependencies:
+      react:
+        specifier: ^18.0.0
+        version: 17.0.2
+  packages/docs:
+    dependencies:
+      react:
+        specifier: ^18.2.0
+        version: 18.2.0
+packages:
+  /react@17.0.2:
+    resolution: {integrity: sha512-x}
+  /react@18.2.0:
+    resolution: {integrity: sha512-y}
+`);
+    const packages = [
+      pkg('web', '/repo/packages/web', { dependencies: { react: '^18.0.0', docs: 'workspace:*' } }),
+      pkg('docs', '/repo/packages/docs', { dependencies: { react: '^18.2.0', 'left-pad': 'github:a/b' } }),
+    ];
+
+    const report = buildLockfileReport('/repo', packages, lockfile);
+    expect(report.lockfile).toBe('pnpm-lock.yaml');
+    expect(report.packages[0]).toEqual({
+      packageName: 'web',
+      path: 'packages/web',
+      dependencies: [{ name: 'react', type: 'prod', range: '^18.0.0', resolved: '17.0.2', satisfies: false }],
+    });
+    expect(report.packages[1].dependencies[1]).toMatchObject({ name: 'left-pad', resolved: null, satisfies: null });
+    expect(report.duplicates).toEqual([
+      {
+        name: 'react',
+        versions: ['17.0.2', '18.2.0'],
+        directDependents: [
+          { packageName: 'web', resolved: '17.0.2' },
+          { packageName: 'docs', resolved: '18.2.0' },
+        ],
+      },
+    ]);
+    expect(report.outOfRange.map(entry => entry.packageName)).toEqual(['web']);
+  });
+});
@@ -0,0 +1,123 @@
+import { createHmac } from 'crypto';
+
+import {
+  buildWebhookPayload,
+  evaluateNotificationRules,
+  getWebhookHost,
+  resolveSecret,
+  signWebhookPayload,
+} from '../src/utils/notification-utils';
+import type { HealthCheckStatus, HealthNotification, NotificationRuleConfig, PackageHealthState } from '../src/types';
+
+function state(packageName: string, score: number, security: HealthCheckStatus = 'pass'): PackageHealthState {
+  return {
+    packageName,
+    score,
+    checks: [
+      { id: 'build', name: 'Build', status: 'pass' },
+      { id: 'security', name: 'Security', status: security, message: security === 'fail' ? '1 advisory (1 high)' : undefined },
+    ],
+  };
+}
+
+describe('notification utils', () => {
+  const rules: NotificationRuleConfig[] = [
+    { name: 'unhealthy', type: 'score-below', threshold: 60 },
+    { type: 'score-dropped', points: 15, packages: ['@acme/api'] },
+    { name: 'security', type: 'check-status', check: 'security', from: 'pass', channels: ['security'] },
+  ];
+
+  test('rules fire on changes since the previous refresh', () => {
+    const previous = [state('@acme/api', 90), state('@acme/web', 55), state('@acme/ui', 80)];
+    const current = [state('@acme/api', 58, 'fail'), state('@acme/web', 40), state('@acme/ui', 78), state('@acme/new', 10)];
+
+    const notifications = evaluateNotificationRules(rules, previous, current);
+
+    expect(notifications.map(({ rule, packageName, severity }) => [rule, packageName, severity])).toEqual([
+      ['unhealthy', '@acme/api', 'error'],
+      ['rules[1]', '@acme/api', 'warning'],
+      ['security', '@acme/api', 'error'],
+    ]);
+    expect(notifications[2]).toMatchObject({
+      title: '@acme/api: Security went from pass to fail',
+      message: '1 advisory (1 high)',
+      check: { id: 'security', name: 'Security', from: 'pass', to: 'fail' },
+      channels: ['security'],
+      previousScore: 90,
+      score: 58,
+    });
+  });
+
+  test('rules can be limited by tag', () => {
+    const tagged: NotificationRuleConfig[] = [{ type: 'score-dropped', tags: ['scope:billing'] }];
+    const notifications = evaluateNotificationRules(
+      tagged,
+      [state('@acme/billing', 90), state('@acme/web', 90)],
+      [state('@acme/billing', 70), state('@acme/web', 70)],
+      { '@acme/billing': ['scope:billing'] }
+    );
+    expect(notifications.map(notification => notification.packageName)).toEqual(['@acme/billing']);
+  });
+
+  test('builds json, Slack and Teams payloads', () => {
+    const notifications: HealthNotification[] = [
+      {
+        rule: 'drop',
+        type: 'score-dropped',
+        severity: 'warning',
+        packageName: '@acme/web',
+        title: '@acme/web health dropped by 20 points',
+        message: 'Health score went from 90 to 70',
+        previousScore: 90,
+        score: 70,
+      },
+      {
+        rule: 'unhealthy',
+        type: 'score-below',
+        severity: 'error',
+        packageName: '@acme/api',
+        title: '@acme/api health fell below 60',
+        message: 'Health score went from 65 to 50',
+        previousScore: 65,
+        score: 50,
+      },
+    ];
+    const options = { dashboardUrl: 'http://localhost:3010/', sentAt: new Date('2026-10-19T18:00:00Z') };
+
+    const json = buildWebhookPayload('json', notifications, options);
+    expect(json).toMatchObject({ event: 'health.notifications', sentAt: '2026-10-19T18:00:00.000Z' });
+    expect((json.notifications as Array<{ packageName: string; url: string }>).map(item => item.url)).toEqual([
+      'http://localhost:3010/packages/%40acme%2Fapi',
+      'http://localhost:3010/packages/%40acme%2Fweb',
+    ]);
+
+    const slack = buildWebhookPayload('slack', notifications, options);
+    expect(slack.text).toBe('2 health alerts: @acme/api, @acme/web');
+    expect(slack.attachments).toEqual([
+      expect.objectContaining({ color: '#dc2626', title: '@acme/api health fell below 60' }),
+      expect.objectContaining({ color: '#d97706', title: '@acme/web health dropped by 20 points' }),
+    ]);
+
+    const teams = buildWebhookPayload('teams', notifications, options);
+    expect(teams).toMatchObject({ '@type': 'MessageCard', themeColor: 'dc2626', summary: '2 health alerts: @acme/api, @acme/web' });
+    expect((teams.sections as unknown[]).length).toBe(2);
+  });
+
+  test('signs the timestamp and body and reads secrets from the environment', () => {
+    const expected = createHmac('sha256', 'shh').update('1700000000.{"a":1}').digest('hex');
+    expect(signWebhookPayload('shh', '1700000000', '{"a":1}')).toBe(`sha256=${expected}`);
+
+    process.env.MONODOG_TEST_SECRET = 'from-env';
+    expect(resolveSecret('${MONODOG_TEST_SECRET}')).toBe('from-env');
+    expect(resolveSecret('plain')).toBe('plain');
+    delete process.env.MONODOG_TEST_SECRET;
+  });
+
+  test('shows only the host of a webhook URL', () => {
+    expect(getWebhookHost('https://hooks.slack.com/services/T000/B000/XXXX')).toBe('hooks.slack.com');
+    process.env.MONODOG_TEST_HOOK = 'http://localhost:9000/hook?token=abc';
+    expect(getWebhookHost('${MONODOG_TEST_HOOK}')).toBe('localhost:9000');
+    delete process.env.MONODOG_TEST_HOOK;
+    expect(getWebhookHost('${MONODOG_TEST_HOOK}')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+jest.mock('../src/repositories', () => ({
+  PackageRepository: {
+    findAll: jest.fn().mockResolvedValue([]),
+    upsert: jest.fn().mockResolvedValue(undefined),
+    updateContentHash: jest.fn().mockResolvedValue(undefined),
+  },
+  CommitRepository: { storeMany: jest.fn().mockResolvedValue(undefined) },
+  DependencyRepository: {
+    deleteStale: jest.fn().mockResolvedValue(undefined),
+    storeMany: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../src/utils/utilities', () => ({
+  ...jest.requireActual('../src/utils/utilities'),
+  scanMonorepo: jest.fn(),
+}));
+jest.mock('../src/services/commit-service', () => ({ getCommitsByPathService: jest.fn().mockResolvedValue([]) }));
+jest.mock('../src/utils/outdated-utils', () => ({
+  getDeclaredDependencies: jest.fn().mockReturnValue([]),
+  resolveDependencyStatuses: jest.fn().mockResolvedValue([{ name: 'react' }]),
+}));
+
+import { DependencyRepository, PackageRepository } from '../src/repositories';
+import { refreshPackagesService } from '../src/services/package-service';
+import { hashPackageContents, scanMonorepo } from '../src/utils/utilities';
+import type { PackageInfo } from '../src/types';
+
+function pkg(name: string): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: `/repo/packages/${name}`,
+    dependencies: { react: '^18.0.0' },
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+  };
+}
+
+describe('refreshPackagesService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('stores the content hash only once every write succeeded', async () => {
+    const packages = [pkg('a'), pkg('b')];
+    (scanMonorepo as jest.Mock).mockReturnValue(packages);
+    (DependencyRepository.storeMany as jest.Mock).mockImplementation(async (name: string) => {
+      if (name === 'b') throw new Error('database is locked');
+    });
+
+    const { summary } = await refreshPackagesService('/repo');
+
+    expect(summary).toMatchObject({ added: ['a'], changed: [], failed: ['b'] });
+    expect(PackageRepository.upsert).not.toHaveBeenCalledWith(expect.objectContaining({ contentHash: expect.anything() }));
+    expect(PackageRepository.updateContentHash).toHaveBeenCalledTimes(1);
+    expect(PackageRepository.updateContentHash).toHaveBeenCalledWith('a', hashPackageContents(packages[0]));
+  });
+});
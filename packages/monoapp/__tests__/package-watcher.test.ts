@@ -0,0 +1,128 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+jest.mock('../src/repositories', () => ({
+  PackageRepository: {
+    findAll: jest.fn().mockResolvedValue([{ name: 'stale' }, { name: '@ws/a' }]),
+  },
+}));
+
+jest.mock('../src/services/package-service', () => ({
+  storePackage: jest.fn().mockResolvedValue(undefined),
+  removePackage: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { PackageWatcher } from '../src/services/watcher-service';
+import { storePackage, removePackage } from '../src/services/package-service';
+import { PackageRepository } from '../src/repositories';
+import { hashPackageContents, scanMonorepo } from '../src/utils/utilities';
+
+function writeJson(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+describe('PackageWatcher', () => {
+  let tmpRoot: string;
+  let watcher: PackageWatcher;
+
+  beforeEach(() => {
+    tmpRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-watch-')));
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root' });
+    fs.writeFileSync(path.join(tmpRoot, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/*'\n");
+    writeJson(path.join(tmpRoot, 'packages', 'a', 'package.json'), { name: '@ws/a', version: '1.0.0' });
+    writeJson(path.join(tmpRoot, 'packages', 'b', 'package.json'), { name: '@ws/b', version: '1.0.0' });
+
+    // Events are applied through flush() so the debounce never fires during tests
+    watcher = new PackageWatcher(tmpRoot, 60 * 1000);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  // Stored packages as the database holds them, with the hash of the package on disk unless given
+  function mockStoredPackages(packages: Array<{ name: string; contentHash?: string }>) {
+    const hashes = new Map(scanMonorepo(tmpRoot).map(pkg => [pkg.name, hashPackageContents(pkg)]));
+    (PackageRepository.findAll as jest.Mock).mockResolvedValueOnce(
+      packages.map(pkg => ({ contentHash: hashes.get(pkg.name), ...pkg }))
+    );
+  }
+
+  test('reconciles the database on start', async () => {
+    mockStoredPackages([{ name: 'stale' }, { name: '@ws/a' }]);
+    await watcher.start();
+
+    expect(removePackage).toHaveBeenCalledWith('stale');
+    expect(storePackage).toHaveBeenCalledTimes(1);
+    expect((storePackage as jest.Mock).mock.calls[0][0].name).toBe('@ws/b');
+
+    const status = watcher.getStatus();
+    expect(status.running).toBe(true);
+    expect(status.watchedPackages).toBe(2);
+    expect(status.changes.map(c => `${c.type}:${c.packageName}`)).toEqual(['added:@ws/b', 'removed:stale']);
+  });
+
+  test('re-stores packages that changed while the server was not running', async () => {
+    mockStoredPackages([{ name: '@ws/a', contentHash: 'outdated' }, { name: '@ws/b' }]);
+    await watcher.start();
+
+    expect(storePackage).toHaveBeenCalledTimes(1);
+    const [pkg, contentHash] = (storePackage as jest.Mock).mock.calls[0];
+    expect(pkg.name).toBe('@ws/a');
+    expect(contentHash).toBe(hashPackageContents(pkg));
+    expect(watcher.getStatus().changes.map(c => `${c.type}:${c.packageName}`)).toEqual(['updated:@ws/a']);
+  });
+
+  test('upserts an edited package and ignores unchanged or half-written manifests', async () => {
+    await watcher.start();
+    jest.clearAllMocks();
+
+    const manifest = path.join(tmpRoot, 'packages', 'a', 'package.json');
+    writeJson(manifest, { name: '@ws/a', version: '1.1.0' });
+    watcher.handleEvent(path.dirname(manifest), 'package.json');
+    await watcher.flush();
+
+    expect(storePackage).toHaveBeenCalledTimes(1);
+    expect((storePackage as jest.Mock).mock.calls[0][0].version).toBe('1.1.0');
+    expect(watcher.getStatus().changes[0]).toMatchObject({
+      type: 'updated',
+      packageName: '@ws/a',
+      path: 'packages/a',
+      trigger: 'packages/a/package.json',
+    });
+
+    watcher.handleEvent(path.dirname(manifest), 'package.json');
+    fs.writeFileSync(path.join(tmpRoot, 'packages', 'b', 'package.json'), '{"name": "@ws/');
+    watcher.handleEvent(path.join(tmpRoot, 'packages', 'b'), 'package.json');
+    await watcher.flush();
+
+    expect(storePackage).toHaveBeenCalledTimes(1);
+    expect(removePackage).not.toHaveBeenCalled();
+  });
+
+  test('rescans membership when packages are added or removed', async () => {
+    await watcher.start();
+    jest.clearAllMocks();
+
+    writeJson(path.join(tmpRoot, 'packages', 'c', 'package.json'), { name: '@ws/c' });
+    fs.rmSync(path.join(tmpRoot, 'packages', 'b'), { recursive: true, force: true });
+    watcher.handleEvent(path.join(tmpRoot, 'packages'), 'c');
+    await watcher.flush();
+
+    expect(removePackage).toHaveBeenCalledWith('@ws/b');
+    expect((storePackage as jest.Mock).mock.calls.map(call => call[0].name)).toEqual(['@ws/c']);
+    expect(watcher.getStatus().watchedPackages).toBe(2);
+
+    // Workspace manifest changes drop packages that no longer match
+    fs.writeFileSync(path.join(tmpRoot, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/a'\n");
+    watcher.handleEvent(tmpRoot, 'pnpm-workspace.yaml');
+    await watcher.flush();
+
+    expect(removePackage).toHaveBeenCalledWith('@ws/c');
+    expect(watcher.getStatus().changes[0].trigger).toBe('pnpm-workspace.yaml');
+  });
+});
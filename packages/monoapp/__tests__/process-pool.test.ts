@@ -0,0 +1,47 @@
+import os from 'os';
+
+import { ProcessPool } from '../src/utils/process-pool';
+
+const node = JSON.stringify(process.execPath);
+
+describe('ProcessPool', () => {
+  const cwd = os.tmpdir();
+
+  test('captures output and exit codes', async () => {
+    const pool = new ProcessPool(2);
+    const result = await pool.run(
+      `${node} -e "console.log('out'); console.error('err'); process.exit(3)"`,
+      { cwd }
+    );
+
+    expect(result).toMatchObject({ exitCode: 3, stdout: 'out\n', stderr: 'err\n', timedOut: false });
+  });
+
+  test('runs no more commands at once than its concurrency', async () => {
+    const pool = new ProcessPool(1);
+    const sleep = `${node} -e "setTimeout(() => {}, 200)"`;
+
+    const runs = [pool.run(sleep, { cwd }), pool.run(sleep, { cwd })];
+    expect(pool.getStatus()).toEqual({ concurrency: 1, running: 1, queued: 1 });
+
+    const results = await Promise.all(runs);
+    expect(results.map(result => result.exitCode)).toEqual([0, 0]);
+    expect(pool.getStatus()).toEqual({ concurrency: 1, running: 0, queued: 0 });
+  });
+
+  test('kills commands that time out or are cancelled', async () => {
+    const pool = new ProcessPool(2);
+    const hang = `${node} -e "setTimeout(() => {}, 10000)"`;
+
+    const timedOut = await pool.run(hang, { cwd, timeoutMs: 100 });
+    expect(timedOut).toMatchObject({ exitCode: null, timedOut: true });
+
+    const controller = new AbortController();
+    const cancelled = pool.run(hang, { cwd, signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+    expect((await cancelled).exitCode).toBeNull();
+
+    const skipped = await pool.run(hang, { cwd, signal: controller.signal });
+    expect(skipped).toMatchObject({ exitCode: null, durationMs: 0 });
+  });
+});
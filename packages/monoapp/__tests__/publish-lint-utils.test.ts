@@ -0,0 +1,151 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import { isPublishedFile, lintPackageDirectory, lintPackageForPublish } from '../src/utils/publish-lint-utils';
+
+describe('publish lint utils', () => {
+  let tmpRoot: string;
+
+  const write = (relativePath: string, content = '') => {
+    const filePath = path.join(tmpRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const codes = (manifest: Record<string, unknown>) =>
+    lintPackageForPublish(tmpRoot, { name: 'lib', version: '1.0.0', ...manifest }).map(
+      ({ code, field }) => `${code} ${field}`
+    );
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-publish-lint-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('a built package with a complete manifest has no findings', () => {
+    write('package.json', '{}');
+    write('dist/index.js');
+    write('dist/index.mjs');
+    write('dist/index.d.ts');
+    write('dist/cli.js', '#!/usr/bin/env node\n');
+
+    expect(
+      codes({
+        main: './dist/index.js',
+        module: './dist/index.mjs',
+        types: './dist/index.d.ts',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.mjs', default: './dist/index.js' },
+          './package.json': './package.json',
+        },
+        bin: { lib: 'dist/cli.js' },
+        files: ['dist'],
+      })
+    ).toEqual([]);
+  });
+
+  test('reports entry points missing from the built output', () => {
+    write('dist/index.js');
+
+    expect(
+      codes({
+        main: 'dist/index',
+        types: 'dist/index.d.ts',
+        exports: { '.': './dist/index.js', './utils': './dist/utils.js', './features/*': './dist/features/*.js' },
+        bin: 'bin/cli.js',
+        files: ['dist', 'bin'],
+      })
+    ).toEqual([
+      'FILE_NOT_FOUND types',
+      'FILE_NOT_FOUND exports["./utils"]',
+      'FILE_NOT_FOUND exports["./features/*"]',
+      'FILE_NOT_FOUND bin',
+      'FILES_PATTERN_UNMATCHED files[1]',
+    ]);
+  });
+
+  test('checks exports keys, targets and condition order', () => {
+    write('dist/index.js');
+    write('dist/index.d.ts');
+
+    expect(codes({ exports: { '.': './dist/index.js', import: './dist/index.js' }, files: ['dist'] })).toEqual([
+      'EXPORTS_MIXED_KEYS exports',
+    ]);
+    expect(
+      codes({
+        exports: { default: './dist/index.js', types: './dist/index.d.ts', require: 'dist/index.js' },
+        files: ['dist'],
+      })
+    ).toEqual([
+      'EXPORTS_TYPES_NOT_FIRST exports.types',
+      'EXPORTS_DEFAULT_NOT_LAST exports.default',
+      'EXPORTS_INVALID_TARGET exports.require',
+    ]);
+  });
+
+  test('referenced files must be covered by the files allowlist', () => {
+    write('dist/index.js');
+    write('dist/index.d.ts');
+    write('dist/internal.js');
+
+    expect(
+      codes({
+        main: 'dist/index.js',
+        types: 'dist/index.d.ts',
+        exports: { '.': './dist/index.js', './internal': './dist/internal.js' },
+        files: ['dist/index.*'],
+      })
+    ).toEqual(['FILE_NOT_PUBLISHED exports["./internal"]']);
+
+    expect(isPublishedFile('dist/index.js', ['dist', '!dist/*.map'])).toBe(true);
+    expect(isPublishedFile('dist/index.js.map', ['dist', '!dist/*.map'])).toBe(false);
+    expect(isPublishedFile('README.md', [])).toBe(true);
+    expect(isPublishedFile('src/index.ts', ['dist/'])).toBe(false);
+  });
+
+  test('validates publishConfig and lints its entry point overrides', () => {
+    write('src/index.ts');
+    write('tsconfig.json', '{}');
+
+    expect(
+      lintPackageForPublish(tmpRoot, {
+        name: '@acme/lib',
+        version: '1.0.0',
+        main: 'src/index.ts',
+        files: ['src', 'dist'],
+        publishConfig: { access: 'everyone', registry: 'not a url', main: 'dist/index.js' },
+      }).map(({ code, field }) => `${code} ${field}`)
+    ).toEqual([
+      'PUBLISH_CONFIG_ACCESS publishConfig.access',
+      'PUBLISH_CONFIG_REGISTRY publishConfig.registry',
+      'FILE_NOT_FOUND publishConfig.main',
+      'TYPES_MISSING types',
+      'FILES_PATTERN_UNMATCHED files[1]',
+    ]);
+  });
+
+  test('flags a manifest without name, version, shebang or files allowlist', () => {
+    write('bin.js', 'console.log("hi");');
+
+    expect(lintPackageForPublish(tmpRoot, { bin: { tool: 'bin.js' } }).map(({ code }) => code)).toEqual([
+      'NAME_MISSING',
+      'VERSION_MISSING',
+      'BIN_NO_SHEBANG',
+      'FILES_MISSING',
+    ]);
+  });
+
+  test('skips private packages', () => {
+    write('package.json', JSON.stringify({ name: 'app', version: '1.0.0', private: true }));
+    expect(lintPackageDirectory(tmpRoot)).toEqual({
+      packageName: 'app',
+      path: tmpRoot,
+      private: true,
+      findings: [],
+    });
+  });
+});
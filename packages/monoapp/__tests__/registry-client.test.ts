@@ -0,0 +1,90 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import { RegistryClient } from '../src/utils/registry-client';
+import { getDependencyStatus, summarizeDependencyStatus } from '../src/utils/outdated-utils';
+import type { DependencyInfo } from '../src/types';
+
+function jsonResponse(status: number, body: unknown) {
+  return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+describe('RegistryClient', () => {
+  let cacheDir: string;
+  let fetchMock: jest.Mock;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-registry-'));
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  test('fetches from the configured registry and serves repeats from the disk cache', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(200, { 'dist-tags': { latest: '7.1.0' }, versions: { '7.0.0': {}, '7.1.0': {} } })
+    );
+    const client = new RegistryClient({ url: 'http://localhost:4873/', cacheDir });
+
+    const [first, second] = await Promise.all([client.getMetadata('@scope/pkg'), client.getMetadata('@scope/pkg')]);
+    expect(first).toEqual({ name: '@scope/pkg', latest: '7.1.0', versions: ['7.0.0', '7.1.0'] });
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:4873/@scope%2fpkg');
+
+    // A new client reuses the cached file
+    await new RegistryClient({ url: 'http://localhost:4873', cacheDir }).getMetadata('@scope/pkg');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('offline mode never hits the network and stale entries survive registry errors', async () => {
+    fs.writeFileSync(
+      path.join(cacheDir, 'left-pad.json'),
+      JSON.stringify({ fetchedAt: 0, metadata: { name: 'left-pad', latest: '1.3.0', versions: ['1.3.0'] } })
+    );
+
+    const offline = new RegistryClient({ cacheDir, offline: true });
+    expect((await offline.getMetadata('left-pad'))?.latest).toBe('1.3.0');
+    expect(await offline.getMetadata('react')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const online = new RegistryClient({ cacheDir, cacheTtlMinutes: 1 });
+    expect((await online.getMetadata('left-pad'))?.latest).toBe('1.3.0');
+
+    fetchMock.mockResolvedValue(jsonResponse(404, {}));
+    expect(await online.getMetadata('private-pkg')).toBeNull();
+  });
+});
+
+describe('dependency status', () => {
+  const metadata = { name: 'react', latest: '18.2.0', versions: ['16.14.0', '17.0.2', '18.1.0', '18.2.0'] };
+
+  test.each([
+    ['^18.0.0', 'up-to-date'],
+    ['~18.1.0', 'outdated'],
+    ['^17.0.0', 'major-update'],
+    ['^19.0.0-rc.0', 'up-to-date'],
+    ['workspace:*', 'unknown'],
+    ['github:facebook/react', 'unknown'],
+  ])('%s is %s', (range, expected) => {
+    expect(getDependencyStatus(range, metadata)).toBe(expected);
+  });
+
+  test('treats a newer 0.x minor as a major update and summarizes packages', () => {
+    expect(getDependencyStatus('^0.3.0', { name: 'x', latest: '0.4.1', versions: ['0.3.2', '0.4.1'] })).toBe('major-update');
+    expect(getDependencyStatus('^1.0.0', null)).toBe('unknown');
+
+    const deps = (statuses: DependencyInfo['status'][]) =>
+      statuses.map(status => ({ name: 'x', version: '1', type: 'dependency' as const, status }));
+    expect(summarizeDependencyStatus(deps(['up-to-date', 'outdated']))).toBe('outdated');
+    expect(summarizeDependencyStatus(deps(['major-update', 'outdated']))).toBe('major-update');
+    expect(summarizeDependencyStatus(deps(['unknown']))).toBe('unknown');
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  compareVersions,
+  maxSatisfying,
+  resolveDeclaredRange,
+  satisfies,
+  satisfiesLocalVersion,
+} from '../src/utils/semver-utils';
+
+describe('semver utils', () => {
+  test.each([
+    ['1.2.3', '^1.0.0', true],
+    ['2.0.0', '^1.0.0', false],
+    ['0.2.5', '^0.2.0', true],
+    ['0.3.0', '^0.2.0', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.2.9', '~1.2.0', true],
+    ['1.3.0', '~1.2.0', false],
+    ['1.9.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['5.0.0', '*', true],
+    ['1.5.0', '>=1.2.0 <2.0.0', true],
+    ['2.0.0', '>= 1.2.0 < 2.0.0', false],
+    ['2.5.0', '1.0.0 - 2', true],
+    ['3.0.0', '1.0.0 - 2', false],
+    ['3.1.0', '^1.0.0 || ^3.0.0', true],
+    ['1.1.0', '<=1.0', false],
+    ['2.0.0-beta.2', '^2.0.0-beta.1', true],
+    ['2.1.0-beta.1', '^2.0.0', false],
+    ['1.0.0', 'latest', false],
+  ])('%s satisfies %s: %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  test('compareVersions orders prereleases before releases', () => {
+    expect(compareVersions('1.0.0-alpha', '1.0.0')).toBe(-1);
+    expect(compareVersions('1.0.0-alpha.1', '1.0.0-alpha.beta')).toBe(-1);
+    expect(compareVersions('1.10.0', '1.9.0')).toBe(1);
+    expect(maxSatisfying(['1.0.0', '1.5.0', '2.0.0'], '^1.0.0')).toBe('1.5.0');
+  });
+
+  test('resolves workspace protocol ranges against the local version', () => {
+    expect(resolveDeclaredRange('workspace:^', '1.2.3')).toBe('^1.2.3');
+    expect(resolveDeclaredRange('workspace:*', '1.2.3')).toBe('*');
+    expect(resolveDeclaredRange('npm:@scope/pkg@^2.0.0', '1.2.3')).toBe('^2.0.0');
+
+    expect(satisfiesLocalVersion('workspace:~', '0.1.0')).toBe(true);
+    expect(satisfiesLocalVersion('workspace:^2.0.0', '1.2.3')).toBe(false);
+    expect(satisfiesLocalVersion('link:../local', '0.0.0')).toBe(true);
+  });
+});
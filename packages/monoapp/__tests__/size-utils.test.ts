@@ -0,0 +1,89 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  findSizeHistoryRegressions,
+  findSizeRegressions,
+  getOutputSize,
+  getPackedSize,
+  measurePackageSize,
+} from '../src/utils/size-utils';
+import type { PackageSizeSnapshot } from '../src/types';
+
+function snapshot(commitHash: string, sizes: Partial<PackageSizeSnapshot> = {}): PackageSizeSnapshot {
+  return {
+    packageName: '@ws/ui',
+    commitHash,
+    sourceSize: 1000,
+    sourceFiles: 10,
+    outputSize: 2000,
+    packedSize: 500,
+    unpackedSize: 1500,
+    createdAt: new Date(0),
+    ...sizes,
+  };
+}
+
+describe('size utils', () => {
+  let tmpRoot: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-sizes-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('measures source and build output separately', async () => {
+    fs.mkdirSync(path.join(tmpRoot, 'src'));
+    fs.mkdirSync(path.join(tmpRoot, 'dist', 'esm'), { recursive: true });
+    fs.mkdirSync(path.join(tmpRoot, 'build'));
+    fs.writeFileSync(path.join(tmpRoot, 'package.json'), JSON.stringify({ name: 'ui', version: '1.0.0' }));
+    fs.writeFileSync(path.join(tmpRoot, 'src', 'index.ts'), 'x'.repeat(100));
+    fs.writeFileSync(path.join(tmpRoot, 'dist', 'esm', 'index.js'), 'x'.repeat(300));
+    fs.writeFileSync(path.join(tmpRoot, 'build', 'index.js'), 'x'.repeat(50));
+
+    expect(getOutputSize(tmpRoot)).toBe(350);
+
+    const measurement = await measurePackageSize(tmpRoot);
+    expect(measurement.sourceFiles).toBe(2);
+    expect(measurement.sourceSize).toBe(100 + fs.statSync(path.join(tmpRoot, 'package.json')).size);
+    expect(measurement.outputSize).toBe(350);
+  });
+
+  test('returns null when npm pack fails', async () => {
+    expect(await getPackedSize(path.join(tmpRoot, 'missing'))).toBeNull();
+  });
+
+  test('flags metrics growing past the threshold', () => {
+    const previous = snapshot('aaa');
+    const current = snapshot('bbb', { sourceSize: 1050, outputSize: 2500, packedSize: null });
+
+    expect(findSizeRegressions(previous, current, 10)).toEqual([
+      {
+        metric: 'outputSize',
+        commitHash: 'bbb',
+        previousCommitHash: 'aaa',
+        previous: 2000,
+        current: 2500,
+        changePercent: 25,
+      },
+    ]);
+    expect(findSizeRegressions(previous, current, 30)).toEqual([]);
+    // No baseline when the previous snapshot was never built
+    expect(findSizeRegressions(snapshot('aaa', { outputSize: 0 }), current, 10)).toEqual([]);
+  });
+
+  test('compares each snapshot with the one before it', () => {
+    const regressions = findSizeHistoryRegressions([
+      snapshot('aaa'),
+      snapshot('bbb', { packedSize: 600 }),
+      snapshot('ccc', { packedSize: 610 }),
+    ]);
+    expect(regressions.map(({ metric, commitHash, changePercent }) => [metric, commitHash, changePercent])).toEqual([
+      ['packedSize', 'bbb', 20],
+    ]);
+  });
+});
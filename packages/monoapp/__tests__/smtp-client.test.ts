@@ -0,0 +1,128 @@
+import net, { AddressInfo } from 'net';
+
+import { SmtpError, sendMail } from '../src/utils/smtp-client';
+
+/**
+ * Local stand-in SMTP server recording the commands and message it receives.
+ * Recipients listed in reject are refused.
+ */
+async function startSmtpServer(reject: string[] = []) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let data: string[] | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 localhost ESMTP stand-in');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            reply('250 Queued');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const command = line.toUpperCase();
+        if (command.startsWith('EHLO')) {
+          socket.write('250-localhost\r\n250-AUTH LOGIN PLAIN\r\n250 8BITMIME\r\n');
+        } else if (command.startsWith('AUTH PLAIN')) {
+          const [, user, password] = Buffer.from(line.slice(11), 'base64').toString().split('\0');
+          reply(user === 'monodog' && password === 'secret' ? '235 Authenticated' : '535 Invalid credentials');
+        } else if (command.startsWith('RCPT TO')) {
+          reply(reject.some(address => line.includes(address)) ? '550 No such user' : '250 OK');
+        } else if (command === 'DATA') {
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+  return { port, commands, messages, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+describe('smtp client', () => {
+  test('authenticates and sends a base64 encoded message', async () => {
+    const server = await startSmtpServer();
+    try {
+      await sendMail(
+        {
+          host: '127.0.0.1',
+          port: server.port,
+          user: 'monodog',
+          password: 'secret',
+          allowInsecureAuth: true,
+          from: 'Monodog <monodog@acme.dev>',
+        },
+        {
+          from: 'Monodog <monodog@acme.dev>',
+          to: ['security@acme.dev', 'Web <web@acme.dev>'],
+          subject: 'Santé des paquets',
+          text: '.leading dot\nScore: 90 -> 58\n',
+        }
+      );
+
+      expect(server.commands.filter(command => /^(MAIL|RCPT)/.test(command))).toEqual([
+        'MAIL FROM:<monodog@acme.dev>',
+        'RCPT TO:<security@acme.dev>',
+        'RCPT TO:<web@acme.dev>',
+      ]);
+      expect(server.commands[server.commands.length - 1]).toBe('QUIT');
+
+      const [headers, body] = server.messages[0].split('\r\n\r\n');
+      expect(headers).toContain('To: security@acme.dev, Web <web@acme.dev>');
+      expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Santé des paquets').toString('base64')}?=`);
+      expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString()).toBe('.leading dot\nScore: 90 -> 58\n');
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('refuses to send credentials without TLS unless allowed', async () => {
+    const server = await startSmtpServer();
+    try {
+      const sending = sendMail(
+        { host: '127.0.0.1', port: server.port, user: 'monodog', password: 'secret', from: 'monodog@acme.dev' },
+        { from: 'monodog@acme.dev', to: ['security@acme.dev'], subject: 'Health', text: 'Down' }
+      );
+      await expect(sending).rejects.toThrow('SMTP server offers no TLS, refusing to send credentials in plain text');
+      expect(server.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+      expect(server.messages).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('fails with the server reply when a command is refused', async () => {
+    const server = await startSmtpServer(['nobody@acme.dev']);
+    try {
+      const sending = sendMail(
+        { host: '127.0.0.1', port: server.port, from: 'monodog@acme.dev' },
+        { from: 'monodog@acme.dev', to: ['nobody@acme.dev'], subject: 'Health', text: 'Down' }
+      );
+      await expect(sending).rejects.toThrow(SmtpError);
+      await expect(sending).rejects.toThrow('SMTP server replied 550 No such user');
+      expect(server.messages).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+});
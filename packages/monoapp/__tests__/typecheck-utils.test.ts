@@ -0,0 +1,64 @@
+import { MAX_TYPE_DIAGNOSTICS, parseTscOutput } from '../src/utils/typecheck-utils';
+
+describe('typecheck utils', () => {
+  test('parses located, global and multi-line diagnostics', () => {
+    const report = parseTscOutput(
+      [
+        '> pnpm exec tsc --noEmit --pretty false -p tsconfig.json',
+        "src\\index.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/api.ts(3,1): error TS2345: Argument of type '{ id: string; }' is not assignable to parameter of type 'User'.",
+        "  Property 'name' is missing in type '{ id: string; }' but required in type 'User'.",
+        "error TS5083: Cannot read file '/repo/tsconfig.base.json'.",
+      ].join('\n'),
+      1500
+    );
+
+    expect(report).toEqual({
+      errorCount: 3,
+      warningCount: 0,
+      durationMs: 1500,
+      diagnostics: [
+        {
+          file: 'src/index.ts',
+          line: 12,
+          column: 5,
+          category: 'error',
+          code: 2322,
+          message: "Type 'string' is not assignable to type 'number'.",
+        },
+        {
+          file: 'src/api.ts',
+          line: 3,
+          column: 1,
+          category: 'error',
+          code: 2345,
+          message:
+            "Argument of type '{ id: string; }' is not assignable to parameter of type 'User'.\n" +
+            "Property 'name' is missing in type '{ id: string; }' but required in type 'User'.",
+        },
+        {
+          file: null,
+          line: null,
+          column: null,
+          category: 'error',
+          code: 5083,
+          message: "Cannot read file '/repo/tsconfig.base.json'.",
+        },
+      ],
+    });
+  });
+
+  test('keeps errors before warnings and caps the diagnostics', () => {
+    const lines = [
+      'src/legacy.ts(1,1): warning TS6385: This is deprecated.',
+      ...Array.from({ length: MAX_TYPE_DIAGNOSTICS + 5 }, (_, i) => `src/file${i}.ts(${i + 1},1): error TS2304: Cannot find name 'x'.`),
+    ];
+    const report = parseTscOutput(lines.join('\n'));
+
+    expect(report.errorCount).toBe(MAX_TYPE_DIAGNOSTICS + 5);
+    expect(report.warningCount).toBe(1);
+    expect(report.diagnostics).toHaveLength(MAX_TYPE_DIAGNOSTICS);
+    expect(report.diagnostics.every(diagnostic => diagnostic.category === 'error')).toBe(true);
+    expect(parseTscOutput('')).toEqual({ errorCount: 0, warningCount: 0, diagnostics: [], durationMs: 0 });
+  });
+});
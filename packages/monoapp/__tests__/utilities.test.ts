@@ -12,9 +12,12 @@ import {
   generateDependencyGraph,
   checkOutdatedDependencies,
   getPackageSize,
+  hashPackageContents,
 } from '../src/utils/utilities';
+import { RegistryClient } from '../src/utils/registry-client';
 
 import type { PackageInfo } from '../src/utils/utilities';
+import type { HealthCheckResult } from '../src/types';
 
 describe('utilities module', () => {
   let tmpRoot: string;
@@ -50,6 +53,44 @@ describe('utilities module', () => {
     expect(resolved).toEqual(expect.arrayContaining(['packages/one', 'packages/two']));
   });
 
+  test('resolveWorkspaceGlobs supports recursive globs, brace sets and ordered negations', () => {
+    const dirs = [
+      'packages/core',
+      'packages/nested/deep',
+      'packages/nested/fixtures/sample',
+      'packages/core/node_modules/dep',
+      'apps/shop/web',
+      'apps/admin/web',
+      'apps/admin/api',
+      'tools/cli',
+      'tools/gen',
+    ];
+    dirs.forEach(dir => fs.mkdirSync(path.join(tmpRoot, dir), { recursive: true }));
+
+    const recursive = resolveWorkspaceGlobs(tmpRoot, ['packages/**', '!**/fixtures/**']);
+    expect(recursive).toEqual(
+      expect.arrayContaining(['packages/core', 'packages/nested', 'packages/nested/deep'])
+    );
+    expect(recursive.some(dir => dir.includes('fixtures'))).toBe(false);
+    expect(recursive.some(dir => dir.includes('node_modules'))).toBe(false);
+
+    expect(resolveWorkspaceGlobs(tmpRoot, ['apps/*/web']).sort()).toEqual(['apps/admin/web', 'apps/shop/web']);
+    expect(resolveWorkspaceGlobs(tmpRoot, ['tools/{cli,gen}', 'tools/*'])).toEqual(['tools/cli', 'tools/gen']);
+
+    // Negations only affect what was matched before them
+    expect(resolveWorkspaceGlobs(tmpRoot, ['tools/*', '!tools/gen', 'tools/gen'])).toEqual(['tools/cli', 'tools/gen']);
+    expect(resolveWorkspaceGlobs(tmpRoot, ['tools/*', '!tools/g*'])).toEqual(['tools/cli']);
+  });
+
+  test('getWorkspacesFromRoot keeps pnpm-workspace.yaml exclusions', () => {
+    fs.writeFileSync(
+      path.join(tmpRoot, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'packages/**'\n  - '!**/fixtures/**'\n"
+    );
+
+    expect(getWorkspacesFromRoot(tmpRoot)).toEqual(['packages/**', '!**/fixtures/**']);
+  });
+
   test('parsePackageInfo returns null when package.json missing and returns data when present', () => {
     const pkgPath = path.join(tmpRoot, 'packages', 'mypkg');
     fs.mkdirSync(pkgPath, { recursive: true });
@@ -75,17 +116,40 @@ describe('utilities module', () => {
   });
 
   test('calculatePackageHealth scoring', () => {
-    // success + 80% coverage + pass lint + pass security
-    const health = calculatePackageHealth('success', 80, 'pass', 'pass');
-    // 30 + 25 + 25 + 20 = 100
-    expect(health.overallScore).toBe(100);
-
-    const health2 = calculatePackageHealth('failed', 10, 'fail', 'unknown');
-    // 0 + 2.5 + 0 + 10 = ~13 -> rounded
-    expect(typeof health2.overallScore).toBe('number');
+    const result = (id: string, status: HealthCheckResult['status'], weight: number, extra = {}) => ({
+      id,
+      name: id,
+      status,
+      weight,
+      score: status === 'pass' ? 1 : status === 'warn' ? 0.5 : 0,
+      ...extra,
+    });
+
+    const health = calculatePackageHealth([
+      result('build', 'pass', 30),
+      result('coverage', 'warn', 25, { score: 0.6, value: 60 }),
+      result('lint', 'fail', 25),
+      result('security', 'skip', 20),
+      result('dependencies', 'pass', 10, { value: 'up-to-date' }),
+    ]);
+    // (30 + 15 + 0 + 10) / 90, skipped checks do not count
+    expect(health.overallScore).toBe(61);
+    expect(health).toMatchObject({
+      buildStatus: 'success',
+      testCoverage: 60,
+      lintStatus: 'fail',
+      securityAudit: 'unknown',
+      dependencies: 'up-to-date',
+    });
+    expect(health.checks).toHaveLength(5);
+
+    // Only enabled checks count, and without any the score is 0
+    expect(calculatePackageHealth([result('readme', 'pass', 5)]).overallScore).toBe(100);
+    expect(calculatePackageHealth([result('build', 'skip', 30)]).overallScore).toBe(0);
+    expect(calculatePackageHealth([]).dependencies).toBeUndefined();
   });
 
-  test('generateMonorepoStats and outdated detection', () => {
+  test('generateMonorepoStats and outdated detection', async () => {
     const pkgA: PackageInfo = {
       name: 'a',
       version: '1.0.0',
@@ -115,8 +179,19 @@ describe('utilities module', () => {
     expect(stats.libraries).toBe(1);
     expect(stats.totalDependencies).toBeGreaterThanOrEqual(1);
 
-    const outdated = checkOutdatedDependencies(pkgA);
-    expect(outdated.length).toBeGreaterThan(0);
+    // Offline client reading registry metadata from a seeded cache
+    const cacheDir = path.join(tmpRoot, 'registry-cache');
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(cacheDir, 'dep1.json'),
+      JSON.stringify({ fetchedAt: 0, metadata: { name: 'dep1', latest: '2.0.0', versions: ['1.0.0', '1.5.0', '2.0.0'] } })
+    );
+    const client = new RegistryClient({ cacheDir, offline: true });
+
+    const outdated = await checkOutdatedDependencies(pkgA, client);
+    expect(outdated).toEqual([
+      expect.objectContaining({ name: 'dep1', latest: '2.0.0', status: 'major-update', outdated: true }),
+    ]);
   });
 
   test('findCircularDependencies detects cycles', () => {
@@ -148,4 +223,26 @@ describe('utilities module', () => {
     expect(size.files).toBe(2);
     expect(size.size).toBeGreaterThanOrEqual(10);
   });
+
+  test('hashPackageContents changes with manifest and source edits only', () => {
+    const pkgDir = path.join(tmpRoot, 'hashed');
+    fs.mkdirSync(path.join(pkgDir, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(pkgDir, 'src', 'index.ts'), 'export const a = 1;');
+    const pkg: PackageInfo = { name: 'hashed', version: '1.0.0', type: 'lib', path: pkgDir, dependencies: {}, devDependencies: {}, peerDependencies: {}, scripts: {}, maintainers: [] };
+
+    const initial = hashPackageContents(pkg);
+    expect(hashPackageContents(pkg)).toBe(initial);
+
+    // Build output and installed modules do not affect the hash
+    fs.mkdirSync(path.join(pkgDir, 'dist'));
+    fs.writeFileSync(path.join(pkgDir, 'dist', 'index.js'), 'exports.a = 1;');
+    fs.mkdirSync(path.join(pkgDir, 'node_modules', 'dep'), { recursive: true });
+    expect(hashPackageContents(pkg)).toBe(initial);
+
+    fs.writeFileSync(path.join(pkgDir, 'src', 'index.ts'), 'export const a = 2;');
+    const edited = hashPackageContents(pkg);
+    expect(edited).not.toBe(initial);
+
+    expect(hashPackageContents({ ...pkg, version: '1.0.1' })).not.toBe(edited);
+  });
 });
@@ -0,0 +1,128 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+jest.mock('../src/services/config-service', () => ({
+  updatePackageConfigurationService: jest.fn().mockResolvedValue({}),
+}));
+
+// The signed-in user owns every package unless a test says otherwise
+jest.mock('../src/services/package-service', () => ({
+  getPackageEditAccessService: jest.fn().mockResolvedValue({ path: '', owners: ['@jane'], allowed: true }),
+}));
+
+import { findVersionMismatches, pickSuggestedRange } from '../src/utils/version-mismatch-utils';
+import { minVersion } from '../src/utils/semver-utils';
+import { alignDependencyService } from '../src/services/dependency-service';
+import { updatePackageConfigurationService } from '../src/services/config-service';
+import { getPackageEditAccessService } from '../src/services/package-service';
+import type { PackageInfo } from '../src/types';
+import type { AuthSession } from '../src/types/auth';
+
+function pkg(name: string, deps: Partial<PackageInfo> = {}): PackageInfo {
+  return {
+    name,
+    version: '1.0.0',
+    type: 'lib',
+    path: `packages/${name}`,
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    scripts: {},
+    maintainers: [],
+    ...deps,
+  };
+}
+
+function writeJson(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+describe('version mismatch utils', () => {
+  test('groups external dependencies and flags divergent ranges', () => {
+    const packages = [
+      pkg('web', { dependencies: { react: '^18.2.0', ui: '*' }, devDependencies: { typescript: '^5.2.0' } }),
+      pkg('ui', { peerDependencies: { react: '^17.0.0 || ^18.0.0' }, devDependencies: { typescript: '^5.2.0' } }),
+      pkg('docs', { dependencies: { react: '^18.2.0' } }),
+    ];
+
+    const report = findVersionMismatches(packages);
+    expect(report.dependencies).toBe(2);
+    expect(report.mismatched).toBe(1);
+    expect(report.groups).toHaveLength(1);
+
+    const [react] = report.groups;
+    expect(react.name).toBe('react');
+    expect(react.usages).toBe(3);
+    expect(react.ranges.map(entry => entry.range)).toEqual(['^18.2.0', '^17.0.0 || ^18.0.0']);
+    expect(react.ranges[1].packages).toEqual([{ packageName: 'ui', type: 'peer', range: '^17.0.0 || ^18.0.0' }]);
+    expect(react.suggestedRange).toBe('^18.2.0');
+  });
+
+  test('suggests the range with the highest minimum version', () => {
+    expect(minVersion('^17.0.0 || ^18.0.0')).toBe('17.0.0');
+    expect(minVersion('>1.2.3')).toBe('1.2.4');
+    expect(pickSuggestedRange(['~4.9.5', '^5.0.0', '5.1.x'])).toBe('5.1.x');
+  });
+});
+
+describe('alignDependencyService', () => {
+  let tmpRoot: string;
+  const session = { user: { login: 'jane' } } as AuthSession;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-align-'));
+    fs.writeFileSync(path.join(tmpRoot, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/*'\n");
+    writeJson(path.join(tmpRoot, 'packages', 'a', 'package.json'), {
+      name: 'a',
+      dependencies: { lodash: '^4.17.0', react: '^17.0.2', zod: '^3.0.0' },
+    });
+    writeJson(path.join(tmpRoot, 'packages', 'b', 'package.json'), {
+      name: 'b',
+      devDependencies: { react: '^18.2.0' },
+    });
+    writeJson(path.join(tmpRoot, 'packages', 'c', 'package.json'), { name: 'c' });
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('writes the aligned range through the package configuration update', async () => {
+    const result = await alignDependencyService(tmpRoot, 'react', '^18.2.0', session);
+
+    expect(result?.updated).toEqual([{ packageName: 'a', types: ['prod'], previous: ['^17.0.2'] }]);
+    expect(result?.unchanged).toEqual(['b']);
+    expect(updatePackageConfigurationService).toHaveBeenCalledTimes(1);
+
+    const [packagePath, packageName, config] = (updatePackageConfigurationService as jest.Mock).mock.calls[0];
+    expect(packagePath).toBe(path.join(tmpRoot, 'packages', 'a'));
+    expect(packageName).toBe('a');
+    // Other dependencies keep their ranges and order
+    expect(Object.entries(JSON.parse(config).dependencies)).toEqual([
+      ['lodash', '^4.17.0'],
+      ['react', '^18.2.0'],
+      ['zod', '^3.0.0'],
+    ]);
+  });
+
+  test('returns null when no package declares the dependency', async () => {
+    expect(await alignDependencyService(tmpRoot, 'vue', '^3.0.0', session)).toBeNull();
+    expect(await alignDependencyService(tmpRoot, 'react', '^18.2.0', session, ['c'])).toBeNull();
+  });
+
+  test('leaves packages the user may not edit unwritten and reports them as forbidden', async () => {
+    (getPackageEditAccessService as jest.Mock).mockResolvedValueOnce({ path: '', owners: ['@acme/web'], allowed: false });
+
+    const result = await alignDependencyService(tmpRoot, 'react', '^18.2.0', session);
+
+    expect(getPackageEditAccessService).toHaveBeenCalledWith(tmpRoot, session, 'a');
+    expect(result?.updated).toEqual([]);
+    expect(result?.failed).toEqual([
+      { packageName: 'a', error: 'Only the package owners or repository admins can edit this package', forbidden: true },
+    ]);
+    expect(updatePackageConfigurationService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { signWebhookPayload } from '../src/utils/notification-utils';
+import { sendWebhook } from '../src/utils/webhook-client';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local stand-in receiver answering with the given statuses in turn
+ */
+async function startReceiver(statuses: number[]) {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses[Math.min(received.length, statuses.length) - 1];
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  return { url, received, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+describe('webhook client', () => {
+  test('retries server errors with the same delivery id and signs every attempt', async () => {
+    const receiver = await startReceiver([503, 500, 204]);
+    try {
+      const result = await sendWebhook(
+        { id: 'ci', type: 'webhook', url: receiver.url, secret: 'shh', headers: { 'X-Team': 'web' } },
+        { event: 'health.notifications' },
+        { retryDelayMs: 1 }
+      );
+
+      expect(result).toEqual({ ok: true, attempts: 3, status: 204 });
+      expect(receiver.received).toHaveLength(3);
+      const ids = new Set(receiver.received.map(request => request.headers['x-monodog-delivery']));
+      expect(ids.size).toBe(1);
+
+      for (const { headers, body } of receiver.received) {
+        expect(body).toBe('{"event":"health.notifications"}');
+        expect(headers['x-team']).toBe('web');
+        expect(headers['x-monodog-signature']).toBe(
+          signWebhookPayload('shh', headers['x-monodog-timestamp'] as string, body)
+        );
+      }
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  test('gives up on client errors and after the last retry', async () => {
+    const rejecting = await startReceiver([400]);
+    const failing = await startReceiver([502]);
+    try {
+      expect(
+        await sendWebhook({ id: 'a', type: 'webhook', url: rejecting.url }, {}, { retryDelayMs: 1 })
+      ).toEqual({ ok: false, attempts: 1, status: 400, error: 'Responded with status 400' });
+      expect(rejecting.received[0].headers['x-monodog-signature']).toBeUndefined();
+
+      expect(
+        await sendWebhook({ id: 'b', type: 'webhook', url: failing.url, retries: 1 }, {}, { retryDelayMs: 1 })
+      ).toMatchObject({ ok: false, attempts: 2, status: 502 });
+    } finally {
+      await rejecting.close();
+      await failing.close();
+    }
+  });
+
+  test('reads the URL from the environment', async () => {
+    const receiver = await startReceiver([200]);
+    process.env.MONODOG_TEST_HOOK = receiver.url;
+    try {
+      expect(
+        await sendWebhook({ id: 'env', type: 'webhook', url: '${MONODOG_TEST_HOOK}' }, {}, { retryDelayMs: 1 })
+      ).toEqual({ ok: true, attempts: 1, status: 200 });
+      expect(receiver.received).toHaveLength(1);
+    } finally {
+      delete process.env.MONODOG_TEST_HOOK;
+      await receiver.close();
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import {
+  detectWorkspace,
+  detectPackageManager,
+  getAuditCommand,
+  getPackageScriptCommand,
+  getRunScriptCommand,
+  isYarnBerry,
+} from '../src/utils/workspace-adapters';
+
+function writeJson(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+describe('workspace adapters', () => {
+  let tmpRoot: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'monoapp-ws-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('detects lerna packages and npmClient', () => {
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root' });
+    writeJson(path.join(tmpRoot, 'lerna.json'), { packages: ['modules/*'], npmClient: 'yarn' });
+    writeJson(path.join(tmpRoot, 'modules', 'a', 'package.json'), { name: '@scope/a', version: '1.2.3' });
+
+    const workspace = detectWorkspace(tmpRoot);
+    expect(workspace?.tool).toBe('lerna');
+    expect(workspace?.packageManager).toBe('yarn');
+    expect(workspace?.projects.map(p => p.name)).toEqual(['@scope/a']);
+    expect(workspace?.projects[0].packageInfo.version).toBe('1.2.3');
+  });
+
+  test('detects nx projects from project.json without package.json', () => {
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root' });
+    fs.writeFileSync(path.join(tmpRoot, 'pnpm-lock.yaml'), '');
+    writeJson(path.join(tmpRoot, 'nx.json'), {});
+    writeJson(path.join(tmpRoot, 'apps', 'shop', 'project.json'), {
+      name: 'shop',
+      projectType: 'application',
+      tags: ['scope:shop'],
+      targets: { build: {}, lint: {} },
+    });
+
+    const workspace = detectWorkspace(tmpRoot);
+    expect(workspace?.tool).toBe('nx');
+    expect(workspace?.packageManager).toBe('pnpm');
+
+    const shop = workspace?.projects.find(p => p.name === 'shop');
+    expect(shop?.relativePath).toBe('apps/shop');
+    expect(shop?.packageInfo.type).toBe('app');
+    expect(shop?.packageInfo.tags).toEqual(['scope:shop']);
+    expect(shop?.packageInfo.scripts.build).toBe('nx run shop:build');
+  });
+
+  test('runs project.json targets through the nx CLI from the workspace root', () => {
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root' });
+    fs.writeFileSync(path.join(tmpRoot, 'pnpm-lock.yaml'), '');
+    writeJson(path.join(tmpRoot, 'nx.json'), {});
+    writeJson(path.join(tmpRoot, 'apps', 'shop', 'project.json'), { name: 'shop', targets: { build: {}, lint: {} } });
+    writeJson(path.join(tmpRoot, 'libs', 'ui', 'project.json'), { name: 'ui', targets: { build: {}, lint: {} } });
+    writeJson(path.join(tmpRoot, 'libs', 'ui', 'package.json'), { name: 'ui', scripts: { lint: 'eslint .' } });
+
+    const projects = detectWorkspace(tmpRoot)?.projects ?? [];
+    const shop = projects.find(p => p.name === 'shop')!.packageInfo;
+    const ui = projects.find(p => p.name === 'ui')!.packageInfo;
+
+    expect(shop.nxTargets).toEqual(['build', 'lint']);
+    expect(getPackageScriptCommand(shop, 'build')).toEqual({
+      command: 'pnpm exec nx run shop:build',
+      cwd: path.resolve(tmpRoot),
+    });
+    expect(getPackageScriptCommand(ui, 'build')).toEqual({ command: 'pnpm exec nx run ui:build', cwd: path.resolve(tmpRoot) });
+    expect(getPackageScriptCommand(ui, 'lint')).toEqual({ command: 'pnpm run lint', cwd: ui.path });
+  });
+
+  test('reads rush.json projects with comments', () => {
+    fs.writeFileSync(
+      path.join(tmpRoot, 'rush.json'),
+      `{
+        // rush configuration
+        "pnpmVersion": "8.0.0",
+        "projects": [{ "packageName": "tool", "projectFolder": "tools/tool" }]
+      }`
+    );
+    writeJson(path.join(tmpRoot, 'tools', 'tool', 'package.json'), { name: 'tool' });
+
+    const workspace = detectWorkspace(tmpRoot);
+    expect(workspace?.tool).toBe('rush');
+    expect(workspace?.packageManager).toBe('pnpm');
+    expect(workspace?.projects.map(p => p.relativePath)).toEqual(['tools/tool']);
+  });
+
+  test('distinguishes yarn berry from npm workspaces', () => {
+    writeJson(path.join(tmpRoot, 'package.json'), {
+      name: 'root',
+      workspaces: ['packages/*'],
+      packageManager: 'yarn@4.1.0',
+    });
+    writeJson(path.join(tmpRoot, 'packages', 'a', 'package.json'), { name: 'a' });
+
+    expect(detectWorkspace(tmpRoot)?.tool).toBe('yarn-berry');
+
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root', workspaces: ['packages/*'] });
+    const workspace = detectWorkspace(tmpRoot);
+    expect(workspace?.tool).toBe('npm');
+    expect(workspace?.packageManager).toBe('npm');
+  });
+
+  test('detectPackageManager walks up to the lockfile and builds run commands', () => {
+    fs.writeFileSync(path.join(tmpRoot, 'yarn.lock'), '');
+    const nested = path.join(tmpRoot, 'packages', 'a');
+    fs.mkdirSync(nested, { recursive: true });
+
+    expect(detectPackageManager(nested)).toBe('yarn');
+    expect(getRunScriptCommand('yarn', 'build')).toBe('yarn run build');
+    expect(getRunScriptCommand('pnpm', 'lint')).toBe('pnpm run lint');
+  });
+
+  test('audits Yarn Berry workspaces through yarn npm audit', () => {
+    const nested = path.join(tmpRoot, 'packages', 'a');
+    writeJson(path.join(nested, 'package.json'), { name: 'a' });
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root', packageManager: 'yarn@1.22.19' });
+    expect(isYarnBerry(nested)).toBe(false);
+    expect(getAuditCommand('yarn', isYarnBerry(nested))).toBe('yarn audit --json');
+
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root', packageManager: 'yarn@4.1.0' });
+    expect(isYarnBerry(nested)).toBe(true);
+    expect(getAuditCommand('yarn', isYarnBerry(nested))).toBe('yarn npm audit --json --recursive');
+
+    writeJson(path.join(tmpRoot, 'package.json'), { name: 'root' });
+    fs.writeFileSync(path.join(tmpRoot, '.yarnrc.yml'), 'nodeLinker: node-modules\n');
+    expect(isYarnBerry(nested)).toBe(true);
+    expect(getAuditCommand('npm', true)).toBe('npm audit --json');
+  });
+});
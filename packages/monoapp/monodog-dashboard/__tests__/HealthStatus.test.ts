@@ -4,6 +4,12 @@
  */
 
 import { monorepoService } from '../src/services/monorepoService';
+import {
+  advisoriesToAlerts,
+  generateHealthAlerts,
+  getHealthLevel,
+  getPackageThresholds,
+} from '../src/components/modules/health-status/utils/health.utils';
 
 jest.mock('../src/services/monorepoService', () => ({
   monorepoService: {
@@ -65,5 +71,84 @@ describe('HealthStatus Component', () => {
     });
   });
 
+
+  describe('Policy Thresholds', () => {
+    const policy = {
+      thresholds: { healthy: 85, warning: 65 },
+      checks: [],
+      packages: [
+        {
+          packageName: 'experimental',
+          policies: ['experimental'],
+          thresholds: { healthy: 60, warning: 40 },
+          checks: [],
+        },
+      ],
+    };
+
+    it('should use the default thresholds until the policy loads', () => {
+      expect(getPackageThresholds(null, 'pkg-1')).toEqual({ healthy: 80, warning: 60 });
+      expect(getHealthLevel(80)).toBe('healthy');
+      expect(getHealthLevel(60)).toBe('warning');
+      expect(getHealthLevel(59)).toBe('error');
+    });
+
+    it('should prefer the thresholds of a package policy', () => {
+      expect(getPackageThresholds(policy, 'pkg-1')).toEqual(policy.thresholds);
+      expect(getHealthLevel(62, getPackageThresholds(policy, 'pkg-1'))).toBe('error');
+      expect(getHealthLevel(62, getPackageThresholds(policy, 'experimental'))).toBe('healthy');
+    });
+
+    it('should raise low score alerts below the warning threshold', () => {
+      const pkg = {
+        name: 'experimental',
+        overallScore: 50,
+        buildStatus: 'success' as const,
+        testCoverage: 90,
+        lintStatus: 'pass' as const,
+        securityAudit: 'pass' as const,
+        dependencies: 'up-to-date' as const,
+        lastBuild: '2026-10-19T10:00:00Z',
+        lastTest: '2026-10-19T10:00:00Z',
+      };
+
+      expect(generateHealthAlerts([pkg], policy)).toHaveLength(0);
+      expect(generateHealthAlerts([pkg]).map(alert => alert.title)).toEqual(['Low Health Score']);
+    });
+  });
+
+  describe('Security Advisories', () => {
+    it('should list each advisory as an alert by severity', () => {
+      const advisory = {
+        packageName: '@acme/api',
+        id: 'GHSA-hrpp-h998-j3pp',
+        severity: 'high' as const,
+        title: 'qs vulnerable to Prototype Pollution',
+        moduleName: 'qs',
+        vulnerableVersions: '<6.10.3',
+        patchedVersions: '>=6.10.3',
+        url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+        paths: ['express>qs'],
+        createdAt: '2026-10-19T10:00:00Z',
+      };
+
+      const alerts = advisoriesToAlerts([
+        advisory,
+        { ...advisory, severity: 'moderate', moduleName: 'minimist', patchedVersions: null, url: null },
+      ]);
+
+      expect(alerts[0]).toMatchObject({
+        type: 'error',
+        title: 'qs vulnerable to Prototype Pollution (high)',
+        message: 'qs <6.10.3 is vulnerable, patched in >=6.10.3',
+        packageName: '@acme/api',
+        url: advisory.url,
+        details: ['express>qs'],
+      });
+      expect(alerts[1]).toMatchObject({ type: 'warning', message: 'minimist <6.10.3 is vulnerable', url: undefined });
+      expect(new Set(alerts.map(alert => alert.id)).size).toBe(2);
+    });
+  });
+
   // ... remaining tests omitted for brevity; they are unchanged apart from import path
 });
@@ -82,7 +82,8 @@ describe('monorepoService (unit)', () => {
       const mockPackages: Package[] = [
         { name: 'pkg1', version: '1.0.0', type: 'app', status: 'healthy', lastUpdated: '', dependencies: [], maintainers: [], tags: [], description: '', path: '' },
       ];
-      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce(mockPackages) });
+      const summary = { added: ['pkg1'], removed: [], changed: [], unchanged: [] };
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce({ summary, packages: mockPackages }) });
       const result = await monorepoService.refreshPackages();
       expect(result).toEqual(mockPackages);
     });
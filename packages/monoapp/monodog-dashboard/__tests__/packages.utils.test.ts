@@ -8,6 +8,11 @@ import {
   getUniquePackageStatuses,
   filterPackages,
   sortPackages,
+  formatBytes,
+  formatTypeDiagnostic,
+  getUniquePackageOwners,
+  applyJobEvent,
+  isJobActive,
 } from '../src/components/modules/packages/utils/packages.utils';
 
 describe('Packages Utils', () => {
@@ -34,4 +39,69 @@ describe('Packages Utils', () => {
     const filtered = filterPackages(pkgs, { search: 'react', type: 'all', status: 'all' });
     expect(filtered).toHaveLength(1);
   });
+
+  it('formatBytes picks a readable unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+
+  it('formatTypeDiagnostic shows the location and TS code', () => {
+    const diagnostic = { file: 'src/index.ts', line: 12, column: 5, code: 2322, category: 'error', message: '' } as const;
+    expect(formatTypeDiagnostic(diagnostic)).toBe('src/index.ts:12:5 TS2322');
+    expect(formatTypeDiagnostic({ ...diagnostic, file: null, line: null, column: null, code: 5083 })).toBe(
+      'tsconfig TS5083'
+    );
+  });
+
+  it('filterPackages filters by CODEOWNERS owner', () => {
+    const pkgs = [
+      { name: 'web', description: '', type: 'app', status: 'healthy', owners: ['@acme/web'] },
+      { name: 'ui', description: '', type: 'lib', status: 'healthy', owners: ['@acme/web', '@jane'] },
+      { name: 'api', description: '', type: 'app', status: 'healthy' },
+    ] as any;
+    expect(getUniquePackageOwners(pkgs)).toEqual(['@acme/web', '@jane']);
+    const filtered = filterPackages(pkgs, { search: '', type: 'all', status: 'all', owner: '@jane' });
+    expect(filtered.map((pkg: any) => pkg.name)).toEqual(['ui']);
+    expect(filterPackages(pkgs, { search: '', type: 'all', status: 'all', owner: 'all' })).toHaveLength(3);
+  });
+});
+
+describe('Job progress', () => {
+  const event = (fields: any) => ({ jobId: 'j1', sequence: 1, timestamp: '', ...fields });
+  const initial = {
+    job: {
+      id: 'j1',
+      type: 'package-refresh',
+      status: 'queued',
+      progress: { completed: 0, total: 0 },
+      result: null,
+      error: null,
+      createdAt: '',
+      startedAt: null,
+      finishedAt: null,
+    },
+    currentPackage: null,
+    lastMessage: null,
+  } as any;
+
+  it('tracks progress and the package being processed', () => {
+    let state = applyJobEvent(initial, event({ type: 'status', status: 'running' }));
+    state = applyJobEvent(state, event({ type: 'progress', progress: { completed: 0, total: 2 } }));
+    state = applyJobEvent(state, event({ type: 'package-start', packageName: 'ui' }));
+    expect(state.currentPackage).toBe('ui');
+
+    state = applyJobEvent(state, event({ type: 'package-finish', packageName: 'ui', success: true, message: 'changed' }));
+    expect(state.currentPackage).toBeNull();
+    expect(state.lastMessage).toBe('ui: changed');
+    expect(isJobActive(state.job)).toBe(true);
+  });
+
+  it('clears the current package once the job fails', () => {
+    let state = applyJobEvent(initial, event({ type: 'package-start', packageName: 'api' }));
+    state = applyJobEvent(state, event({ type: 'status', status: 'failed', error: 'boom' }));
+    expect(state.currentPackage).toBeNull();
+    expect(state.job.error).toBe('boom');
+    expect(isJobActive(state.job)).toBe(false);
+  });
 });
@@ -1,10 +1,21 @@
+import { useEffect, useState } from 'react';
 import { SettingsComponentProps } from '../types/config.types';
 import { stringToArray, arrayToString } from '../utils/config.utils';
+import {
+  monorepoService,
+  WorkspaceInfo,
+} from '../../../services/monorepoService';
 
 export default function MonorepoSettings({
   config,
   onConfigChange,
 }: SettingsComponentProps) {
+  const [detected, setDetected] = useState<WorkspaceInfo | null>(null);
+
+  useEffect(() => {
+    monorepoService.getWorkspaceInfo().then(setDetected);
+  }, []);
+
   const handleMonorepoChange = (field: string, value: any) => {
     onConfigChange({
       monorepo: { ...config.monorepo, [field]: value },
@@ -50,10 +61,17 @@ export default function MonorepoSettings({
               <option value="yarn">Yarn</option>
               <option value="lerna">Lerna</option>
               <option value="nx">Nx</option>
+              <option value="rush">Rush</option>
             </select>
             <p className="text-xs text-gray-500 mt-1">
               Package manager used in your monorepo
             </p>
+            {detected && (
+              <p className="text-xs text-blue-600 mt-1">
+                Detected: {detected.tool} workspace using{' '}
+                {detected.packageManager} ({detected.total} projects)
+              </p>
+            )}
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -170,6 +188,12 @@ export default function MonorepoSettings({
                   workspace root.
                 </p>
               )}
+              {config.monorepo.packageManager === 'rush' && (
+                <p>
+                  Make sure your projects are listed in the rush.json
+                  configuration file.
+                </p>
+              )}
             </div>
           </div>
         )}
@@ -20,7 +20,7 @@ export interface DashboardConfig {
   };
   monorepo?: {
     structure?: 'standard' | 'custom';
-    packageManager?: 'pnpm' | 'npm' | 'yarn' | 'lerna' | 'nx';
+    packageManager?: 'pnpm' | 'npm' | 'yarn' | 'lerna' | 'nx' | 'rush';
     directories?: string[];
     ignorePatterns?: string[];
   };
@@ -1,5 +1,10 @@
 import { useState, useEffect, useMemo } from 'react';
-import { monorepoService } from '../../../services/monorepoService';
+import {
+  monorepoService,
+  DependencyKind,
+  GraphEdge,
+  BoundaryViolation,
+} from '../../../services/monorepoService';
 // Import sub-components
 import {
   LoadingState,
@@ -11,17 +16,20 @@ import {
   DependencyDetails,
   GraphStats,
   CircularDependencies,
+  BoundaryViolations,
   GraphLegend,
+  BuildOrderView,
 } from './components';
 
 // Import types and utilities
-import { PackageNode } from './types/dependency.types';
+import { PackageNode, GraphViewMode } from './types/dependency.types';
 import {
   calculateGraphStats,
   detectCircularDependencies,
   sortPackages,
   calculateLayout,
   mapAllDependents,
+  DEPENDENCY_KINDS,
 } from './utils/dependency.utils';
 import { LinkIcon } from '../../../icons/heroicons';
 // Re-export types for backward compatibility
@@ -33,7 +41,10 @@ export default function DependencyGraph() {
     const fetchPackages = async () => {
       try {
         setLoading(true);
-        const pkgs = await monorepoService.getPackages();
+        const [pkgs, graph] = await Promise.all([
+          monorepoService.getPackages(),
+          monorepoService.getDependencyGraph(),
+        ]);
         const dependentsMap = mapAllDependents(pkgs);
         const packagesMap = pkgs.map(pkg => ({
           ...pkg, // Keep all existing package data
@@ -46,6 +57,7 @@ export default function DependencyGraph() {
         }));
 
         setPackages(packagesMap);
+        setEdges(graph.edges);
         setError(null);
       } catch (err) {
         setError('Failed to fetch packages');
@@ -57,13 +69,26 @@ export default function DependencyGraph() {
 
     fetchPackages();
   }, []);
+
+  // Fetch boundary violations separately, the graph still renders without them
+  useEffect(() => {
+    monorepoService
+      .getBoundaryViolations()
+      .then(report => setViolations(report.violations))
+      .catch(err => {
+        console.error('Error fetching boundary violations:', err);
+        setViolations([]);
+      });
+  }, []);
   // State management
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [packages, setPackages] = useState<PackageNode[]>([]);
+  const [edges, setEdges] = useState<GraphEdge[]>([]);
+  const [violations, setViolations] = useState<BoundaryViolation[]>([]);
 
   // View state
-  const [viewMode, setViewMode] = useState<'graph' | 'list'>('graph');
+  const [viewMode, setViewMode] = useState<GraphViewMode>('graph');
   const [layout, setLayout] = useState<'hierarchical' | 'circular' | 'force'>(
     'hierarchical'
   );
@@ -71,6 +96,8 @@ export default function DependencyGraph() {
   const [hoveredPackage, setHoveredPackage] = useState<string | null>(null);
   const [showLegend, setShowLegend] = useState(true);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [visibleEdgeTypes, setVisibleEdgeTypes] =
+    useState<DependencyKind[]>(DEPENDENCY_KINDS);
 
   // List view state
   const [sortBy, setSortBy] = useState<
@@ -109,6 +136,14 @@ export default function DependencyGraph() {
     setSelectedPackage(packageId);
   };
 
+  const handleToggleEdgeType = (type: DependencyKind) => {
+    setVisibleEdgeTypes(current =>
+      current.includes(type)
+        ? current.filter(t => t !== type)
+        : [...current, type]
+    );
+  };
+
   const handleSortChange = (field: string, order: 'asc' | 'desc') => {
     setSortBy(field as any);
     setSortOrder(order);
@@ -145,6 +180,12 @@ export default function DependencyGraph() {
         />
       )}
 
+      {/* Module Boundary Violations */}
+      <BoundaryViolations
+        violations={violations}
+        onPackageSelect={handlePackageSelect}
+      />
+
       {/* Toolbar */}
       <GraphToolbar
         viewMode={viewMode}
@@ -176,6 +217,9 @@ export default function DependencyGraph() {
                   onPackageSelect={handlePackageSelect}
                   onPackageHover={setHoveredPackage}
                   layout={layout}
+                  edges={edges}
+                  visibleEdgeTypes={visibleEdgeTypes}
+                  violations={violations}
                 />
               </div>
 
@@ -186,6 +230,14 @@ export default function DependencyGraph() {
                 onClose={() => setSelectedPackage(null)}
               />
             </div>
+          ) : viewMode === 'build-order' ? (
+            <BuildOrderView
+              onPackageSelect={name => {
+                // Package details are shown on the graph
+                handlePackageSelect(name);
+                setViewMode('graph');
+              }}
+            />
           ) : (
             <DependencyList
               packages={sortedPackages}
@@ -201,7 +253,13 @@ export default function DependencyGraph() {
         {/* Legend */}
         {showLegend && (
           <div className="lg:col-span-1">
-            <GraphLegend show={showLegend} />
+            <GraphLegend
+              show={showLegend}
+              visibleEdgeTypes={visibleEdgeTypes}
+              onToggleEdgeType={handleToggleEdgeType}
+              edges={edges}
+              violations={violations}
+            />
           </div>
         )}
       </div>
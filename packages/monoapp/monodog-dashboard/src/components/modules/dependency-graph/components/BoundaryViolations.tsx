@@ -0,0 +1,67 @@
+import { ArrowRightIcon, ShieldCheckIcon } from '../../../../icons/heroicons';
+import { BoundaryViolationsProps } from '../types/dependency.types';
+
+export default function BoundaryViolations({
+  violations,
+  onPackageSelect,
+}: BoundaryViolationsProps) {
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-rose-100 rounded-lg">
+          <ShieldCheckIcon className="w-6 h-6 text-rose-700" />
+        </div>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Module Boundary Violations
+          </h3>
+          <p className="text-sm text-gray-600">
+            {violations.length} dependenc
+            {violations.length === 1 ? 'y breaks' : 'ies break'} the tag
+            constraints
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {violations.map(violation => (
+          <li
+            key={`${violation.source}-${violation.from}-${violation.to}-${violation.type ?? ''}`}
+            className="border border-rose-200 bg-rose-50 rounded-lg p-3 text-sm"
+          >
+            <div className="flex items-center flex-wrap gap-2">
+              <button
+                onClick={() => onPackageSelect(violation.from)}
+                className="px-3 py-1 bg-white rounded-lg font-medium hover:bg-gray-50 border shadow-sm"
+              >
+                {violation.from}
+              </button>
+              <ArrowRightIcon className="w-4 h-4 text-rose-400" />
+              <button
+                onClick={() => onPackageSelect(violation.to)}
+                className="px-3 py-1 bg-white rounded-lg font-medium hover:bg-gray-50 border shadow-sm"
+              >
+                {violation.to}
+              </button>
+              <span className="text-xs text-rose-700">
+                {violation.source === 'graph'
+                  ? `${violation.type} dependency`
+                  : 'undeclared import'}
+              </span>
+            </div>
+            <p className="mt-2 text-rose-800">{violation.message}</p>
+            {violation.files && violation.files.length > 0 && (
+              <p className="mt-1 text-xs text-rose-600 font-mono">
+                {violation.files.join(', ')}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import {
+  ExclamationTriangleIcon,
+  ArrowRightIcon,
+} from '../../../../icons/heroicons';
+import {
+  monorepoService,
+  BuildOrder,
+  DependencyKind,
+} from '../../../../services/monorepoService';
+import { BuildOrderViewProps } from '../types/dependency.types';
+import { DEPENDENCY_KINDS, DEPENDENCY_KIND_LABELS } from '../utils/dependency.utils';
+
+export default function BuildOrderView({ onPackageSelect }: BuildOrderViewProps) {
+  const [types, setTypes] = useState<DependencyKind[]>(DEPENDENCY_KINDS);
+  const [buildOrder, setBuildOrder] = useState<BuildOrder | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBuildOrder = async () => {
+      try {
+        setLoading(true);
+        setBuildOrder(await monorepoService.getBuildOrder(types));
+        setError(null);
+      } catch (err) {
+        setError('Failed to fetch build order');
+        console.error('Error fetching build order:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBuildOrder();
+  }, [types]);
+
+  const toggleType = (type: DependencyKind) => {
+    setTypes(current =>
+      current.includes(type)
+        ? current.filter(t => t !== type)
+        : [...current, type]
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Build Order</h3>
+          <p className="text-sm text-gray-600">
+            Packages in the same layer can build in parallel
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          {(Object.keys(DEPENDENCY_KIND_LABELS) as DependencyKind[]).map(type => (
+            <label key={type} className="flex items-center space-x-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={types.includes(type)}
+                onChange={() => toggleType(type)}
+                className="rounded border-gray-300"
+              />
+              <span>{DEPENDENCY_KIND_LABELS[type]}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">Computing build order...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {buildOrder && !loading && (
+        <>
+          {buildOrder.cycles.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2 text-red-800 font-medium">
+                <ExclamationTriangleIcon className="w-5 h-5" />
+                <span>
+                  {buildOrder.cycles.length} cycle
+                  {buildOrder.cycles.length === 1 ? '' : 's'} block ordering
+                </span>
+              </div>
+              {buildOrder.cycles.map(cycle => (
+                <div key={cycle.packages.join('|')} className="text-sm text-red-700">
+                  <p className="font-medium">{cycle.packages.join(', ')}</p>
+                  <ul className="mt-1 space-y-0.5">
+                    {cycle.edges.map(edge => (
+                      <li
+                        key={`${edge.from}-${edge.to}-${edge.type}`}
+                        className="flex items-center space-x-1"
+                      >
+                        <span>{edge.from}</span>
+                        <ArrowRightIcon className="w-3 h-3" />
+                        <span>{edge.to}</span>
+                        <span className="text-red-500">({edge.type})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {buildOrder.blocked.length > 0 && (
+                <div className="text-sm text-red-700">
+                  <p className="font-medium">Blocked behind cycles:</p>
+                  {buildOrder.blocked.map(item => (
+                    <p key={item.name}>
+                      {item.name} waits on {item.waitingOn.join(', ')}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <ol className="space-y-4">
+            {buildOrder.layers.map((layer, index) => (
+              <li key={index} className="flex items-start space-x-4">
+                <div className="flex-shrink-0 w-20 text-sm font-medium text-gray-700 pt-1">
+                  Layer {index + 1}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {layer.map(name => (
+                    <button
+                      key={name}
+                      onClick={() => onPackageSelect(name)}
+                      className="px-3 py-1 rounded-full text-sm bg-blue-50 text-blue-800 border border-blue-200 hover:bg-blue-100"
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {buildOrder.layers.length === 0 && buildOrder.cycles.length === 0 && (
+            <p className="text-sm text-gray-500">No packages to order.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,25 @@
-interface GraphLegendProps {
-  show: boolean;
-}
+import { GraphLegendProps } from '../types/dependency.types';
+import {
+  DEPENDENCY_KINDS,
+  DEPENDENCY_KIND_LABELS,
+  EDGE_TYPE_STYLES,
+  UNSATISFIED_EDGE_COLOR,
+  BOUNDARY_VIOLATION_COLOR,
+} from '../utils/dependency.utils';
 
-export default function GraphLegend({ show }: GraphLegendProps) {
+export default function GraphLegend({
+  show,
+  visibleEdgeTypes,
+  onToggleEdgeType,
+  edges,
+  violations,
+}: GraphLegendProps) {
   if (!show) return null;
 
+  const unsatisfied = edges.filter(
+    edge => !edge.satisfies && visibleEdgeTypes.includes(edge.type)
+  ).length;
+
   return (
     <div className="bg-white p-4 rounded-lg shadow border">
       <h4 className="text-sm font-medium text-gray-900 mb-3">Legend</h4>
@@ -52,39 +67,81 @@ export default function GraphLegend({ show }: GraphLegendProps) {
           </div>
         </div>
 
-        {/* Visual Elements */}
+        {/* Edge Types */}
         <div>
-          <h5 className="text-xs font-medium text-gray-700 mb-2">
-            Visual Elements
-          </h5>
+          <h5 className="text-xs font-medium text-gray-700 mb-2">Edge Types</h5>
           <div className="space-y-1 text-xs">
-            <div className="flex items-center space-x-2">
-              <svg width="16" height="8">
+            {DEPENDENCY_KINDS.map(type => (
+              <label
+                key={type}
+                className="flex items-center space-x-2 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={visibleEdgeTypes.includes(type)}
+                  onChange={() => onToggleEdgeType(type)}
+                  className="rounded border-gray-300"
+                />
+                <svg width="24" height="8">
+                  <line
+                    x1="0"
+                    y1="4"
+                    x2="24"
+                    y2="4"
+                    stroke={EDGE_TYPE_STYLES[type].color}
+                    strokeWidth="2"
+                    strokeDasharray={EDGE_TYPE_STYLES[type].dashArray}
+                  />
+                </svg>
+                <span>{DEPENDENCY_KIND_LABELS[type]}</span>
+                <span className="text-gray-400">
+                  {edges.filter(edge => edge.type === type).length}
+                </span>
+              </label>
+            ))}
+            <div className="flex items-center space-x-2 pl-5">
+              <svg width="24" height="8">
                 <line
                   x1="0"
                   y1="4"
-                  x2="16"
+                  x2="24"
                   y2="4"
-                  stroke="#6B7280"
+                  stroke={UNSATISFIED_EDGE_COLOR}
                   strokeWidth="2"
-                  markerEnd="url(#arrow)"
                 />
-                <defs>
-                  <marker
-                    id="arrow"
-                    markerWidth="10"
-                    markerHeight="10"
-                    refX="9"
-                    refY="3"
-                    orient="auto"
-                    markerUnits="strokeWidth"
-                  >
-                    <path d="M0,0 L0,6 L9,3 z" fill="#6B7280" />
-                  </marker>
-                </defs>
               </svg>
-              <span>Dependency</span>
+              <span>Range not satisfied</span>
+              {unsatisfied > 0 && (
+                <span className="text-red-600 font-medium">{unsatisfied}</span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2 pl-5">
+              <svg width="24" height="8">
+                <line
+                  x1="0"
+                  y1="4"
+                  x2="24"
+                  y2="4"
+                  stroke={BOUNDARY_VIOLATION_COLOR}
+                  strokeWidth="4"
+                />
+              </svg>
+              <span>Boundary violation</span>
+              {violations.length > 0 && (
+                <span className="text-rose-700 font-medium">
+                  {violations.length}
+                </span>
+              )}
             </div>
+          </div>
+        </div>
+
+        {/* Visual Elements */}
+        <div>
+          <h5 className="text-xs font-medium text-gray-700 mb-2">
+            Visual Elements
+          </h5>
+          <div className="space-y-1 text-xs">
             <div className="flex items-center space-x-2">
               <div className="w-4 h-3 border-2 border-blue-500 rounded bg-white"></div>
               <span>Selected</span>
@@ -104,6 +161,7 @@ export default function GraphLegend({ show }: GraphLegendProps) {
           <div className="space-y-1 text-xs text-gray-600">
             <div>• Click a package to select and view details</div>
             <div>• Hover to highlight connections</div>
+            <div>• Hover an edge to see its declared range</div>
             <div>• Use toolbar to change layout and zoom</div>
           </div>
         </div>
@@ -1,6 +1,7 @@
 import {
   Squares2X2Icon,
   ListBulletIcon,
+  ChartBarIcon,
   InformationCircleIcon,
   MagnifyingGlassMinusIcon,
   MagnifyingGlassPlusIcon,
@@ -45,6 +46,17 @@ export default function GraphToolbar({
             <ListBulletIcon className="w-4 h-4" />
             <span>List</span>
           </button>
+          <button
+            onClick={() => onViewModeChange('build-order')}
+            className={`px-3 py-2 text-sm font-medium flex items-center space-x-1 ${
+              viewMode === 'build-order'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <ChartBarIcon className="w-4 h-4" />
+            <span>Build order</span>
+          </button>
         </div>
       </div>
 
@@ -3,6 +3,9 @@ import {
   getStatusColor,
   getTypeColor,
   formatPackageName,
+  getEdgeStyle,
+  findBoundaryViolation,
+  BOUNDARY_VIOLATION_COLOR,
 } from '../utils/dependency.utils';
 import { LinkIcon } from '../../../../icons/heroicons';
 
@@ -13,57 +16,98 @@ export default function GraphVisualization({
   onPackageSelect,
   onPackageHover,
   layout,
+  edges,
+  visibleEdgeTypes,
+  violations,
 }: GraphVisualizationProps) {
+  const visibleEdges = edges.filter(edge => visibleEdgeTypes.includes(edge.type));
+  // Imports without a declared dependency have no graph edge of their own
+  const importViolations = violations.filter(violation => violation.source === 'import');
+
   return (
     <div className="relative bg-white rounded-lg shadow-sm border border-gray-200 p-6 min-h-[600px]">
       <svg className="w-full h-full absolute inset-0" viewBox="0 0 800 600">
         {/* Render dependency arrows */}
-        {packages.map(pkg =>
-          Object.keys(pkg.dependencies).map(depName => {
-            const dep = packages.find(d => d.name === depName);
-            if (!dep) return null;
+        {visibleEdges.map(edge => {
+          const pkg = packages.find(p => p.name === edge.from);
+          const dep = packages.find(d => d.name === edge.to);
+          if (!pkg || !dep) return null;
 
-            const isHighlighted =
-              hoveredPackage === pkg.name ||
-              hoveredPackage === depName ||
-              selectedPackage === pkg.name ||
-              selectedPackage === depName;
+          const isHighlighted =
+            hoveredPackage === edge.from ||
+            hoveredPackage === edge.to ||
+            selectedPackage === edge.from ||
+            selectedPackage === edge.to;
+          const violation = findBoundaryViolation(edge, violations);
+          const { color, dashArray } = getEdgeStyle(edge);
+          const stroke = violation
+            ? BOUNDARY_VIOLATION_COLOR
+            : isHighlighted && edge.satisfies
+              ? '#3B82F6'
+              : color;
+          const edgeId = `${edge.from}-${edge.to}-${edge.type}`;
 
-            return (
-              <g key={`${pkg.name}-${depName}`}>
-                <defs>
-                  <marker
-                    id={`arrow-${pkg.name}-${depName}`}
-                    markerWidth="10"
-                    markerHeight="10"
-                    refX="9"
-                    refY="3"
-                    orient="auto"
-                    markerUnits="strokeWidth"
-                  >
-                    <path
-                      d="M0,0 L0,6 L9,3 z"
-                      fill={isHighlighted ? '#3B82F6' : '#6B7280'}
-                    />
-                  </marker>
-                </defs>
-                <line
-                  x1={dep.x + 50}
-                  y1={dep.y + 25}
-                  x2={pkg.x}
-                  y2={pkg.y + 25}
-                  stroke={isHighlighted ? '#3B82F6' : '#6B7280'}
-                  strokeWidth={isHighlighted ? '3' : '2'}
-                  markerEnd={`url(#arrow-${pkg.name}-${depName})`}
-                  className="transition-all duration-200"
-                  style={{
-                    opacity: isHighlighted ? 1 : 0.6,
-                  }}
-                />
-              </g>
-            );
-          })
-        )}
+          return (
+            <g key={edgeId}>
+              <defs>
+                <marker
+                  id={`arrow-${edgeId}`}
+                  markerWidth="10"
+                  markerHeight="10"
+                  refX="9"
+                  refY="3"
+                  orient="auto"
+                  markerUnits="strokeWidth"
+                >
+                  <path d="M0,0 L0,6 L9,3 z" fill={stroke} />
+                </marker>
+              </defs>
+              <line
+                x1={dep.x + 50}
+                y1={dep.y + 25}
+                x2={pkg.x}
+                y2={pkg.y + 25}
+                stroke={stroke}
+                strokeWidth={violation ? '4' : isHighlighted ? '3' : '2'}
+                strokeDasharray={dashArray}
+                markerEnd={`url(#arrow-${edgeId})`}
+                className="transition-all duration-200"
+                style={{
+                  opacity: isHighlighted || violation ? 1 : 0.6,
+                }}
+              >
+                <title>
+                  {`${edge.from} → ${edge.to} (${edge.type}) ${edge.range}${
+                    edge.satisfies ? '' : ` does not match v${dep.version}`
+                  }${violation ? `\n${violation.message}` : ''}`}
+                </title>
+              </line>
+            </g>
+          );
+        })}
+
+        {/* Render undeclared imports breaking a boundary */}
+        {importViolations.map(violation => {
+          const pkg = packages.find(p => p.name === violation.from);
+          const dep = packages.find(d => d.name === violation.to);
+          if (!pkg || !dep) return null;
+
+          return (
+            <line
+              key={`import-${violation.from}-${violation.to}`}
+              x1={dep.x + 50}
+              y1={dep.y + 25}
+              x2={pkg.x}
+              y2={pkg.y + 25}
+              stroke={BOUNDARY_VIOLATION_COLOR}
+              strokeWidth="3"
+              strokeDasharray="1 4"
+              strokeLinecap="round"
+            >
+              <title>{`${violation.message} (imported in ${violation.files?.join(', ')})`}</title>
+            </line>
+          );
+        })}
 
         {/* Render package nodes */}
         {packages.map(pkg => {
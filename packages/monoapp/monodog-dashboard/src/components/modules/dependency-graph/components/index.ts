@@ -8,4 +8,6 @@ export { default as DependencyList } from './DependencyList';
 export { default as DependencyDetails } from './DependencyDetails';
 export { default as GraphStats } from './GraphStats';
 export { default as CircularDependencies } from './CircularDependencies';
+export { default as BoundaryViolations } from './BoundaryViolations';
 export { default as GraphLegend } from './GraphLegend';
+export { default as BuildOrderView } from './BuildOrderView';
@@ -1,4 +1,9 @@
 // Shared types for dependency graph module components
+import type {
+  BoundaryViolation,
+  DependencyKind,
+  GraphEdge,
+} from '../../../../services/monorepoService';
 
 export interface PackageNode {
   x: number;
@@ -58,6 +63,17 @@ export interface GraphVisualizationProps {
   onPackageSelect: (packageId: string | null) => void;
   onPackageHover: (packageId: string | null) => void;
   layout: 'hierarchical' | 'circular' | 'force';
+  edges: GraphEdge[];
+  visibleEdgeTypes: DependencyKind[];
+  violations: BoundaryViolation[];
+}
+
+export interface GraphLegendProps {
+  show: boolean;
+  visibleEdgeTypes: DependencyKind[];
+  onToggleEdgeType: (type: DependencyKind) => void;
+  edges: GraphEdge[];
+  violations: BoundaryViolation[];
 }
 
 export interface DependencyListProps {
@@ -75,9 +91,11 @@ export interface DependencyDetailsProps {
   onClose: () => void;
 }
 
+export type GraphViewMode = 'graph' | 'list' | 'build-order';
+
 export interface GraphToolbarProps {
-  viewMode: 'graph' | 'list';
-  onViewModeChange: (mode: 'graph' | 'list') => void;
+  viewMode: GraphViewMode;
+  onViewModeChange: (mode: GraphViewMode) => void;
   layout: 'hierarchical' | 'circular' | 'force';
   onLayoutChange: (layout: 'hierarchical' | 'circular' | 'force') => void;
   showLegend: boolean;
@@ -96,3 +114,12 @@ export interface CircularDependenciesProps {
   packages: PackageNode[];
   onPackageSelect: (packageId: string) => void;
 }
+
+export interface BoundaryViolationsProps {
+  violations: BoundaryViolation[];
+  onPackageSelect: (packageId: string) => void;
+}
+
+export interface BuildOrderViewProps {
+  onPackageSelect: (packageId: string | null) => void;
+}
@@ -6,6 +6,61 @@ import {
 import { BuildingLibraryIcon } from '../../../../icons/heroicons';
 import { RocketLaunchIcon } from '../../../../icons/heroicons';
 import { CubeIcon } from '../../../../icons/heroicons';
+import type {
+  BoundaryViolation,
+  DependencyKind,
+  GraphEdge,
+} from '../../../../services/monorepoService';
+
+export const DEPENDENCY_KINDS: DependencyKind[] = [
+  'prod',
+  'dev',
+  'peer',
+  'optional',
+];
+
+export const DEPENDENCY_KIND_LABELS: Record<DependencyKind, string> = {
+  prod: 'Production',
+  dev: 'Development',
+  peer: 'Peer',
+  optional: 'Optional',
+};
+
+// Stroke color and dash pattern per edge type
+export const EDGE_TYPE_STYLES: Record<
+  DependencyKind,
+  { color: string; dashArray?: string }
+> = {
+  prod: { color: '#6B7280' },
+  dev: { color: '#0EA5E9', dashArray: '6 4' },
+  peer: { color: '#8B5CF6', dashArray: '2 3' },
+  optional: { color: '#F59E0B', dashArray: '8 3 2 3' },
+};
+
+export const UNSATISFIED_EDGE_COLOR = '#EF4444';
+
+export const BOUNDARY_VIOLATION_COLOR = '#BE123C';
+
+// Violation of a tag constraint by a declared dependency edge
+export const findBoundaryViolation = (
+  edge: GraphEdge,
+  violations: BoundaryViolation[]
+) =>
+  violations.find(
+    violation =>
+      violation.source === 'graph' &&
+      violation.from === edge.from &&
+      violation.to === edge.to &&
+      violation.type === edge.type
+  );
+
+// Edges whose declared range rejects the local version are drawn in red
+export const getEdgeStyle = (edge: GraphEdge) => ({
+  color: edge.satisfies
+    ? EDGE_TYPE_STYLES[edge.type].color
+    : UNSATISFIED_EDGE_COLOR,
+  dashArray: EDGE_TYPE_STYLES[edge.type].dashArray,
+});
 
 // Get status color classes
 export const getStatusColor = (status: string): string => {
@@ -10,7 +10,24 @@ import {
   BeakerIcon,
 } from '../../../icons/heroicons';
 import { CubeIcon } from '../../../icons/heroicons';
-import { monorepoService } from '../../../services/monorepoService';
+import {
+  monorepoService,
+  HealthHistory,
+  HealthPolicy,
+  PackageAdvisory,
+} from '../../../services/monorepoService';
+import { HealthCheckResult } from './types/health.types';
+import {
+  advisoriesToAlerts,
+  getCustomChecks,
+  getHealthLevel,
+  getPackageThresholds,
+  getTrendingMetrics,
+} from './utils/health.utils';
+import HealthActions from './components/HealthActions';
+import HealthAlerts from './components/HealthAlerts';
+import { JobProgressState } from '../packages/types/packages.types';
+import { applyJobEvent } from '../packages/utils/packages.utils';
 
 // interface HealthMetric {
 //   name: string;
@@ -150,6 +167,7 @@ interface HealthData {
       lintStatus: string;
       securityAudit: string;
       overallScore: number;
+      checks?: HealthCheckResult[];
     };
     isHealthy: boolean;
   }>;
@@ -161,13 +179,26 @@ interface HealthData {
   };
 }
 
+const DEPENDENCY_STATUS = {
+  healthy: 'up-to-date',
+  warning: 'outdated',
+  error: 'vulnerable',
+};
+
 export default function HealthStatus() {
   // const [selectedMetric, setSelectedMetric] = useState<string>('all');
   const [refreshKey, setRefreshKey] = useState(0);
   const [healthData, setHealthData] = useState<HealthData | null>(null);
+  const [history, setHistory] = useState<HealthHistory | null>(null);
+  const [policy, setPolicy] = useState<HealthPolicy | null>(null);
+  const [advisories, setAdvisories] = useState<PackageAdvisory[]>([]);
+  const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(
+    new Set()
+  );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [refreshJob, setRefreshJob] = useState<JobProgressState | null>(null);
 
   useEffect(() => {
     const fetchHealthData = async () => {
@@ -189,46 +220,80 @@ export default function HealthStatus() {
   }, [refreshKey]);
   // console.log('Health data from outside of useEffect:', healthData);
 
+  // Trends come from the snapshots recorded on every refresh
+  useEffect(() => {
+    monorepoService
+      .getHealthHistory()
+      .then(setHistory)
+      .catch(err => {
+        setHistory(null);
+        console.error('Error fetching health history:', err);
+      });
+  }, [healthData]);
+
+  // Advisories are stored by the security check of each refresh
+  useEffect(() => {
+    monorepoService
+      .getAdvisories()
+      .then(report => setAdvisories(report.advisories))
+      .catch(err => {
+        setAdvisories([]);
+        console.error('Error fetching advisories:', err);
+      });
+  }, [healthData]);
+
+  // Score thresholds come from the server so per-package policies apply
+  useEffect(() => {
+    monorepoService
+      .getHealthPolicy()
+      .then(setPolicy)
+      .catch(err => console.error('Error fetching health policy:', err));
+  }, [refreshKey]);
+
+  // Follow the refresh job and reload health data once it succeeds
+  const refreshJobId = refreshJob?.job.id;
+  useEffect(() => {
+    if (!refreshJobId) return;
+
+    return monorepoService.watchJob(refreshJobId, event => {
+      setRefreshJob(state => state && applyJobEvent(state, event));
+      if (
+        event.type !== 'status' ||
+        event.status === 'queued' ||
+        event.status === 'running'
+      ) {
+        return;
+      }
+
+      setRefreshing(false);
+      if (event.status === 'succeeded') {
+        setRefreshJob(null);
+        setRefreshKey(prev => prev + 1);
+      }
+    });
+  }, [refreshJobId]);
+
+  // Health checks run as a background job so slow refreshes cannot time out
   const refreshData = async () => {
     try {
       setRefreshing(true);
       setError(null);
-      setLoading(true);
-      try {
-        const data = await monorepoService.refreshHealthStatus();
-        // console.log('Health data:', data);
-        setHealthData(data);
-        setError(null);
-      } catch (err) {
-        setError('Failed to fetch health data');
-        console.error('Error fetching health data:', err);
-      } finally {
-        setLoading(false);
-      }
-
-      // // Call the refresh API endpoint
-      // const response = await fetch('/api/health/refresh', {
-      //   method: 'POST',
-      //   headers: {
-      //     'Content-Type': 'application/json',
-      //   },
-      // });
-
-      // if (!response.ok) {
-      //   throw new Error('Refresh failed');
-      // }
-
-      // // Refresh the health data after successful refresh
-      // const data = await monorepoService.getHealthStatus();
-      // setHealthData(data);
+      const job = await monorepoService.createJob('health-refresh');
+      setRefreshJob({ job, currentPackage: null, lastMessage: null });
     } catch (err) {
       setError('Failed to refresh health data');
       console.error('Error refreshing health data:', err);
-    } finally {
       setRefreshing(false);
     }
   };
 
+  const cancelRefresh = () => {
+    if (!refreshJobId) return;
+    monorepoService
+      .cancelJob(refreshJobId)
+      .catch(err => console.error('Error cancelling health refresh:', err));
+  };
+
   const retryFetchData = () => {
     setRefreshKey(prev => prev + 1);
   };
@@ -341,17 +406,24 @@ export default function HealthStatus() {
   }
 
   const overallHealth = healthData ? healthData.summary?.averageScore : 0;
-  const healthyPackages = healthData
-    ? healthData?.packages?.filter(pkg => pkg.health.overallScore >= 80).length
-    : 0;
-  const warningPackages = healthData
-    ? healthData?.packages?.filter(
-        pkg => pkg.health.overallScore >= 60 && pkg.health.overallScore < 80
-      ).length
-    : 0;
-  const errorPackages = healthData
-    ? healthData?.packages?.filter(pkg => pkg.health.overallScore < 60).length
-    : 0;
+  const getPackageLevel = (pkg: HealthData['packages'][number]) =>
+    getHealthLevel(
+      pkg.health.overallScore,
+      getPackageThresholds(policy, pkg.packageName)
+    );
+  const countPackages = (level: 'healthy' | 'warning' | 'error') =>
+    healthData?.packages?.filter(pkg => getPackageLevel(pkg) === level)
+      .length ?? 0;
+  const healthyPackages = countPackages('healthy');
+  const warningPackages = countPackages('warning');
+  const errorPackages = countPackages('error');
+
+  const advisoryAlerts = advisoriesToAlerts(advisories).filter(
+    alert => !dismissedAlerts.has(alert.id)
+  );
+
+  const repoTrend = history?.trend;
+  const packageTrends = getTrendingMetrics(history?.packageTrends ?? []);
 
   const packagesHealth = [
     {
@@ -371,12 +443,10 @@ export default function HealthStatus() {
     {
       name: 'Overall Score',
       value: Math.round(overallHealth),
-      status:
-        Math.round(overallHealth) >= 80
-          ? 'healthy'
-          : Math.round(overallHealth) >= 60
-            ? 'warning'
-            : 'error',
+      status: getHealthLevel(
+        Math.round(overallHealth),
+        getPackageThresholds(policy)
+      ),
       description: `Average health score: ${Math.round(overallHealth)}/100`,
     },
     {
@@ -417,15 +487,15 @@ export default function HealthStatus() {
         </button>
       </div>
 
-      {/* Show refreshing overlay when refreshing with existing data */}
-      {refreshing && healthData && (
-        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg shadow-lg text-center">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-            <p className="mt-4 text-gray-700">Refreshing health data...</p>
-          </div>
-        </div>
-      )}
+      {/* Refresh and its live progress */}
+      <div className="my-3">
+        <HealthActions
+          onRefresh={refreshData}
+          loading={refreshing}
+          refreshJob={refreshJob}
+          onCancelRefresh={cancelRefresh}
+        />
+      </div>
 
       {/* Overall Health Score */}
       <div className="my-3 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg p-6 text-white">
@@ -441,6 +511,16 @@ export default function HealthStatus() {
               {overallHealth?.toFixed(2)}
             </div>
             <div className="text-blue-100">out of 100</div>
+            {repoTrend && repoTrend.snapshotCount > 1 && (
+              <div className="flex items-center justify-end space-x-1 text-sm text-blue-100">
+                {getTrendIcon(repoTrend.direction)}
+                <span>
+                  {repoTrend.delta > 0 ? '+' : ''}
+                  {repoTrend.delta.toFixed(2)} over {repoTrend.snapshotCount}{' '}
+                  refreshes
+                </span>
+              </div>
+            )}
           </div>
         </div>
         <div className="mt-4 flex space-x-4">
@@ -456,6 +536,15 @@ export default function HealthStatus() {
             <XCircleIcon className="w-5 h-5 text-red-300" />
             <span>{errorPackages} Errors</span>
           </div>
+          {history?.packageTrends && history.packageTrends.length > 0 && (
+            <div className="flex items-center space-x-2 text-blue-100">
+              <ChartBarIcon className="w-5 h-5" />
+              <span>
+                {packageTrends.improving} Improving, {packageTrends.declining}{' '}
+                Declining, {packageTrends.stable} Stable
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -532,6 +621,9 @@ export default function HealthStatus() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Dependencies
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Other Checks
+                </th>
                 <th className="hidden px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
@@ -563,11 +655,11 @@ export default function HealthStatus() {
                       <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
                         <div
                           className={`h-2 rounded-full ${
-                            pkg.health.overallScore >= 80
-                              ? 'bg-green-500'
-                              : pkg.health.overallScore >= 60
-                                ? 'bg-yellow-500'
-                                : 'bg-red-500'
+                            {
+                              healthy: 'bg-green-500',
+                              warning: 'bg-yellow-500',
+                              error: 'bg-red-500',
+                            }[getPackageLevel(pkg)]
                           }`}
                           style={{ width: `${pkg.health.overallScore}%` }}
                         />
@@ -661,21 +753,28 @@ export default function HealthStatus() {
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span
                       className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
-                        pkg.health.overallScore >= 80
-                          ? 'up-to-date'
-                          : pkg.health.overallScore >= 60
-                            ? 'outdated'
-                            : 'vulnerable'
+                        DEPENDENCY_STATUS[getPackageLevel(pkg)]
                       )}`}
                     >
-                      {pkg.health.overallScore >= 80
-                        ? 'up-to-date'
-                        : pkg.health.overallScore >= 60
-                          ? 'outdated'
-                          : 'vulnerable'}
+                      {DEPENDENCY_STATUS[getPackageLevel(pkg)]}
                     </span>
                   </td>
 
+                  {/* custom checks */}
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {getCustomChecks(pkg.health.checks).map(check => (
+                        <span
+                          key={check.id}
+                          title={check.message}
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(check.status)}`}
+                        >
+                          {check.name}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+
                   {/* actions */}
                   <td className="hidden px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex space-x-2">
@@ -691,6 +790,16 @@ export default function HealthStatus() {
         </div>
       </div>
 
+      {/* Security advisories */}
+      <div className="bg-white rounded-lg shadow border p-6">
+        <HealthAlerts
+          alerts={advisoryAlerts}
+          onAlertDismiss={id =>
+            setDismissedAlerts(prev => new Set(prev).add(id))
+          }
+        />
+      </div>
+
       {/* Health Recommendations */}
       <div className="hidden bg-white rounded-lg shadow border p-6">
         <h3 className="text-lg font-medium text-gray-900 mb-4">
@@ -5,6 +5,8 @@ import {
   ArrowUpIcon,
 } from '../../../../icons/heroicons';
 import { HealthActionsProps } from '../types/health.types';
+import { JobProgressPanel } from '../../packages/components';
+import { isJobActive } from '../../packages/utils/packages.utils';
 
 export default function HealthActions({
   onRefresh,
@@ -12,7 +14,11 @@ export default function HealthActions({
   onRunSecurityAudit,
   onUpdateDependencies,
   loading = false,
+  refreshJob = null,
+  onCancelRefresh,
 }: HealthActionsProps) {
+  const refreshRunning = !!refreshJob && isJobActive(refreshJob.job);
+
   const ActionButton = ({
     onClick,
     icon,
@@ -63,6 +69,14 @@ export default function HealthActions({
     <div className="space-y-4">
       <h3 className="text-lg font-medium text-gray-900">Quick Actions</h3>
 
+      {refreshJob && (
+        <JobProgressPanel
+          state={refreshJob}
+          label="Health refresh"
+          onCancel={onCancelRefresh}
+        />
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <ActionButton
           onClick={onRefresh}
@@ -70,6 +84,7 @@ export default function HealthActions({
           label="Refresh Data"
           description="Update all health metrics and package status"
           color="blue"
+          disabled={refreshRunning}
         />
 
         {onRunAllTests && (
@@ -101,6 +101,23 @@ export default function HealthAlerts({
                   >
                     {alert.message}
                   </p>
+                  {alert.details && alert.details.length > 0 && (
+                    <ul className="mt-1 text-xs text-gray-600 font-mono">
+                      {alert.details.map(detail => (
+                        <li key={detail}>{detail}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {alert.url && (
+                    <a
+                      href={alert.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      View advisory
+                    </a>
+                  )}
                   <p className="text-xs text-gray-500 mt-2">
                     {formatTimeAgo(alert.timestamp)}
                   </p>
@@ -1,5 +1,7 @@
 // Shared types for health status module components
 
+import type { JobProgressState } from '../../packages/types/packages.types';
+
 export interface HealthMetric {
   name: string;
   value: number;
@@ -9,6 +11,44 @@ export interface HealthMetric {
   lastUpdated: string;
 }
 
+export interface HealthCheckResult {
+  id: string;
+  name: string;
+  status: 'pass' | 'warn' | 'fail' | 'skip';
+  score: number;
+  weight: number;
+  value?: string | number;
+  message?: string;
+  output?: CommandOutput;
+}
+
+// Output of the command that failed a check
+export interface CommandOutput {
+  command: string;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+// A diagnostic reported by tsc; file and position are null for project-wide ones
+export interface TypeDiagnostic {
+  file: string | null;
+  line: number | null;
+  column: number | null;
+  code: number;
+  category: 'error' | 'warning';
+  message: string;
+}
+
+export interface TypeCheckReport {
+  errorCount: number;
+  warningCount: number;
+  diagnostics: TypeDiagnostic[]; // First diagnostics, errors before warnings
+  durationMs: number;
+}
+
 export interface PackageHealth {
   name: string;
   packageOverallScore: number;
@@ -19,6 +59,8 @@ export interface PackageHealth {
   dependencies: 'up-to-date' | 'outdated' | 'vulnerable';
   lastBuild: string;
   lastTest: string;
+  checks?: HealthCheckResult[];
+  typeCheck?: TypeCheckReport | null;
 }
 
 export interface HealthData {
@@ -34,13 +76,8 @@ export interface HealthAlert {
   message: string;
   packageName?: string;
   timestamp: string;
-}
-
-export interface HealthTrend {
-  metric: string;
-  data: Array<{ date: string; value: number }>;
-  change: number;
-  changeType: 'positive' | 'negative' | 'neutral';
+  url?: string;
+  details?: string[];
 }
 
 export interface HealthStatusProps {
@@ -77,4 +114,6 @@ export interface HealthActionsProps {
   onRunSecurityAudit?: () => void;
   onUpdateDependencies?: () => void;
   loading?: boolean;
+  refreshJob?: JobProgressState | null;
+  onCancelRefresh?: () => void;
 }
@@ -1,9 +1,15 @@
 import {
+  HealthCheckResult,
   HealthMetric,
   PackageHealth,
   HealthAlert,
-  HealthTrend,
 } from '../types/health.types';
+import {
+  HealthPolicy,
+  HealthThresholds,
+  HealthTrend,
+  PackageAdvisory,
+} from '../../../../services/monorepoService';
 import { CubeIcon } from '../../../../icons/heroicons';
 // Get status color classes
 export const getStatusColor = (status: string): string => {
@@ -27,6 +33,31 @@ export const getStatusColor = (status: string): string => {
   }
 };
 
+// Score thresholds used until the server's health policy has loaded
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  healthy: 80,
+  warning: 60,
+};
+
+// Thresholds of a package: its policy's, else the repository's
+export const getPackageThresholds = (
+  policy: HealthPolicy | null | undefined,
+  packageName?: string
+): HealthThresholds =>
+  policy?.packages.find(pkg => pkg.packageName === packageName)?.thresholds ??
+  policy?.thresholds ??
+  DEFAULT_HEALTH_THRESHOLDS;
+
+// Level of an overall score under the given thresholds
+export const getHealthLevel = (
+  score: number,
+  thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS
+): 'healthy' | 'warning' | 'error' => {
+  if (score >= thresholds.healthy) return 'healthy';
+  if (score >= thresholds.warning) return 'warning';
+  return 'error';
+};
+
 // Get health score color
 export const getHealthScoreColor = (score: number): string => {
   if (score >= 90) return 'text-green-600';
@@ -59,21 +90,19 @@ export const calculateOverallHealth = (metrics: HealthMetric[]): number => {
   return Math.round(totalScore / metrics.length);
 };
 
-// Get trending metrics
+// Count package trends from the recorded health history
 export const getTrendingMetrics = (
-  metrics: HealthMetric[]
+  trends: HealthTrend[]
 ): { improving: number; declining: number; stable: number } => {
-  const trends = metrics.reduce(
-    (acc, metric) => {
-      if (metric.trend === 'up') acc.improving++;
-      else if (metric.trend === 'down') acc.declining++;
+  return trends.reduce(
+    (acc, trend) => {
+      if (trend.direction === 'up') acc.improving++;
+      else if (trend.direction === 'down') acc.declining++;
       else acc.stable++;
       return acc;
     },
     { improving: 0, declining: 0, stable: 0 }
   );
-
-  return trends;
 };
 
 // Filter packages by health status
@@ -106,7 +135,8 @@ export const filterPackagesByHealth = (
 
 // Generate health alerts from package data
 export const generateHealthAlerts = (
-  packages: PackageHealth[]
+  packages: PackageHealth[],
+  policy?: HealthPolicy | null
 ): HealthAlert[] => {
   const alerts: HealthAlert[] = [];
 
@@ -160,7 +190,8 @@ export const generateHealthAlerts = (
     }
 
     // Low overall score
-    if (pkg.overallScore < 60) {
+    const thresholds = getPackageThresholds(policy, pkg.name);
+    if (getHealthLevel(pkg.overallScore, thresholds) === 'error') {
       alerts.push({
         id: `score-${pkg.name}`,
         type: 'warning',
@@ -177,6 +208,30 @@ export const generateHealthAlerts = (
   );
 };
 
+// Alerts listing the advisories found by the latest audits
+export const advisoriesToAlerts = (
+  advisories: PackageAdvisory[]
+): HealthAlert[] =>
+  advisories.map(advisory => ({
+    id: `advisory-${advisory.packageName}-${advisory.id}-${advisory.moduleName}`,
+    type:
+      advisory.severity === 'critical' || advisory.severity === 'high'
+        ? 'error'
+        : advisory.severity === 'info'
+          ? 'info'
+          : 'warning',
+    title: `${advisory.title} (${advisory.severity})`,
+    message: `${advisory.moduleName} ${advisory.vulnerableVersions} is vulnerable${
+      advisory.patchedVersions
+        ? `, patched in ${advisory.patchedVersions}`
+        : ''
+    }`,
+    packageName: advisory.packageName,
+    timestamp: advisory.createdAt,
+    url: advisory.url ?? undefined,
+    details: advisory.paths,
+  }));
+
 // Format time ago
 export const formatTimeAgo = (dateString: string): string => {
   const date = new Date(dateString);
@@ -218,3 +273,13 @@ export const sortPackagesByHealth = (
       : b.overallScore - a.overallScore;
   });
 };
+
+// Checks with their own column in the health table
+const BUILT_IN_CHECK_IDS = ['build', 'coverage', 'lint', 'security', 'dependencies'];
+
+// Get the results of custom and plugin health checks
+export const getCustomChecks = (
+  checks: HealthCheckResult[] = []
+): HealthCheckResult[] => {
+  return checks.filter(check => !BUILT_IN_CHECK_IDS.includes(check.id));
+};
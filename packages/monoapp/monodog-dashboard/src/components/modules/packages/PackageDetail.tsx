@@ -11,6 +11,7 @@ import {
   RecentCommitsTab,
   HealthMetricsTab,
   ConfigurationTab,
+  PackageSizeChart,
 } from './components';
 
 // Import types
@@ -223,6 +224,7 @@ export default function PackageDetail() {
                 </div>
               </div>
             </div>
+            <PackageSizeChart packageName={packageData.name} />
           </div>
         );
       case 'dependencies':
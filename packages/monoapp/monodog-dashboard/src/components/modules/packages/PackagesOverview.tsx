@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { PlusIcon } from '../../../icons/heroicons';
+import { PlusIcon, ArrowPathIcon } from '../../../icons/heroicons';
 import { CubeIcon } from '../../../icons/heroicons';
 // Import sub-components
 import {
@@ -8,6 +8,8 @@ import {
   PackageStats,
   SearchAndFilter,
   PackagesTable,
+  RefreshSummaryBanner,
+  JobProgressPanel,
 } from './components';
 
 // Import types and utilities
@@ -15,17 +17,27 @@ import {
   Package,
   PackageFilters,
   PackageSorting,
+  JobProgressState,
 } from './types/packages.types';
 import {
   calculatePackageStats,
   getUniquePackageTypes,
   getUniquePackageStatuses,
+  getUniquePackageOwners,
   filterPackages,
   sortPackages,
+  applyJobEvent,
 } from './utils/packages.utils';
 
 // Import service
-import { monorepoService } from '../../../services/monorepoService';
+import {
+  monorepoService,
+  PackageChange,
+  RefreshSummary,
+} from '../../../services/monorepoService';
+
+// How often the server-side package watcher is polled for new changes
+const WATCHER_POLL_INTERVAL = 10 * 1000;
 
 // Re-export types for backward compatibility
 export type { Package } from './types/packages.types';
@@ -34,12 +46,20 @@ export default function PackagesOverview() {
   const [packages, setPackages] = useState<Package[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [lastChange, setLastChange] = useState<PackageChange | null>(null);
+  const [syncVersion, setSyncVersion] = useState(0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshSummary, setRefreshSummary] = useState<RefreshSummary | null>(
+    null
+  );
+  const [refreshJob, setRefreshJob] = useState<JobProgressState | null>(null);
 
   // Filters and sorting state
   const [filters, setFilters] = useState<PackageFilters>({
     search: '',
     type: 'all',
     status: 'all',
+    owner: 'all',
   });
 
   const [sorting, setSorting] = useState<PackageSorting>({
@@ -51,7 +71,8 @@ export default function PackagesOverview() {
   useEffect(() => {
     const fetchPackages = async () => {
       try {
-        setLoading(true);
+        // Background reloads triggered by the watcher keep the table on screen
+        setLoading(syncVersion === 0);
         const data = await monorepoService.getPackages();
         setPackages(data);
         setError(null);
@@ -64,8 +85,80 @@ export default function PackagesOverview() {
     };
 
     fetchPackages();
+  }, [syncVersion]);
+
+  // Reload packages when the package watcher records a new change
+  useEffect(() => {
+    let lastSeen: string | null | undefined;
+
+    const checkWatcher = async () => {
+      const status = await monorepoService.getWatcherStatus();
+      if (!status?.running) return;
+
+      const latest = status.changes[0] ?? null;
+      setLastChange(latest);
+      if (lastSeen !== undefined && latest && latest.timestamp !== lastSeen) {
+        setSyncVersion(version => version + 1);
+      }
+      lastSeen = latest?.timestamp ?? null;
+    };
+
+    checkWatcher();
+    const interval = setInterval(checkWatcher, WATCHER_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
   }, []);
 
+  // Follow the refresh job until it finishes
+  const refreshJobId = refreshJob?.job.id;
+  useEffect(() => {
+    if (!refreshJobId) return;
+
+    return monorepoService.watchJob(refreshJobId, event => {
+      setRefreshJob(state => state && applyJobEvent(state, event));
+      if (
+        event.type !== 'status' ||
+        event.status === 'queued' ||
+        event.status === 'running'
+      ) {
+        return;
+      }
+
+      setRefreshing(false);
+      if (event.status === 'succeeded') {
+        monorepoService
+          .getJob(refreshJobId)
+          .then(job => {
+            setRefreshJob(null);
+            const result = job.result as { summary: RefreshSummary };
+            setRefreshSummary(result.summary);
+            setSyncVersion(version => version + 1);
+          })
+          .catch(err => console.error('Error fetching refresh job:', err));
+      }
+    });
+  }, [refreshJobId]);
+
+  // Handle incremental refresh from source, run as a background job
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setRefreshSummary(null);
+    try {
+      const job = await monorepoService.createJob('package-refresh');
+      setRefreshJob({ job, currentPackage: null, lastMessage: null });
+    } catch (err) {
+      console.error('Error starting package refresh:', err);
+      setRefreshing(false);
+    }
+  };
+
+  const handleCancelRefresh = () => {
+    if (!refreshJobId) return;
+    monorepoService
+      .cancelJob(refreshJobId)
+      .catch(err => console.error('Error cancelling refresh:', err));
+  };
+
   // Handle retry
   const handleRetry = () => {
     window.location.reload();
@@ -77,6 +170,7 @@ export default function PackagesOverview() {
   const stats = calculatePackageStats(packages);
   const availableTypes = getUniquePackageTypes(packages);
   const availableStatuses = getUniquePackageStatuses(packages);
+  const availableOwners = getUniquePackageOwners(packages);
 
   // Loading state
   if (loading) {
@@ -97,13 +191,46 @@ export default function PackagesOverview() {
           <p className="text-body mt-1">
             Manage and monitor all packages in your monorepo
           </p>
+          {lastChange && (
+            <p className="text-xs text-gray-500 mt-1">
+              Live sync: {lastChange.packageName} {lastChange.type}{' '}
+              {new Date(lastChange.timestamp).toLocaleTimeString()}
+            </p>
+          )}
         </div>
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ArrowPathIcon
+            className={`w-5 h-5 ${refreshing ? 'animate-spin' : ''}`}
+          />
+          <span>{refreshing ? 'Refreshing...' : 'Refresh'}</span>
+        </button>
         {/* <button className="btn-primary flex items-center space-x-2">
           <PlusIcon className="w-5 h-5" />
           <span>Add Package</span>
         </button> */}
       </div>
 
+      {/* Refresh Progress */}
+      {refreshJob && (
+        <JobProgressPanel
+          state={refreshJob}
+          label="Package refresh"
+          onCancel={handleCancelRefresh}
+        />
+      )}
+
+      {/* Refresh Summary */}
+      {refreshSummary && (
+        <RefreshSummaryBanner
+          summary={refreshSummary}
+          onDismiss={() => setRefreshSummary(null)}
+        />
+      )}
+
       {/* Stats Cards */}
       <PackageStats stats={stats} />
 
@@ -113,6 +240,7 @@ export default function PackagesOverview() {
         onFiltersChange={setFilters}
         availableTypes={availableTypes}
         availableStatuses={availableStatuses}
+        availableOwners={availableOwners}
       />
 
       {/* Results Summary */}
@@ -124,6 +252,7 @@ export default function PackagesOverview() {
         <span>
           {filters.type !== 'all' && `Filtered by type: ${filters.type}`}
           {filters.status !== 'all' && ` • status: ${filters.status}`}
+          {filters.owner !== 'all' && ` • owner: ${filters.owner}`}
         </span>
       </div>
 
@@ -132,6 +261,7 @@ export default function PackagesOverview() {
         packages={sortedPackages}
         sorting={sorting}
         onSortChange={setSorting}
+        onOwnerSelect={owner => setFilters({ ...filters, owner })}
       />
 
       {/* Empty State */}
@@ -142,16 +272,23 @@ export default function PackagesOverview() {
           <p className="text-body mb-4">
             {filters.search ||
             filters.type !== 'all' ||
-            filters.status !== 'all'
+            filters.status !== 'all' ||
+            filters.owner !== 'all'
               ? 'Try adjusting your filters to see more results.'
               : 'Get started by adding your first package to the monorepo.'}
           </p>
           {(filters.search ||
             filters.type !== 'all' ||
-            filters.status !== 'all') && (
+            filters.status !== 'all' ||
+            filters.owner !== 'all') && (
             <button
               onClick={() =>
-                setFilters({ search: '', type: 'all', status: 'all' })
+                setFilters({
+                  search: '',
+                  type: 'all',
+                  status: 'all',
+                  owner: 'all',
+                })
               }
               className="text-primary-600 hover:text-primary-500"
             >
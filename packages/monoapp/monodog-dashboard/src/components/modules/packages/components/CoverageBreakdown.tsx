@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { BeakerIcon } from '../../../../icons/heroicons';
+import {
+  CoverageTotals,
+  monorepoService,
+  PackageCoverage,
+} from '../../../../services/monorepoService';
+import { CoverageBreakdownProps } from '../types/packages.types';
+
+const METRICS: Array<{ key: keyof CoverageTotals; label: string }> = [
+  { key: 'lines', label: 'Lines' },
+  { key: 'branches', label: 'Branches' },
+  { key: 'functions', label: 'Functions' },
+  { key: 'statements', label: 'Statements' },
+];
+
+// Files listed before the rest are collapsed
+const VISIBLE_FILES = 10;
+
+const getCoverageColor = (pct: number) => {
+  if (pct >= 80) return 'text-green-600';
+  if (pct >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const getCoverageBar = (pct: number) => {
+  if (pct >= 80) return 'bg-green-500';
+  if (pct >= 50) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+export default function CoverageBreakdown({
+  packageName,
+}: CoverageBreakdownProps) {
+  const [coverage, setCoverage] = useState<PackageCoverage | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    monorepoService
+      .getPackageCoverage(packageName)
+      .then(setCoverage)
+      .catch(err => {
+        console.error('Error fetching package coverage:', err);
+        setCoverage(null);
+      });
+  }, [packageName]);
+
+  const report = coverage?.latest;
+  // Least covered files first
+  const files = [...(report?.files ?? [])].sort(
+    (a, b) => a.lines.pct - b.lines.pct || a.file.localeCompare(b.file)
+  );
+  const visibleFiles = showAll ? files : files.slice(0, VISIBLE_FILES);
+
+  return (
+    <div className="bg-white border rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="flex items-center space-x-2 text-lg font-medium text-gray-900">
+          <BeakerIcon className="w-5 h-5 text-gray-600" />
+          <span>Test Coverage</span>
+        </h4>
+        {report && (
+          <span className="text-xs text-gray-500">
+            {report.format} report{' '}
+            <span className="font-mono">{report.reportPath}</span>, read{' '}
+            {new Date(report.createdAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {!report ? (
+        <p className="text-sm text-gray-500">
+          No coverage report found. Run the package tests with coverage and
+          refresh health to see a per-file breakdown.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {METRICS.map(({ key, label }) => (
+              <div key={key}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-600">{label}</span>
+                  <span
+                    className={`font-medium ${getCoverageColor(report.totals[key].pct)}`}
+                  >
+                    {report.totals[key].pct}%
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${getCoverageBar(report.totals[key].pct)}`}
+                    style={{ width: `${report.totals[key].pct}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {report.totals[key].covered} of {report.totals[key].total}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {files.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">File</th>
+                    {METRICS.map(({ key, label }) => (
+                      <th
+                        key={key}
+                        className="py-2 px-2 font-medium text-right"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleFiles.map(file => (
+                    <tr key={file.file} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-mono text-gray-700 break-all">
+                        {file.file}
+                      </td>
+                      {METRICS.map(({ key }) => (
+                        <td
+                          key={key}
+                          className={`py-2 px-2 text-right ${getCoverageColor(file[key].pct)}`}
+                          title={`${file[key].covered} of ${file[key].total}`}
+                        >
+                          {file[key].pct}%
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {files.length > VISIBLE_FILES && (
+                <button
+                  onClick={() => setShowAll(!showAll)}
+                  className="mt-3 text-sm text-blue-600 hover:text-blue-500"
+                >
+                  {showAll
+                    ? 'Show fewer files'
+                    : `Show all ${files.length} files`}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
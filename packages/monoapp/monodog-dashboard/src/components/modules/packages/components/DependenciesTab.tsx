@@ -1,15 +1,89 @@
-import { ArrowUpIcon } from '../../../../icons/heroicons';
+import { useEffect, useState } from 'react';
+import {
+  ArrowUpIcon,
+  ExclamationTriangleIcon,
+  DocumentDuplicateIcon,
+} from '../../../../icons/heroicons';
+import {
+  monorepoService,
+  LicenseReport,
+  LockfileReport,
+  PackageDependencyHygiene,
+  ResolvedDependency,
+} from '../../../../services/monorepoService';
+import DependencyHygienePanel from './DependencyHygienePanel';
+import LicenseCompliancePanel from './LicenseCompliancePanel';
 import { PackageDetail } from '../types/packages.types';
 import { getDependencyStatusColor } from '../utils/packages.utils';
 
+// DependencyInfo types mapped to the dependency kinds used by the lockfile report
+const LOCKFILE_KINDS: Record<string, ResolvedDependency['type']> = {
+  dependency: 'prod',
+  devDependency: 'dev',
+  peerDependency: 'peer',
+};
+
 interface DependenciesTabProps {
   packageData: PackageDetail;
 }
 
 export default function DependenciesTab({ packageData }: DependenciesTabProps) {
+  const [lockfileReport, setLockfileReport] = useState<LockfileReport | null>(
+    null
+  );
+
+  const [hygiene, setHygiene] = useState<PackageDependencyHygiene | null>(null);
+
+  useEffect(() => {
+    monorepoService
+      .getDependencyHygiene(packageData.name)
+      .then(report => setHygiene(report.packages[0] ?? null))
+      .catch(err => {
+        console.error('Error fetching dependency hygiene:', err);
+        setHygiene(null);
+      });
+  }, [packageData.name]);
+
+  const [licenseReport, setLicenseReport] = useState<LicenseReport | null>(
+    null
+  );
+
+  useEffect(() => {
+    monorepoService
+      .getLicenseReport(packageData.name)
+      .then(setLicenseReport)
+      .catch(err => {
+        console.error('Error fetching license report:', err);
+        setLicenseReport(null);
+      });
+  }, [packageData.name]);
+
+  useEffect(() => {
+    monorepoService
+      .getLockfileReport(packageData.name)
+      .then(setLockfileReport)
+      .catch(err => {
+        // Resolved versions are optional, the declared ranges still show
+        console.error('Error fetching lockfile report:', err);
+        setLockfileReport(null);
+      });
+  }, [packageData.name]);
+
   if (!packageData.dependenciesInfo.length) {
-    return <p className="py-6 text-gray-600">No dependency found.</p>;
+    return (
+      <div className="py-6">
+        <p className="mb-6 text-gray-600">No dependency found.</p>
+        <DependencyHygienePanel hygiene={hygiene} />
+      </div>
+    );
   }
+
+  const resolvedDependencies = lockfileReport?.packages[0]?.dependencies ?? [];
+  const findResolved = (name: string, type: string) =>
+    resolvedDependencies.find(
+      dep => dep.name === name && dep.type === LOCKFILE_KINDS[type]
+    );
+
   const renderDependencyTable = (
     dependencies: PackageDetail['dependenciesInfo'],
     title: string
@@ -26,10 +100,13 @@ export default function DependenciesTab({ packageData }: DependenciesTabProps) {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Current
               </th>
-              <th className="hidden px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Resolved
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Latest
               </th>
-              <th className="hidden px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Status
               </th>
               <th className="hidden px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -38,40 +115,66 @@ export default function DependenciesTab({ packageData }: DependenciesTabProps) {
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {dependencies.map(dep => (
-              <tr key={dep.name} className="hover:bg-gray-50">
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm font-medium text-gray-900">
-                    {dep.name}
-                  </div>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <span className="text-sm font-mono text-gray-700">
-                    {dep.version}
-                  </span>
-                </td>
-                <td className="hidden px-6 py-4 whitespace-nowrap">
-                  <span className="text-sm font-mono text-gray-700">
-                    {dep.latest}
-                  </span>
-                </td>
-                <td className="hidden px-6 py-4 whitespace-nowrap">
-                  <span
-                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getDependencyStatusColor(dep.status)}`}
-                  >
-                    {dep.status.replace('-', ' ')}
-                  </span>
-                </td>
-                <td className="hidden px-6 py-4 whitespace-nowrap text-sm">
-                  {dep.status !== 'up-to-date' && (
-                    <button className="text-blue-600 hover:text-blue-500 flex items-center space-x-1">
-                      <ArrowUpIcon className="w-4 h-4" />
-                      <span>Update</span>
-                    </button>
-                  )}
-                </td>
-              </tr>
-            ))}
+            {dependencies.map(dep => {
+              const resolved = findResolved(dep.name, dep.type);
+              return (
+                <tr key={dep.name} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {dep.name}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="text-sm font-mono text-gray-700">
+                      {dep.version}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {resolved?.resolved ? (
+                      <span
+                        className={`inline-flex items-center space-x-1 text-sm font-mono ${
+                          resolved.satisfies === false
+                            ? 'text-red-600'
+                            : 'text-gray-700'
+                        }`}
+                        title={
+                          resolved.satisfies === false
+                            ? `Locked version does not satisfy ${resolved.range}`
+                            : undefined
+                        }
+                      >
+                        {resolved.satisfies === false && (
+                          <ExclamationTriangleIcon className="w-4 h-4" />
+                        )}
+                        <span>{resolved.resolved}</span>
+                      </span>
+                    ) : (
+                      <span className="text-sm text-gray-400">—</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="text-sm font-mono text-gray-700">
+                      {dep.latest || '-'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getDependencyStatusColor(dep.status || 'unknown')}`}
+                    >
+                      {(dep.status || 'unknown').replace('-', ' ')}
+                    </span>
+                  </td>
+                  <td className="hidden px-6 py-4 whitespace-nowrap text-sm">
+                    {dep.status !== 'up-to-date' && (
+                      <button className="text-blue-600 hover:text-blue-500 flex items-center space-x-1">
+                        <ArrowUpIcon className="w-4 h-4" />
+                        <span>Update</span>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -93,6 +196,33 @@ export default function DependenciesTab({ packageData }: DependenciesTabProps) {
         'Peer Dependencies'
       )}
 
+      <DependencyHygienePanel hygiene={hygiene} />
+
+      <LicenseCompliancePanel
+        packageName={packageData.name}
+        report={licenseReport}
+      />
+
+      {/* Lockfile Duplicates */}
+      {lockfileReport && lockfileReport.duplicates.length > 0 && (
+        <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h4 className="flex items-center space-x-2 font-medium text-yellow-900 mb-2">
+            <DocumentDuplicateIcon className="w-5 h-5" />
+            <span>Installed in multiple versions</span>
+          </h4>
+          <ul className="space-y-1 text-sm text-yellow-800">
+            {lockfileReport.duplicates.map(duplicate => (
+              <li key={duplicate.name}>
+                <span className="font-medium">{duplicate.name}</span>
+                <span className="ml-2 font-mono">
+                  {duplicate.versions.join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Dependency Summary */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-blue-900 mb-2">Dependency Summary</h4>
@@ -140,6 +270,18 @@ export default function DependenciesTab({ packageData }: DependenciesTabProps) {
               }
             </span>
           </div>
+          <div>
+            <span className="font-medium text-blue-800">Out of Range:</span>
+            <span className="ml-2 text-blue-700">
+              {lockfileReport?.outOfRange.length ?? 0}
+            </span>
+          </div>
+          <div>
+            <span className="font-medium text-blue-800">Lockfile:</span>
+            <span className="ml-2 text-blue-700">
+              {lockfileReport?.lockfile ?? 'Not found'}
+            </span>
+          </div>
           <div>
             <span className="font-medium text-blue-800">Major Updates:</span>
             <span className="ml-2 text-blue-700">
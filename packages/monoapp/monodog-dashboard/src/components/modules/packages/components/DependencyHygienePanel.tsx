@@ -0,0 +1,92 @@
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from '../../../../icons/heroicons';
+import { ImportUsage } from '../../../../services/monorepoService';
+import { DependencyHygienePanelProps } from '../types/packages.types';
+
+export default function DependencyHygienePanel({
+  hygiene,
+}: DependencyHygienePanelProps) {
+  if (!hygiene) {
+    return null;
+  }
+
+  const issues =
+    hygiene.unused.length +
+    hygiene.missing.length +
+    hygiene.undeclaredInternal.length;
+
+  const renderUsages = (title: string, usages: ImportUsage[]) =>
+    usages.length > 0 && (
+      <div>
+        <p className="font-medium text-yellow-900">{title}</p>
+        <ul className="mt-1 space-y-1">
+          {usages.map(usage => (
+            <li key={usage.name}>
+              <span className="font-mono">{usage.name}</span>
+              <span className="ml-2 text-yellow-700">
+                {usage.files.join(', ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <div
+      className={`mb-8 border rounded-lg p-4 ${
+        issues
+          ? 'bg-yellow-50 border-yellow-200'
+          : 'bg-green-50 border-green-200'
+      }`}
+    >
+      <h4
+        className={`flex items-center space-x-2 font-medium mb-2 ${
+          issues ? 'text-yellow-900' : 'text-green-900'
+        }`}
+      >
+        {issues ? (
+          <ExclamationTriangleIcon className="w-5 h-5" />
+        ) : (
+          <CheckCircleIcon className="w-5 h-5" />
+        )}
+        <span>Dependency hygiene</span>
+        <span className="text-sm font-normal">
+          ({hygiene.filesScanned} source files scanned)
+        </span>
+      </h4>
+
+      {issues === 0 ? (
+        <p className="text-sm text-green-800">
+          Every declared dependency is imported and every import is declared.
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm text-yellow-800">
+          {hygiene.unused.length > 0 && (
+            <div>
+              <p className="font-medium text-yellow-900">
+                Declared but never imported
+              </p>
+              <p className="mt-1">
+                {hygiene.unused.map((dep, index) => (
+                  <span key={`${dep.name}-${dep.type}`}>
+                    {index > 0 && ', '}
+                    <span className="font-mono">{dep.name}</span>
+                    <span className="text-yellow-700"> ({dep.type})</span>
+                  </span>
+                ))}
+              </p>
+            </div>
+          )}
+          {renderUsages('Imported but not declared', hygiene.missing)}
+          {renderUsages(
+            'Workspace packages imported without a dependency',
+            hygiene.undeclaredInternal
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,21 @@
+import { useEffect, useState } from 'react';
 import {
   CheckCircleIcon,
   XCircleIcon,
   ExclamationTriangleIcon,
 } from '../../../../icons/heroicons';
 import { PackageDetail } from '../types/packages.types';
+import { HealthCheckResult } from '../../health-status/types/health.types';
+import {
+  getHealthLevel,
+  getPackageThresholds,
+} from '../../health-status/utils/health.utils';
+import {
+  monorepoService,
+  HealthPolicy,
+} from '../../../../services/monorepoService';
+import { formatTypeDiagnostic } from '../utils/packages.utils';
+import CoverageBreakdown from './CoverageBreakdown';
 
 interface HealthMetricsTabProps {
   packageData: PackageDetail;
@@ -12,58 +24,66 @@ interface HealthMetricsTabProps {
 export default function HealthMetricsTab({
   packageData,
 }: HealthMetricsTabProps) {
-  const getHealthScoreColor = (score: number) => {
-    if (score >= 80) return 'text-green-600';
-    if (score >= 60) return 'text-yellow-600';
-    return 'text-red-600';
-  };
+  const [policy, setPolicy] = useState<HealthPolicy | null>(null);
 
-  const getHealthScoreBg = (score: number) => {
-    if (score >= 80) return 'bg-green-100';
-    if (score >= 60) return 'bg-yellow-100';
-    return 'bg-red-100';
-  };
+  useEffect(() => {
+    monorepoService
+      .getHealthPolicy()
+      .then(setPolicy)
+      .catch(err => console.error('Error fetching health policy:', err));
+  }, []);
 
-  const getBuildStatusIcon = (status: string) => {
+  const thresholds = getPackageThresholds(policy, packageData.name);
+  const level = getHealthLevel(
+    packageData.packageHealth?.packageOverallScore ?? 0,
+    thresholds
+  );
+  const levelStyles = {
+    healthy: {
+      text: 'text-green-600',
+      bar: 'bg-green-500',
+      description: 'Excellent health - package is in great condition',
+    },
+    warning: {
+      text: 'text-yellow-600',
+      bar: 'bg-yellow-500',
+      description: 'Good health - minor issues detected',
+    },
+    error: {
+      text: 'text-red-600',
+      bar: 'bg-red-500',
+      description: 'Needs attention - several issues require fixing',
+    },
+  }[level];
+
+  const getCheckStatusIcon = (status: HealthCheckResult['status']) => {
     switch (status) {
-      case 'success':
+      case 'pass':
         return <CheckCircleIcon className="w-5 h-5 text-green-500" />;
-      case 'failed':
+      case 'fail':
         return <XCircleIcon className="w-5 h-5 text-red-500" />;
-      case 'running':
-        return (
-          <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
-        );
+      case 'warn':
+        return <ExclamationTriangleIcon className="w-5 h-5 text-yellow-500" />;
       default:
         return <ExclamationTriangleIcon className="w-5 h-5 text-gray-500" />;
     }
   };
 
-  const getBuildStatusColor = (status: string) => {
-    switch (status) {
-      case 'success':
-        return 'bg-green-100 text-green-800';
-      case 'failed':
-        return 'bg-red-100 text-red-800';
-      case 'running':
-        return 'bg-blue-100 text-blue-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
-  const getLintStatusColor = (status: string) => {
+  const getCheckStatusColor = (status: HealthCheckResult['status']) => {
     switch (status) {
       case 'pass':
         return 'bg-green-100 text-green-800';
       case 'fail':
         return 'bg-red-100 text-red-800';
-      case 'warning':
+      case 'warn':
         return 'bg-yellow-100 text-yellow-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
+
+  const checks = packageData.packageHealth?.checks ?? [];
+  const typeCheck = packageData.packageHealth?.typeCheck;
   if (!packageData.packageHealth?.packageOverallScore) {
     return <p className="py-6 text-gray-600">No health data available.</p>;
   }
@@ -73,22 +93,14 @@ export default function HealthMetricsTab({
       <div className="bg-white border rounded-lg p-6 mb-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-medium text-gray-900">Health Score</h3>
-          <div
-            className={`text-3xl font-bold ${getHealthScoreColor(packageData.packageHealth.packageOverallScore)}`}
-          >
+          <div className={`text-3xl font-bold ${levelStyles.text}`}>
             {packageData.packageHealth.packageOverallScore}%
           </div>
         </div>
 
         <div className="w-full bg-gray-200 rounded-full h-3 mb-4">
           <div
-            className={`h-3 rounded-full transition-all duration-300 ${
-              packageData.packageHealth.packageOverallScore >= 80
-                ? 'bg-green-500'
-                : packageData.packageHealth.packageOverallScore >= 60
-                  ? 'bg-yellow-500'
-                  : 'bg-red-500'
-            }`}
+            className={`h-3 rounded-full transition-all duration-300 ${levelStyles.bar}`}
             style={{
               width: `${packageData.packageHealth.packageOverallScore}%`,
             }}
@@ -96,94 +108,118 @@ export default function HealthMetricsTab({
         </div>
 
         <p className="text-sm text-gray-600">
-          {packageData.packageHealth.packageOverallScore >= 80 &&
-            'Excellent health - package is in great condition'}
-          {packageData.packageHealth.packageOverallScore >= 60 &&
-            packageData.packageHealth.packageOverallScore < 80 &&
-            'Good health - minor issues detected'}
-          {packageData.packageHealth.packageOverallScore < 60 &&
-            'Needs attention - several issues require fixing'}
+          {levelStyles.description}
+          <span className="text-gray-400">
+            {' '}
+            (healthy from {thresholds.healthy}, warning from{' '}
+            {thresholds.warning})
+          </span>
         </p>
       </div>
 
-      {/* Health Metrics Grid */}
+      {/* Health Checks */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-        {/* Build Status */}
-        <div className="bg-white border rounded-lg p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h4 className="text-sm font-medium text-gray-900">Build Status</h4>
-            {getBuildStatusIcon(packageData.packageHealth.packageBuildStatus)}
-          </div>
-          <div className="flex items-center justify-between">
-            <span
-              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getBuildStatusColor(packageData.packageHealth.packageBuildStatus)}`}
-            >
-              {packageData.packageHealth.packageBuildStatus}
-            </span>
-            <button className="hidden text-blue-600 hover:text-blue-500 text-sm">
-              View Logs
-            </button>
+        {checks.map(check => (
+          <div key={check.id} className="bg-white border rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="text-sm font-medium text-gray-900">
+                {check.name}
+              </h4>
+              {getCheckStatusIcon(check.status)}
+            </div>
+            <div className="flex items-center justify-between">
+              <span
+                className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getCheckStatusColor(check.status)}`}
+              >
+                {check.status}
+              </span>
+              <span className="text-xs text-gray-500">
+                Weight {check.weight}
+              </span>
+            </div>
+            {check.message && (
+              <p className="mt-3 text-sm text-gray-600">{check.message}</p>
+            )}
+            {check.output && (
+              <details className="mt-3">
+                <summary className="cursor-pointer text-xs text-blue-600 hover:text-blue-500">
+                  Show output
+                </summary>
+                <p className="mt-2 text-xs text-gray-500 font-mono break-all">
+                  $ {check.output.command}
+                </p>
+                <pre className="mt-1 max-h-64 overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-100 whitespace-pre-wrap">
+                  {[check.output.stderr, check.output.stdout]
+                    .filter(Boolean)
+                    .join('\n') || 'No output'}
+                </pre>
+              </details>
+            )}
           </div>
-        </div>
+        ))}
+      </div>
 
-        {/* Test Coverage */}
-        <div className="hidden bg-white border rounded-lg p-6">
+      {/* Type Check */}
+      {typeCheck && (
+        <div className="bg-white border rounded-lg p-6 mb-6">
           <div className="flex items-center justify-between mb-4">
-            <h4 className="text-sm font-medium text-gray-900">Test Coverage</h4>
-            <div
-              className={`text-lg font-semibold ${
-                packageData.packageHealth.packageTestCoverage >= 80
-                  ? 'text-green-600'
-                  : packageData.packageHealth.packageTestCoverage >= 60
+            <h4 className="text-lg font-medium text-gray-900">Type Check</h4>
+            <div className="flex gap-4 text-sm">
+              <span
+                className={
+                  typeCheck.errorCount > 0 ? 'text-red-600' : 'text-gray-600'
+                }
+              >
+                {typeCheck.errorCount} errors
+              </span>
+              <span
+                className={
+                  typeCheck.warningCount > 0
                     ? 'text-yellow-600'
-                    : 'text-red-600'
-              }`}
-            >
-              {packageData.packageHealth.packageTestCoverage}%
+                    : 'text-gray-600'
+                }
+              >
+                {typeCheck.warningCount} warnings
+              </span>
+              <span className="text-gray-400">
+                {(typeCheck.durationMs / 1000).toFixed(1)}s
+              </span>
             </div>
           </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
-            <div
-              className={`h-2 rounded-full ${
-                packageData.packageHealth.packageTestCoverage >= 80
-                  ? 'bg-green-500'
-                  : packageData.packageHealth.packageTestCoverage >= 60
-                    ? 'bg-yellow-500'
-                    : 'bg-red-500'
-              }`}
-              style={{
-                width: `${packageData.packageHealth.packageTestCoverage}%`,
-              }}
-            />
-          </div>
+          {typeCheck.diagnostics.length === 0 ? (
+            <p className="text-sm text-gray-600">No type errors.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {typeCheck.diagnostics.map((diagnostic, index) => (
+                <li key={index} className="py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    {diagnostic.category === 'error' ? (
+                      <XCircleIcon className="w-4 h-4 text-red-500" />
+                    ) : (
+                      <ExclamationTriangleIcon className="w-4 h-4 text-yellow-500" />
+                    )}
+                    <span className="font-mono text-xs text-gray-500 break-all">
+                      {formatTypeDiagnostic(diagnostic)}
+                    </span>
+                  </div>
+                  <p className="mt-1 ml-6 text-gray-700 whitespace-pre-wrap">
+                    {diagnostic.message}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {typeCheck.errorCount + typeCheck.warningCount >
+            typeCheck.diagnostics.length && (
+            <p className="mt-3 text-xs text-gray-500">
+              Showing the first {typeCheck.diagnostics.length} of{' '}
+              {typeCheck.errorCount + typeCheck.warningCount} diagnostics
+            </p>
+          )}
         </div>
+      )}
 
-        {/* Lint Status */}
-        <div className="bg-white border rounded-lg p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h4 className="text-sm font-medium text-gray-900">Lint Status</h4>
-            {packageData.packageHealth.packageLintStatus === 'pass' && (
-              <CheckCircleIcon className="w-5 h-5 text-green-500" />
-            )}
-            {packageData.packageHealth.packageLintStatus === 'fail' && (
-              <XCircleIcon className="w-5 h-5 text-red-500" />
-            )}
-            {packageData.packageHealth.packageLintStatus === 'warning' && (
-              <ExclamationTriangleIcon className="w-5 h-5 text-yellow-500" />
-            )}
-          </div>
-          <div className="flex items-center justify-between">
-            <span
-              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getLintStatusColor(packageData.packageHealth.packageLintStatus)}`}
-            >
-              {packageData.packageHealth.packageLintStatus}
-            </span>
-            <button className="hidden text-blue-600 hover:text-blue-500 text-sm">
-              View Issues
-            </button>
-          </div>
-        </div>
-      </div>
+      <CoverageBreakdown packageName={packageData.name} />
 
       {/* Detailed Metrics */}
       <div className="bg-white border rounded-lg p-6">
@@ -225,49 +261,6 @@ export default function HealthMetricsTab({
               </div>
             </div>
           </div>
-
-          <div>
-            <h5 className="text-sm font-medium text-gray-700 mb-3">
-              Code Quality
-            </h5>
-            <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-gray-600">Build Status:</span>
-                <span
-                  className={`font-medium ${
-                    packageData.packageHealth.packageBuildStatus === 'success'
-                      ? 'text-green-600'
-                      : packageData.packageHealth.packageBuildStatus ===
-                          'failed'
-                        ? 'text-red-600'
-                        : 'text-yellow-600'
-                  }`}
-                >
-                  {packageData.packageHealth.packageBuildStatus}
-                </span>
-              </div>
-              <div className="hidden flex justify-between">
-                <span className="text-gray-600">Test Coverage:</span>
-                <span className="font-medium">
-                  {packageData.packageHealth.packageTestCoverage}%
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Lint Status:</span>
-                <span
-                  className={`font-medium ${
-                    packageData.packageHealth.packageLintStatus === 'pass'
-                      ? 'text-green-600'
-                      : packageData.packageHealth.packageLintStatus === 'fail'
-                        ? 'text-red-600'
-                        : 'text-yellow-600'
-                  }`}
-                >
-                  {packageData.packageHealth.packageLintStatus}
-                </span>
-              </div>
-            </div>
-          </div>
         </div>
       </div>
     </div>
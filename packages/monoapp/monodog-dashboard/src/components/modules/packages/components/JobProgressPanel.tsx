@@ -0,0 +1,68 @@
+import { XMarkIcon } from '../../../../icons/heroicons';
+import { JobProgressPanelProps } from '../types/packages.types';
+import { isJobActive } from '../utils/packages.utils';
+
+export default function JobProgressPanel({
+  state,
+  label,
+  onCancel,
+}: JobProgressPanelProps) {
+  const { job, currentPackage, lastMessage } = state;
+  const { completed, total } = job.progress;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const active = isJobActive(job);
+
+  const statusText = (() => {
+    switch (job.status) {
+      case 'queued':
+        return 'Waiting to start...';
+      case 'running':
+        return currentPackage ? `Processing ${currentPackage}` : 'Running...';
+      case 'succeeded':
+        return 'Done';
+      case 'cancelled':
+        return 'Cancelled';
+      default:
+        return job.error ? `Failed: ${job.error}` : 'Failed';
+    }
+  })();
+
+  return (
+    <div className="bg-white border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm">
+          <span className="font-medium text-gray-900">{label}</span>
+          <span
+            className={`ml-2 ${job.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}
+          >
+            {statusText}
+          </span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-xs text-gray-500">
+            {total > 0 ? `${completed} of ${total} packages` : ''}
+          </span>
+          {active && onCancel && (
+            <button
+              onClick={onCancel}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600"
+              aria-label={`Cancel ${label.toLowerCase()}`}
+            >
+              <XMarkIcon className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full transition-all ${job.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'}`}
+          style={{ width: `${active ? percent : 100}%` }}
+        />
+      </div>
+      {lastMessage && (
+        <p className="mt-2 text-xs text-gray-500 truncate">{lastMessage}</p>
+      )}
+    </div>
+  );
+}
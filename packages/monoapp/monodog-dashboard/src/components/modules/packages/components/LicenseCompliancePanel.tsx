@@ -0,0 +1,90 @@
+import {
+  ArrowDownIcon,
+  CheckCircleIcon,
+  ShieldCheckIcon,
+} from '../../../../icons/heroicons';
+import { monorepoService } from '../../../../services/monorepoService';
+import { LicenseCompliancePanelProps } from '../types/packages.types';
+
+const STATUS_LABELS = {
+  denied: 'Denied',
+  'not-allowed': 'Not allowed',
+  unknown: 'No license',
+};
+
+export default function LicenseCompliancePanel({
+  packageName,
+  report,
+}: LicenseCompliancePanelProps) {
+  if (!report) {
+    return null;
+  }
+
+  const exportLinks = (['csv', 'json'] as const).map(format => (
+    <a
+      key={format}
+      href={monorepoService.getLicenseExportUrl(format, packageName)}
+      className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-500"
+    >
+      <ArrowDownIcon className="w-4 h-4" />
+      <span>{format.toUpperCase()}</span>
+    </a>
+  ));
+
+  return (
+    <div className="mb-8 bg-white border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="flex items-center space-x-2 font-medium text-gray-900">
+          <ShieldCheckIcon className="w-5 h-5 text-gray-600" />
+          <span>License compliance</span>
+          <span className="text-sm font-normal text-gray-500">
+            ({report.inventory.length} installed packages)
+          </span>
+        </h4>
+        <div className="flex items-center space-x-3 text-sm">{exportLinks}</div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {Object.entries(report.licenses).map(([license, count]) => (
+          <span
+            key={license}
+            className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700"
+          >
+            {license} · {count}
+          </span>
+        ))}
+      </div>
+
+      {report.violations.length === 0 ? (
+        <p className="flex items-center space-x-2 text-sm text-green-700">
+          <CheckCircleIcon className="w-4 h-4" />
+          <span>Every installed dependency meets the license policy.</span>
+        </p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {report.violations.map(violation => (
+            <li
+              key={`${violation.name}@${violation.version}`}
+              className="border border-red-200 bg-red-50 rounded p-2"
+            >
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-red-900">
+                  {violation.name}@{violation.version}
+                </span>
+                <span className="font-mono text-red-700">
+                  {violation.license ?? '—'}
+                </span>
+                <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">
+                  {STATUS_LABELS[violation.status]}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-red-700">
+                {violation.chain.join(' → ')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -112,6 +112,18 @@ export default function PackageDetailHeader({
             </div>
           </div>
 
+          <div className="flex items-center space-x-2">
+            <UserIcon className="h-4 w-4 text-gray-400" />
+            <div>
+              <div className="text-xs text-gray-500">Owners</div>
+              <div className="text-sm font-medium">
+                {packageData.owners?.length
+                  ? packageData.owners.join(', ')
+                  : 'No CODEOWNERS entry'}
+              </div>
+            </div>
+          </div>
+
           <div className="hidden flex items-center space-x-2">
             <UserIcon className="h-4 w-4 text-gray-400" />
             <div>
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ArrowPathIcon,
+  ChartBarIcon,
+  ExclamationTriangleIcon,
+} from '../../../../icons/heroicons';
+import {
+  monorepoService,
+  PackageSizeHistory,
+  SizeMetric,
+} from '../../../../services/monorepoService';
+import { PackageSizeChartProps } from '../types/packages.types';
+import { formatBytes } from '../utils/packages.utils';
+
+const SERIES: Array<{ metric: SizeMetric; label: string; color: string }> = [
+  { metric: 'sourceSize', label: 'Source', color: '#2563EB' },
+  { metric: 'outputSize', label: 'Build output', color: '#059669' },
+  { metric: 'packedSize', label: 'Packed', color: '#D97706' },
+];
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+
+export default function PackageSizeChart({
+  packageName,
+}: PackageSizeChartProps) {
+  const [history, setHistory] = useState<PackageSizeHistory | null>(null);
+  const [recording, setRecording] = useState(false);
+
+  const fetchHistory = useCallback(() => {
+    monorepoService
+      .getPackageSizeHistory(packageName)
+      .then(setHistory)
+      .catch(err => {
+        console.error('Error fetching package size history:', err);
+        setHistory(null);
+      });
+  }, [packageName]);
+
+  useEffect(fetchHistory, [fetchHistory]);
+
+  const recordSize = async () => {
+    setRecording(true);
+    try {
+      await monorepoService.recordPackageSize(packageName);
+      fetchHistory();
+    } catch (err) {
+      console.error('Error recording package size:', err);
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const snapshots = history?.snapshots ?? [];
+  const latest = snapshots[snapshots.length - 1];
+  const maxSize = Math.max(
+    1,
+    ...snapshots.flatMap(snapshot =>
+      SERIES.map(({ metric }) => snapshot[metric] ?? 0)
+    )
+  );
+  const x = (index: number) =>
+    snapshots.length === 1
+      ? WIDTH / 2
+      : PADDING + (index * (WIDTH - 2 * PADDING)) / (snapshots.length - 1);
+  const y = (size: number) =>
+    HEIGHT - PADDING - (size / maxSize) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div className="bg-white border rounded-lg p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center space-x-2 text-lg font-medium text-gray-900">
+          <ChartBarIcon className="w-5 h-5 text-gray-600" />
+          <span>Package Size</span>
+        </h3>
+        <button
+          onClick={recordSize}
+          disabled={recording}
+          className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`w-4 h-4 ${recording ? 'animate-spin' : ''}`}
+          />
+          <span>{recording ? 'Measuring...' : 'Record current size'}</span>
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No size snapshots recorded for this package yet.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-4 mb-3 text-sm">
+            {SERIES.map(({ metric, label, color }) => (
+              <span key={metric} className="flex items-center space-x-2">
+                <span
+                  className="inline-block w-3 h-3 rounded-full"
+                  style={{ backgroundColor: color }}
+                />
+                <span className="text-gray-600">{label}:</span>
+                <span className="font-medium">
+                  {latest[metric] === null
+                    ? '-'
+                    : formatBytes(latest[metric] as number)}
+                </span>
+              </span>
+            ))}
+          </div>
+
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-48 bg-gray-50 rounded"
+          >
+            {SERIES.map(({ metric, color }) => {
+              const points = snapshots
+                .map((snapshot, index) =>
+                  snapshot[metric] === null
+                    ? null
+                    : `${x(index)},${y(snapshot[metric] as number)}`
+                )
+                .filter(Boolean)
+                .join(' ');
+              return (
+                <polyline
+                  key={metric}
+                  points={points}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={2}
+                />
+              );
+            })}
+            {snapshots.map((snapshot, index) =>
+              SERIES.map(({ metric, color }) => {
+                if (snapshot[metric] === null) return null;
+                const regressed = history?.regressions.some(
+                  regression =>
+                    regression.metric === metric &&
+                    regression.commitHash === snapshot.commitHash
+                );
+                return (
+                  <circle
+                    key={`${snapshot.commitHash}-${metric}`}
+                    cx={x(index)}
+                    cy={y(snapshot[metric] as number)}
+                    r={regressed ? 5 : 3}
+                    fill={regressed ? '#DC2626' : color}
+                  >
+                    <title>
+                      {`${snapshot.commitHash.slice(0, 7)}: ${formatBytes(snapshot[metric] as number)}`}
+                    </title>
+                  </circle>
+                );
+              })
+            )}
+          </svg>
+
+          {history && history.regressions.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm">
+              {history.regressions.map(regression => (
+                <li
+                  key={`${regression.commitHash}-${regression.metric}`}
+                  className="flex items-center space-x-2 text-red-700"
+                >
+                  <ExclamationTriangleIcon className="w-4 h-4" />
+                  <span>
+                    {SERIES.find(s => s.metric === regression.metric)?.label}{' '}
+                    grew {regression.changePercent}% (
+                    {formatBytes(regression.previous)} →{' '}
+                    {formatBytes(regression.current)}) at{' '}
+                    <span className="font-mono">
+                      {regression.commitHash.slice(0, 7)}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-2 text-xs text-gray-500">
+            Growth above {history?.thresholdPercent}% between snapshots is
+            flagged as a regression.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
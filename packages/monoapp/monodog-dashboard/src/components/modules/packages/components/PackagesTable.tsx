@@ -13,12 +13,14 @@ interface PackagesTableProps {
   packages: Package[];
   sorting: PackageSorting;
   onSortChange: (sorting: PackageSorting) => void;
+  onOwnerSelect: (owner: string) => void;
 }
 
 export default function PackagesTable({
   packages,
   sorting,
   onSortChange,
+  onOwnerSelect,
 }: PackagesTableProps) {
   const handleSort = (field: PackageSorting['field']) => {
     const newOrder =
@@ -83,6 +85,9 @@ export default function PackagesTable({
                   {getSortIcon('lastUpdated')}
                 </div>
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Owners
+              </th>
               <th className="hidden px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Maintainers
               </th>
@@ -140,6 +145,24 @@ export default function PackagesTable({
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {formatDate(pkg.lastUpdated)}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {pkg.owners?.length ? (
+                    <div className="flex flex-wrap gap-1">
+                      {pkg.owners.map(owner => (
+                        <button
+                          key={owner}
+                          onClick={() => onOwnerSelect(owner)}
+                          className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-blue-100 hover:text-blue-700"
+                          title={`Show packages owned by ${owner}`}
+                        >
+                          {owner}
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-gray-400">-</span>
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex -space-x-1">
                     {pkg.maintainers.slice(0, 3).map((maintainer, index) => (
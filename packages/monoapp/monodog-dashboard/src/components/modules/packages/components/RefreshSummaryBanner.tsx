@@ -0,0 +1,45 @@
+import { CheckCircleIcon, XMarkIcon } from '../../../../icons/heroicons';
+import { RefreshSummaryBannerProps } from '../types/packages.types';
+
+export default function RefreshSummaryBanner({
+  summary,
+  onDismiss,
+}: RefreshSummaryBannerProps) {
+  const groups = [
+    { label: 'added', names: summary.added, className: 'text-green-700' },
+    { label: 'changed', names: summary.changed, className: 'text-blue-700' },
+    { label: 'removed', names: summary.removed, className: 'text-red-700' },
+    { label: 'failed', names: summary.failed, className: 'text-amber-700' },
+  ];
+
+  return (
+    <div className="flex items-start justify-between bg-green-50 border border-green-200 rounded-lg p-4">
+      <div className="flex items-start space-x-3">
+        <CheckCircleIcon className="w-5 h-5 text-green-600 mt-0.5" />
+        <div className="text-sm">
+          <p className="font-medium text-gray-900">
+            Refresh complete: {summary.added.length} added,{' '}
+            {summary.removed.length} removed, {summary.changed.length} changed,{' '}
+            {summary.unchanged.length} unchanged
+            {summary.failed.length > 0 && `, ${summary.failed.length} failed`}
+          </p>
+          {groups
+            .filter(group => group.names.length > 0)
+            .map(group => (
+              <p key={group.label} className={`mt-1 ${group.className}`}>
+                <span className="capitalize">{group.label}:</span>{' '}
+                {group.names.join(', ')}
+              </p>
+            ))}
+        </div>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-gray-600"
+        aria-label="Dismiss refresh summary"
+      >
+        <XMarkIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ interface SearchAndFilterProps {
   onFiltersChange: (filters: PackageFilters) => void;
   availableTypes: string[];
   availableStatuses: string[];
+  availableOwners: string[];
 }
 
 export default function SearchAndFilter({
@@ -13,6 +14,7 @@ export default function SearchAndFilter({
   onFiltersChange,
   availableTypes,
   availableStatuses,
+  availableOwners,
 }: SearchAndFilterProps) {
   return (
     <div className="bg-white p-6 rounded-lg shadow border">
@@ -65,6 +67,23 @@ export default function SearchAndFilter({
               </option>
             ))}
           </select>
+
+          {availableOwners.length > 0 && (
+            <select
+              value={filters.owner ?? 'all'}
+              onChange={e =>
+                onFiltersChange({ ...filters, owner: e.target.value })
+              }
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All Owners</option>
+              {availableOwners.map(owner => (
+                <option key={owner} value={owner}>
+                  {owner}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
       </div>
     </div>
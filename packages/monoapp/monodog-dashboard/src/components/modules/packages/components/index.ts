@@ -4,9 +4,15 @@ export { default as ErrorState } from './ErrorState';
 export { default as PackageStats } from './PackageStats';
 export { default as SearchAndFilter } from './SearchAndFilter';
 export { default as PackagesTable } from './PackagesTable';
+export { default as RefreshSummaryBanner } from './RefreshSummaryBanner';
+export { default as JobProgressPanel } from './JobProgressPanel';
 export { default as PackageDetailHeader } from './PackageDetailHeader';
 export { default as PackageDetailTabs } from './PackageDetailTabs';
 export { default as DependenciesTab } from './DependenciesTab';
+export { default as DependencyHygienePanel } from './DependencyHygienePanel';
+export { default as LicenseCompliancePanel } from './LicenseCompliancePanel';
+export { default as PackageSizeChart } from './PackageSizeChart';
+export { default as CoverageBreakdown } from './CoverageBreakdown';
 export { default as RecentCommitsTab } from './RecentCommitsTab';
 export { default as HealthMetricsTab } from './HealthMetricsTab';
 export { default as ConfigurationTab } from './ConfigurationTab';
@@ -1,6 +1,12 @@
 // Shared types for packages module components
 
-import type { DependencyInfo } from '@/services/monorepoService';
+import type {
+  DependencyInfo,
+  LicenseReport,
+  Job,
+  PackageDependencyHygiene,
+  RefreshSummary,
+} from '@/services/monorepoService';
 import type { PackageHealth } from '../../health-status/types/health.types';
 
 export interface Package {
@@ -20,6 +26,7 @@ export interface Package {
   devDependencies?: string[];
   dependents: string[];
   packageHealth: PackageHealth;
+  owners?: string[];
 }
 
 export interface Dependency {
@@ -48,6 +55,7 @@ export interface PackageDetail {
   devDependencies: Dependency[];
   peerDependencies: Dependency[];
   maintainers: string[];
+  owners?: string[];
   tags: string[];
   repository: string;
   license: string;
@@ -72,6 +80,7 @@ export interface PackageFilters {
   search: string;
   type: string;
   status: string;
+  owner?: string;
 }
 
 export interface PackageSorting {
@@ -99,3 +108,38 @@ export interface ErrorStateProps {
   error: string;
   onRetry?: () => void;
 }
+
+export interface RefreshSummaryBannerProps {
+  summary: RefreshSummary;
+  onDismiss: () => void;
+}
+
+// Job as followed through its event stream
+export interface JobProgressState {
+  job: Job;
+  currentPackage: string | null;
+  lastMessage: string | null;
+}
+
+export interface JobProgressPanelProps {
+  state: JobProgressState;
+  label: string;
+  onCancel?: () => void;
+}
+
+export interface DependencyHygienePanelProps {
+  hygiene: PackageDependencyHygiene | null;
+}
+
+export interface PackageSizeChartProps {
+  packageName: string;
+}
+
+export interface CoverageBreakdownProps {
+  packageName: string;
+}
+
+export interface LicenseCompliancePanelProps {
+  packageName: string;
+  report: LicenseReport | null;
+}
@@ -3,7 +3,10 @@ import {
   PackageStats,
   PackageFilters,
   PackageSorting,
+  JobProgressState,
 } from '../types/packages.types';
+import type { Job, JobStreamEvent } from '../../../../services/monorepoService';
+import type { TypeDiagnostic } from '../../health-status/types/health.types';
 import { BuildingLibraryIcon } from '../../../../icons/heroicons';
 import { RocketLaunchIcon } from '../../../../icons/heroicons';
 import { CubeIcon } from '../../../../icons/heroicons';
@@ -27,7 +30,12 @@ export const getUniquePackageStatuses = (packages: Package[]): string[] => {
   return [...new Set(packages.map(pkg => pkg.status))];
 };
 
-// Filter packages based on search, type, and status
+// Get unique CODEOWNERS owners
+export const getUniquePackageOwners = (packages: Package[]): string[] => {
+  return Array.from(new Set(packages.flatMap(pkg => pkg.owners ?? []))).sort();
+};
+
+// Filter packages based on search, type, status, and owner
 export const filterPackages = (
   packages: Package[],
   filters: PackageFilters
@@ -43,8 +51,12 @@ export const filterPackages = (
     const matchesType = filters.type === 'all' || pkg.type === filters.type;
     const matchesStatus =
       filters.status === 'all' || pkg.status === filters.status;
+    const matchesOwner =
+      !filters.owner ||
+      filters.owner === 'all' ||
+      (pkg.owners ?? []).includes(filters.owner);
 
-    return matchesSearch && matchesType && matchesStatus;
+    return matchesSearch && matchesType && matchesStatus && matchesOwner;
   });
 };
 
@@ -161,6 +173,29 @@ export const formatVersion = (version: string): string => {
   return version.startsWith('v') ? version : `v${version}`;
 };
 
+// Format a byte count for display
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+// Format a tsc diagnostic's location and code, e.g. 'src/index.ts:12:5 TS2322'
+export const formatTypeDiagnostic = (diagnostic: TypeDiagnostic): string => {
+  const location = diagnostic.file
+    ? [diagnostic.file, diagnostic.line, diagnostic.column]
+        .filter(part => part !== null)
+        .join(':')
+    : 'tsconfig';
+  return `${location} TS${diagnostic.code}`;
+};
+
 // Get package type icon
 export const getPackageTypeIcon = (type: string): React.ReactNode => {
   switch (type) {
@@ -176,3 +211,47 @@ export const getPackageTypeIcon = (type: string): React.ReactNode => {
       return <CubeIcon className="w-6 h-6 text-primary-600" />;
   }
 };
+
+// Whether a job can still make progress
+export const isJobActive = (job: Job): boolean =>
+  job.status === 'queued' || job.status === 'running';
+
+// Fold a streamed job event into the progress shown to the user
+export const applyJobEvent = (
+  state: JobProgressState,
+  event: JobStreamEvent
+): JobProgressState => {
+  switch (event.type) {
+    case 'status': {
+      const job = {
+        ...state.job,
+        status: event.status,
+        error: event.error ?? state.job.error,
+      };
+      return {
+        ...state,
+        job,
+        currentPackage: isJobActive(job) ? state.currentPackage : null,
+      };
+    }
+    case 'progress':
+      return { ...state, job: { ...state.job, progress: event.progress } };
+    case 'package-start':
+      return { ...state, currentPackage: event.packageName };
+    case 'package-finish':
+      return {
+        ...state,
+        currentPackage:
+          state.currentPackage === event.packageName
+            ? null
+            : state.currentPackage,
+        lastMessage: `${event.packageName}: ${
+          event.message ?? (event.success ? 'done' : 'failed')
+        }`,
+      };
+    case 'log':
+      return { ...state, lastMessage: event.message };
+    default:
+      return state;
+  }
+};
@@ -34,6 +34,20 @@ export interface ChangesetData {
   timestamp: string;
 }
 
+export interface PublishLintFinding {
+  code: string;
+  severity: 'error' | 'warning' | 'suggestion';
+  field: string;
+  message: string;
+}
+
+export interface PackagePublishLint {
+  packageName: string;
+  path: string;
+  private: boolean;
+  findings: PublishLintFinding[];
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -43,7 +57,9 @@ export interface ValidationResult {
     workingTreeClean: boolean;
     ciPassing: boolean;
     versionAvailable: boolean;
+    publishLint?: boolean;
   };
+  packageLint?: PackagePublishLint[];
 }
 
 export default function ReleaseManager() {
@@ -176,6 +192,7 @@ export default function ReleaseManager() {
           ciPassing: true,
           versionAvailable: true,
         },
+        packageLint: result.packageLint ?? [],
       };
       
       setValidationResult(validationData);
@@ -4,6 +4,10 @@
  */
 
 import React, { useState, useMemo } from 'react';
+import {
+  monorepoService,
+  AffectedPackage,
+} from '../../../services/monorepoService';
 
 interface Package {
   name: string;
@@ -21,6 +25,10 @@ interface PackageSelectorProps {
 export default function PackageSelector({ packages, onConfirm, loading }: PackageSelectorProps) {
   const [selectedNames, setSelectedNames] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
+  const [baseRef, setBaseRef] = useState('origin/main');
+  const [affected, setAffected] = useState<Map<string, AffectedPackage>>(new Map());
+  const [affectedLoading, setAffectedLoading] = useState(false);
+  const [affectedError, setAffectedError] = useState<string | null>(null);
 
   const filteredPackages = useMemo(
     () =>
@@ -50,6 +58,32 @@ export default function PackageSelector({ packages, onConfirm, loading }: Packag
     }
   };
 
+  // Pre-select packages changed since the base ref and everything depending on them
+  const selectAffected = async () => {
+    try {
+      setAffectedLoading(true);
+      setAffectedError(null);
+      const result = await monorepoService.getAffectedPackages(baseRef.trim());
+      const releasable = new Set(packages.filter(p => !p.private).map(p => p.name));
+      const affectedByName = new Map(
+        result.affected
+          .filter(pkg => releasable.has(pkg.name))
+          .map(pkg => [pkg.name, pkg] as [string, AffectedPackage])
+      );
+      setAffected(affectedByName);
+      setSelectedNames(new Set(affectedByName.keys()));
+    } catch (err) {
+      setAffectedError(err instanceof Error ? err.message : 'Failed to fetch affected packages');
+    } finally {
+      setAffectedLoading(false);
+    }
+  };
+
+  const describeAffected = (pkg: AffectedPackage) =>
+    pkg.reason === 'changed'
+      ? `Changed (${pkg.changedFiles.length} file${pkg.changedFiles.length === 1 ? '' : 's'})`
+      : `Depends on ${pkg.via.slice(0, -1).join(' → ')}`;
+
   const handleConfirm = () => {
     const selected = packages.filter(p => selectedNames.has(p.name));
     onConfirm(selected);
@@ -76,6 +110,35 @@ export default function PackageSelector({ packages, onConfirm, loading }: Packag
         />
       </div>
 
+      {/* Affected Packages */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Select Packages Affected Since
+        </label>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={baseRef}
+            onChange={e => setBaseRef(e.target.value)}
+            placeholder="Base git ref, e.g. origin/main"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <button
+            onClick={selectAffected}
+            disabled={!baseRef.trim() || affectedLoading}
+            className="px-4 py-2 border border-primary-600 text-primary-600 rounded-lg font-medium hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            {affectedLoading ? 'Checking...' : 'Select Affected'}
+          </button>
+        </div>
+        {affectedError && <p className="text-sm text-red-600 mt-2">{affectedError}</p>}
+        {!affectedError && !affectedLoading && affected.size > 0 && (
+          <p className="text-sm text-gray-500 mt-2">
+            {affected.size} affected package{affected.size === 1 ? '' : 's'} selected
+          </p>
+        )}
+      </div>
+
       {/* Package List */}
       <div>
         <div className="flex items-center justify-between mb-4">
@@ -115,6 +178,14 @@ export default function PackageSelector({ packages, onConfirm, loading }: Packag
                     <p className="font-medium text-gray-900">{pkg.name}</p>
                     <p className="text-sm text-gray-500">Current: v{pkg.version}</p>
                   </div>
+                  {affected.has(pkg.name) && (
+                    <span
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                      title={affected.get(pkg.name)!.changedFiles.join('\n')}
+                    >
+                      {describeAffected(affected.get(pkg.name)!)}
+                    </span>
+                  )}
                   {pkg.dependencies && pkg.dependencies.length > 0 && (
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                       {pkg.dependencies.length} deps
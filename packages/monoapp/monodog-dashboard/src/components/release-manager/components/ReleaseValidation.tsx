@@ -4,7 +4,13 @@
  */
 
 import React from 'react';
-import { ValidationResult, SelectedPackage } from '../ReleaseManager';
+import { ValidationResult, SelectedPackage, PublishLintFinding } from '../ReleaseManager';
+
+const FINDING_STYLES: Record<PublishLintFinding['severity'], string> = {
+  error: 'text-red-700',
+  warning: 'text-yellow-700',
+  suggestion: 'text-gray-600',
+};
 
 interface ReleaseValidationProps {
   validation: ValidationResult;
@@ -26,8 +32,15 @@ export default function ReleaseValidation({
     { name: 'Working Tree Clean', passed: validation.checks.workingTreeClean },
     { name: 'CI Tests Passing', passed: validation.checks.ciPassing },
     { name: 'Version Available on npm', passed: validation.checks.versionAvailable },
+    ...(validation.checks.publishLint !== undefined
+      ? [{ name: 'Package Publish Lint', passed: validation.checks.publishLint }]
+      : []),
   ];
 
+  const packageLint = (validation.packageLint ?? []).filter((lint) =>
+    packages.some((pkg) => pkg.name === lint.packageName)
+  );
+
   return (
     <div className="bg-white rounded-lg shadow p-6 space-y-6">
       <div>
@@ -87,6 +100,35 @@ export default function ReleaseValidation({
         </div>
       </div>
 
+      {/* Publish Lint */}
+      {packageLint.length > 0 && (
+        <div className="border-t pt-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">Package Lint</h3>
+          <div className="space-y-4">
+            {packageLint.map((lint) => (
+              <div key={lint.packageName}>
+                <p className="font-medium text-gray-900">{lint.packageName}</p>
+                {lint.findings.length === 0 ? (
+                  <p className="text-green-700 text-sm mt-1">✓ Ready to publish</p>
+                ) : (
+                  <ul className="mt-1 space-y-1">
+                    {lint.findings.map((finding, idx) => (
+                      <li
+                        key={idx}
+                        className={`text-sm ${FINDING_STYLES[finding.severity]}`}
+                      >
+                        <span className="font-mono">{finding.field}</span>:{' '}
+                        {finding.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Errors */}
       {validation.errors.length > 0 && (
         <div className="border-t pt-6">
@@ -8,6 +8,7 @@ export interface Package {
   lastUpdated: string;
   dependencies: string[];
   maintainers: string[];
+  owners?: string[];
   tags: string[];
   description: string;
   path: string;
@@ -62,6 +63,357 @@ export interface ConfigFile {
   hasSecrets: boolean;
 }
 
+export interface WorkspaceInfo {
+  tool: 'pnpm' | 'npm' | 'yarn' | 'yarn-berry' | 'lerna' | 'nx' | 'rush';
+  packageManager: 'pnpm' | 'npm' | 'yarn';
+  projects: Array<{
+    name: string;
+    path: string;
+    type: string;
+    version: string;
+    tags: string[];
+  }>;
+  total: number;
+}
+
+export interface RefreshSummary {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: string[];
+  failed: string[];
+}
+
+export interface RefreshResult {
+  summary: RefreshSummary;
+  packages: Package[];
+}
+
+export type DependencyKind = 'prod' | 'dev' | 'peer' | 'optional';
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: DependencyKind;
+  range: string;
+  workspaceProtocol: boolean;
+  satisfies: boolean;
+}
+
+export interface DependencyGraphData {
+  dependencyTypes: DependencyKind[];
+  nodes: Array<{ label: string; type: string; version: string; dependencies: number }>;
+  edges: GraphEdge[];
+  unsatisfied: number;
+}
+
+export interface BuildOrder {
+  dependencyTypes: DependencyKind[];
+  layers: string[][];
+  cycles: Array<{ packages: string[]; edges: GraphEdge[] }>;
+  blocked: Array<{ name: string; waitingOn: string[] }>;
+  total: number;
+}
+
+export interface BoundaryConstraint {
+  sourceTag: string;
+  onlyDependOnTags?: string[];
+  notDependOnTags?: string[];
+}
+
+export interface BoundaryViolation {
+  from: string;
+  to: string;
+  source: 'graph' | 'import';
+  type?: DependencyKind;
+  files?: string[];
+  constraint: BoundaryConstraint;
+  message: string;
+}
+
+export interface BoundaryReport {
+  tags: Record<string, string[]>;
+  constraints: BoundaryConstraint[];
+  checkedEdges: number;
+  checkedImports: number | null;
+  violations: BoundaryViolation[];
+}
+
+export interface ResolvedDependency {
+  name: string;
+  type: DependencyKind;
+  range: string;
+  resolved: string | null;
+  satisfies: boolean | null;
+}
+
+export interface LockfileReport {
+  lockfile: 'pnpm-lock.yaml' | 'package-lock.json' | 'yarn.lock' | null;
+  packages: Array<{ packageName: string; path: string; dependencies: ResolvedDependency[] }>;
+  duplicates: Array<{
+    name: string;
+    versions: string[];
+    directDependents: Array<{ packageName: string; resolved: string }>;
+  }>;
+  outOfRange: Array<ResolvedDependency & { packageName: string }>;
+}
+
+export interface ImportUsage {
+  name: string;
+  files: string[];
+}
+
+export interface PackageDependencyHygiene {
+  packageName: string;
+  filesScanned: number;
+  unused: Array<{ name: string; type: DependencyKind }>;
+  missing: ImportUsage[];
+  undeclaredInternal: ImportUsage[];
+}
+
+export interface DependencyHygieneReport {
+  packages: PackageDependencyHygiene[];
+  unused: number;
+  missing: number;
+  undeclaredInternal: number;
+}
+
+export type LicenseStatus = 'allowed' | 'denied' | 'not-allowed' | 'unknown';
+
+export interface LicenseViolation {
+  packageName: string;
+  name: string;
+  version: string;
+  license: string | null;
+  status: Exclude<LicenseStatus, 'allowed'>;
+  chain: string[];
+}
+
+export type SizeMetric = 'sourceSize' | 'outputSize' | 'packedSize';
+
+export interface PackageSizeSnapshot {
+  packageName: string;
+  commitHash: string;
+  sourceSize: number;
+  sourceFiles: number;
+  outputSize: number;
+  packedSize: number | null;
+  unpackedSize: number | null;
+  createdAt: string;
+}
+
+export interface SizeRegression {
+  metric: SizeMetric;
+  commitHash: string;
+  previousCommitHash: string;
+  previous: number;
+  current: number;
+  changePercent: number;
+}
+
+export interface PackageSizeHistory {
+  packageName: string;
+  thresholdPercent: number;
+  snapshots: PackageSizeSnapshot[];
+  regressions: SizeRegression[];
+}
+
+export interface CoverageMetric {
+  total: number;
+  covered: number;
+  pct: number;
+}
+
+export interface CoverageTotals {
+  lines: CoverageMetric;
+  branches: CoverageMetric;
+  functions: CoverageMetric;
+  statements: CoverageMetric;
+}
+
+export interface FileCoverage extends CoverageTotals {
+  file: string;
+}
+
+export interface PackageCoverage {
+  packageName: string;
+  latest: {
+    format: 'istanbul' | 'lcov' | 'cobertura' | 'clover';
+    reportPath: string;
+    totals: CoverageTotals;
+    files: FileCoverage[];
+    createdAt: string;
+  } | null;
+  history: Array<{ createdAt: string; totals: CoverageTotals }>;
+}
+
+export interface HealthSnapshot {
+  packageName: string | null;
+  overallScore: number;
+  checkScores: Record<string, number>;
+  packageCount: number;
+  healthyCount: number;
+  createdAt: string;
+}
+
+export interface HealthTrend {
+  packageName: string | null;
+  snapshotCount: number;
+  first: number | null;
+  latest: number | null;
+  delta: number;
+  previousDelta: number;
+  direction: 'up' | 'down' | 'stable';
+  checkDeltas: Record<string, number>;
+}
+
+export interface HealthHistory {
+  packageName: string | null;
+  from: string | null;
+  to: string | null;
+  snapshots: HealthSnapshot[];
+  trend: HealthTrend;
+  packageTrends?: HealthTrend[];
+}
+
+export type AdvisorySeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+export interface PackageAdvisory {
+  packageName: string;
+  id: string;
+  severity: AdvisorySeverity;
+  title: string;
+  moduleName: string;
+  vulnerableVersions: string;
+  patchedVersions: string | null;
+  url: string | null;
+  paths: string[];
+  createdAt: string;
+}
+
+export interface AdvisoryReport {
+  counts: Record<AdvisorySeverity, number>;
+  advisories: PackageAdvisory[];
+}
+
+export interface HealthThresholds {
+  healthy: number;
+  warning: number;
+}
+
+export interface HealthCheckPolicy {
+  id: string;
+  name: string;
+  weight: number;
+  enabled: boolean;
+  timeoutMs?: number;
+}
+
+export interface HealthPolicy {
+  thresholds: HealthThresholds;
+  checks: HealthCheckPolicy[];
+  packages: Array<{
+    packageName: string;
+    policies: string[];
+    thresholds: HealthThresholds;
+    checks: HealthCheckPolicy[];
+  }>;
+}
+
+export interface LicenseReport {
+  policy: { allow?: string[]; deny?: string[]; includeDev?: boolean };
+  inventory: Array<{
+    name: string;
+    version: string;
+    license: string | null;
+    status: LicenseStatus;
+    packages: string[];
+  }>;
+  licenses: Record<string, number>;
+  violations: LicenseViolation[];
+}
+
+export interface AffectedPackage {
+  name: string;
+  path: string;
+  reason: 'changed' | 'dependent';
+  changedFiles: string[];
+  depth: number;
+  via: string[];
+}
+
+export interface AffectedPackagesResult {
+  base: string;
+  head: string | null;
+  changedFiles: number;
+  unownedFiles: string[];
+  affected: AffectedPackage[];
+  total: number;
+}
+
+export interface PackageChange {
+  type: 'added' | 'updated' | 'removed';
+  packageName: string;
+  path: string;
+  trigger: string;
+  timestamp: string;
+}
+
+export interface WatcherStatus {
+  running: boolean;
+  rootPath: string;
+  watchedPackages: number;
+  watchedDirectories: number;
+  lastSyncAt: string | null;
+  changes: PackageChange[];
+}
+
+export type JobType = 'health-refresh' | 'package-refresh' | 'publish';
+
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress: { completed: number; total: number };
+  result: unknown;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export type JobStreamEvent = {
+  jobId: string;
+  sequence: number;
+  timestamp: string;
+} & (
+  | { type: 'status'; status: JobStatus; error?: string }
+  | { type: 'progress'; progress: { completed: number; total: number } }
+  | { type: 'package-start'; packageName: string }
+  | {
+      type: 'package-finish';
+      packageName: string;
+      success: boolean;
+      message?: string;
+    }
+  | { type: 'log'; message: string }
+);
+
+const JOB_EVENT_TYPES: JobStreamEvent['type'][] = [
+  'status',
+  'progress',
+  'package-start',
+  'package-finish',
+  'log',
+];
+
 const API_BASE = `${apiUrl}/api`;
 class MonorepoService {
   // Simulated monorepo data based on typical monorepo structure
@@ -258,7 +610,212 @@ class MonorepoService {
     }
   }
 
+  async getWorkspaceInfo(): Promise<WorkspaceInfo | null> {
+    try {
+      const res = await fetch(`${API_BASE}/workspace`);
+      if (!res.ok) {
+        return null;
+      }
+      return await res.json();
+    } catch (error) {
+      console.error('getWorkspaceInfo: unexpected error', error);
+      return null;
+    }
+  }
+
+  async getAffectedPackages(
+    base: string,
+    head?: string
+  ): Promise<AffectedPackagesResult> {
+    const params = new URLSearchParams({ base });
+    if (head) {
+      params.set('head', head);
+    }
+    const res = await fetch(`${API_BASE}/packages/affected?${params}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(
+        body.error || `Failed to fetch affected packages (Status: ${res.status})`
+      );
+    }
+    return await res.json();
+  }
+
+  async getDependencyGraph(types?: DependencyKind[]): Promise<DependencyGraphData> {
+    const query = types ? `?${new URLSearchParams({ types: types.join(',') })}` : '';
+    const res = await fetch(`${API_BASE}/graph${query}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch dependency graph (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getLockfileReport(packageName?: string): Promise<LockfileReport> {
+    const query = packageName ? `?${new URLSearchParams({ package: packageName })}` : '';
+    const res = await fetch(`${API_BASE}/dependencies/lockfile${query}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch lockfile report (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getDependencyHygiene(packageName?: string): Promise<DependencyHygieneReport> {
+    const query = packageName ? `?${new URLSearchParams({ package: packageName })}` : '';
+    const res = await fetch(`${API_BASE}/dependencies/hygiene${query}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch dependency hygiene (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getLicenseReport(packageName?: string): Promise<LicenseReport> {
+    const query = packageName ? `?${new URLSearchParams({ package: packageName })}` : '';
+    const res = await fetch(`${API_BASE}/dependencies/licenses${query}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch license report (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  getLicenseExportUrl(format: 'csv' | 'json', packageName?: string): string {
+    const params = new URLSearchParams({ format });
+    if (packageName) params.set('package', packageName);
+    return `${API_BASE}/dependencies/licenses?${params}`;
+  }
+
+  async getPackageSizeHistory(name: string): Promise<PackageSizeHistory> {
+    const res = await fetch(
+      `${API_BASE}/packages/${encodeURIComponent(name)}/sizes`
+    );
+    if (!res.ok) {
+      throw new Error(
+        `Failed to fetch size history for "${name}" (Status: ${res.status})`
+      );
+    }
+    return await res.json();
+  }
+
+  async getPackageCoverage(name: string): Promise<PackageCoverage> {
+    const res = await fetch(
+      `${API_BASE}/packages/${encodeURIComponent(name)}/coverage`
+    );
+    if (!res.ok) {
+      throw new Error(
+        `Failed to fetch coverage for "${name}" (Status: ${res.status})`
+      );
+    }
+    return await res.json();
+  }
+
+  async recordPackageSize(
+    name: string
+  ): Promise<{ commitHash: string; regressions: SizeRegression[] }> {
+    const res = await fetch(
+      `${API_BASE}/packages/${encodeURIComponent(name)}/sizes`,
+      { method: 'POST' }
+    );
+    if (!res.ok) {
+      throw new Error(
+        `Failed to record size for "${name}" (Status: ${res.status})`
+      );
+    }
+    return await res.json();
+  }
+
+  async getBuildOrder(types: DependencyKind[]): Promise<BuildOrder> {
+    const params = new URLSearchParams({ types: types.join(',') });
+    const res = await fetch(`${API_BASE}/graph/build-order?${params}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch build order (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getBoundaryViolations(): Promise<BoundaryReport> {
+    const res = await fetch(`${API_BASE}/graph/boundaries`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch boundary violations (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getWatcherStatus(): Promise<WatcherStatus | null> {
+    try {
+      const res = await fetch(`${API_BASE}/watcher/status`);
+      if (!res.ok) {
+        return null;
+      }
+      return await res.json();
+    } catch (error) {
+      console.error('getWatcherStatus: unexpected error', error);
+      return null;
+    }
+  }
+
+  async createJob(type: JobType): Promise<Job> {
+    const res = await fetch(`${API_BASE}/jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type }),
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to start ${type} job (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getJob(id: string): Promise<Job> {
+    const res = await fetch(`${API_BASE}/jobs/${encodeURIComponent(id)}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch job (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async cancelJob(id: string): Promise<Job> {
+    const res = await fetch(
+      `${API_BASE}/jobs/${encodeURIComponent(id)}/cancel`,
+      { method: 'POST' }
+    );
+    if (!res.ok) {
+      throw new Error(`Failed to cancel job (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  /**
+   * Streams the events of a job until it finishes. Returns a function that
+   * stops listening.
+   */
+  watchJob(id: string, onEvent: (event: JobStreamEvent) => void): () => void {
+    const source = new EventSource(
+      `${API_BASE}/jobs/${encodeURIComponent(id)}/events`
+    );
+    JOB_EVENT_TYPES.forEach(type => {
+      source.addEventListener(type, message => {
+        const event: JobStreamEvent = JSON.parse(
+          (message as MessageEvent).data
+        );
+        // The server ends the stream after the final status; stop the
+        // browser from reconnecting
+        if (
+          event.type === 'status' &&
+          !['queued', 'running'].includes(event.status)
+        ) {
+          source.close();
+        }
+        onEvent(event);
+      });
+    });
+    return () => source.close();
+  }
+
   async refreshPackages(): Promise<Package[]> {
+    const result = await this.refreshPackagesWithSummary();
+    return result ? result.packages : [];
+  }
+
+  async refreshPackagesWithSummary(): Promise<RefreshResult | null> {
     try {
       const pkg = await fetch(`${API_BASE}/packages/refresh`, {
         method: 'POST',
@@ -271,16 +828,13 @@ class MonorepoService {
         console.error(
           `refreshPackages: fetch failed with status ${pkg.status}`
         );
-        return [];
+        return null;
       }
 
-      const pkgData = await pkg.json();
-      // console.log('data from refreshPackage:', pkgData);
-
-      return pkgData;
+      return await pkg.json();
     } catch (error) {
       console.error('refreshPackages: unexpected error', error);
-      return [];
+      return null;
     }
   }
   // async getHealthStatus(): Promise<{
@@ -361,6 +915,41 @@ class MonorepoService {
     }
   }
 
+  async getHealthHistory(
+    params: { package?: string; from?: string; to?: string } = {}
+  ): Promise<HealthHistory> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) query.set(key, value);
+    });
+    const res = await fetch(`${API_BASE}/health/history?${query}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch health history (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getAdvisories(
+    params: { package?: string; severity?: AdvisorySeverity[] } = {}
+  ): Promise<AdvisoryReport> {
+    const query = new URLSearchParams();
+    if (params.package) query.set('package', params.package);
+    if (params.severity?.length) query.set('severity', params.severity.join(','));
+    const res = await fetch(`${API_BASE}/health/advisories?${query}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch advisories (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
+  async getHealthPolicy(): Promise<HealthPolicy> {
+    const res = await fetch(`${API_BASE}/health/policy`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch health policy (Status: ${res.status})`);
+    }
+    return await res.json();
+  }
+
   async refreshHealthStatus(): Promise<{
     overallScore: number;
     metrics: HealthMetric[];
@@ -622,10 +1211,13 @@ class MonorepoService {
       //   packageName
       // );
 
+      // Only package owners and repository admins may edit a package
+      const token = localStorage.getItem('monodog_session_token');
       const response = await fetch(`${API_BASE}/packages/update-config`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
         body: JSON.stringify({
           packageName,
@@ -746,12 +1338,15 @@ class MonorepoService {
     try {
       // console.log('Saving configuration file:', fileId);
 
+      // Files inside a package need the same rights as its configuration
+      const token = localStorage.getItem('monodog_session_token');
       const res = await fetch(
         `${API_BASE}/config/files/${encodeURIComponent(fileId)}`,
         {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
+            ...(token && { Authorization: `Bearer ${token}` }),
           },
           body: JSON.stringify({ content }),
         }
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Package" ADD COLUMN "contentHash" TEXT NOT NULL DEFAULT '';
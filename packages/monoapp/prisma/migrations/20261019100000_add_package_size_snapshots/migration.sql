@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "package_size_snapshot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "packageName" TEXT NOT NULL,
+    "commitHash" TEXT NOT NULL,
+    "sourceSize" INTEGER NOT NULL,
+    "sourceFiles" INTEGER NOT NULL,
+    "outputSize" INTEGER NOT NULL,
+    "packedSize" INTEGER,
+    "unpackedSize" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "package_size_snapshot_packageName_fkey" FOREIGN KEY ("packageName") REFERENCES "Package" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_size_snapshot_packageName_commitHash_key" ON "package_size_snapshot"("packageName", "commitHash");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Package" ADD COLUMN "owners" TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "package_health_check" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "packageName" TEXT NOT NULL,
+    "checkId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "weight" REAL NOT NULL,
+    "value" TEXT,
+    "message" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "package_health_check_packageName_fkey" FOREIGN KEY ("packageName") REFERENCES "package_health" ("packageName") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_package_health" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "packageName" TEXT NOT NULL,
+    "packageOverallScore" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "package_health_packageName_fkey" FOREIGN KEY ("packageName") REFERENCES "Package" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_package_health" ("createdAt", "id", "packageName", "packageOverallScore", "updatedAt") SELECT "createdAt", "id", "packageName", "packageOverallScore", "updatedAt" FROM "package_health";
+DROP TABLE "package_health";
+ALTER TABLE "new_package_health" RENAME TO "package_health";
+CREATE UNIQUE INDEX "package_health_packageName_key" ON "package_health"("packageName");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_health_check_packageName_checkId_key" ON "package_health_check"("packageName", "checkId");
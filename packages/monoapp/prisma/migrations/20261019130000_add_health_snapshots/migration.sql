@@ -0,0 +1,25 @@
+/*
+  Warnings:
+
+  - You are about to drop the `health_status` table. If the table is not empty, all the data it contains will be lost.
+
+*/
+-- DropTable
+PRAGMA foreign_keys=off;
+DROP TABLE "health_status";
+PRAGMA foreign_keys=on;
+
+-- CreateTable
+CREATE TABLE "health_snapshot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "packageName" TEXT,
+    "overallScore" REAL NOT NULL,
+    "checkScores" TEXT NOT NULL DEFAULT '{}',
+    "packageCount" INTEGER NOT NULL DEFAULT 1,
+    "healthyCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "health_snapshot_packageName_fkey" FOREIGN KEY ("packageName") REFERENCES "Package" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "health_snapshot_packageName_createdAt_idx" ON "health_snapshot"("packageName", "createdAt");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "coverage_report" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "packageName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "reportPath" TEXT NOT NULL,
+    "totals" TEXT NOT NULL,
+    "files" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "coverage_report_packageName_fkey" FOREIGN KEY ("packageName") REFERENCES "Package" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "coverage_report_packageName_createdAt_idx" ON "coverage_report"("packageName", "createdAt");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "job" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "progressCompleted" INTEGER NOT NULL DEFAULT 0,
+    "progressTotal" INTEGER NOT NULL DEFAULT 0,
+    "result" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "job_createdAt_idx" ON "job"("createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "package_health_check" ADD COLUMN "output" TEXT;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "package_advisory" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "packageName" TEXT NOT NULL,
+    "advisoryId" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "moduleName" TEXT NOT NULL,
+    "vulnerableVersions" TEXT NOT NULL,
+    "patchedVersions" TEXT,
+    "url" TEXT,
+    "paths" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "package_advisory_packageName_fkey" FOREIGN KEY ("packageName") REFERENCES "Package" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "package_advisory_severity_idx" ON "package_advisory"("severity");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_advisory_packageName_advisoryId_moduleName_key" ON "package_advisory"("packageName", "advisoryId", "moduleName");
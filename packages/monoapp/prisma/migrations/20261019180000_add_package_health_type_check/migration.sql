@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "package_health" ADD COLUMN "typeCheck" TEXT;
@@ -63,13 +63,177 @@ export const swaggerDefinition = {
         },
       },
     },
+    '/packages/sizes': {
+      post: {
+        tags: ['Packages'],
+        summary: 'Record package sizes',
+        description:
+          'Measures source, dist/build output and npm pack tarball sizes of every stored package at the current HEAD commit',
+        operationId: 'recordPackageSizes',
+        responses: {
+          '200': {
+            description: 'Recorded snapshots and the regressions against the previous commit',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PackageSizeRecording' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/packages/{name}/sizes': {
+      get: {
+        tags: ['Packages'],
+        summary: 'Get package size history',
+        description:
+          'Size snapshots oldest first, with the metrics that grew past size.regressionThresholdPercent between consecutive snapshots',
+        operationId: 'getPackageSizeHistory',
+        parameters: [
+          { name: 'name', in: 'path', required: true, schema: { type: 'string' } },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', minimum: 1 },
+            description: 'Only return the most recent snapshots',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Package size history',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PackageSizeHistory' },
+              },
+            },
+          },
+          '400': { description: 'Invalid limit' },
+          '404': { description: 'Package not found' },
+        },
+      },
+      post: {
+        tags: ['Packages'],
+        summary: 'Record the size of a package',
+        operationId: 'recordPackageSize',
+        parameters: [{ name: 'name', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'Recorded snapshot and the regressions against the previous commit',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PackageSizeRecording' },
+              },
+            },
+          },
+          '404': { description: 'Package not found' },
+        },
+      },
+    },
+    '/packages/{name}/coverage': {
+      get: {
+        tags: ['Packages'],
+        summary: 'Get package test coverage',
+        description:
+          'Latest coverage report read by a health refresh (Istanbul JSON, lcov, Cobertura or Clover) with per-file coverage, and the totals of earlier refreshes oldest first',
+        operationId: 'getPackageCoverage',
+        parameters: [
+          { name: 'name', in: 'path', required: true, schema: { type: 'string' } },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', minimum: 1 },
+            description: 'Only return the totals of the most recent refreshes',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Package coverage',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PackageCoverage' },
+              },
+            },
+          },
+          '400': { description: 'Invalid limit' },
+          '404': { description: 'Package not found' },
+        },
+      },
+    },
     '/packages/refresh': {
       post: {
         tags: ['Packages'],
         summary: 'Refresh packages',
+        description:
+          'Re-stores only packages whose manifest or source hash changed and removes packages that no longer exist. Runs the package-refresh job, or joins the one already running, and waits for it to finish.',
         operationId: 'refreshPackages',
         responses: {
-          '200': { description: 'Packages refreshed successfully' },
+          '200': {
+            description: 'Packages refreshed successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    summary: { $ref: '#/components/schemas/RefreshSummary' },
+                    packages: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/Package' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '409': { description: 'The package-refresh job was cancelled' },
+        },
+      },
+    },
+    '/packages/affected': {
+      get: {
+        tags: ['Packages'],
+        summary: 'Get packages affected by changes between two git refs',
+        operationId: 'getAffectedPackages',
+        parameters: [
+          {
+            name: 'base',
+            in: 'query',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Base ref, e.g. origin/main',
+          },
+          {
+            name: 'head',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: 'Head ref; the working tree (including uncommitted files) when omitted',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Changed packages and their dependents with the reason for inclusion',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    base: { type: 'string' },
+                    head: { type: 'string', nullable: true },
+                    changedFiles: { type: 'number' },
+                    unownedFiles: { type: 'array', items: { type: 'string' } },
+                    affected: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/AffectedPackage' },
+                    },
+                    total: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Missing, invalid or unknown git ref' },
         },
       },
     },
@@ -77,6 +241,8 @@ export const swaggerDefinition = {
       put: {
         tags: ['Packages'],
         summary: 'Update package configuration',
+        description:
+          'Requires a session. Only the CODEOWNERS owners of the package or repository admins may edit it; packages without owners need write permission',
         operationId: 'updatePackageConfig',
         requestBody: {
           required: true,
@@ -89,6 +255,8 @@ export const swaggerDefinition = {
         responses: {
           '200': { description: 'Package configuration updated successfully' },
           '400': { description: 'Invalid request' },
+          '401': { description: 'Authentication required' },
+          '403': { description: 'User is neither a package owner nor a repository admin' },
           '404': { description: 'Package not found' },
         },
       },
@@ -110,13 +278,156 @@ export const swaggerDefinition = {
         },
       },
     },
+    '/health/history': {
+      get: {
+        tags: ['Health'],
+        summary: 'Get health history and trends',
+        description:
+          'Health snapshots recorded by each refresh, oldest first, with the score change over them. Without a package the monorepo snapshots and the trend of every package are returned.',
+        operationId: 'getHealthHistory',
+        parameters: [
+          { name: 'package', in: 'query', required: false, schema: { type: 'string' } },
+          { name: 'from', in: 'query', required: false, schema: { type: 'string', format: 'date-time' } },
+          { name: 'to', in: 'query', required: false, schema: { type: 'string', format: 'date-time' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Health history',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/HealthHistory' },
+              },
+            },
+          },
+          '400': { description: 'Invalid from or to date' },
+          '404': { description: 'Package not found' },
+          '500': { description: 'Internal server error' },
+        },
+      },
+    },
+    '/health/policy': {
+      get: {
+        tags: ['Health'],
+        summary: 'Get the resolved health policy',
+        description:
+          'Score thresholds and check settings from the health configuration, and the thresholds and checks of each package a policy applies to.',
+        operationId: 'getHealthPolicy',
+        responses: {
+          '200': {
+            description: 'Resolved health policy',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/HealthPolicy' },
+              },
+            },
+          },
+          '500': { description: 'Internal server error' },
+        },
+      },
+    },
+    '/health/advisories': {
+      get: {
+        tags: ['Health'],
+        summary: 'List security advisories',
+        description:
+          'Advisories found by the latest audit of each package, most severe first, with the count per severity.',
+        operationId: 'getAdvisories',
+        parameters: [
+          { name: 'package', in: 'query', required: false, schema: { type: 'string' } },
+          {
+            name: 'severity',
+            in: 'query',
+            required: false,
+            description: 'Comma separated severities to include',
+            schema: { type: 'string', example: 'high,critical' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Advisories',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AdvisoryReport' },
+              },
+            },
+          },
+          '400': { description: 'Invalid severity' },
+          '404': { description: 'Package not found' },
+          '500': { description: 'Internal server error' },
+        },
+      },
+    },
+    '/health/notifications': {
+      get: {
+        tags: ['Health'],
+        summary: 'Get notification settings',
+        description:
+          'Requires a session. Notification rules, channels and SMTP server from health.notifications, without secrets. Webhooks show only their host.',
+        operationId: 'getNotificationSettings',
+        responses: {
+          '200': {
+            description: 'Notification settings',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationSettings' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '500': { description: 'Internal server error' },
+        },
+      },
+    },
+    '/health/notifications/test': {
+      post: {
+        tags: ['Health'],
+        summary: 'Send a test notification',
+        description: 'Requires a session. Sends a sample notification to one channel and reports the delivery.',
+        operationId: 'sendTestNotification',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['channel'],
+                properties: { channel: { type: 'string', description: 'Channel id' } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Notification delivered',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationDelivery' },
+              },
+            },
+          },
+          '400': { description: 'Missing channel' },
+          '401': { description: 'Authentication required' },
+          '404': { description: 'Channel not found' },
+          '502': {
+            description: 'Delivery failed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationDelivery' },
+              },
+            },
+          },
+        },
+      },
+    },
     '/health/refresh': {
       post: {
         tags: ['Health'],
         summary: 'Refresh health status',
+        description: 'Runs the health-refresh job, or joins the one already running, and waits for it to finish.',
         operationId: 'refreshHealth',
         responses: {
           '200': { description: 'Health status refreshed successfully' },
+          '409': { description: 'The health-refresh job was cancelled' },
         },
       },
     },
@@ -159,6 +470,8 @@ export const swaggerDefinition = {
       put: {
         tags: ['Configuration'],
         summary: 'Update configuration file',
+        description:
+          'Requires a session. Files inside a package may only be edited by its CODEOWNERS owners or repository admins; packages without owners need write permission',
         operationId: 'updateConfigFile',
         parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
         requestBody: {
@@ -172,91 +485,754 @@ export const swaggerDefinition = {
         responses: {
           '200': { description: 'Configuration file updated successfully' },
           '400': { description: 'Invalid request' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'The user may not edit the package containing the file' },
           '404': { description: 'Configuration file not found' },
         },
       },
     },
-  },
-  tags: [
-    {
-      name: 'Packages',
-      description: 'Package management and analysis endpoints',
-    },
-    {
-      name: 'Health',
-      description: 'Health monitoring and status endpoints',
-    },
-    {
-      name: 'Commits',
-      description: 'Git commit history and analysis endpoints',
-    },
-    {
-      name: 'Configuration',
-      description: 'Configuration file management endpoints',
-    },
-  ],
-  components: {
-    schemas: {
-      Package: {
-        type: 'object',
-        properties: {
-          name: {
-            type: 'string',
-            description: 'Package name',
-          },
-          path: {
-            type: 'string',
-            description: 'Package path in monorepo',
-          },
-          version: {
-            type: 'string',
-            description: 'Package version',
+    '/workspace': {
+      get: {
+        tags: ['Workspace'],
+        summary: 'Get detected workspace layout and package manager',
+        operationId: 'getWorkspaceInfo',
+        responses: {
+          '200': {
+            description: 'Detected workspace tool, package manager and projects',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/WorkspaceInfo' },
+              },
+            },
           },
-          size: {
-            type: 'number',
-            description: 'Package size in bytes',
+          '404': { description: 'No workspace configuration detected' },
+        },
+      },
+    },
+    '/graph': {
+      get: {
+        tags: ['Graph'],
+        summary: 'Get the workspace dependency graph with typed edges',
+        operationId: 'getDependencyGraph',
+        parameters: [
+          {
+            name: 'types',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', example: 'prod,dev,peer,optional' },
+            description: 'Comma separated dependency types to include (defaults to all)',
           },
-          dependencies: {
-            type: 'array',
-            items: {
-              type: 'string',
+        ],
+        responses: {
+          '200': {
+            description: 'Package nodes and internal edges with their declared ranges',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    dependencyTypes: { type: 'array', items: { type: 'string' } },
+                    nodes: { type: 'array', items: { type: 'object' } },
+                    edges: { type: 'array', items: { $ref: '#/components/schemas/GraphEdge' } },
+                    unsatisfied: {
+                      type: 'number',
+                      description: 'Edges whose range does not accept the local version',
+                    },
+                  },
+                },
+              },
             },
-            description: 'List of package dependencies',
           },
+          '400': { description: 'Unknown dependency type' },
         },
       },
-      PackageHealth: {
-        type: 'object',
-        properties: {
-          packageName: {
-            type: 'string',
-            description: 'Name of the package',
+    },
+    '/graph/build-order': {
+      get: {
+        tags: ['Graph'],
+        summary: 'Get packages in topological build layers',
+        operationId: 'getBuildOrder',
+        parameters: [
+          {
+            name: 'types',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', example: 'prod,dev,peer' },
+            description: 'Comma separated dependency types to follow (defaults to all)',
           },
-          healthScore: {
-            type: 'number',
-            description: 'Health score (0-100)',
-            minimum: 0,
-            maximum: 100,
+        ],
+        responses: {
+          '200': {
+            description: 'Build layers, blocking cycles and packages blocked behind them',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/BuildOrder' },
+              },
+            },
           },
-          lintStatus: {
-            type: 'string',
-            enum: ['pass', 'warning', 'fail'],
-            description: 'Linting status',
+          '400': { description: 'Unknown dependency type' },
+        },
+      },
+    },
+    '/graph/boundaries': {
+      get: {
+        tags: ['Graph'],
+        summary: 'Validate dependencies against the module boundary constraints',
+        operationId: 'getBoundaryViolations',
+        parameters: [
+          {
+            name: 'types',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', example: 'prod,dev,peer' },
+            description: 'Comma separated dependency types to validate (defaults to all)',
           },
-          buildStatus: {
-            type: 'string',
-            enum: ['success', 'failed', 'pending'],
-            description: 'Build status',
+          {
+            name: 'imports',
+            in: 'query',
+            required: false,
+            schema: { type: 'boolean', default: true },
+            description: 'Also validate workspace packages imported without a declared dependency',
           },
-          securityStatus: {
-            type: 'string',
-            enum: ['secure', 'warning', 'vulnerable'],
-            description: 'Security status',
+        ],
+        responses: {
+          '200': {
+            description: 'Effective package tags, constraints and violations',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/BoundaryReport' },
+              },
+            },
           },
-          testCoverage: {
-            type: 'number',
-            description: 'Test coverage percentage',
+          '400': { description: 'Unknown dependency type' },
+        },
+      },
+    },
+    '/watcher/status': {
+      get: {
+        tags: ['Workspace'],
+        summary: 'Get the package watcher status and recent package changes',
+        operationId: 'getWatcherStatus',
+        responses: {
+          '200': {
+            description: 'Watcher state and the most recent changes first',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/WatcherStatus' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/dependencies/mismatches': {
+      get: {
+        tags: ['Dependencies'],
+        summary: 'Find external dependencies declared with divergent ranges',
+        operationId: 'getVersionMismatches',
+        responses: {
+          '200': {
+            description: 'Mismatched dependencies with the ranges and packages declaring them',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/VersionMismatchReport' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/dependencies/lockfile': {
+      get: {
+        tags: ['Dependencies'],
+        summary: 'Get resolved dependency versions from the lockfile',
+        operationId: 'getLockfileReport',
+        parameters: [
+          {
+            name: 'package',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: 'Only report the direct dependencies of this package',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Resolved versions, duplicate installs and out of range lockfile entries',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/LockfileReport' },
+              },
+            },
+          },
+          '404': { description: 'Package not found' },
+        },
+      },
+    },
+    '/dependencies/hygiene': {
+      get: {
+        tags: ['Dependencies'],
+        summary: 'Find unused, missing and undeclared workspace dependencies from source imports',
+        operationId: 'getDependencyHygiene',
+        parameters: [
+          {
+            name: 'package',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: 'Only analyze this package',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Dependency hygiene per package',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DependencyHygieneReport' },
+              },
+            },
+          },
+          '404': { description: 'Package not found' },
+        },
+      },
+    },
+    '/dependencies/licenses': {
+      get: {
+        tags: ['Dependencies'],
+        summary: 'Get the license inventory and license policy violations',
+        operationId: 'getLicenseReport',
+        parameters: [
+          {
+            name: 'package',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: 'Only walk the dependencies of this package',
+          },
+          {
+            name: 'format',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['csv', 'json'] },
+            description: 'Download the report as a CSV or JSON file',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Installed dependencies with their license status and violation chains',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/LicenseReport' },
+              },
+              'text/csv': { schema: { type: 'string' } },
+            },
+          },
+          '400': { description: 'Unsupported format' },
+          '404': { description: 'Package not found' },
+        },
+      },
+    },
+    '/dependencies/align': {
+      post: {
+        tags: ['Dependencies'],
+        summary: 'Align a dependency to one range in every package.json',
+        description:
+          'Requires a session. Packages the user may not edit (not a CODEOWNERS owner or repository admin) are left unchanged and reported as forbidden failures.',
+        operationId: 'alignDependency',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['dependency', 'range'],
+                properties: {
+                  dependency: { type: 'string', example: 'react' },
+                  range: { type: 'string', example: '^18.2.0' },
+                  packages: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Limit the change to these packages (defaults to all)',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Packages updated, already aligned or failed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AlignDependencyResult' },
+              },
+            },
+          },
+          '400': { description: 'Missing dependency or invalid range' },
+          '401': { description: 'Authentication required' },
+          '403': {
+            description: 'The user may edit none of the packages that need the change',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AlignDependencyResult' },
+              },
+            },
+          },
+          '404': { description: 'No package declares the dependency' },
+        },
+      },
+    },
+    '/jobs': {
+      post: {
+        tags: ['Jobs'],
+        summary: 'Start a background job',
+        description:
+          'Queues a health refresh, package refresh or publish. A job of the same type that is still queued or running is returned instead of starting another one. Publish jobs require authentication.',
+        operationId: 'createJob',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                  type: { type: 'string', enum: ['health-refresh', 'package-refresh', 'publish'] },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '202': {
+            description: 'Job queued',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } },
+          },
+          '200': {
+            description: 'A job of the same type is already active',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } },
+          },
+          '400': { description: 'Unknown job type' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+        },
+      },
+      get: {
+        tags: ['Jobs'],
+        summary: 'List recent jobs',
+        operationId: 'getJobs',
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', default: 20 },
+            description: 'Number of jobs to return, newest first',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Recent jobs',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/Job' } },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/jobs/{id}': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Get a job',
+        operationId: 'getJob',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'Job status, progress and result',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } },
+          },
+          '404': { description: 'Job not found' },
+        },
+      },
+    },
+    '/jobs/{id}/events': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Stream job progress',
+        description:
+          'Server-sent events for status, progress, package-start, package-finish and log. Events carry increasing sequence ids; reconnecting with Last-Event-ID resumes after that event. The stream ends once the job has finished.',
+        operationId: 'streamJobEvents',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'Last-Event-ID', in: 'header', schema: { type: 'integer' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Event stream; each data line is a JobStreamEvent',
+            content: {
+              'text/event-stream': { schema: { $ref: '#/components/schemas/JobStreamEvent' } },
+            },
+          },
+          '404': { description: 'Job not found' },
+        },
+      },
+    },
+    '/jobs/{id}/cancel': {
+      post: {
+        tags: ['Jobs'],
+        summary: 'Cancel a job',
+        description:
+          'Requests cancellation; the job reports cancelled once the current package is done. Cancelling a publish job requires authentication.',
+        operationId: 'cancelJob',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '202': {
+            description: 'Cancellation requested',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { description: 'Job not found' },
+          '409': { description: 'Job has already finished' },
+        },
+      },
+    },
+  },
+  tags: [
+    {
+      name: 'Packages',
+      description: 'Package management and analysis endpoints',
+    },
+    {
+      name: 'Health',
+      description: 'Health monitoring and status endpoints',
+    },
+    {
+      name: 'Commits',
+      description: 'Git commit history and analysis endpoints',
+    },
+    {
+      name: 'Configuration',
+      description: 'Configuration file management endpoints',
+    },
+    {
+      name: 'Graph',
+      description: 'Dependency graph analysis endpoints',
+    },
+    {
+      name: 'Workspace',
+      description: 'Workspace layout and package manager detection endpoints',
+    },
+    {
+      name: 'Dependencies',
+      description: 'External dependency analysis endpoints',
+    },
+    {
+      name: 'Jobs',
+      description: 'Background job and progress streaming endpoints',
+    },
+  ],
+  components: {
+    schemas: {
+      Package: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Package name',
+          },
+          path: {
+            type: 'string',
+            description: 'Package path in monorepo',
+          },
+          version: {
+            type: 'string',
+            description: 'Package version',
+          },
+          size: {
+            type: 'number',
+            description: 'Package size in bytes',
+          },
+          owners: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Effective CODEOWNERS owners of the package path',
+            example: ['@acme/web-team', 'jane@acme.dev'],
+          },
+          dependencies: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'List of package dependencies',
+          },
+        },
+      },
+      PackageHealth: {
+        type: 'object',
+        properties: {
+          packageName: {
+            type: 'string',
+            description: 'Name of the package',
+          },
+          healthScore: {
+            type: 'number',
+            description: 'Health score (0-100)',
+            minimum: 0,
+            maximum: 100,
+          },
+          lintStatus: {
+            type: 'string',
+            enum: ['pass', 'warning', 'fail'],
+            description: 'Linting status',
+          },
+          buildStatus: {
+            type: 'string',
+            enum: ['success', 'failed', 'pending'],
+            description: 'Build status',
+          },
+          securityStatus: {
+            type: 'string',
+            enum: ['secure', 'warning', 'vulnerable'],
+            description: 'Security status',
+          },
+          testCoverage: {
+            type: 'number',
+            description: 'Test coverage percentage',
+          },
+          checks: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/HealthCheckResult' },
+            description: 'Result of each enabled health check the score was calculated from',
+          },
+          typeCheck: {
+            allOf: [{ $ref: '#/components/schemas/TypeCheckReport' }],
+            nullable: true,
+            description: 'Diagnostics of the last type check, null when it was skipped',
+          },
+        },
+      },
+      HealthCheckResult: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Check id, e.g. build or a custom check id' },
+          name: { type: 'string' },
+          status: { type: 'string', enum: ['pass', 'warn', 'fail', 'skip'] },
+          score: { type: 'number', minimum: 0, maximum: 1 },
+          weight: { type: 'number', description: 'Weight relative to the other enabled checks' },
+          value: { oneOf: [{ type: 'string' }, { type: 'number' }], description: 'Raw measurement' },
+          message: { type: 'string' },
+          output: {
+            type: 'object',
+            description: 'Output of the command that failed the check; long output keeps its end',
+            properties: {
+              command: { type: 'string' },
+              exitCode: { type: 'integer', nullable: true, description: 'null when killed or not started' },
+              stdout: { type: 'string' },
+              stderr: { type: 'string' },
+              durationMs: { type: 'number' },
+              timedOut: { type: 'boolean' },
+            },
+          },
+        },
+      },
+      HealthSnapshot: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string', nullable: true, description: 'null for the whole monorepo' },
+          overallScore: { type: 'number' },
+          checkScores: { type: 'object', additionalProperties: { type: 'number' } },
+          packageCount: { type: 'integer' },
+          healthyCount: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      HealthTrend: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string', nullable: true },
+          snapshotCount: { type: 'integer' },
+          first: { type: 'number', nullable: true },
+          latest: { type: 'number', nullable: true },
+          delta: { type: 'number', description: 'Score change from the first to the latest snapshot' },
+          previousDelta: { type: 'number', description: 'Score change since the snapshot before the latest' },
+          direction: { type: 'string', enum: ['up', 'down', 'stable'] },
+          checkDeltas: { type: 'object', additionalProperties: { type: 'number' } },
+        },
+      },
+      HealthHistory: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string', nullable: true },
+          from: { type: 'string', format: 'date-time', nullable: true },
+          to: { type: 'string', format: 'date-time', nullable: true },
+          snapshots: { type: 'array', items: { $ref: '#/components/schemas/HealthSnapshot' } },
+          trend: { $ref: '#/components/schemas/HealthTrend' },
+          packageTrends: { type: 'array', items: { $ref: '#/components/schemas/HealthTrend' } },
+        },
+      },
+      HealthThresholds: {
+        type: 'object',
+        properties: {
+          healthy: { type: 'number', description: 'Lowest score that counts as healthy' },
+          warning: { type: 'number', description: 'Lowest score that counts as a warning; below is an error' },
+        },
+      },
+      HealthCheckPolicy: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          weight: { type: 'number' },
+          enabled: { type: 'boolean' },
+          timeoutMs: { type: 'number' },
+        },
+      },
+      HealthPolicy: {
+        type: 'object',
+        properties: {
+          thresholds: { $ref: '#/components/schemas/HealthThresholds' },
+          checks: { type: 'array', items: { $ref: '#/components/schemas/HealthCheckPolicy' } },
+          packages: {
+            type: 'array',
+            description: 'Packages at least one policy applies to',
+            items: {
+              type: 'object',
+              properties: {
+                packageName: { type: 'string' },
+                policies: { type: 'array', items: { type: 'string' }, description: 'Matching policies, in order' },
+                thresholds: { $ref: '#/components/schemas/HealthThresholds' },
+                checks: { type: 'array', items: { $ref: '#/components/schemas/HealthCheckPolicy' } },
+              },
+            },
+          },
+        },
+      },
+      PackageAdvisory: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string' },
+          id: { type: 'string', description: "GHSA id when known, otherwise the registry's advisory id" },
+          severity: { type: 'string', enum: ['info', 'low', 'moderate', 'high', 'critical'] },
+          title: { type: 'string' },
+          moduleName: { type: 'string', description: 'The vulnerable dependency' },
+          vulnerableVersions: { type: 'string' },
+          patchedVersions: { type: 'string', nullable: true },
+          url: { type: 'string', nullable: true },
+          paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: "Dependency paths from the package, e.g. 'express>qs'",
+          },
+          createdAt: { type: 'string', format: 'date-time', description: 'Time of the refresh that first found it' },
+        },
+      },
+      AdvisoryReport: {
+        type: 'object',
+        properties: {
+          counts: {
+            type: 'object',
+            properties: {
+              critical: { type: 'integer' },
+              high: { type: 'integer' },
+              moderate: { type: 'integer' },
+              low: { type: 'integer' },
+              info: { type: 'integer' },
+            },
+          },
+          advisories: { type: 'array', items: { $ref: '#/components/schemas/PackageAdvisory' } },
+        },
+      },
+      TypeCheckReport: {
+        type: 'object',
+        properties: {
+          errorCount: { type: 'integer' },
+          warningCount: { type: 'integer' },
+          durationMs: { type: 'number' },
+          diagnostics: {
+            type: 'array',
+            description: 'First 20 diagnostics, errors before warnings',
+            items: {
+              type: 'object',
+              properties: {
+                file: { type: 'string', nullable: true, description: 'Relative to the package, null for project-wide diagnostics' },
+                line: { type: 'integer', nullable: true },
+                column: { type: 'integer', nullable: true },
+                code: { type: 'integer', description: 'TypeScript diagnostic code, e.g. 2322 for TS2322' },
+                category: { type: 'string', enum: ['error', 'warning'] },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      NotificationSettings: {
+        type: 'object',
+        properties: {
+          rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string', enum: ['score-below', 'score-dropped', 'check-status'] },
+                threshold: { type: 'number' },
+                points: { type: 'number' },
+                check: { type: 'string' },
+                from: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+                to: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+                packages: { type: 'array', items: { type: 'string' } },
+                tags: { type: 'array', items: { type: 'string' } },
+                channels: { type: 'array', items: { type: 'string' } },
+                severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+              },
+            },
+          },
+          channels: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                type: { type: 'string', enum: ['webhook', 'email'] },
+                host: { type: 'string', nullable: true, description: 'Host of the webhook URL' },
+                format: { type: 'string', enum: ['json', 'slack', 'teams'] },
+                signed: { type: 'boolean', description: 'Whether requests carry an HMAC signature' },
+                retries: { type: 'integer' },
+                to: { type: 'array', items: { type: 'string' } },
+                subject: { type: 'string' },
+              },
+            },
+          },
+          smtp: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              host: { type: 'string' },
+              port: { type: 'integer' },
+              secure: { type: 'boolean' },
+              user: { type: 'string' },
+              allowInsecureAuth: {
+                type: 'boolean',
+                description: 'Whether credentials may be sent to a server that offers no TLS',
+              },
+              from: { type: 'string' },
+            },
           },
+          dashboardUrl: { type: 'string', nullable: true },
+        },
+      },
+      NotificationDelivery: {
+        type: 'object',
+        properties: {
+          channel: { type: 'string' },
+          type: { type: 'string', enum: ['webhook', 'email'] },
+          ok: { type: 'boolean' },
+          attempts: { type: 'integer' },
+          status: { type: 'integer', description: 'Last HTTP status of a webhook' },
+          error: { type: 'string' },
+          notifications: { type: 'integer' },
         },
       },
       Commit: {
@@ -306,6 +1282,530 @@ export const swaggerDefinition = {
           },
         },
       },
+      WorkspaceInfo: {
+        type: 'object',
+        properties: {
+          tool: {
+            type: 'string',
+            enum: ['pnpm', 'npm', 'yarn', 'yarn-berry', 'lerna', 'nx', 'rush'],
+            description: 'Workspace layout the projects were discovered from',
+          },
+          packageManager: {
+            type: 'string',
+            enum: ['pnpm', 'npm', 'yarn'],
+            description: 'Package manager used to run scripts',
+          },
+          projects: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Package' },
+            description: 'Discovered workspace projects',
+          },
+          total: {
+            type: 'number',
+            description: 'Number of discovered projects',
+          },
+        },
+      },
+      AffectedPackage: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          path: { type: 'string' },
+          reason: {
+            type: 'string',
+            enum: ['changed', 'dependent'],
+            description: 'changed: files inside the package changed; dependent: depends on an affected package',
+          },
+          changedFiles: { type: 'array', items: { type: 'string' } },
+          depth: { type: 'number', description: '0 for changed packages, 1 for direct dependents, ...' },
+          via: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Dependency chain from a changed package to this package',
+          },
+        },
+      },
+      GraphEdge: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', description: 'Dependent package' },
+          to: { type: 'string', description: 'Dependency package' },
+          type: { type: 'string', enum: ['prod', 'dev', 'peer', 'optional'] },
+          range: { type: 'string', example: 'workspace:^' },
+          workspaceProtocol: { type: 'boolean' },
+          satisfies: {
+            type: 'boolean',
+            description: 'Whether the declared range accepts the current local version',
+          },
+        },
+      },
+      BuildOrder: {
+        type: 'object',
+        properties: {
+          dependencyTypes: { type: 'array', items: { type: 'string' } },
+          layers: {
+            type: 'array',
+            items: { type: 'array', items: { type: 'string' } },
+            description: 'Packages in the same layer can build in parallel',
+          },
+          cycles: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                packages: { type: 'array', items: { type: 'string' } },
+                edges: { type: 'array', items: { $ref: '#/components/schemas/GraphEdge' } },
+              },
+            },
+          },
+          blocked: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                waitingOn: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+          total: { type: 'number' },
+        },
+      },
+      BoundaryConstraint: {
+        type: 'object',
+        required: ['sourceTag'],
+        properties: {
+          sourceTag: { type: 'string', example: 'scope:billing', description: "'*' matches every package" },
+          onlyDependOnTags: { type: 'array', items: { type: 'string' }, example: ['scope:shared'] },
+          notDependOnTags: { type: 'array', items: { type: 'string' }, example: ['type:app'] },
+        },
+      },
+      BoundaryReport: {
+        type: 'object',
+        properties: {
+          tags: {
+            type: 'object',
+            additionalProperties: { type: 'array', items: { type: 'string' } },
+            description: 'Effective tags per package',
+          },
+          constraints: { type: 'array', items: { $ref: '#/components/schemas/BoundaryConstraint' } },
+          checkedEdges: { type: 'number' },
+          checkedImports: {
+            type: 'number',
+            nullable: true,
+            description: 'Undeclared workspace imports checked, null when imports were skipped',
+          },
+          violations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                from: { type: 'string' },
+                to: { type: 'string' },
+                source: { type: 'string', enum: ['graph', 'import'] },
+                type: { type: 'string', enum: ['prod', 'dev', 'peer', 'optional'] },
+                files: { type: 'array', items: { type: 'string' } },
+                constraint: { $ref: '#/components/schemas/BoundaryConstraint' },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      DependencyVersionGroup: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          ranges: {
+            type: 'array',
+            description: 'Declared ranges, most used first',
+            items: {
+              type: 'object',
+              properties: {
+                range: { type: 'string' },
+                packages: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      packageName: { type: 'string' },
+                      type: { type: 'string', enum: ['prod', 'dev', 'peer'] },
+                      range: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          usages: { type: 'number' },
+          mismatched: { type: 'boolean' },
+          suggestedRange: { type: 'string', description: 'Range with the highest minimum version' },
+        },
+      },
+      VersionMismatchReport: {
+        type: 'object',
+        properties: {
+          dependencies: { type: 'number', description: 'Distinct external dependencies' },
+          mismatched: { type: 'number' },
+          groups: { type: 'array', items: { $ref: '#/components/schemas/DependencyVersionGroup' } },
+        },
+      },
+      ResolvedDependency: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['prod', 'dev', 'peer', 'optional'] },
+          range: { type: 'string', description: 'Range declared in package.json' },
+          resolved: { type: 'string', nullable: true, description: 'Version locked in the lockfile' },
+          satisfies: {
+            type: 'boolean',
+            nullable: true,
+            description: 'Whether the locked version satisfies the range (null for non semver ranges)',
+          },
+        },
+      },
+      LockfileReport: {
+        type: 'object',
+        properties: {
+          lockfile: {
+            type: 'string',
+            nullable: true,
+            enum: ['pnpm-lock.yaml', 'package-lock.json', 'yarn.lock'],
+          },
+          packages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                packageName: { type: 'string' },
+                path: { type: 'string' },
+                dependencies: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ResolvedDependency' },
+                },
+              },
+            },
+          },
+          duplicates: {
+            type: 'array',
+            description: 'Packages installed in more than one version',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                versions: { type: 'array', items: { type: 'string' } },
+                directDependents: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { packageName: { type: 'string' }, resolved: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+          outOfRange: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/ResolvedDependency' },
+          },
+        },
+      },
+      LicenseReport: {
+        type: 'object',
+        properties: {
+          policy: {
+            type: 'object',
+            properties: {
+              allow: { type: 'array', items: { type: 'string' } },
+              deny: { type: 'array', items: { type: 'string' } },
+              includeDev: { type: 'boolean' },
+            },
+          },
+          inventory: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                version: { type: 'string' },
+                license: { type: 'string', nullable: true, example: 'MIT' },
+                status: { type: 'string', enum: ['allowed', 'denied', 'not-allowed', 'unknown'] },
+                packages: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+          licenses: {
+            type: 'object',
+            additionalProperties: { type: 'number' },
+            description: 'Installed packages per license',
+          },
+          violations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                packageName: { type: 'string', description: 'Workspace package bringing it in' },
+                name: { type: 'string' },
+                version: { type: 'string' },
+                license: { type: 'string', nullable: true },
+                status: { type: 'string', enum: ['denied', 'not-allowed', 'unknown'] },
+                chain: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  example: ['@acme/web', 'some-lib', 'gpl-dependency'],
+                },
+              },
+            },
+          },
+        },
+      },
+      PackageSizeSnapshot: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string' },
+          commitHash: { type: 'string' },
+          sourceSize: { type: 'integer', description: 'Bytes outside node_modules, dist and build' },
+          sourceFiles: { type: 'integer' },
+          outputSize: { type: 'integer', description: 'Bytes in dist/ and build/' },
+          packedSize: { type: 'integer', nullable: true, description: 'npm pack tarball bytes' },
+          unpackedSize: { type: 'integer', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      SizeRegression: {
+        type: 'object',
+        properties: {
+          metric: { type: 'string', enum: ['sourceSize', 'outputSize', 'packedSize'] },
+          commitHash: { type: 'string' },
+          previousCommitHash: { type: 'string' },
+          previous: { type: 'integer' },
+          current: { type: 'integer' },
+          changePercent: { type: 'number', example: 12.5 },
+        },
+      },
+      CoverageMetric: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          covered: { type: 'integer' },
+          pct: { type: 'number', description: '100 when there is nothing to cover' },
+        },
+      },
+      CoverageTotals: {
+        type: 'object',
+        properties: {
+          lines: { $ref: '#/components/schemas/CoverageMetric' },
+          branches: { $ref: '#/components/schemas/CoverageMetric' },
+          functions: { $ref: '#/components/schemas/CoverageMetric' },
+          statements: { $ref: '#/components/schemas/CoverageMetric' },
+        },
+      },
+      PackageCoverage: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string' },
+          latest: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              format: { type: 'string', enum: ['istanbul', 'lcov', 'cobertura', 'clover'] },
+              reportPath: { type: 'string', description: 'Relative to the package directory' },
+              totals: { $ref: '#/components/schemas/CoverageTotals' },
+              files: {
+                type: 'array',
+                items: {
+                  allOf: [
+                    { $ref: '#/components/schemas/CoverageTotals' },
+                    { type: 'object', properties: { file: { type: 'string' } } },
+                  ],
+                },
+              },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          history: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                createdAt: { type: 'string', format: 'date-time' },
+                totals: { $ref: '#/components/schemas/CoverageTotals' },
+              },
+            },
+          },
+        },
+      },
+      PackageSizeHistory: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string' },
+          thresholdPercent: { type: 'number', example: 10 },
+          snapshots: { type: 'array', items: { $ref: '#/components/schemas/PackageSizeSnapshot' } },
+          regressions: { type: 'array', items: { $ref: '#/components/schemas/SizeRegression' } },
+        },
+      },
+      PackageSizeRecording: {
+        type: 'object',
+        properties: {
+          commitHash: { type: 'string' },
+          snapshots: { type: 'array', items: { $ref: '#/components/schemas/PackageSizeSnapshot' } },
+          regressions: { type: 'array', items: { $ref: '#/components/schemas/SizeRegression' } },
+        },
+      },
+      ImportUsage: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          files: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Importing files relative to the package directory',
+          },
+        },
+      },
+      DependencyHygieneReport: {
+        type: 'object',
+        properties: {
+          packages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                packageName: { type: 'string' },
+                filesScanned: { type: 'integer' },
+                unused: {
+                  type: 'array',
+                  description: 'Declared dependencies that are never imported',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      type: { type: 'string', enum: ['prod', 'dev', 'peer', 'optional'] },
+                    },
+                  },
+                },
+                missing: {
+                  type: 'array',
+                  description: 'Imported modules that are not declared',
+                  items: { $ref: '#/components/schemas/ImportUsage' },
+                },
+                undeclaredInternal: {
+                  type: 'array',
+                  description: 'Imported workspace packages that are not declared',
+                  items: { $ref: '#/components/schemas/ImportUsage' },
+                },
+              },
+            },
+          },
+          unused: { type: 'integer' },
+          missing: { type: 'integer' },
+          undeclaredInternal: { type: 'integer' },
+        },
+      },
+      AlignDependencyResult: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          dependency: { type: 'string' },
+          range: { type: 'string' },
+          updated: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                packageName: { type: 'string' },
+                types: { type: 'array', items: { type: 'string' } },
+                previous: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+          unchanged: { type: 'array', items: { type: 'string' } },
+          failed: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                packageName: { type: 'string' },
+                error: { type: 'string' },
+                forbidden: { type: 'boolean', description: 'The user may not edit the package' },
+              },
+            },
+          },
+        },
+      },
+      RefreshSummary: {
+        type: 'object',
+        description: 'Package names grouped by refresh outcome',
+        properties: {
+          added: { type: 'array', items: { type: 'string' } },
+          removed: { type: 'array', items: { type: 'string' } },
+          changed: { type: 'array', items: { type: 'string' } },
+          unchanged: { type: 'array', items: { type: 'string' } },
+          failed: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Packages that could not be fully stored; the next refresh retries them',
+          },
+        },
+      },
+      Job: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['health-refresh', 'package-refresh', 'publish'] },
+          status: { type: 'string', enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'] },
+          progress: {
+            type: 'object',
+            properties: {
+              completed: { type: 'number' },
+              total: { type: 'number', description: '0 until the job knows how much work it has' },
+            },
+          },
+          result: { type: 'object', nullable: true, description: 'What the job returned once succeeded' },
+          error: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          startedAt: { type: 'string', format: 'date-time', nullable: true },
+          finishedAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+      JobStreamEvent: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string' },
+          sequence: { type: 'number' },
+          timestamp: { type: 'string', format: 'date-time' },
+          type: { type: 'string', enum: ['status', 'progress', 'package-start', 'package-finish', 'log'] },
+          status: { type: 'string', description: 'status events' },
+          error: { type: 'string', description: 'status events of failed jobs' },
+          progress: { type: 'object', description: 'progress events' },
+          packageName: { type: 'string', description: 'package-start and package-finish events' },
+          success: { type: 'boolean', description: 'package-finish events' },
+          message: { type: 'string', description: 'package-finish and log events' },
+        },
+      },
+      WatcherStatus: {
+        type: 'object',
+        properties: {
+          running: { type: 'boolean' },
+          rootPath: { type: 'string' },
+          watchedPackages: { type: 'number' },
+          watchedDirectories: { type: 'number' },
+          lastSyncAt: { type: 'string', format: 'date-time', nullable: true },
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['added', 'updated', 'removed'] },
+                packageName: { type: 'string' },
+                path: { type: 'string', description: 'Package path relative to the root' },
+                trigger: { type: 'string', description: 'File that caused the change' },
+                timestamp: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+      },
       Error: {
         type: 'object',
         properties: {
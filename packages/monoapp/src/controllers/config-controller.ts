@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { AppLogger } from '../middleware/logger';
 import { getConfigurationFilesService, updateConfigFileService, updatePackageConfigurationService } from '../services/config-service';
+import { getFileEditAccessService } from '../services/package-service';
+import { getSessionFromRequest } from '../middleware/auth-middleware';
 
 export const getConfigurationFiles = async (_req: Request, res: Response) => {
   try {
@@ -29,7 +31,23 @@ export const updateConfigFile = async (_req: Request, res: Response) => {
         error: 'Content is required',
       });
     }
+    const session = getSessionFromRequest(_req);
+    if (!session) {
+      return res.status(401).json({ success: false, error: 'No active session' });
+    }
+
     const rootDir = _req.app.locals.rootPath;
+    // Files inside a package follow the same owner rules as its configuration
+    const access = await getFileEditAccessService(rootDir, session, id);
+    if (access && !access.allowed) {
+      AppLogger.warn(`${session.user.login} may not edit ${id} of ${access.packageName}`);
+      return res.status(403).json({
+        success: false,
+        error: 'Only the package owners or repository admins can edit this file',
+        owners: access.owners,
+      });
+    }
+
     const result = await updateConfigFileService(id, rootDir, content);
     res.json(result);
   } catch (error) {
@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { AppLogger } from '../middleware/logger';
+import { getSessionFromRequest } from '../middleware/auth-middleware';
+import {
+  getVersionMismatchesService,
+  alignDependencyService,
+  getLockfileReportService,
+  getDependencyHygieneService,
+  getLicenseReportService,
+} from '../services/dependency-service';
+import { isValidRange } from '../utils/semver-utils';
+import { licenseReportToCsv } from '../utils/license-utils';
+
+export const getVersionMismatches = async (_req: Request, res: Response) => {
+  try {
+    const report = await getVersionMismatchesService(_req.app.locals.rootPath);
+    res.json(report);
+  } catch (error) {
+    AppLogger.error('Error detecting dependency version mismatches', error as Error);
+    res.status(500).json({ error: 'Failed to detect dependency version mismatches' });
+  }
+}
+
+export const alignDependency = async (req: Request, res: Response) => {
+  const { dependency, range, packages } = req.body || {};
+
+  if (typeof dependency !== 'string' || !dependency || typeof range !== 'string' || !range) {
+    return res.status(400).json({ error: 'dependency and range are required' });
+  }
+  if (!isValidRange(range)) {
+    return res.status(400).json({ error: `Invalid semver range: ${range}` });
+  }
+  if (packages !== undefined && !(Array.isArray(packages) && packages.every(name => typeof name === 'string'))) {
+    return res.status(400).json({ error: 'packages must be an array of package names' });
+  }
+
+  const session = getSessionFromRequest(req);
+  if (!session) {
+    return res.status(401).json({ error: 'No active session' });
+  }
+
+  try {
+    const result = await alignDependencyService(req.app.locals.rootPath, dependency, range, session, packages);
+    if (!result) {
+      return res.status(404).json({ error: `No package declares ${dependency}` });
+    }
+    // Forbidden when every package that needed the change belongs to someone else
+    const forbidden = result.failed.length > 0 && result.failed.every(entry => entry.forbidden) && !result.updated.length;
+    res.status(forbidden ? 403 : 200).json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    AppLogger.error('Error aligning dependency versions', error as Error);
+    res.status(500).json({ error: 'Failed to align dependency versions' });
+  }
+}
+
+export const getLockfileReport = async (_req: Request, res: Response) => {
+  const packageName = typeof _req.query.package === 'string' ? _req.query.package : undefined;
+
+  try {
+    const report = await getLockfileReportService(_req.app.locals.rootPath, packageName);
+    if (!report) {
+      return res.status(404).json({ error: `Package not found: ${packageName}` });
+    }
+    res.json(report);
+  } catch (error) {
+    AppLogger.error('Error reading lockfile', error as Error);
+    res.status(500).json({ error: 'Failed to read lockfile' });
+  }
+}
+
+export const getDependencyHygiene = async (_req: Request, res: Response) => {
+  const packageName = typeof _req.query.package === 'string' ? _req.query.package : undefined;
+
+  try {
+    const report = await getDependencyHygieneService(_req.app.locals.rootPath, packageName);
+    if (!report) {
+      return res.status(404).json({ error: `Package not found: ${packageName}` });
+    }
+    res.json(report);
+  } catch (error) {
+    AppLogger.error('Error analyzing dependency hygiene', error as Error);
+    res.status(500).json({ error: 'Failed to analyze dependency hygiene' });
+  }
+}
+
+export const getLicenseReport = async (_req: Request, res: Response) => {
+  const packageName = typeof _req.query.package === 'string' ? _req.query.package : undefined;
+  const format = _req.query.format;
+  if (format !== undefined && format !== 'csv' && format !== 'json') {
+    return res.status(400).json({ error: 'format must be csv or json' });
+  }
+
+  try {
+    const report = await getLicenseReportService(_req.app.locals.rootPath, packageName);
+    if (!report) {
+      return res.status(404).json({ error: `Package not found: ${packageName}` });
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="licenses.csv"');
+      return res.send(licenseReportToCsv(report));
+    }
+    if (format === 'json') {
+      res.setHeader('Content-Disposition', 'attachment; filename="licenses.json"');
+    }
+    res.json(report);
+  } catch (error) {
+    AppLogger.error('Error building license report', error as Error);
+    res.status(500).json({ error: 'Failed to build license report' });
+  }
+}
@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { AppLogger } from '../middleware/logger';
+import {
+  getBoundaryReportService,
+  getBuildOrderService,
+  getDependencyGraphService,
+} from '../services/graph-service';
+import { DEPENDENCY_KINDS } from '../utils/graph-utils';
+import type { DependencyKind } from '../types';
+
+/**
+ * Parses the comma separated `types` query, returning the unknown types on failure
+ */
+function parseDependencyTypes(req: Request): { types: DependencyKind[]; invalid: string[] } {
+  const typesParam = typeof req.query.types === 'string' ? req.query.types : '';
+  const types = typesParam
+    ? typesParam.split(',').map(type => type.trim())
+    : DEPENDENCY_KINDS;
+
+  return {
+    types: types as DependencyKind[],
+    invalid: types.filter(type => !DEPENDENCY_KINDS.includes(type as DependencyKind)),
+  };
+}
+
+function invalidTypesError(invalid: string[]) {
+  return {
+    error: `Unknown dependency types: ${invalid.join(', ')}. Expected ${DEPENDENCY_KINDS.join(', ')}`,
+  };
+}
+
+export const getDependencyGraph = async (_req: Request, res: Response) => {
+  const { types, invalid } = parseDependencyTypes(_req);
+  if (invalid.length) {
+    return res.status(400).json(invalidTypesError(invalid));
+  }
+
+  try {
+    const graph = await getDependencyGraphService(_req.app.locals.rootPath, types);
+    res.json(graph);
+  } catch (error) {
+    AppLogger.error('Error generating dependency graph', error as Error);
+    res.status(500).json({ error: 'Failed to generate dependency graph' });
+  }
+}
+
+export const getBuildOrder = async (_req: Request, res: Response) => {
+  const { types, invalid } = parseDependencyTypes(_req);
+  if (invalid.length) {
+    return res.status(400).json(invalidTypesError(invalid));
+  }
+
+  try {
+    const buildOrder = await getBuildOrderService(_req.app.locals.rootPath, types);
+    res.json(buildOrder);
+  } catch (error) {
+    AppLogger.error('Error computing build order', error as Error);
+    res.status(500).json({ error: 'Failed to compute build order' });
+  }
+}
+
+export const getBoundaryViolations = async (_req: Request, res: Response) => {
+  const { types, invalid } = parseDependencyTypes(_req);
+  if (invalid.length) {
+    return res.status(400).json(invalidTypesError(invalid));
+  }
+
+  try {
+    const report = await getBoundaryReportService(
+      _req.app.locals.rootPath,
+      types,
+      _req.query.imports !== 'false'
+    );
+    res.json(report);
+  } catch (error) {
+    AppLogger.error('Error validating module boundaries', error as Error);
+    res.status(500).json({ error: 'Failed to validate module boundaries' });
+  }
+}
@@ -1,10 +1,19 @@
 import { Request, Response } from 'express';
 import { AppLogger } from '../middleware/logger';
-import { getHealthSummaryService, healthRefreshService } from '../services/health-service';
+import { ADVISORY_SEVERITIES } from '../utils/advisory-utils';
+import type { AdvisorySeverity } from '../types';
+import {
+  getAdvisoriesService,
+  getHealthHistoryService,
+  getHealthPolicyService,
+  getHealthSummaryService,
+} from '../services/health-service';
+import { createJobService, waitForJobService } from '../services/job-service';
+import { getNotificationSettingsService, sendTestNotificationService } from '../services/notification-service';
 
 export const getPackagesHealth = async (_req: Request, res: Response) => {
   try {
-    const health = await getHealthSummaryService();
+    const health = await getHealthSummaryService(_req.app.locals.rootPath);
     res.json(health);
   } catch (error) {
     AppLogger.error('Error fetching health data from database:', error as Error);
@@ -16,9 +25,109 @@ export const getPackagesHealth = async (_req: Request, res: Response) => {
 
 export const refreshHealth = async (_req: Request, res: Response) => {
   try {
-    const health = await healthRefreshService(_req.app.locals.rootPath);
+    // Runs as (or joins) the health-refresh job, so the refresh reports progress and can be cancelled
+    const { job } = await createJobService(_req.app.locals.rootPath, 'health-refresh');
+    const finished = await waitForJobService(job.id);
+    if (finished?.status === 'cancelled') {
+      return res.status(409).json({ error: 'Health refresh was cancelled', job: finished });
+    }
+    if (finished?.status !== 'succeeded') {
+      return res.status(500).json({ error: 'Failed to fetch health metrics' });
+    }
+    const health = await getHealthSummaryService(_req.app.locals.rootPath);
     res.json(health);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch health metrics' });
   }
 }
+
+export const getHealthHistory = async (_req: Request, res: Response) => {
+  const { package: packageName, from, to } = _req.query;
+  const parseDate = (value: unknown) => (typeof value === 'string' && value ? new Date(value) : undefined);
+  const fromDate = parseDate(from);
+  const toDate = parseDate(to);
+
+  if ([fromDate, toDate].some(date => date && isNaN(date.getTime()))) {
+    return res.status(400).json({ error: 'from and to must be ISO dates' });
+  }
+  if (fromDate && toDate && fromDate > toDate) {
+    return res.status(400).json({ error: 'from must not be after to' });
+  }
+
+  try {
+    const history = await getHealthHistoryService({
+      packageName: typeof packageName === 'string' && packageName ? packageName : undefined,
+      from: fromDate,
+      to: toDate,
+    });
+    if (!history) {
+      return res.status(404).json({ error: `Package not found: ${packageName}` });
+    }
+    res.json(history);
+  } catch (error) {
+    AppLogger.error('Error fetching health history', error as Error);
+    res.status(500).json({ error: 'Failed to fetch health history' });
+  }
+}
+
+export const getHealthPolicy = async (_req: Request, res: Response) => {
+  try {
+    const policy = await getHealthPolicyService(_req.app.locals.rootPath);
+    res.json(policy);
+  } catch (error) {
+    AppLogger.error('Error resolving health policy', error as Error);
+    res.status(500).json({ error: 'Failed to resolve health policy' });
+  }
+}
+
+export const getAdvisories = async (_req: Request, res: Response) => {
+  const { package: packageName, severity } = _req.query;
+  const severities =
+    typeof severity === 'string' && severity ? severity.split(',').map(value => value.trim()) : undefined;
+
+  if (severities?.some(value => !ADVISORY_SEVERITIES.includes(value as AdvisorySeverity))) {
+    return res.status(400).json({ error: `severity must be one of ${ADVISORY_SEVERITIES.join(', ')}` });
+  }
+
+  try {
+    const report = await getAdvisoriesService({
+      packageName: typeof packageName === 'string' && packageName ? packageName : undefined,
+      severities: severities as AdvisorySeverity[] | undefined,
+    });
+    if (!report) {
+      return res.status(404).json({ error: `Package not found: ${packageName}` });
+    }
+    res.json(report);
+  } catch (error) {
+    AppLogger.error('Error fetching advisories', error as Error);
+    res.status(500).json({ error: 'Failed to fetch advisories' });
+  }
+}
+
+export const getNotificationSettings = async (_req: Request, res: Response) => {
+  try {
+    res.json(getNotificationSettingsService());
+  } catch (error) {
+    AppLogger.error('Error reading notification settings', error as Error);
+    res.status(500).json({ error: 'Failed to read notification settings' });
+  }
+}
+
+export const sendTestNotification = async (_req: Request, res: Response) => {
+  const { channel } = _req.body ?? {};
+  if (typeof channel !== 'string' || !channel) {
+    return res.status(400).json({ error: 'channel is required' });
+  }
+
+  try {
+    const delivery = await sendTestNotificationService(channel);
+    if (!delivery) {
+      return res.status(404).json({ error: `Notification channel not found: ${channel}` });
+    }
+    // The delivery is reported either way, a failed one with a gateway error
+    res.status(delivery.ok ? 200 : 502).json(delivery);
+  } catch (error) {
+    AppLogger.error('Error sending test notification', error as Error);
+    res.status(500).json({ error: 'Failed to send test notification' });
+  }
+}
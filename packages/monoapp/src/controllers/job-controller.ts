@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { AppLogger } from '../middleware/logger';
+import {
+  JOB_TYPES,
+  cancelJobService,
+  createJobService,
+  getJobService,
+  listJobsService,
+  subscribeToJob,
+} from '../services/job-service';
+import type { JobStreamEvent, JobType } from '../types';
+
+const DEFAULT_JOBS_LIMIT = 20;
+
+// Comment lines keep idle event streams open through proxies
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+export const createJob = async (_req: Request, res: Response) => {
+  const type = _req.body?.type;
+  if (!JOB_TYPES.includes(type)) {
+    return res.status(400).json({ error: `type must be one of ${JOB_TYPES.join(', ')}` });
+  }
+
+  try {
+    const { job, created } = await createJobService(_req.app.locals.rootPath, type as JobType);
+    res.status(created ? 202 : 200).json(job);
+  } catch (error) {
+    AppLogger.error('Error creating job', error as Error);
+    res.status(500).json({ error: 'Failed to create job' });
+  }
+}
+
+export const getJobs = async (_req: Request, res: Response) => {
+  const limit = _req.query.limit !== undefined ? Number(_req.query.limit) : DEFAULT_JOBS_LIMIT;
+  if (!(Number.isInteger(limit) && limit > 0)) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    res.json(await listJobsService(limit));
+  } catch (error) {
+    AppLogger.error('Error fetching jobs', error as Error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+}
+
+export const getJob = async (_req: Request, res: Response) => {
+  const { id } = _req.params;
+
+  try {
+    const job = await getJobService(id);
+    if (!job) {
+      return res.status(404).json({ error: `Job not found: ${id}` });
+    }
+    res.json(job);
+  } catch (error) {
+    AppLogger.error('Error fetching job', error as Error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+}
+
+export const cancelJob = async (_req: Request, res: Response) => {
+  const { id } = _req.params;
+
+  try {
+    const outcome = await cancelJobService(id);
+    if (!outcome) {
+      return res.status(404).json({ error: `Job not found: ${id}` });
+    }
+    if (!outcome.cancelled) {
+      return res.status(409).json({ error: `Job already ${outcome.job.status}`, job: outcome.job });
+    }
+    res.status(202).json(outcome.job);
+  } catch (error) {
+    AppLogger.error('Error cancelling job', error as Error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+}
+
+/**
+ * Server-sent events of a job: past events after Last-Event-ID, then live
+ * ones until the job finishes
+ */
+export const streamJobEvents = async (_req: Request, res: Response) => {
+  const { id } = _req.params;
+
+  let job;
+  try {
+    job = await getJobService(id);
+  } catch (error) {
+    AppLogger.error('Error fetching job', error as Error);
+    return res.status(500).json({ error: 'Failed to fetch job' });
+  }
+  if (!job) {
+    return res.status(404).json({ error: `Job not found: ${id}` });
+  }
+
+  // Streams outlive the request and response timeouts
+  _req.setTimeout(0);
+  res.setTimeout(0);
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: JobStreamEvent) => {
+    res.write(`id: ${event.sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+  const end = () => {
+    clearInterval(keepAlive);
+    res.end();
+  };
+
+  const afterSequence = Number(_req.header('Last-Event-ID')) || 0;
+  const unsubscribe = subscribeToJob(id, afterSequence, send, end);
+  if (!unsubscribe) {
+    // Only the stored record is left, e.g. after a server restart
+    send({
+      type: 'status',
+      status: job.status,
+      ...(job.error ? { error: job.error } : {}),
+      jobId: id,
+      sequence: 0,
+      timestamp: new Date().toISOString(),
+    });
+    return end();
+  }
+
+  _req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+}
@@ -1,7 +1,19 @@
 import { Request, Response } from 'express';
+import path from 'path';
 import { AppLogger } from '../middleware/logger';
+import type { RefreshSummary } from '../types';
 import { updatePackageConfigurationService } from '../services/config-service';
-import { getPackageDetailService, getPackagesService, refreshPackagesService } from '../services/package-service';
+import {
+  getAffectedPackagesService,
+  getPackageDetailService,
+  getPackageEditAccessService,
+  getPackagesService,
+} from '../services/package-service';
+import { createJobService, waitForJobService } from '../services/job-service';
+import { getPackageSizeHistoryService, recordPackageSizesService } from '../services/size-service';
+import { getPackageCoverageService } from '../services/health-service';
+import { GitService } from '../services/git-service';
+import { getSessionFromRequest } from '../middleware/auth-middleware';
 
 export const getPackages = async (_req: Request, res: Response) => {
   try {
@@ -16,13 +28,42 @@ export const refreshPackages = async (_req: Request, res: Response) => {
   AppLogger.info('Refreshing packages from source: ' + _req.app.locals.rootPath);
 
   try {
-    const packages = await refreshPackagesService(_req.app.locals.rootPath);
-    res.json(packages);
+    // Runs as (or joins) the package-refresh job, so it never overlaps another refresh
+    const { job } = await createJobService(_req.app.locals.rootPath, 'package-refresh');
+    const finished = await waitForJobService(job.id);
+    if (finished?.status === 'cancelled') {
+      return res.status(409).json({ error: 'Package refresh was cancelled', job: finished });
+    }
+    if (finished?.status !== 'succeeded') {
+      return res.status(500).json({ error: 'Failed to refresh packages' });
+    }
+    const packages = await getPackagesService(_req.app.locals.rootPath);
+    res.json({ summary: (finished.result as { summary: RefreshSummary }).summary, packages });
   } catch (error) {
     res.status(500).json({ error: 'Failed to refresh packages' });
   }
 }
 
+export const getAffectedPackages = async (_req: Request, res: Response) => {
+  const base = typeof _req.query.base === 'string' ? _req.query.base : '';
+  const head = typeof _req.query.head === 'string' && _req.query.head ? _req.query.head : undefined;
+
+  if (!base || !GitService.isValidRef(base) || (head && !GitService.isValidRef(head))) {
+    return res.status(400).json({ error: 'A valid base ref is required' });
+  }
+
+  try {
+    const result = await getAffectedPackagesService(_req.app.locals.rootPath, base, head);
+    if (!result) {
+      return res.status(400).json({ error: `Unknown git ref: ${head ? `${base} or ${head}` : base}` });
+    }
+    res.json(result);
+  } catch (error) {
+    AppLogger.error('Error finding affected packages', error as Error);
+    res.status(500).json({ error: 'Failed to find affected packages' });
+  }
+}
+
 export const getPackageDetail = async (_req: Request, res: Response) => {
   const { name } = _req.params;
   try {
@@ -44,6 +85,27 @@ export const updatePackageConfig = async (req: Request, res: Response) => {
       });
     }
 
+    const session = getSessionFromRequest(req);
+    if (!session) {
+      return res.status(401).json({ success: false, error: 'No active session' });
+    }
+
+    const access = await getPackageEditAccessService(req.app.locals.rootPath, session, packageName);
+    if (!access) {
+      return res.status(404).json({ success: false, error: `Package not found: ${packageName}` });
+    }
+    if (path.resolve(access.path) !== path.resolve(packagePath)) {
+      return res.status(400).json({ success: false, error: 'Package path does not match the package' });
+    }
+    if (!access.allowed) {
+      AppLogger.warn(`${session.user.login} may not edit the configuration of ${packageName}`);
+      return res.status(403).json({
+        success: false,
+        error: 'Only the package owners or repository admins can edit this configuration',
+        owners: access.owners,
+      });
+    }
+
     AppLogger.info('Updating package configuration for: ' + packageName);
     AppLogger.debug('Package path: ' + packagePath);
 
@@ -65,3 +127,56 @@ export const updatePackageConfig = async (req: Request, res: Response) => {
   }
 }
 
+
+export const getPackageSizeHistory = async (_req: Request, res: Response) => {
+  const { name } = _req.params;
+  const limit = _req.query.limit !== undefined ? Number(_req.query.limit) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    const history = await getPackageSizeHistoryService(name, limit);
+    if (!history) {
+      return res.status(404).json({ error: `Package not found: ${name}` });
+    }
+    res.json(history);
+  } catch (error) {
+    AppLogger.error('Error fetching package size history', error as Error);
+    res.status(500).json({ error: 'Failed to fetch package size history' });
+  }
+}
+
+export const recordPackageSizes = async (_req: Request, res: Response) => {
+  const { name } = _req.params;
+
+  try {
+    const result = await recordPackageSizesService(_req.app.locals.rootPath, name);
+    if (!result) {
+      return res.status(404).json({ error: `Package not found: ${name}` });
+    }
+    res.json(result);
+  } catch (error) {
+    AppLogger.error('Error recording package sizes', error as Error);
+    res.status(500).json({ error: 'Failed to record package sizes' });
+  }
+}
+
+export const getPackageCoverage = async (_req: Request, res: Response) => {
+  const { name } = _req.params;
+  const limit = _req.query.limit !== undefined ? Number(_req.query.limit) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    const coverage = await getPackageCoverageService(name, limit);
+    if (!coverage) {
+      return res.status(404).json({ error: `Package not found: ${name}` });
+    }
+    res.json(coverage);
+  } catch (error) {
+    AppLogger.error('Error fetching package coverage', error as Error);
+    res.status(500).json({ error: 'Failed to fetch package coverage' });
+  }
+}
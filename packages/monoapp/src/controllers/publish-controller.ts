@@ -7,6 +7,7 @@ import {
   generateChangeset,
   validateChangeset,
   isWorkingTreeClean,
+  lintPublishPackages,
   triggerPublishPipeline,
   type VersionBump,
   type Package,
@@ -60,6 +61,32 @@ export async function getPublishChangesets(req: Request, res: Response) {
   }
 }
 
+/**
+ * Lint publish readiness of non-private packages, optionally filtered by ?packages=a,b
+ */
+export async function getPublishLint(req: Request, res: Response) {
+  try {
+    const rootPath = req.app.locals.rootPath;
+    const packageNames =
+      typeof req.query.packages === 'string'
+        ? req.query.packages.split(',').filter(Boolean)
+        : undefined;
+    const packages = await lintPublishPackages(rootPath, packageNames);
+
+    res.json({
+      success: true,
+      packages,
+      total: packages.length,
+    });
+  } catch (error) {
+    AppLogger.error(`Failed to lint packages for publishing: ${error}`);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to lint packages for publishing',
+    });
+  }
+}
+
 /**
  * Preview publish plan (calculate new versions, affected packages)
  */
@@ -112,6 +139,15 @@ export async function previewPublish(req: Request, res: Response) {
     // Check 4: Version available on npm (simplified - always true for now)
     const versionAvailable = true;
 
+    // Check 5: Manifests and built output are ready to publish
+    const packageLint = await lintPublishPackages(rootPath, selectedPackageNames);
+    const publishLint = packageLint.every((lint) =>
+      lint.findings.every((finding) => finding.severity !== 'error')
+    );
+    if (!publishLint) {
+      errors.push('Some packages are not ready to publish, see the lint findings');
+    }
+
     const isValid = errors.length === 0;
 
     res.json({
@@ -124,7 +160,9 @@ export async function previewPublish(req: Request, res: Response) {
         workingTreeClean,
         ciPassing,
         versionAvailable,
+        publishLint,
       },
+      packageLint,
       preview: {
         packages: newVersions,
         workingTreeClean: isClean,
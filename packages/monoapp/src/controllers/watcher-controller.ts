@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { AppLogger } from '../middleware/logger';
+import { getWatcherStatusService } from '../services/watcher-service';
+
+export const getWatcherStatus = async (_req: Request, res: Response) => {
+  try {
+    const status = await getWatcherStatusService(_req.app.locals.rootPath);
+    res.json(status);
+  } catch (error) {
+    AppLogger.error('Error fetching watcher status', error as Error);
+    res.status(500).json({ error: 'Failed to fetch watcher status' });
+  }
+}
@@ -0,0 +1,16 @@
+import { Request, Response } from 'express';
+import { AppLogger } from '../middleware/logger';
+import { getWorkspaceInfoService } from '../services/workspace-service';
+
+export const getWorkspaceInfo = async (_req: Request, res: Response) => {
+  try {
+    const workspace = await getWorkspaceInfoService(_req.app.locals.rootPath);
+    if (!workspace) {
+      return res.status(404).json({ error: 'No workspace configuration detected' });
+    }
+    res.json(workspace);
+  } catch (error) {
+    AppLogger.error('Error detecting workspace', error as Error);
+    res.status(500).json({ error: 'Failed to detect workspace' });
+  }
+}
@@ -28,6 +28,11 @@ import configRouter from '../routes/config-routes';
 import authRouter from '../routes/auth-routes';
 import permissionRouter from '../routes/permission-routes';
 import publishRouter from '../routes/publish-routes';
+import workspaceRouter from '../routes/workspace-routes';
+import watcherRouter from '../routes/watcher-routes';
+import graphRouter from '../routes/graph-routes';
+import dependencyRouter from '../routes/dependency-routes';
+import jobRouter from '../routes/job-routes';
 import {
   PORT_MIN,
   PORT_MAX,
@@ -43,6 +48,8 @@ import {
   initializeAuthentication,
 } from './auth-middleware';
 import { startCacheCleanup } from '../services/permission-service';
+import { startPackageWatcher, stopPackageWatcher } from '../services/watcher-service';
+import { endJobStreams, failInterruptedJobsService } from '../services/job-service';
 
 /**
  * Validate port number
@@ -99,6 +106,11 @@ function createApp(rootPath: string): Express {
   app.use('/api/health/', healthRouter);
   app.use('/api/config/', configRouter);
   app.use('/api/publish', publishRouter);
+  app.use('/api/workspace', workspaceRouter);
+  app.use('/api/watcher', watcherRouter);
+  app.use('/api/graph', graphRouter);
+  app.use('/api/dependencies', dependencyRouter);
+  app.use('/api/jobs', jobRouter);
 
   // 404 handler
   app.use('*', notFoundHandler);
@@ -141,13 +153,23 @@ export function startServer(rootPath: string): void {
           // Package endpoints
           'POST /api/packages/refresh',
           'GET  /api/packages',
+          'GET  /api/packages/affected',
           'GET  /api/packages/:name',
           'PUT  /api/packages/update-config',
+          'POST /api/packages/sizes',
+          'GET  /api/packages/:name/sizes',
+          'POST /api/packages/:name/sizes',
+          'GET  /api/packages/:name/coverage',
           // Commit endpoints
           'GET  /api/commits/:packagePath',
           // Health endpoints
           'GET  /api/health/packages',
           'POST /api/health/refresh',
+          'GET  /api/health/history',
+          'GET  /api/health/policy',
+          'GET  /api/health/advisories',
+          'GET  /api/health/notifications',
+          'POST /api/health/notifications/test',
           // Config endpoints
           'PUT  /api/config/files/:id',
           'GET  /api/config/files',
@@ -155,13 +177,46 @@ export function startServer(rootPath: string): void {
           'GET  /api/publish/packages',
           'GET  /api/publish/changesets',
           'GET  /api/publish/status',
+          'GET  /api/publish/lint',
           'POST /api/publish/preview',
           'POST /api/publish/changesets',
           'POST /api/publish/trigger',
+          // Workspace endpoints
+          'GET  /api/workspace',
+          // Watcher endpoints
+          'GET  /api/watcher/status',
+          // Graph endpoints
+          'GET  /api/graph',
+          'GET  /api/graph/build-order',
+          'GET  /api/graph/boundaries',
+          // Dependency endpoints
+          'GET  /api/dependencies/mismatches',
+          'GET  /api/dependencies/lockfile',
+          'GET  /api/dependencies/hygiene',
+          'GET  /api/dependencies/licenses',
+          'POST /api/dependencies/align',
+          // Job endpoints
+          'POST /api/jobs',
+          'GET  /api/jobs',
+          'GET  /api/jobs/:id',
+          'GET  /api/jobs/:id/events',
+          'POST /api/jobs/:id/cancel',
         ],
       });
     });
 
+    // Jobs of a previous process can no longer finish
+    failInterruptedJobsService().catch(error => {
+      AppLogger.error('Failed to mark interrupted jobs', error as Error);
+    });
+
+    // Keep the package database in sync with workspace file changes
+    if (appConfig.watch?.enabled !== false) {
+      startPackageWatcher(rootPath, appConfig.watch?.debounceMs).catch(error => {
+        AppLogger.error('Failed to start package watcher', error as Error);
+      });
+    }
+
     server.on('error', (err: NodeJS.ErrnoException) => {
       if (err.code === 'EADDRINUSE') {
         AppLogger.error(ERROR_PORT_IN_USE(validatedPort), err);
@@ -178,6 +233,9 @@ export function startServer(rootPath: string): void {
     // Graceful shutdown
     process.on('SIGTERM', () => {
       AppLogger.info(MESSAGE_GRACEFUL_SHUTDOWN);
+      stopPackageWatcher();
+      // Open event streams would keep the server from closing
+      endJobStreams();
       server.close(() => {
         AppLogger.info(MESSAGE_SERVER_CLOSED);
         process.exit(0);
@@ -0,0 +1,65 @@
+import { getPrismaClient } from './prisma-client';
+import type { PackageCoverageReport } from '../types';
+
+const prisma = getPrismaClient();
+
+/**
+ * Coverage Report Repository - Handles all CoverageReport-related database operations
+ */
+export class CoverageReportRepository {
+  /**
+   * Store the coverage report read for a package by a refresh
+   */
+  static async create(report: PackageCoverageReport) {
+    return await prisma.coverageReport.create({
+      data: {
+        packageName: report.packageName,
+        format: report.format,
+        reportPath: report.reportPath,
+        totals: JSON.stringify(report.totals),
+        files: JSON.stringify(report.files),
+        createdAt: report.createdAt,
+      },
+    });
+  }
+
+  /**
+   * Find the most recent report of a package, with per-file coverage
+   */
+  static async findLatest(packageName: string) {
+    const report = await prisma.coverageReport.findFirst({
+      where: { packageName },
+      orderBy: { createdAt: 'desc' },
+    });
+    return report
+      ? { ...report, totals: JSON.parse(report.totals), files: JSON.parse(report.files) }
+      : null;
+  }
+
+  /**
+   * Find the totals of the reports of a package, oldest first
+   */
+  static async findTotals(packageName: string, limit?: number) {
+    const reports = await prisma.coverageReport.findMany({
+      where: { packageName },
+      select: { createdAt: true, totals: true },
+      orderBy: { createdAt: 'desc' },
+      ...(limit ? { take: limit } : {}),
+    });
+    return reports
+      .reverse()
+      .map((report: { createdAt: Date; totals: string }) => ({
+        createdAt: report.createdAt,
+        totals: JSON.parse(report.totals),
+      }));
+  }
+
+  /**
+   * Delete all coverage reports of a package
+   */
+  static async deleteByPackageName(packageName: string) {
+    return await prisma.coverageReport.deleteMany({
+      where: { packageName },
+    });
+  }
+}
@@ -40,6 +40,7 @@ export class DependencyRepository {
     version: string;
     type: string;
     latest?: string;
+    status?: string;
     outdated?: boolean;
     packageName: string;
   }) {
@@ -55,6 +56,7 @@ export class DependencyRepository {
           version: data.version,
           type: data.type,
           latest: data.latest || '',
+          status: data.status || '',
           outdated: data.outdated ?? false,
         },
         create: {
@@ -62,6 +64,7 @@ export class DependencyRepository {
           version: data.version,
           type: data.type,
           latest: data.latest || '',
+          status: data.status || '',
           outdated: data.outdated ?? false,
           packageName: data.packageName,
         },
@@ -93,6 +96,7 @@ export class DependencyRepository {
         version: dep.version,
         type: dep.type,
         latest: dep.latest,
+        status: dep.status,
         outdated: dep.outdated,
         packageName,
       });
@@ -107,4 +111,13 @@ export class DependencyRepository {
       where: { packageName },
     });
   }
+
+  /**
+   * Delete dependencies of a package that are no longer declared
+   */
+  static async deleteStale(packageName: string, keepNames: string[]) {
+    return await prisma.dependencyInfo.deleteMany({
+      where: { packageName, name: { notIn: keepNames } },
+    });
+  }
 }
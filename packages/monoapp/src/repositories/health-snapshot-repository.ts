@@ -0,0 +1,56 @@
+import { getPrismaClient } from './prisma-client';
+import type { HealthSnapshot } from '../types';
+
+const prisma = getPrismaClient();
+
+/**
+ * Health Snapshot Repository - Handles all HealthSnapshot-related database operations
+ */
+export class HealthSnapshotRepository {
+  /**
+   * Store the snapshots of one refresh
+   */
+  static async createMany(snapshots: HealthSnapshot[]) {
+    return await prisma.healthSnapshot.createMany({
+      data: snapshots.map(snapshot => ({
+        packageName: snapshot.packageName,
+        overallScore: snapshot.overallScore,
+        checkScores: JSON.stringify(snapshot.checkScores),
+        packageCount: snapshot.packageCount,
+        healthyCount: snapshot.healthyCount,
+        createdAt: snapshot.createdAt,
+      })),
+    });
+  }
+
+  /**
+   * Find snapshots oldest first. A null package name selects the monorepo
+   * snapshots, undefined the snapshots of every package.
+   */
+  static async findHistory(filter: { packageName?: string | null; from?: Date; to?: Date }) {
+    const snapshots = await prisma.healthSnapshot.findMany({
+      where: {
+        packageName: filter.packageName === undefined ? { not: null } : filter.packageName,
+        createdAt: {
+          ...(filter.from ? { gte: filter.from } : {}),
+          ...(filter.to ? { lte: filter.to } : {}),
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return snapshots.map((snapshot: { checkScores: string }) => ({
+      ...snapshot,
+      checkScores: JSON.parse(snapshot.checkScores),
+    }));
+  }
+
+  /**
+   * Delete all snapshots of a package
+   */
+  static async deleteByPackageName(packageName: string) {
+    return await prisma.healthSnapshot.deleteMany({
+      where: { packageName },
+    });
+  }
+}
@@ -7,4 +7,9 @@ export { PackageRepository } from './package-repository';
 export { PackageHealthRepository } from './package-health-repository';
 export { CommitRepository } from './commit-repository';
 export { DependencyRepository } from './dependency-repository';
+export { PackageSizeRepository } from './package-size-repository';
+export { HealthSnapshotRepository } from './health-snapshot-repository';
+export { CoverageReportRepository } from './coverage-report-repository';
+export { PackageAdvisoryRepository } from './package-advisory-repository';
+export { JobRepository } from './job-repository';
 export { getPrismaClient, getPrismaErrors } from './prisma-client';
@@ -0,0 +1,72 @@
+import { getPrismaClient } from './prisma-client';
+import type { JobStatus, JobType } from '../types';
+
+const prisma = getPrismaClient();
+
+/**
+ * Job Repository - Handles all Job-related database operations
+ */
+export class JobRepository {
+  /**
+   * Create a queued job
+   */
+  static async create(type: JobType) {
+    return await prisma.job.create({
+      data: { type, status: 'queued' },
+    });
+  }
+
+  /**
+   * Update the status, progress or outcome of a job
+   */
+  static async update(
+    id: string,
+    data: {
+      status?: JobStatus;
+      progressCompleted?: number;
+      progressTotal?: number;
+      result?: unknown;
+      error?: string | null;
+      startedAt?: Date;
+      finishedAt?: Date;
+    }
+  ) {
+    const { result, ...fields } = data;
+    return await prisma.job.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(result !== undefined ? { result: JSON.stringify(result) } : {}),
+      },
+    });
+  }
+
+  /**
+   * Find a job by id
+   */
+  static async findById(id: string) {
+    return await prisma.job.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find the most recent jobs, newest first
+   */
+  static async findRecent(limit: number) {
+    return await prisma.job.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Fail jobs left queued or running, e.g. by a server restart
+   */
+  static async failUnfinished(error: string) {
+    return await prisma.job.updateMany({
+      where: { status: { in: ['queued', 'running'] } },
+      data: { status: 'failed', error, finishedAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { getPrismaClient } from './prisma-client';
+import type { Advisory, AdvisorySeverity } from '../types';
+
+const prisma = getPrismaClient();
+
+type PackageAdvisoryRow = {
+  packageName: string;
+  advisoryId: string;
+  severity: string;
+  title: string;
+  moduleName: string;
+  vulnerableVersions: string;
+  patchedVersions: string | null;
+  url: string | null;
+  paths: string;
+  createdAt: Date;
+};
+
+function toPackageAdvisory(row: PackageAdvisoryRow) {
+  return {
+    packageName: row.packageName,
+    id: row.advisoryId,
+    severity: row.severity as AdvisorySeverity,
+    title: row.title,
+    moduleName: row.moduleName,
+    vulnerableVersions: row.vulnerableVersions,
+    patchedVersions: row.patchedVersions,
+    url: row.url,
+    paths: JSON.parse(row.paths) as string[],
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Package Advisory Repository - Handles all PackageAdvisory-related database operations
+ */
+export class PackageAdvisoryRepository {
+  /**
+   * Store the advisories an audit found for a package. Advisories it no longer
+   * reports are deleted; those still reported keep the time they were first found.
+   */
+  static async replaceForPackage(packageName: string, advisories: Advisory[], foundAt: Date) {
+    await prisma.packageAdvisory.deleteMany({
+      where: {
+        packageName,
+        ...(advisories.length > 0
+          ? { NOT: advisories.map(advisory => ({ advisoryId: advisory.id, moduleName: advisory.moduleName })) }
+          : {}),
+      },
+    });
+    for (const advisory of advisories) {
+      const fields = {
+        severity: advisory.severity,
+        title: advisory.title,
+        vulnerableVersions: advisory.vulnerableVersions,
+        patchedVersions: advisory.patchedVersions,
+        url: advisory.url,
+        paths: JSON.stringify(advisory.paths),
+      };
+      await prisma.packageAdvisory.upsert({
+        where: {
+          packageName_advisoryId_moduleName: {
+            packageName,
+            advisoryId: advisory.id,
+            moduleName: advisory.moduleName,
+          },
+        },
+        update: fields,
+        create: { packageName, advisoryId: advisory.id, moduleName: advisory.moduleName, createdAt: foundAt, ...fields },
+      });
+    }
+  }
+
+  /**
+   * Find the stored advisories of one package, or of every package
+   */
+  static async findAll(filter: { packageName?: string; severities?: AdvisorySeverity[] } = {}) {
+    const rows = await prisma.packageAdvisory.findMany({
+      where: {
+        ...(filter.packageName ? { packageName: filter.packageName } : {}),
+        ...(filter.severities ? { severity: { in: filter.severities } } : {}),
+      },
+      orderBy: [{ packageName: 'asc' }, { moduleName: 'asc' }],
+    });
+    return rows.map(toPackageAdvisory);
+  }
+
+  /**
+   * Delete all advisories of a package
+   */
+  static async deleteByPackageName(packageName: string) {
+    return await prisma.packageAdvisory.deleteMany({
+      where: { packageName },
+    });
+  }
+}
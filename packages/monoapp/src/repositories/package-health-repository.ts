@@ -1,4 +1,5 @@
 import { getPrismaClient } from './prisma-client';
+import type { HealthCheckResult, TypeCheckReport } from '../types';
 
 const prisma = getPrismaClient();
 
@@ -10,7 +11,9 @@ export class PackageHealthRepository {
    * Find all package health records
    */
   static async findAll() {
-    return await prisma.packageHealth.findMany();
+    return await prisma.packageHealth.findMany({
+      include: { checks: true },
+    });
   }
 
   /**
@@ -19,42 +22,59 @@ export class PackageHealthRepository {
   static async findByPackageName(packageName: string) {
     return await prisma.packageHealth.findUnique({
       where: { packageName },
+      include: { checks: true },
     });
   }
 
   /**
-   * Create or update package health record
+   * Create or update package health record with the result of each check.
+   * Results of checks that no longer ran are removed.
    */
   static async upsert(data: {
     packageName: string;
     packageOverallScore: number;
-    packageBuildStatus: string;
-    packageTestCoverage: number;
-    packageLintStatus: string;
-    packageSecurity: string;
-    packageDependencies?: string;
+    checks: HealthCheckResult[];
+    typeCheck?: TypeCheckReport | null;
   }) {
-    return await prisma.packageHealth.upsert({
+    const typeCheck = data.typeCheck ? JSON.stringify(data.typeCheck) : null;
+    const health = await prisma.packageHealth.upsert({
       where: { packageName: data.packageName },
       update: {
         packageOverallScore: data.packageOverallScore,
-        packageBuildStatus: data.packageBuildStatus,
-        packageTestCoverage: data.packageTestCoverage,
-        packageLintStatus: data.packageLintStatus,
-        packageSecurity: data.packageSecurity,
-        packageDependencies: data.packageDependencies || '',
+        typeCheck,
         updatedAt: new Date(),
       },
       create: {
         packageName: data.packageName,
         packageOverallScore: data.packageOverallScore,
-        packageBuildStatus: data.packageBuildStatus,
-        packageTestCoverage: data.packageTestCoverage,
-        packageLintStatus: data.packageLintStatus,
-        packageSecurity: data.packageSecurity,
-        packageDependencies: data.packageDependencies || '',
+        typeCheck,
+      },
+    });
+
+    await prisma.packageHealthCheck.deleteMany({
+      where: {
+        packageName: data.packageName,
+        checkId: { notIn: data.checks.map(check => check.id) },
       },
     });
+    for (const check of data.checks) {
+      const fields = {
+        name: check.name,
+        status: check.status,
+        score: check.score,
+        weight: check.weight,
+        value: check.value === undefined ? null : JSON.stringify(check.value),
+        message: check.message ?? null,
+        output: check.output ? JSON.stringify(check.output) : null,
+      };
+      await prisma.packageHealthCheck.upsert({
+        where: { packageName_checkId: { packageName: data.packageName, checkId: check.id } },
+        update: fields,
+        create: { packageName: data.packageName, checkId: check.id, ...fields },
+      });
+    }
+
+    return health;
   }
 
   /**
@@ -32,7 +32,7 @@ export class PackageRepository {
       include: {
         dependenciesInfo: true,
         commits: true,
-        packageHealth: true,
+        packageHealth: { include: { checks: true } },
       },
     });
   }
@@ -53,13 +53,16 @@ export class PackageRepository {
     devDependencies?: Record<string, unknown>;
     peerDependencies?: Record<string, unknown>;
     maintainers?: string;
+    owners?: string[];
     status?: string;
+    contentHash?: string;
   }) {
     const createData = {
       createdAt: new Date(),
       lastUpdated: new Date(),
       dependencies: JSON.stringify(data.dependencies || {}),
       maintainers: typeof data.maintainers === 'string' ? data.maintainers : '',
+      owners: JSON.stringify(data.owners || []),
       scripts: JSON.stringify(data.scripts || {}),
       devDependencies: JSON.stringify(data.devDependencies || {}),
       peerDependencies: JSON.stringify(data.peerDependencies || {}),
@@ -71,6 +74,7 @@ export class PackageRepository {
       license: data.license || '',
       repository: JSON.stringify(data.repository || {}),
       status: data.status || '',
+      contentHash: data.contentHash || '',
     };
 
     const updateData = {
@@ -81,6 +85,12 @@ export class PackageRepository {
       license: data.license,
       repository: JSON.stringify(data.repository || {}),
       scripts: JSON.stringify(data.scripts || {}),
+      dependencies: JSON.stringify(data.dependencies || {}),
+      devDependencies: JSON.stringify(data.devDependencies || {}),
+      peerDependencies: JSON.stringify(data.peerDependencies || {}),
+      maintainers: typeof data.maintainers === 'string' ? data.maintainers : '',
+      owners: JSON.stringify(data.owners || []),
+      contentHash: data.contentHash || '',
       lastUpdated: new Date(),
     };
 
@@ -91,6 +101,16 @@ export class PackageRepository {
     });
   }
 
+  /**
+   * Update the content hash refreshes compare against
+   */
+  static async updateContentHash(name: string, contentHash: string) {
+    return await prisma.package.update({
+      where: { name },
+      data: { contentHash },
+    });
+  }
+
   /**
    * Update package status
    */
@@ -0,0 +1,54 @@
+import { getPrismaClient } from './prisma-client';
+import type { PackageSizeMeasurement } from '../types';
+
+const prisma = getPrismaClient();
+
+/**
+ * Package Size Repository - Handles all PackageSizeSnapshot-related database operations
+ */
+export class PackageSizeRepository {
+  /**
+   * Find the size snapshots of a package, oldest first
+   */
+  static async findByPackageName(packageName: string, limit?: number) {
+    const snapshots = await prisma.packageSizeSnapshot.findMany({
+      where: { packageName },
+      orderBy: { createdAt: 'desc' },
+      ...(limit ? { take: limit } : {}),
+    });
+    return snapshots.reverse();
+  }
+
+  /**
+   * Create or update the snapshot of a package at a commit
+   */
+  static async upsert(data: PackageSizeMeasurement & { packageName: string; commitHash: string }) {
+    const sizes = {
+      sourceSize: data.sourceSize,
+      sourceFiles: data.sourceFiles,
+      outputSize: data.outputSize,
+      packedSize: data.packedSize,
+      unpackedSize: data.unpackedSize,
+    };
+
+    return await prisma.packageSizeSnapshot.upsert({
+      where: {
+        packageName_commitHash: {
+          packageName: data.packageName,
+          commitHash: data.commitHash,
+        },
+      },
+      update: { ...sizes, createdAt: new Date() },
+      create: { packageName: data.packageName, commitHash: data.commitHash, ...sizes },
+    });
+  }
+
+  /**
+   * Delete all size snapshots of a package
+   */
+  static async deleteByPackageName(packageName: string) {
+    return await prisma.packageSizeSnapshot.deleteMany({
+      where: { packageName },
+    });
+  }
+}
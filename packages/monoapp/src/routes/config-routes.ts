@@ -1,5 +1,6 @@
 import express from 'express';
 import { getConfigurationFiles, updateConfigFile } from '../controllers/config-controller';
+import { authenticationMiddleware } from '../middleware/auth-middleware';
 
 const configRouter = express.Router();
 
@@ -9,6 +10,6 @@ configRouter
 
 configRouter
   .route('/files/:id')
-  .put(updateConfigFile);
+  .put(authenticationMiddleware, updateConfigFile);
 
 export default configRouter;
@@ -0,0 +1,33 @@
+import express from 'express';
+import {
+  getVersionMismatches,
+  alignDependency,
+  getLockfileReport,
+  getDependencyHygiene,
+  getLicenseReport,
+} from '../controllers/dependency-controller';
+import { authenticationMiddleware } from '../middleware/auth-middleware';
+
+const dependencyRouter = express.Router();
+
+dependencyRouter
+  .route('/mismatches')
+  .get(getVersionMismatches);
+
+dependencyRouter
+  .route('/lockfile')
+  .get(getLockfileReport);
+
+dependencyRouter
+  .route('/hygiene')
+  .get(getDependencyHygiene);
+
+dependencyRouter
+  .route('/licenses')
+  .get(getLicenseReport);
+
+dependencyRouter
+  .route('/align')
+  .post(authenticationMiddleware, alignDependency);
+
+export default dependencyRouter;
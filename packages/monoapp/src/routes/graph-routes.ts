@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getBoundaryViolations,
+  getBuildOrder,
+  getDependencyGraph,
+} from '../controllers/graph-controller';
+
+const graphRouter = express.Router();
+
+graphRouter
+  .route('/')
+  .get(getDependencyGraph);
+
+graphRouter
+  .route('/build-order')
+  .get(getBuildOrder);
+
+graphRouter
+  .route('/boundaries')
+  .get(getBoundaryViolations);
+
+export default graphRouter;
@@ -1,5 +1,14 @@
 import express from 'express';
-import { getPackagesHealth, refreshHealth } from '../controllers/health-controller';
+import {
+  getAdvisories,
+  getHealthHistory,
+  getHealthPolicy,
+  getNotificationSettings,
+  getPackagesHealth,
+  refreshHealth,
+  sendTestNotification,
+} from '../controllers/health-controller';
+import { authenticationMiddleware } from '../middleware/auth-middleware';
 
 const healthRouter = express.Router();
 
@@ -11,4 +20,24 @@ healthRouter
   .route('/packages')
   .get(getPackagesHealth);
 
+healthRouter
+  .route('/history')
+  .get(getHealthHistory);
+
+healthRouter
+  .route('/policy')
+  .get(getHealthPolicy);
+
+healthRouter
+  .route('/advisories')
+  .get(getAdvisories);
+
+healthRouter
+  .route('/notifications')
+  .get(authenticationMiddleware, getNotificationSettings);
+
+healthRouter
+  .route('/notifications/test')
+  .post(authenticationMiddleware, sendTestNotification);
+
 export default healthRouter;
@@ -0,0 +1,45 @@
+import express, { NextFunction, Request, Response } from 'express';
+import {
+  cancelJob,
+  createJob,
+  getJob,
+  getJobs,
+  streamJobEvents,
+} from '../controllers/job-controller';
+import { authenticationMiddleware } from '../middleware/auth-middleware';
+import { getJobService } from '../services/job-service';
+
+const jobRouter = express.Router();
+
+/**
+ * Publish jobs need the same sign-in as POST /api/publish/trigger
+ */
+const authenticatePublishJobs = (req: Request, res: Response, next: NextFunction) =>
+  req.body?.type === 'publish' ? authenticationMiddleware(req, res, next) : next();
+
+/**
+ * Cancelling a publish job needs the same sign-in as starting one
+ */
+const authenticatePublishJobCancel = async (req: Request, res: Response, next: NextFunction) => {
+  const job = await getJobService(req.params.id).catch(() => null);
+  return job?.type === 'publish' ? authenticationMiddleware(req, res, next) : next();
+};
+
+jobRouter
+  .route('/')
+  .get(getJobs)
+  .post(authenticatePublishJobs, createJob);
+
+jobRouter
+  .route('/:id/events')
+  .get(streamJobEvents);
+
+jobRouter
+  .route('/:id/cancel')
+  .post(authenticatePublishJobCancel, cancelJob);
+
+jobRouter
+  .route('/:id')
+  .get(getJob);
+
+export default jobRouter;
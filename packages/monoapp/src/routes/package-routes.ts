@@ -1,5 +1,15 @@
 import express from 'express';
-import { getPackages, refreshPackages, getPackageDetail, updatePackageConfig } from '../controllers/package-controller';
+import {
+  getPackages,
+  refreshPackages,
+  getAffectedPackages,
+  getPackageDetail,
+  updatePackageConfig,
+  getPackageSizeHistory,
+  recordPackageSizes,
+  getPackageCoverage,
+} from '../controllers/package-controller';
+import { authenticationMiddleware } from '../middleware/auth-middleware';
 
 const packageRouter = express.Router();
 
@@ -7,9 +17,26 @@ packageRouter
   .route('/refresh')
   .post(refreshPackages);
 
+packageRouter
+  .route('/sizes')
+  .post(recordPackageSizes);
+
 packageRouter
   .route('/update-config')
-  .put(updatePackageConfig);
+  .put(authenticationMiddleware, updatePackageConfig);
+
+packageRouter
+  .route('/affected')
+  .get(getAffectedPackages);
+
+packageRouter
+  .route('/:name/sizes')
+  .get(getPackageSizeHistory)
+  .post(recordPackageSizes);
+
+packageRouter
+  .route('/:name/coverage')
+  .get(getPackageCoverage);
 
 packageRouter
   .route('/:name')
@@ -2,6 +2,7 @@ import express from 'express';
 import {
   getPublishPackages,
   getPublishChangesets,
+  getPublishLint,
   previewPublish,
   createChangeset,
   checkPublishStatus,
@@ -23,6 +24,12 @@ publishRouter.get('/packages', authenticationMiddleware, getPublishPackages);
  */
 publishRouter.get('/changesets', authenticationMiddleware, getPublishChangesets);
 
+/**
+ * GET /api/publish/lint
+ * Check package manifests against the built output before publishing
+ */
+publishRouter.get('/lint', authenticationMiddleware, getPublishLint);
+
 /**
  * POST /api/publish/preview
  * Preview the publish plan (calculate new versions, affected packages)
@@ -0,0 +1,10 @@
+import express from 'express';
+import { getWatcherStatus } from '../controllers/watcher-controller';
+
+const watcherRouter = express.Router();
+
+watcherRouter
+  .route('/status')
+  .get(getWatcherStatus);
+
+export default watcherRouter;
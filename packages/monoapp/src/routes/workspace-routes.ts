@@ -0,0 +1,10 @@
+import express from 'express';
+import { getWorkspaceInfo } from '../controllers/workspace-controller';
+
+const workspaceRouter = express.Router();
+
+workspaceRouter
+  .route('/')
+  .get(getWorkspaceInfo);
+
+export default workspaceRouter;
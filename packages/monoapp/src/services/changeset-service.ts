@@ -9,6 +9,9 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import { AppLogger } from '../middleware/logger';
 import { getPackagesService } from './package-service';
+import { lintPackageDirectory } from '../utils/publish-lint-utils';
+import { throwIfCancelled } from '../utils/job-utils';
+import type { JobContext, PackagePublishLint } from '../types';
 
 const execPromise = promisify(exec);
 
@@ -223,6 +226,23 @@ export async function isWorkingTreeClean(rootPath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Lint the publish readiness of non-private workspace packages, optionally
+ * only the given ones
+ */
+export async function lintPublishPackages(
+  rootPath: string,
+  packageNames?: string[]
+): Promise<PackagePublishLint[]> {
+  const packages = await getWorkspacePackages(rootPath);
+
+  return packages
+    .filter((pkg) => !pkg.private)
+    .filter((pkg) => !packageNames || packageNames.includes(pkg.name))
+    .map((pkg) => lintPackageDirectory(path.resolve(rootPath, pkg.path)))
+    .filter((lint): lint is PackagePublishLint => lint !== null && !lint.private);
+}
+
 /**
  * Trigger CI pipeline for publishing
  */
@@ -345,3 +365,26 @@ export async function triggerPublishPipeline(
     };
   }
 }
+
+/**
+ * Publishes the pending changesets as a background job. Throws when there is
+ * nothing to publish or the pipeline could not be triggered.
+ */
+export async function runPublishJob(
+  rootPath: string,
+  jobContext?: JobContext
+): Promise<{ success: boolean; message: string; result?: any }> {
+  const changesets = await getExistingChangesets(rootPath);
+  if (changesets.length === 0) {
+    throw new Error('No changesets found');
+  }
+  jobContext?.log(`Publishing ${changesets.length} changesets`);
+  throwIfCancelled(jobContext);
+
+  const result = await triggerPublishPipeline(rootPath);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  jobContext?.log(result.message);
+  return result;
+}
@@ -373,6 +373,7 @@ export const updatePackageConfigurationService = async (packagePath: string, pac
     maintainers: updatedPackage.maintainers
       ? JSON.parse(updatedPackage.maintainers)
       : [],
+    owners: updatedPackage.owners ? JSON.parse(updatedPackage.owners) : [],
     scripts: updatedPackage.scripts ? JSON.parse(updatedPackage.scripts) : {},
     repository: updatedPackage.repository
       ? JSON.parse(updatedPackage.repository)
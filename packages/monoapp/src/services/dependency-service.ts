@@ -0,0 +1,179 @@
+import { scanMonorepo } from '../utils/utilities';
+import { DEPENDENCY_FIELDS } from '../utils/graph-utils';
+import { findVersionMismatches, VERSIONED_KINDS } from '../utils/version-mismatch-utils';
+import { buildLockfileReport, readLockfile } from '../utils/lockfile-utils';
+import { analyzeDependencyHygiene } from '../utils/import-analysis-utils';
+import { buildLicenseReport } from '../utils/license-utils';
+import { appConfig } from '../config-loader';
+import { AppLogger } from '../middleware/logger';
+import { updatePackageConfigurationService } from './config-service';
+import { getPackageEditAccessService } from './package-service';
+import type { AuthSession } from '../types/auth';
+import type {
+  AlignDependencyResult,
+  DependencyHygieneReport,
+  DependencyKind,
+  LicenseReport,
+  LockfileReport,
+} from '../types';
+
+/**
+ * External dependencies declared with divergent ranges across workspace packages
+ */
+export const getVersionMismatchesService = async (rootPath: string) => {
+  const packages = scanMonorepo(rootPath);
+  return findVersionMismatches(packages);
+}
+
+/**
+ * Rewrites every declaration of an external dependency to the given range.
+ * Packages the user may not edit (see getPackageEditAccessService) are left
+ * as they are and reported as forbidden. Returns null when no package (of the
+ * selected ones) declares the dependency.
+ */
+export const alignDependencyService = async (
+  rootPath: string,
+  dependency: string,
+  range: string,
+  session: AuthSession,
+  packageNames?: string[]
+): Promise<AlignDependencyResult | null> => {
+  const packages = scanMonorepo(rootPath).filter(
+    pkg => !packageNames?.length || packageNames.includes(pkg.name)
+  );
+
+  const result: AlignDependencyResult = { dependency, range, updated: [], unchanged: [], failed: [] };
+
+  for (const pkg of packages) {
+    const config: Record<string, Record<string, string>> = {};
+    const types: DependencyKind[] = [];
+    const previous: string[] = [];
+    let declared = false;
+
+    for (const type of VERSIONED_KINDS) {
+      const field = DEPENDENCY_FIELDS[type];
+      const dependencies = (pkg[field] || {}) as Record<string, string>;
+      if (!(dependency in dependencies)) continue;
+      declared = true;
+      if (dependencies[dependency] === range) continue;
+
+      // Replace the value in place so the key order in package.json is kept
+      config[field] = { ...dependencies, [dependency]: range };
+      types.push(type);
+      previous.push(dependencies[dependency]);
+    }
+
+    if (!declared) continue;
+    if (!types.length) {
+      result.unchanged.push(pkg.name);
+      continue;
+    }
+
+    const access = await getPackageEditAccessService(rootPath, session, pkg.name);
+    if (!access?.allowed) {
+      AppLogger.warn(`${session.user.login} may not align ${dependency} in ${pkg.name}`);
+      result.failed.push({
+        packageName: pkg.name,
+        error: access
+          ? 'Only the package owners or repository admins can edit this package'
+          : 'Package is not stored yet, refresh the packages first',
+        forbidden: true,
+      });
+      continue;
+    }
+
+    try {
+      await updatePackageConfigurationService(pkg.path, pkg.name, JSON.stringify(config));
+      result.updated.push({ packageName: pkg.name, types, previous });
+    } catch (error) {
+      AppLogger.error(`Failed to align ${dependency} in ${pkg.name}`, error as Error);
+      result.failed.push({
+        packageName: pkg.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (!result.updated.length && !result.unchanged.length && !result.failed.length) {
+    return null;
+  }
+
+  AppLogger.info(`Aligned ${dependency} to ${range} in ${result.updated.length} packages`);
+  return result;
+}
+
+/**
+ * Resolved versions from the lockfile, duplicate installs and out of range entries.
+ * Returns null when packageName is given but not part of the workspace.
+ */
+export const getLockfileReportService = async (
+  rootPath: string,
+  packageName?: string
+): Promise<LockfileReport | null> => {
+  const packages = scanMonorepo(rootPath);
+  const lockfile = readLockfile(rootPath);
+  if (!lockfile) {
+    AppLogger.warn('No supported lockfile found at: ' + rootPath);
+  }
+
+  const report = buildLockfileReport(rootPath, packages, lockfile);
+  if (!packageName) {
+    return report;
+  }
+
+  const packageInfo = report.packages.find(info => info.packageName === packageName);
+  if (!packageInfo) {
+    return null;
+  }
+
+  const directNames = new Set(packageInfo.dependencies.map(dep => dep.name));
+  return {
+    ...report,
+    packages: [packageInfo],
+    duplicates: report.duplicates.filter(duplicate => directNames.has(duplicate.name)),
+    outOfRange: report.outOfRange.filter(entry => entry.packageName === packageName),
+  };
+}
+
+
+/**
+ * Unused, missing and undeclared workspace dependencies found from source imports.
+ * Returns null when packageName is given but not part of the workspace.
+ */
+export const getDependencyHygieneService = async (
+  rootPath: string,
+  packageName?: string
+): Promise<DependencyHygieneReport | null> => {
+  const packages = scanMonorepo(rootPath);
+  if (!packageName) {
+    return analyzeDependencyHygiene(packages);
+  }
+
+  const pkg = packages.find(info => info.name === packageName);
+  return pkg ? analyzeDependencyHygiene(packages, [pkg]) : null;
+}
+
+/**
+ * License inventory of the installed dependencies checked against the configured policy.
+ * Returns null when packageName is given but not part of the workspace.
+ */
+export const getLicenseReportService = async (
+  rootPath: string,
+  packageName?: string
+): Promise<LicenseReport | null> => {
+  const packages = scanMonorepo(rootPath);
+  const selected = packageName ? packages.filter(pkg => pkg.name === packageName) : packages;
+  if (!selected.length && packageName) {
+    return null;
+  }
+
+  const report = buildLicenseReport(
+    selected,
+    appConfig.licenses,
+    new Set(packages.map(pkg => pkg.name))
+  );
+  if (report.violations.length) {
+    AppLogger.warn(`${report.violations.length} dependencies violate the license policy`);
+  }
+  return report;
+}
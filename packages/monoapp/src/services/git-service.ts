@@ -91,6 +91,86 @@ export class GitService {
     }
   }
 
+  /**
+   * Checks that a ref name is safe to pass to git (no options, no shell characters)
+   */
+  public static isValidRef(ref: string): boolean {
+    return /^[\w./@^~{}-]+$/.test(ref) && !ref.startsWith('-');
+  }
+
+  /**
+   * Resolves a ref to a commit hash, or null when it does not exist
+   */
+  public async resolveRef(ref: string): Promise<string | null> {
+    if (!GitService.isValidRef(ref)) {
+      return null;
+    }
+    try {
+      const { stdout } = await execPromise(`git rev-parse --verify --quiet ${ref}^{commit}`, {
+        cwd: this.repoPath,
+      });
+      return stdout.trim() || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Owner and name of the GitHub repository behind the origin remote, or null
+   */
+  public async getGitHubRepository(): Promise<{ owner: string; repo: string } | null> {
+    try {
+      const { stdout } = await execPromise('git remote get-url origin', {
+        cwd: this.repoPath,
+      });
+      const match = stdout.trim().match(/github\.com[:/]([^/]+)\/(.+?)(?:\.git)?$/);
+      return match ? { owner: match[1], repo: match[2] } : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Absolute path of the git working tree root
+   */
+  public async getRepositoryRoot(): Promise<string> {
+    const { stdout } = await execPromise('git rev-parse --show-toplevel', {
+      cwd: this.repoPath,
+    });
+    return stdout.trim();
+  }
+
+  /**
+   * Lists files changed since the merge base of base and head, relative to the
+   * repository root. Without a head ref the working tree is compared, including
+   * uncommitted and untracked files.
+   */
+  public async getChangedFiles(base: string, head?: string): Promise<string[]> {
+    const options = { cwd: this.repoPath, maxBuffer: 1024 * 5000 };
+    const toLines = (stdout: string) =>
+      stdout
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+
+    if (head) {
+      const { stdout } = await execPromise(`git diff --name-only ${base}...${head}`, options);
+      return toLines(stdout);
+    }
+
+    const { stdout: mergeBase } = await execPromise(`git merge-base ${base} HEAD`, options);
+    const { stdout: tracked } = await execPromise(
+      `git diff --name-only ${mergeBase.trim()}`,
+      options
+    );
+    const { stdout: untracked } = await execPromise(
+      'git ls-files --others --exclude-standard --full-name',
+      options
+    );
+
+    return Array.from(new Set([...toLines(tracked), ...toLines(untracked)]));
+  }
+
   /**
    * Normalize path to be relative to git repo root
    */
@@ -217,6 +217,36 @@ export async function getRepositoryPermission(
   }
 }
 
+/**
+ * Check whether a user is an active member of an organization team
+ * Requires the read:org scope; any error counts as not a member
+ */
+export async function isTeamMember(
+  accessToken: string,
+  org: string,
+  teamSlug: string,
+  username: string
+): Promise<boolean> {
+  const options: GitHubRequestOptions = {
+    hostname: 'api.github.com',
+    path: `/orgs/${encodeURIComponent(org)}/teams/${encodeURIComponent(teamSlug)}/memberships/${encodeURIComponent(username)}`,
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'User-Agent': 'MonoDog',
+      Accept: 'application/vnd.github+json',
+    },
+  };
+
+  try {
+    const response = await makeGitHubRequest<{ state: string }>(options);
+    return response.state === 'active';
+  } catch (error) {
+    AppLogger.debug(`No membership for ${username} in ${org}/${teamSlug}: ${error}`);
+    return false;
+  }
+}
+
 /**
  * Map GitHub permission to MonoDog role
  */
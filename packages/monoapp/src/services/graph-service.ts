@@ -0,0 +1,65 @@
+import { scanMonorepo, generateDependencyGraph } from '../utils/utilities';
+import { computeBuildOrder } from '../utils/graph-utils';
+import { validateBoundaries } from '../utils/boundary-utils';
+import { analyzeDependencyHygiene } from '../utils/import-analysis-utils';
+import { AppLogger } from '../middleware/logger';
+import { appConfig } from '../config-loader';
+import type { BoundaryReport, DependencyKind } from '../types';
+
+/**
+ * Workspace packages with typed internal edges
+ */
+export const getDependencyGraphService = async (
+  rootPath: string,
+  dependencyTypes: DependencyKind[]
+) => {
+  const packages = scanMonorepo(rootPath);
+  const { nodes, edges } = generateDependencyGraph(packages, dependencyTypes);
+
+  return {
+    dependencyTypes,
+    nodes,
+    edges,
+    unsatisfied: edges.filter(edge => !edge.satisfies).length,
+  };
+}
+
+/**
+ * Topological build layers for the workspace packages
+ */
+export const getBuildOrderService = async (rootPath: string, dependencyTypes: DependencyKind[]) => {
+  const packages = scanMonorepo(rootPath);
+  const buildOrder = computeBuildOrder(packages, dependencyTypes);
+
+  if (buildOrder.cycles.length) {
+    AppLogger.warn(`${buildOrder.cycles.length} dependency cycles block build ordering`);
+  }
+
+  return {
+    ...buildOrder,
+    total: packages.length,
+  };
+}
+
+/**
+ * Module boundary violations for the configured tag constraints. Source imports are
+ * analyzed unless includeImports is false.
+ */
+export const getBoundaryReportService = async (
+  rootPath: string,
+  dependencyTypes: DependencyKind[],
+  includeImports = true
+): Promise<BoundaryReport> => {
+  const packages = scanMonorepo(rootPath);
+  const report = validateBoundaries(packages, {
+    tags: appConfig.tags,
+    constraints: appConfig.constraints,
+    dependencyTypes,
+    hygiene: includeImports ? analyzeDependencyHygiene(packages) : undefined,
+  });
+
+  if (report.violations.length) {
+    AppLogger.warn(`${report.violations.length} module boundary violations found`);
+  }
+  return report;
+}
@@ -1,39 +1,131 @@
+import path from 'path';
 import {
   scanMonorepo,
   calculatePackageHealth,
 } from '../utils/utilities';
 
+import { getHealthChecks, runHealthChecks } from '../utils/health-checks';
 import {
-  funCheckBuildStatus,
-  funCheckLintStatus,
-  funCheckSecurityAudit,
-} from '../utils/monorepo-scanner';
-
+  getDeclaredDependencies,
+  resolveDependencyStatuses,
+} from '../utils/outdated-utils';
+import { buildLicenseReport } from '../utils/license-utils';
+import { readCoverageReport } from '../utils/coverage-utils';
+import { JobCancelledError, throwIfCancelled } from '../utils/job-utils';
+import { processPool } from '../utils/process-pool';
+import { getPackageTags } from '../utils/boundary-utils';
+import { compareAdvisories, countAdvisories, loadAdvisoryDatabase } from '../utils/advisory-utils';
+import {
+  applyCheckOverrides,
+  describeCheckPolicies,
+  getHealthLevel,
+  resolvePackageHealthPolicy,
+  resolveThresholds,
+} from '../utils/health-policy-utils';
+import {
+  buildPackageSnapshot,
+  buildRepositorySnapshot,
+  calculateHealthTrend,
+} from '../utils/health-history-utils';
 import { AppLogger } from '../middleware/logger';
-import { PackageHealthRepository, PackageRepository } from '../repositories';
-import type { TransformedPackageHealth, HealthResponse, PackageHealthModel } from '../types/database';
+import { appConfig } from '../config-loader';
+import { getPreviousHealthStates, notifyHealthChanges } from './notification-service';
+import {
+  CoverageReportRepository,
+  DependencyRepository,
+  HealthSnapshotRepository,
+  PackageAdvisoryRepository,
+  PackageHealthRepository,
+  PackageRepository,
+} from '../repositories';
+import type {
+  TransformedPackageHealth,
+  HealthResponse,
+  PackageHealthCheckModel,
+  PackageHealthModel,
+} from '../types/database';
+import type {
+  Advisory,
+  AdvisoryDatabase,
+  AdvisoryReport,
+  AdvisorySeverity,
+  CoverageReport,
+  TypeCheckReport,
+  DependencyInfo,
+  HealthCheckResult,
+  HealthHistory,
+  HealthSnapshot,
+  JobContext,
+  PackageCoverage,
+  ResolvedHealthPolicy,
+} from '../types';
+
+/**
+ * Parses a stored check result
+ */
+export function transformHealthCheck(check: PackageHealthCheckModel): HealthCheckResult {
+  return {
+    id: check.checkId,
+    name: check.name,
+    status: check.status as HealthCheckResult['status'],
+    score: check.score,
+    weight: check.weight,
+    value: check.value === null ? undefined : JSON.parse(check.value),
+    message: check.message ?? undefined,
+    output: check.output ? JSON.parse(check.output) : undefined,
+  };
+}
 
-// Track in-flight health refresh requests to prevent duplicates
-let inFlightHealthRefresh: Promise<HealthResponse> | null = null;
+/**
+ * Offline advisory database configured for air-gapped setups. Without one,
+ * or when it cannot be read, the security check runs the audit command.
+ */
+function readAdvisoryDatabase(rootDir: string): AdvisoryDatabase | undefined {
+  const database = appConfig.health?.advisories?.database;
+  if (!database) {
+    return undefined;
+  }
+  try {
+    return loadAdvisoryDatabase(path.resolve(rootDir, database));
+  } catch (error) {
+    AppLogger.error(`Failed to read advisory database ${database}`, error as Error);
+    return undefined;
+  }
+}
 
-export const getHealthSummaryService = async (): Promise<HealthResponse> => {
+/**
+ * Effective tags of the workspace packages, which health policies match on
+ */
+function getWorkspaceTags(rootPath: string): Record<string, string[]> {
+  return getPackageTags(scanMonorepo(rootPath), appConfig.tags);
+}
+
+export const getHealthSummaryService = async (rootPath: string): Promise<HealthResponse> => {
   const packageHealthData = await PackageHealthRepository.findAll() as PackageHealthModel[];
   AppLogger.debug('packageHealthData count: ' + packageHealthData.length);
+  const tags = getWorkspaceTags(rootPath);
 
   // Transform the data to match the expected frontend format
   const packages = packageHealthData.map((pkg: PackageHealthModel) => {
+    const checks = (pkg.checks || []).map(transformHealthCheck);
+    const derived = calculatePackageHealth(checks);
+    // Keep the score stored at refresh time, weights may have changed since
     const health = {
-      buildStatus: pkg.packageBuildStatus,
-      testCoverage: pkg.packageTestCoverage,
-      lintStatus: pkg.packageLintStatus,
-      securityAudit: pkg.packageSecurity,
+      ...derived,
+      dependencies: derived.dependencies || 'unknown',
       overallScore: pkg.packageOverallScore,
+      checks,
+      typeCheck: pkg.typeCheck ? JSON.parse(pkg.typeCheck) : null,
     };
 
     return {
       packageName: pkg.packageName,
       health: health,
-      isHealthy: pkg.packageOverallScore >= 80,
+      isHealthy:
+        getHealthLevel(
+          pkg.packageOverallScore,
+          resolvePackageHealthPolicy(appConfig.health, pkg.packageName, tags[pkg.packageName]).thresholds
+        ) === 'healthy',
     };
   });
 
@@ -58,105 +150,249 @@ export const getHealthSummaryService = async (): Promise<HealthResponse> => {
   };
 }
 
-export const healthRefreshService = async (rootDir: string) => {
-  // If a health refresh is already in progress, return the in-flight promise
-  if (inFlightHealthRefresh) {
-    AppLogger.info('Health refresh already in progress, returning cached promise');
-    return inFlightHealthRefresh;
+/**
+ * Runs the health checks of every package and stores the results. A job
+ * context receives per-package progress; cancelling it stops the refresh
+ * before the next package's results are stored. Refreshes run as the
+ * health-refresh job, which keeps them to one at a time.
+ */
+export const healthRefreshService = async (rootDir: string, jobContext?: JobContext): Promise<HealthResponse> => {
+  const refreshedAt = new Date();
+  const packages = scanMonorepo(rootDir);
+  AppLogger.debug('packages count: ' + packages.length);
+  jobContext?.setTotal(packages.length);
+  const licenseViolations = appConfig.licenses
+    ? buildLicenseReport(packages, appConfig.licenses).violations
+    : [];
+  // Policies adjust the checks and thresholds per package
+  const checks = getHealthChecks({ customChecks: appConfig.health?.customChecks });
+  const tags = getPackageTags(packages, appConfig.tags);
+  if (appConfig.health?.concurrency) {
+    processPool.setConcurrency(appConfig.health.concurrency);
   }
+  const resolvedDependencies = new Map<string, DependencyInfo[]>();
+  const coverageReports = new Map<string, CoverageReport | null>();
+  const advisories = new Map<string, Advisory[]>();
+  const typeChecks = new Map<string, TypeCheckReport>();
+  // Notification rules compare the results with the health stored before this refresh
+  const previousHealth = await getPreviousHealthStates().catch(error => {
+    AppLogger.error('Failed to read the previous health for notifications', error as Error);
+    return [];
+  });
+  const context = {
+    rootDir,
+    licenseViolationPackages: new Set(licenseViolations.map(violation => violation.packageName)),
+    resolvedDependencies,
+    coverageReports,
+    advisoryDatabase: readAdvisoryDatabase(rootDir),
+    advisories,
+    severityWeights: appConfig.health?.advisories?.severityWeights,
+    typeChecks,
+    signal: jobContext?.signal,
+  };
+  const healthMetrics = await Promise.all(
+    packages.map(async pkg => {
+      try {
+        throwIfCancelled(jobContext);
+        jobContext?.packageStarted(pkg.name);
+        // Resolved once for both the dependencies check and the stored versions
+        const dependenciesInfo = await resolveDependencyStatuses(getDeclaredDependencies(pkg));
+        resolvedDependencies.set(pkg.name, dependenciesInfo);
+        // Read once for the coverage check and the stored report
+        const coverage = readCoverageReport(pkg.path);
+        coverageReports.set(pkg.name, coverage);
+
+        const policy = resolvePackageHealthPolicy(appConfig.health, pkg.name, tags[pkg.name]);
+        const results = await runHealthChecks(pkg, applyCheckOverrides(checks, policy.checks), context);
+        throwIfCancelled(jobContext);
+        const health = { ...calculatePackageHealth(results), typeCheck: typeChecks.get(pkg.name) ?? null };
+        const packageStatus = getHealthLevel(health.overallScore, policy.thresholds);
+
+        AppLogger.debug(`${pkg.name}: ${packageStatus}`, { ...health });
+
+        await PackageHealthRepository.upsert({
+          packageName: pkg.name,
+          packageOverallScore: health.overallScore,
+          checks: results,
+          typeCheck: health.typeCheck,
+        });
+        if (coverage) {
+          await CoverageReportRepository.create({ packageName: pkg.name, ...coverage, createdAt: refreshedAt });
+        }
+        // Stored advisories are left as they were when the audit could not run
+        const packageAdvisories = advisories.get(pkg.name);
+        if (packageAdvisories) {
+          await PackageAdvisoryRepository.replaceForPackage(pkg.name, packageAdvisories, refreshedAt);
+        }
+        // Keep the stored dependency versions in step with the registry
+        await DependencyRepository.storeMany(pkg.name, dependenciesInfo);
+        // update related package status as well
+        await PackageRepository.updateStatus(pkg.name, packageStatus);
+        jobContext?.packageFinished(pkg.name, true, `${health.overallScore}/100`);
+        return {
+          packageName: pkg.name,
+          health,
+          isHealthy: packageStatus === 'healthy',
+        };
+      } catch (error) {
+        if (error instanceof JobCancelledError) {
+          throw error;
+        }
+        jobContext?.packageFinished(pkg.name, false, 'Failed to fetch health metrics');
+        return {
+          packageName: pkg.name,
+          health: {
+            "buildStatus": "",
+            "testCoverage": 0,
+            "lintStatus": "",
+            "securityAudit": "",
+            "dependencies": "",
+            "overallScore": 0,
+            "checks": [],
+          },
+          isHealthy: false,
+          error: 'Failed to fetch health metrics1',
+        };
+      }
+    })
+  );
 
-  // Create and store the health refresh promise
-  inFlightHealthRefresh = (async () => {
-    try {
-      const packages = scanMonorepo(rootDir);
-      AppLogger.debug('packages count: ' + packages.length);
-      const healthMetrics = await Promise.all(
-        packages.map(async pkg => {
-          try {
-            // Await each health check function since they return promises
-            const buildStatus = await funCheckBuildStatus(pkg);
-            const testCoverage = 0; //await funCheckTestCoverage(pkg); // skip test coverage for now
-            const lintStatus = await funCheckLintStatus(pkg);
-            const securityAudit = await funCheckSecurityAudit(pkg);
-            // Calculate overall health score
-            const overallScore = calculatePackageHealth(
-              buildStatus,
-              testCoverage,
-              lintStatus,
-              securityAudit
-            );
-
-            const health = {
-              buildStatus: buildStatus,
-              testCoverage: testCoverage,
-              lintStatus: lintStatus,
-              securityAudit: securityAudit,
-              overallScore: overallScore.overallScore,
-            };
-            const packageStatus =
-              health.overallScore >= 80
-                ? 'healthy'
-                : health.overallScore >= 60 && health.overallScore < 80
-                  ? 'warning'
-                  : 'error';
-
-            AppLogger.debug(`${pkg.name}: ${packageStatus}`, health);
-
-            await PackageHealthRepository.upsert({
-              packageName: pkg.name,
-              packageOverallScore: overallScore.overallScore,
-              packageBuildStatus: buildStatus,
-              packageTestCoverage: testCoverage,
-              packageLintStatus: lintStatus,
-              packageSecurity: securityAudit,
-              packageDependencies: '',
-            });
-            // update related package status as well
-            await PackageRepository.updateStatus(pkg.name, packageStatus);
-            return {
-              packageName: pkg.name,
-              health,
-              isHealthy: health.overallScore >= 80,
-            };
-          } catch (error) {
-            return {
-              packageName: pkg.name,
-              health: {
-                "buildStatus": "",
-                "testCoverage": 0,
-                "lintStatus": "",
-                "securityAudit": "",
-                "overallScore": 0
-              },
-              isHealthy: false,
-              error: 'Failed to fetch health metrics1',
-            };
-          }
-        })
-      );
-
-      const result: HealthResponse = {
-        packages: healthMetrics.filter(h => !h.error),
-        summary: {
-          total: packages.length,
-          healthy: healthMetrics.filter(h => h.isHealthy).length,
-          unhealthy: healthMetrics.filter(h => !h.isHealthy).length,
-          averageScore:
-            healthMetrics.filter(h => h.health).length > 0
-              ? healthMetrics
-                  .filter(h => h.health)
-                  .reduce((sum, h) => sum + h.health!.overallScore, 0) /
-                healthMetrics.filter(h => h.health).length
-              : 0,
-        },
-      };
-
-      return result;
-    } finally {
-      // Clear the in-flight promise after completion
-      inFlightHealthRefresh = null;
+  // Keep a timestamped history next to the latest health of each package
+  const packageSnapshots = healthMetrics
+    .filter(h => !h.error)
+    .map(h => buildPackageSnapshot(h.packageName, h.health.overallScore, h.health.checks, refreshedAt, h.isHealthy));
+  try {
+    await HealthSnapshotRepository.createMany([
+      ...packageSnapshots,
+      buildRepositorySnapshot(packageSnapshots, refreshedAt),
+    ]);
+  } catch (error) {
+    AppLogger.error('Failed to record health snapshots', error as Error);
+  }
+
+  // Sent in the background, webhook retries must not hold up the refresh
+  notifyHealthChanges(
+    previousHealth,
+    healthMetrics
+      .filter(h => !h.error)
+      .map(h => ({ packageName: h.packageName, score: h.health.overallScore, checks: h.health.checks })),
+    tags
+  ).catch(error => AppLogger.error('Failed to send health notifications', error as Error));
+
+  const result: HealthResponse = {
+    packages: healthMetrics.filter(h => !h.error),
+    summary: {
+      total: packages.length,
+      healthy: healthMetrics.filter(h => h.isHealthy).length,
+      unhealthy: healthMetrics.filter(h => !h.isHealthy).length,
+      averageScore:
+        healthMetrics.filter(h => h.health).length > 0
+          ? healthMetrics
+              .filter(h => h.health)
+              .reduce((sum, h) => sum + h.health!.overallScore, 0) /
+            healthMetrics.filter(h => h.health).length
+          : 0,
+    },
+  };
+
+  return result;
+}
+
+/**
+ * Health snapshots between from and to, oldest first, with the trend over
+ * them. Without a package name the monorepo snapshots are returned along with
+ * the trend of every package. Returns null when the package is unknown.
+ */
+export const getHealthHistoryService = async (filter: {
+  packageName?: string;
+  from?: Date;
+  to?: Date;
+}): Promise<HealthHistory | null> => {
+  const { packageName, from, to } = filter;
+  const range = {
+    from: from ? from.toISOString() : null,
+    to: to ? to.toISOString() : null,
+  };
+
+  if (packageName) {
+    if (!(await PackageRepository.findByName(packageName))) {
+      return null;
     }
-  })();
+    const snapshots: HealthSnapshot[] = await HealthSnapshotRepository.findHistory({ packageName, from, to });
+    return { packageName, ...range, snapshots, trend: calculateHealthTrend(packageName, snapshots) };
+  }
+
+  const snapshots: HealthSnapshot[] = await HealthSnapshotRepository.findHistory({ packageName: null, from, to });
+  const byPackage = new Map<string, HealthSnapshot[]>();
+  for (const snapshot of await HealthSnapshotRepository.findHistory({ from, to }) as HealthSnapshot[]) {
+    const name = snapshot.packageName as string;
+    byPackage.set(name, [...(byPackage.get(name) ?? []), snapshot]);
+  }
 
-  return inFlightHealthRefresh;
+  return {
+    packageName: null,
+    ...range,
+    snapshots,
+    trend: calculateHealthTrend(null, snapshots),
+    packageTrends: Array.from(byPackage, ([name, packageSnapshots]) => calculateHealthTrend(name, packageSnapshots)),
+  };
 }
+
+/**
+ * Latest coverage report of a package with the totals of earlier refreshes.
+ * Returns null when the package is unknown.
+ */
+export const getPackageCoverageService = async (
+  packageName: string,
+  limit?: number
+): Promise<PackageCoverage | null> => {
+  if (!(await PackageRepository.findByName(packageName))) {
+    return null;
+  }
+
+  const latest = await CoverageReportRepository.findLatest(packageName);
+  const history = await CoverageReportRepository.findTotals(packageName, limit);
+  return { packageName, latest, history };
+};
+
+/**
+ * Advisories found by the latest audit of each package, most severe first.
+ * Returns null when the package is unknown.
+ */
+export const getAdvisoriesService = async (
+  filter: { packageName?: string; severities?: AdvisorySeverity[] } = {}
+): Promise<AdvisoryReport | null> => {
+  if (filter.packageName && !(await PackageRepository.findByName(filter.packageName))) {
+    return null;
+  }
+
+  const advisories = (await PackageAdvisoryRepository.findAll(filter)).sort(compareAdvisories);
+  return { counts: countAdvisories(advisories), advisories };
+};
+
+/**
+ * Thresholds and check settings in effect, with the packages a policy
+ * changes them for
+ */
+export const getHealthPolicyService = async (rootPath: string): Promise<ResolvedHealthPolicy> => {
+  const config = appConfig.health ?? {};
+  const checks = getHealthChecks({ customChecks: config.customChecks });
+  const tags = getWorkspaceTags(rootPath);
+
+  const packages = Object.keys(tags)
+    .sort()
+    .map(packageName => ({ packageName, ...resolvePackageHealthPolicy(config, packageName, tags[packageName]) }))
+    .filter(policy => policy.policies.length > 0)
+    .map(({ packageName, policies, thresholds, checks: overrides }) => ({
+      packageName,
+      policies,
+      thresholds,
+      checks: describeCheckPolicies(checks, overrides),
+    }));
+
+  return {
+    thresholds: resolveThresholds(config.thresholds),
+    checks: describeCheckPolicies(checks, config.checks),
+    packages,
+  };
+};
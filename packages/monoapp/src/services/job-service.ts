@@ -0,0 +1,320 @@
+import { EventEmitter } from 'events';
+import { AppLogger } from '../middleware/logger';
+import { JobRepository } from '../repositories';
+import { JobCancelledError } from '../utils/job-utils';
+import { healthRefreshService } from './health-service';
+import { refreshPackagesService } from './package-service';
+import { runPublishJob } from './changeset-service';
+import type {
+  Job,
+  JobContext,
+  JobEvent,
+  JobStatus,
+  JobStreamEvent,
+  JobType,
+} from '../types';
+
+export const JOB_TYPES: JobType[] = ['health-refresh', 'package-refresh', 'publish'];
+
+// Finished jobs whose events stay in memory for late stream subscribers
+const MAX_FINISHED_JOBS = 20;
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// Refresh jobs keep only their summary; the refreshed data is in the database
+const JOB_RUNNERS: Record<JobType, (rootPath: string, context: JobContext) => Promise<unknown>> = {
+  'health-refresh': async (rootPath, context) => ({
+    summary: (await healthRefreshService(rootPath, context)).summary,
+  }),
+  'package-refresh': async (rootPath, context) => ({
+    summary: (await refreshPackagesService(rootPath, context)).summary,
+  }),
+  publish: runPublishJob,
+};
+
+interface TrackedJob {
+  job: Job;
+  controller: AbortController;
+  events: JobStreamEvent[];
+  emitter: EventEmitter;
+  persisting: Promise<unknown>; // Database writes of the job, applied in order
+}
+
+const trackedJobs = new Map<string, TrackedJob>();
+
+// Jobs between the active-job check and being tracked, set before the first await
+const pendingJobs = new Map<JobType, Promise<Job>>();
+
+type JobRow = {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progressCompleted: number;
+  progressTotal: number;
+  result: string | null;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+};
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    progress: { completed: row.progressCompleted, total: row.progressTotal },
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+    createdAt: row.createdAt,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt,
+  };
+}
+
+const isFinished = (job: Job) => FINISHED_STATUSES.includes(job.status);
+
+function emit(tracked: TrackedJob, event: JobEvent): void {
+  const streamEvent = {
+    ...event,
+    jobId: tracked.job.id,
+    sequence: tracked.events.length + 1,
+    timestamp: new Date().toISOString(),
+  } as JobStreamEvent;
+  tracked.events.push(streamEvent);
+  tracked.emitter.emit('event', streamEvent);
+}
+
+function persist(tracked: TrackedJob, data: Parameters<typeof JobRepository.update>[1]): Promise<unknown> {
+  tracked.persisting = tracked.persisting
+    .then(() => JobRepository.update(tracked.job.id, data))
+    .catch(error => AppLogger.error(`Failed to store job ${tracked.job.id}`, error as Error));
+  return tracked.persisting;
+}
+
+function persistProgress(tracked: TrackedJob): void {
+  const { completed, total } = tracked.job.progress;
+  emit(tracked, { type: 'progress', progress: { completed, total } });
+  void persist(tracked, { progressCompleted: completed, progressTotal: total });
+}
+
+function createJobContext(tracked: TrackedJob): JobContext {
+  return {
+    signal: tracked.controller.signal,
+    setTotal: total => {
+      tracked.job.progress.total = total;
+      persistProgress(tracked);
+    },
+    packageStarted: packageName => emit(tracked, { type: 'package-start', packageName }),
+    packageFinished: (packageName, success = true, message) => {
+      tracked.job.progress.completed++;
+      emit(tracked, { type: 'package-finish', packageName, success, ...(message ? { message } : {}) });
+      persistProgress(tracked);
+    },
+    log: message => emit(tracked, { type: 'log', message }),
+  };
+}
+
+/**
+ * Drops the events of the oldest finished jobs beyond MAX_FINISHED_JOBS
+ */
+function pruneFinishedJobs(): void {
+  const finished = Array.from(trackedJobs.values()).filter(tracked => isFinished(tracked.job));
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(tracked => {
+    tracked.emitter.removeAllListeners();
+    trackedJobs.delete(tracked.job.id);
+  });
+}
+
+async function finishJob(
+  tracked: TrackedJob,
+  status: JobStatus,
+  outcome: { result?: unknown; error?: string } = {}
+): Promise<void> {
+  const { job } = tracked;
+  job.status = status;
+  job.finishedAt = new Date();
+  job.result = outcome.result ?? null;
+  job.error = outcome.error ?? null;
+
+  await persist(tracked, {
+    status,
+    progressCompleted: job.progress.completed,
+    progressTotal: job.progress.total,
+    result: outcome.result,
+    error: job.error,
+    finishedAt: job.finishedAt,
+  });
+  emit(tracked, { type: 'status', status, ...(outcome.error ? { error: outcome.error } : {}) });
+  tracked.emitter.emit('end');
+  tracked.emitter.removeAllListeners();
+  pruneFinishedJobs();
+}
+
+async function runJob(rootPath: string, tracked: TrackedJob): Promise<void> {
+  const { job, controller } = tracked;
+  if (controller.signal.aborted) {
+    return finishJob(tracked, 'cancelled');
+  }
+
+  job.status = 'running';
+  job.startedAt = new Date();
+  void persist(tracked, { status: 'running', startedAt: job.startedAt });
+  emit(tracked, { type: 'status', status: 'running' });
+
+  try {
+    const result = await JOB_RUNNERS[job.type](rootPath, createJobContext(tracked));
+    await finishJob(tracked, controller.signal.aborted ? 'cancelled' : 'succeeded', { result });
+  } catch (error) {
+    if (controller.signal.aborted || error instanceof JobCancelledError) {
+      await finishJob(tracked, 'cancelled');
+    } else {
+      AppLogger.error(`Job ${job.id} (${job.type}) failed`, error as Error);
+      await finishJob(tracked, 'failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+async function startJob(rootPath: string, type: JobType): Promise<Job> {
+  const job = toJob(await JobRepository.create(type));
+  const tracked: TrackedJob = {
+    job,
+    controller: new AbortController(),
+    events: [],
+    emitter: new EventEmitter(),
+    persisting: Promise.resolve(),
+  };
+  trackedJobs.set(job.id, tracked);
+  emit(tracked, { type: 'status', status: 'queued' });
+
+  setImmediate(() => {
+    runJob(rootPath, tracked).catch(error => AppLogger.error(`Job ${job.id} crashed`, error as Error));
+  });
+  return job;
+}
+
+/**
+ * Queues a job and starts it on the next tick. A job of the same type that
+ * is still queued or running is returned instead of starting another one.
+ */
+export const createJobService = async (
+  rootPath: string,
+  type: JobType
+): Promise<{ job: Job; created: boolean }> => {
+  const active = Array.from(trackedJobs.values()).find(
+    tracked => tracked.job.type === type && !isFinished(tracked.job)
+  );
+  if (active) {
+    return { job: active.job, created: false };
+  }
+  // A job of this type still being stored is joined too
+  const pending = pendingJobs.get(type);
+  if (pending) {
+    return { job: await pending, created: false };
+  }
+
+  const creating = startJob(rootPath, type).finally(() => pendingJobs.delete(type));
+  pendingJobs.set(type, creating);
+  return { job: await creating, created: true };
+};
+
+/**
+ * Current state of a job, null when it is unknown
+ */
+export const getJobService = async (id: string): Promise<Job | null> => {
+  const tracked = trackedJobs.get(id);
+  if (tracked) {
+    return tracked.job;
+  }
+  const row = await JobRepository.findById(id);
+  return row ? toJob(row) : null;
+};
+
+/**
+ * Resolves with a job once it has finished, or in its current state when its
+ * stream is ended first (on shutdown). Null when the job is unknown.
+ */
+export const waitForJobService = async (id: string): Promise<Job | null> => {
+  const tracked = trackedJobs.get(id);
+  if (!tracked || isFinished(tracked.job)) {
+    return getJobService(id);
+  }
+  return new Promise(resolve => tracked.emitter.once('end', () => resolve(tracked.job)));
+};
+
+/**
+ * Most recent jobs, newest first
+ */
+export const listJobsService = async (limit: number): Promise<Job[]> => {
+  const rows: JobRow[] = await JobRepository.findRecent(limit);
+  return rows.map(row => trackedJobs.get(row.id)?.job ?? toJob(row));
+};
+
+/**
+ * Requests cancellation of a queued or running job. The job reports
+ * 'cancelled' once its work has stopped. Returns null when the job is
+ * unknown; cancelled is false when it had already finished.
+ */
+export const cancelJobService = async (id: string): Promise<{ job: Job; cancelled: boolean } | null> => {
+  const tracked = trackedJobs.get(id);
+  if (!tracked || isFinished(tracked.job)) {
+    const job = await getJobService(id);
+    return job ? { job, cancelled: false } : null;
+  }
+
+  if (!tracked.controller.signal.aborted) {
+    tracked.controller.abort();
+    emit(tracked, { type: 'log', message: 'Cancellation requested' });
+  }
+  return { job: tracked.job, cancelled: true };
+};
+
+/**
+ * Replays the events of a job after a sequence number, then forwards new
+ * ones until the job finishes. Returns an unsubscribe function, or null when
+ * the job's events are no longer in memory.
+ */
+export function subscribeToJob(
+  id: string,
+  afterSequence: number,
+  onEvent: (event: JobStreamEvent) => void,
+  onEnd: () => void
+): (() => void) | null {
+  const tracked = trackedJobs.get(id);
+  if (!tracked) {
+    return null;
+  }
+
+  tracked.events.filter(event => event.sequence > afterSequence).forEach(onEvent);
+  if (isFinished(tracked.job)) {
+    onEnd();
+    return () => undefined;
+  }
+
+  tracked.emitter.on('event', onEvent);
+  tracked.emitter.once('end', onEnd);
+  return () => {
+    tracked.emitter.off('event', onEvent);
+    tracked.emitter.off('end', onEnd);
+  };
+}
+
+/**
+ * Ends every open job event stream, e.g. on shutdown. Jobs keep running.
+ */
+export function endJobStreams(): void {
+  trackedJobs.forEach(tracked => {
+    tracked.emitter.emit('end');
+    tracked.emitter.removeAllListeners();
+  });
+}
+
+/**
+ * Marks jobs a previous server process left unfinished as failed
+ */
+export const failInterruptedJobsService = async (): Promise<void> => {
+  const { count } = await JobRepository.failUnfinished('Interrupted by a server restart');
+  if (count) {
+    AppLogger.warn(`Marked ${count} interrupted jobs as failed`);
+  }
+};
@@ -0,0 +1,184 @@
+import { AppLogger } from '../middleware/logger';
+import { appConfig } from '../config-loader';
+import { PackageHealthRepository } from '../repositories';
+import {
+  buildWebhookPayload,
+  evaluateNotificationRules,
+  formatNotificationText,
+  getWebhookHost,
+  summarizeNotifications,
+} from '../utils/notification-utils';
+import { sendWebhook } from '../utils/webhook-client';
+import { sendMail } from '../utils/smtp-client';
+import type {
+  HealthCheckStatus,
+  HealthNotification,
+  NotificationChannelConfig,
+  NotificationConfig,
+  NotificationDelivery,
+  PackageHealthState,
+} from '../types';
+
+function getNotificationConfig(): NotificationConfig {
+  return appConfig.health?.notifications ?? {};
+}
+
+function getDashboardUrl(config: NotificationConfig): string | undefined {
+  if (config.dashboardUrl) return config.dashboardUrl;
+  return appConfig.dashboard ? `http://${appConfig.dashboard.host}:${appConfig.dashboard.port}` : undefined;
+}
+
+async function deliverToChannel(
+  channel: NotificationChannelConfig,
+  notifications: HealthNotification[],
+  config: NotificationConfig
+): Promise<NotificationDelivery> {
+  const dashboardUrl = getDashboardUrl(config);
+  const delivery = { channel: channel.id, type: channel.type, notifications: notifications.length };
+
+  if (channel.type === 'webhook') {
+    const payload = buildWebhookPayload(channel.format ?? 'json', notifications, { dashboardUrl });
+    return { ...delivery, ...(await sendWebhook(channel, payload)) };
+  }
+
+  if (!config.smtp) {
+    return { ...delivery, ok: false, attempts: 0, error: 'No smtp settings configured' };
+  }
+  try {
+    await sendMail(config.smtp, {
+      from: config.smtp.from,
+      to: channel.to,
+      subject: channel.subject ?? summarizeNotifications(notifications),
+      text: formatNotificationText(notifications, dashboardUrl),
+    });
+    return { ...delivery, ok: true, attempts: 1 };
+  } catch (error) {
+    return { ...delivery, ok: false, attempts: 1, error: (error as Error).message };
+  }
+}
+
+/**
+ * Sends notifications to every channel their rules name (every channel for
+ * rules naming none), one message per channel
+ */
+export async function deliverNotifications(
+  notifications: HealthNotification[],
+  config: NotificationConfig = getNotificationConfig()
+): Promise<NotificationDelivery[]> {
+  const deliveries = await Promise.all(
+    (config.channels ?? []).map(channel => {
+      const selected = notifications.filter(
+        notification => !notification.channels || notification.channels.includes(channel.id)
+      );
+      return selected.length > 0 ? deliverToChannel(channel, selected, config) : null;
+    })
+  );
+
+  return deliveries.filter((delivery): delivery is NotificationDelivery => {
+    if (delivery && !delivery.ok) {
+      AppLogger.warn(`Failed to notify ${delivery.channel} after ${delivery.attempts} attempts: ${delivery.error}`);
+    }
+    return delivery !== null;
+  });
+}
+
+/**
+ * Stored health of every package, for the rules to compare the next refresh
+ * with. Nothing is read when no rule is configured.
+ */
+export async function getPreviousHealthStates(): Promise<PackageHealthState[]> {
+  if (!getNotificationConfig().rules?.length) {
+    return [];
+  }
+  const stored = await PackageHealthRepository.findAll();
+  return stored.map(
+    (health: {
+      packageName: string;
+      packageOverallScore: number;
+      checks: Array<{ checkId: string; name: string; status: string; message: string | null }>;
+    }) => ({
+      packageName: health.packageName,
+      score: health.packageOverallScore,
+      checks: health.checks.map(check => ({
+        id: check.checkId,
+        name: check.name,
+        status: check.status as HealthCheckStatus,
+        message: check.message ?? undefined,
+      })),
+    })
+  );
+}
+
+/**
+ * Evaluates the notification rules against the health before and after a
+ * refresh and delivers the notifications that fired
+ */
+export async function notifyHealthChanges(
+  previous: PackageHealthState[],
+  current: PackageHealthState[],
+  tags: Record<string, string[]> = {}
+): Promise<NotificationDelivery[]> {
+  const config = getNotificationConfig();
+  const notifications = evaluateNotificationRules(config.rules ?? [], previous, current, tags);
+  if (notifications.length === 0) {
+    return [];
+  }
+  AppLogger.info(`Sending ${notifications.length} health notifications`);
+  return deliverNotifications(notifications, config);
+}
+
+/**
+ * Notification rules and channels, without webhook secrets and the SMTP password
+ */
+export function getNotificationSettingsService() {
+  const { rules = [], channels = [], smtp, dashboardUrl } = getNotificationConfig();
+  return {
+    rules,
+    channels: channels.map(channel =>
+      channel.type === 'webhook'
+        ? {
+            id: channel.id,
+            type: channel.type,
+            host: getWebhookHost(channel.url),
+            format: channel.format ?? 'json',
+            signed: Boolean(channel.secret),
+            retries: channel.retries,
+          }
+        : channel
+    ),
+    smtp: smtp
+      ? {
+          host: smtp.host,
+          port: smtp.port,
+          secure: Boolean(smtp.secure),
+          user: smtp.user,
+          allowInsecureAuth: Boolean(smtp.allowInsecureAuth),
+          from: smtp.from,
+        }
+      : null,
+    dashboardUrl: dashboardUrl ?? null,
+  };
+}
+
+/**
+ * Sends a sample notification to one channel. Returns null for an unknown channel.
+ */
+export async function sendTestNotificationService(channelId: string): Promise<NotificationDelivery | null> {
+  const config = getNotificationConfig();
+  const channel = config.channels?.find(item => item.id === channelId);
+  if (!channel) {
+    return null;
+  }
+
+  const notification: HealthNotification = {
+    rule: 'test',
+    type: 'score-below',
+    severity: 'info',
+    packageName: 'monodog',
+    title: 'Test notification from monodog',
+    message: `Health notifications reach the ${channel.id} channel`,
+    previousScore: 100,
+    score: 100,
+  };
+  return deliverToChannel(channel, [notification], config);
+}
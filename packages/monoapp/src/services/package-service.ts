@@ -1,10 +1,19 @@
-import { scanMonorepo } from '../utils/utilities';
+import { scanMonorepo, hashPackageContents } from '../utils/utilities';
 import { generateReports } from '../utils/monorepo-scanner';
 import { ciStatusManager } from '../utils/ci-status';
 import { AppLogger } from '../middleware/logger';
 import { PackageRepository, CommitRepository, DependencyRepository } from '../repositories';
-import type { PackageInfo, DependencyInfo, PackageReport } from '../types';
+import type { JobContext, PackageInfo, PackageReport, RefreshSummary } from '../types';
+import type { AuthSession } from '../types/auth';
 import { getCommitsByPathService } from './commit-service';
+import { transformHealthCheck } from './health-service';
+import { GitService } from './git-service';
+import { canEditPackage } from './permission-service';
+import { findAffectedPackages, findPackageForFile } from '../utils/affected-utils';
+import { getDeclaredDependencies, resolveDependencyStatuses } from '../utils/outdated-utils';
+import { throwIfCancelled } from '../utils/job-utils';
+import * as fs from 'fs';
+import path from 'path';
 import type { PackageModel } from '../types/database';
 
 interface TransformedPackage {
@@ -20,6 +29,7 @@ interface TransformedPackage {
   devDependencies: Record<string, unknown>;
   peerDependencies: Record<string, unknown>;
   maintainers: string[];
+  owners: string[];
   status?: string;
   createdAt?: Date;
   lastUpdated?: Date;
@@ -31,46 +41,49 @@ interface PackageDetail extends TransformedPackage {
 }
 
 /**
- * Get package dependencies
+ * Parse the JSON columns of a database package record
  */
-function getPackageDependenciesInfo(pkg: PackageInfo): DependencyInfo[] {
-  const allDeps: DependencyInfo[] = [];
-  Object.keys(pkg.dependencies || {}).forEach(depName => {
-    allDeps.push({
-      name: depName,
-      version: pkg.dependencies[depName],
-      type: 'dependency',
-      latest: '',
-      outdated: false,
-    });
-  });
-  Object.keys(pkg.devDependencies || {}).forEach(depName => {
-    allDeps.push({
-      name: depName,
-      version: pkg.devDependencies[depName],
-      type: 'devDependency',
-      latest: '',
-      outdated: false,
-    });
-  });
-  Object.keys(pkg.peerDependencies || {}).forEach(depName => {
-    allDeps.push({
-      name: depName,
-      version: pkg.peerDependencies[depName]!,
-      type: 'peerDependency',
-      latest: '',
-      outdated: false,
-    });
-  });
-  return allDeps;
+function transformPackage(pkg: PackageModel) {
+  // We create a new object 'transformedPkg' based on the database record 'pkg'
+  const transformedPkg = { ...pkg };
+
+  // 1. Maintainers
+  transformedPkg.maintainers = pkg.maintainers
+    ? JSON.parse(pkg.maintainers)
+    : [];
+
+  transformedPkg.owners = pkg.owners ? JSON.parse(pkg.owners) : [];
+
+  // 2. Scripts/repository (should default to an object, not an array)
+  transformedPkg.scripts = pkg.scripts ? JSON.parse(pkg.scripts) : {};
+  transformedPkg.repository = pkg.repository
+    ? JSON.parse(pkg.repository)
+    : {};
+
+  // 3. Dependencies List
+  transformedPkg.dependencies = pkg.dependencies
+    ? JSON.parse(pkg.dependencies)
+    : [];
+  transformedPkg.devDependencies = pkg.devDependencies
+    ? JSON.parse(pkg.devDependencies)
+    : [];
+  transformedPkg.peerDependencies = pkg.peerDependencies
+    ? JSON.parse(pkg.peerDependencies)
+    : [];
+  return transformedPkg; // Return the fully transformed object
 }
 
 /**
- * Store packages in database using repository pattern
+ * Store packages in database using repository pattern. The content hash is
+ * stored last, so a package whose commits or dependencies failed to store is
+ * re-stored by the next refresh. Returns whether every write succeeded.
  */
-async function storePackage(pkg: PackageInfo): Promise<void> {
+export async function storePackage(
+  pkg: PackageInfo,
+  contentHash: string = hashPackageContents(pkg)
+): Promise<boolean> {
   try {
-    // Create or update package using repository
+    // Create or update package using repository, clearing the hash until the rest is stored
     await PackageRepository.upsert({
       name: pkg.name,
       version: pkg.version,
@@ -84,6 +97,7 @@ async function storePackage(pkg: PackageInfo): Promise<void> {
       devDependencies: pkg.devDependencies,
       peerDependencies: pkg.peerDependencies,
       maintainers: pkg.maintainers.join(','),
+      owners: pkg.owners,
       status: '',
     });
 
@@ -93,13 +107,32 @@ async function storePackage(pkg: PackageInfo): Promise<void> {
       await CommitRepository.storeMany(pkg.name, commits);
     }
 
-    // Store dependencies using repository
-    const dependenciesInfo = getPackageDependenciesInfo(pkg);
+    // Store dependencies with their registry status using repository
+    const dependenciesInfo = await resolveDependencyStatuses(getDeclaredDependencies(pkg));
+    await DependencyRepository.deleteStale(
+      pkg.name,
+      dependenciesInfo.map(dep => dep.name)
+    );
     if (dependenciesInfo.length) {
       await DependencyRepository.storeMany(pkg.name, dependenciesInfo);
     }
+
+    await PackageRepository.updateContentHash(pkg.name, contentHash);
+    return true;
   } catch (error) {
     AppLogger.warn(`Failed to store report for ${pkg.name}`);
+    return false;
+  }
+}
+
+/**
+ * Remove a package (and its cascaded commits, dependencies and health) from the database
+ */
+export async function removePackage(name: string): Promise<void> {
+  try {
+    await PackageRepository.deleteByName(name);
+  } catch (error) {
+    AppLogger.warn(`Failed to remove package ${name}`);
   }
 }
 
@@ -119,75 +152,93 @@ export const getPackagesService = async (rootPath: string) => {
     }
     dbPackages = await PackageRepository.findAll();
   }
-  const transformedPackages = dbPackages.map((pkg: PackageModel) => {
-    // We create a new object 'transformedPkg' based on the database record 'pkg'
-    const transformedPkg = { ...pkg };
-
-    // 1. Maintainers
-    transformedPkg.maintainers = pkg.maintainers
-      ? JSON.parse(pkg.maintainers)
-      : [];
-
-    // 2. Scripts/repository (should default to an object, not an array)
-    transformedPkg.scripts = pkg.scripts ? JSON.parse(pkg.scripts) : {};
-    transformedPkg.repository = pkg.repository
-      ? JSON.parse(pkg.repository)
-      : {};
-
-    // 3. Dependencies List
-    transformedPkg.dependencies = pkg.dependencies
-      ? JSON.parse(pkg.dependencies)
-      : [];
-    transformedPkg.devDependencies = pkg.devDependencies
-      ? JSON.parse(pkg.devDependencies)
-      : [];
-    transformedPkg.peerDependencies = pkg.peerDependencies
-      ? JSON.parse(pkg.peerDependencies)
-      : [];
-    return transformedPkg; // Return the fully transformed object
-  });
-
-  return transformedPackages;
+  return dbPackages.map(transformPackage);
 }
 
-export const refreshPackagesService = async (rootPath: string) => {
-  await PackageRepository.deleteAll();
-
-  const rootDir = rootPath;
-  const packages = scanMonorepo(rootDir);
+/**
+ * Re-stores only packages whose manifest or source hash changed and removes
+ * packages that disappeared, keeping commits and health of everything else.
+ * A job context receives per-package progress and can stop the refresh
+ * between packages.
+ */
+export const refreshPackagesService = async (rootPath: string, jobContext?: JobContext) => {
+  const packages = scanMonorepo(rootPath);
+  const dbPackages: PackageModel[] = await PackageRepository.findAll();
+  const storedHashes = new Map(dbPackages.map(pkg => [pkg.name, pkg.contentHash || '']));
 
+  const summary: RefreshSummary = { added: [], removed: [], changed: [], unchanged: [], failed: [] };
   AppLogger.debug('packages count: ' + packages.length);
+  jobContext?.setTotal(packages.length);
+
   for (const pkg of packages) {
-    await storePackage(pkg);
+    throwIfCancelled(jobContext);
+    jobContext?.packageStarted(pkg.name);
+    const contentHash = hashPackageContents(pkg);
+    if (storedHashes.get(pkg.name) !== contentHash) {
+      const outcome = storedHashes.has(pkg.name) ? 'changed' : 'added';
+      if (await storePackage(pkg, contentHash)) {
+        summary[outcome].push(pkg.name);
+        jobContext?.packageFinished(pkg.name, true, outcome);
+      } else {
+        summary.failed.push(pkg.name);
+        jobContext?.packageFinished(pkg.name, false, 'failed');
+      }
+    } else {
+      summary.unchanged.push(pkg.name);
+      jobContext?.packageFinished(pkg.name, true, 'unchanged');
+    }
+  }
+
+  const scannedNames = new Set(packages.map(pkg => pkg.name));
+  for (const { name } of dbPackages) {
+    if (!scannedNames.has(name)) {
+      await removePackage(name);
+      summary.removed.push(name);
+      jobContext?.log(`Removed ${name}`);
+    }
   }
 
-  // Return transformed packages like getPackagesService
-  const dbPackages = await PackageRepository.findAll();
-  const transformedPackages = dbPackages.map((pkg: PackageModel) => {
-    const transformedPkg = { ...pkg };
-
-    transformedPkg.maintainers = pkg.maintainers
-      ? JSON.parse(pkg.maintainers)
-      : [];
-
-    transformedPkg.scripts = pkg.scripts ? JSON.parse(pkg.scripts) : {};
-    transformedPkg.repository = pkg.repository
-      ? JSON.parse(pkg.repository)
-      : {};
-
-    transformedPkg.dependencies = pkg.dependencies
-      ? JSON.parse(pkg.dependencies)
-      : [];
-    transformedPkg.devDependencies = pkg.devDependencies
-      ? JSON.parse(pkg.devDependencies)
-      : [];
-    transformedPkg.peerDependencies = pkg.peerDependencies
-      ? JSON.parse(pkg.peerDependencies)
-      : [];
-    return transformedPkg;
-  });
-
-  return transformedPackages;
+  AppLogger.info(
+    `Refresh complete: ${summary.added.length} added, ${summary.removed.length} removed, ` +
+      `${summary.changed.length} changed, ${summary.unchanged.length} unchanged, ${summary.failed.length} failed`
+  );
+
+  const refreshedPackages = await PackageRepository.findAll();
+  return {
+    summary,
+    packages: refreshedPackages.map(transformPackage),
+  };
+}
+
+/**
+ * Packages affected by the changes between base and head (or the working tree
+ * when head is omitted). Returns null when a ref cannot be resolved.
+ */
+export const getAffectedPackagesService = async (rootPath: string, base: string, head?: string) => {
+  const gitService = new GitService(rootPath);
+  if (!(await gitService.resolveRef(base)) || (head && !(await gitService.resolveRef(head)))) {
+    return null;
+  }
+
+  // git reports paths relative to the repository root, which may sit above the monorepo root
+  const gitRoot = await gitService.getRepositoryRoot();
+  const realRoot = fs.realpathSync(rootPath);
+  const changedFiles = (await gitService.getChangedFiles(base, head))
+    .map(file => path.relative(realRoot, path.join(gitRoot, file)))
+    .filter(file => file && !file.startsWith('..') && !path.isAbsolute(file));
+
+  const packages = scanMonorepo(rootPath);
+  const { affected, unownedFiles } = findAffectedPackages(rootPath, packages, changedFiles);
+  AppLogger.debug(`${changedFiles.length} changed files affect ${affected.length} packages`);
+
+  return {
+    base,
+    head: head || null,
+    changedFiles: changedFiles.length,
+    unownedFiles,
+    affected,
+    total: affected.length,
+  };
 }
 
 export const getPackageDetailService = async (name: string) => {
@@ -212,6 +263,13 @@ export const getPackageDetailService = async (name: string) => {
   transformedPkg.peerDependencies = pkg.peerDependencies
     ? JSON.parse(pkg.peerDependencies)
     : [];
+  if (pkg.packageHealth) {
+    transformedPkg.packageHealth = {
+      ...pkg.packageHealth,
+      checks: pkg.packageHealth.checks.map(transformHealthCheck),
+      typeCheck: pkg.packageHealth.typeCheck ? JSON.parse(pkg.packageHealth.typeCheck) : null,
+    };
+  }
 
   // Get additional package information
   // const reports = (await generateReports()) as unknown as PackageReport[] | undefined;
@@ -226,3 +284,44 @@ export const getPackageDetailService = async (name: string) => {
   return result;
 
 }
+
+/**
+ * Whether the session user may edit the configuration of a stored package,
+ * based on its CODEOWNERS owners and the user's repository permission.
+ * Returns null when the package is unknown.
+ */
+export const getPackageEditAccessService = async (
+  rootPath: string,
+  session: AuthSession,
+  packageName: string
+) => {
+  const pkg = await PackageRepository.findByName(packageName);
+  if (!pkg) {
+    return null;
+  }
+
+  const owners: string[] = pkg.owners ? JSON.parse(pkg.owners) : [];
+  const repository = await new GitService(rootPath).getGitHubRepository();
+  return {
+    path: pkg.path as string,
+    owners,
+    allowed: await canEditPackage(session, owners, repository),
+  };
+}
+
+/**
+ * Edit access to a file (relative to the root) inside a package: that of the
+ * package containing it. Null for files outside every package.
+ */
+export const getFileEditAccessService = async (rootPath: string, session: AuthSession, file: string) => {
+  const dbPackages: PackageModel[] = await PackageRepository.findAll();
+  const packages = dbPackages
+    .filter(pkg => pkg.path)
+    .map(pkg => ({ name: pkg.name, path: pkg.path as string }));
+  const packageName = findPackageForFile(rootPath, packages, file.replace(/^\/+/, ''));
+  if (!packageName) {
+    return null;
+  }
+  const access = await getPackageEditAccessService(rootPath, session, packageName);
+  return access && { packageName, ...access };
+}
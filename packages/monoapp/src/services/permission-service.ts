@@ -4,12 +4,14 @@
  */
 
 import type {
+  AuthSession,
   CachedPermission,
   RepositoryPermission,
   MonoDogPermissionRole,
 } from '../types/auth';
 import {
   getRepositoryPermission,
+  isTeamMember,
   mapPermissionToRole,
 } from './github-oauth-service';
 import { AppLogger } from '../middleware/logger';
@@ -246,3 +248,61 @@ export function canPerformAction(
   const allowedPermissions = actionPermissionMap[requiredAction] || [];
   return allowedPermissions.includes(permission);
 }
+
+
+/**
+ * Check if the session user is one of the CODEOWNERS owners, by @login,
+ * by email, or as a member of an @org/team
+ */
+export async function isCodeOwner(
+  session: AuthSession,
+  owners: string[]
+): Promise<boolean> {
+  const login = session.user.login.toLowerCase();
+  const email = session.user.email?.toLowerCase();
+
+  for (const owner of owners) {
+    const normalized = owner.toLowerCase();
+    if (normalized === `@${login}` || (email && normalized === email)) {
+      return true;
+    }
+  }
+
+  for (const owner of owners) {
+    const team = owner.match(/^@([^/\s]+)\/([^/\s]+)$/);
+    if (
+      team &&
+      (await isTeamMember(session.accessToken, team[1], team[2], session.user.login))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if the session user may edit a package: its owners and repository
+ * admins always can. Packages without owners need write permission.
+ * Without a GitHub repository only the owners check applies.
+ */
+export async function canEditPackage(
+  session: AuthSession,
+  owners: string[],
+  repository: { owner: string; repo: string } | null
+): Promise<boolean> {
+  if (await isCodeOwner(session, owners)) {
+    return true;
+  }
+  if (!repository) {
+    return owners.length === 0;
+  }
+
+  const { permission } = await getUserRepositoryPermission(
+    session.accessToken,
+    session.user.id,
+    session.user.login,
+    repository.owner,
+    repository.repo
+  );
+  return canPerformAction(permission, owners.length ? 'admin' : 'write');
+}
@@ -0,0 +1,86 @@
+import { scanMonorepo } from '../utils/utilities';
+import {
+  DEFAULT_REGRESSION_THRESHOLD,
+  findSizeHistoryRegressions,
+  findSizeRegressions,
+  measurePackageSize,
+} from '../utils/size-utils';
+import { PackageRepository, PackageSizeRepository } from '../repositories';
+import { appConfig } from '../config-loader';
+import { AppLogger } from '../middleware/logger';
+import { GitService } from './git-service';
+import type { PackageSizeHistory, PackageSizeSnapshot, SizeRegression } from '../types';
+
+// Commit hash stored when the monorepo is not a git repository
+const NO_COMMIT = 'uncommitted';
+
+const getThresholdPercent = () =>
+  appConfig.size?.regressionThresholdPercent ?? DEFAULT_REGRESSION_THRESHOLD;
+
+/**
+ * Measures the packages at the current HEAD commit and stores a snapshot for
+ * each one, replacing an earlier snapshot of the same commit. Only packages
+ * already stored by a refresh are measured. Returns null when the requested
+ * package is unknown.
+ */
+export const recordPackageSizesService = async (
+  rootPath: string,
+  packageName?: string
+): Promise<{ commitHash: string; snapshots: PackageSizeSnapshot[]; regressions: SizeRegression[] } | null> => {
+  const packages = scanMonorepo(rootPath).filter(pkg => !packageName || pkg.name === packageName);
+  const stored = [];
+  for (const pkg of packages) {
+    if (await PackageRepository.findByName(pkg.name)) {
+      stored.push(pkg);
+    }
+  }
+  if (packageName && !stored.length) {
+    return null;
+  }
+
+  const commitHash = (await new GitService(rootPath).resolveRef('HEAD')) || NO_COMMIT;
+  const thresholdPercent = getThresholdPercent();
+  const snapshots: PackageSizeSnapshot[] = [];
+  const regressions: SizeRegression[] = [];
+
+  for (const pkg of stored) {
+    const [previous] = (await PackageSizeRepository.findByPackageName(pkg.name, 2))
+      .filter((snapshot: PackageSizeSnapshot) => snapshot.commitHash !== commitHash)
+      .slice(-1);
+    const measurement = await measurePackageSize(pkg.path);
+    const snapshot = await PackageSizeRepository.upsert({ packageName: pkg.name, commitHash, ...measurement });
+
+    snapshots.push(snapshot);
+    if (previous) {
+      regressions.push(...findSizeRegressions(previous, snapshot, thresholdPercent));
+    }
+  }
+
+  if (regressions.length) {
+    AppLogger.warn(`${regressions.length} package size regressions at ${commitHash.slice(0, 7)}`);
+  }
+  return { commitHash, snapshots, regressions };
+}
+
+/**
+ * Size snapshots of a package, oldest first, with the regressions between
+ * consecutive snapshots. Returns null when the package is unknown.
+ */
+export const getPackageSizeHistoryService = async (
+  packageName: string,
+  limit?: number
+): Promise<PackageSizeHistory | null> => {
+  if (!(await PackageRepository.findByName(packageName))) {
+    return null;
+  }
+
+  const thresholdPercent = getThresholdPercent();
+  const snapshots: PackageSizeSnapshot[] = await PackageSizeRepository.findByPackageName(packageName, limit);
+
+  return {
+    packageName,
+    thresholdPercent,
+    snapshots,
+    regressions: findSizeHistoryRegressions(snapshots, thresholdPercent),
+  };
+}
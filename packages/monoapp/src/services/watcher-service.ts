@@ -0,0 +1,374 @@
+import * as fs from 'fs';
+import path from 'path';
+import { AppLogger } from '../middleware/logger';
+import { appConfig } from '../config-loader';
+import { PackageRepository } from '../repositories';
+import {
+  scanMonorepo,
+  parsePackageInfo,
+  hashPackageContents,
+  WORKSPACE_MANIFESTS,
+} from '../utils/utilities';
+import { getWorkspaceAdapter, LOCKFILES } from '../utils/workspace-adapters';
+import { assignPackageOwners } from '../utils/codeowners-utils';
+import { storePackage, removePackage } from './package-service';
+import type {
+  PackageChange,
+  PackageChangeType,
+  PackageInfo,
+  WatcherStatus,
+} from '../types';
+
+const DEFAULT_DEBOUNCE_MS = 300;
+const MAX_RECORDED_CHANGES = 200;
+
+/**
+ * Root-level files whose changes can add, remove or move workspace packages
+ */
+const ROOT_TRIGGER_FILES = [
+  'package.json',
+  ...WORKSPACE_MANIFESTS,
+  ...LOCKFILES.map(([lockfile]) => lockfile),
+];
+
+/**
+ * Files inside a package directory that describe the package
+ */
+const PACKAGE_MANIFESTS = ['package.json', 'project.json'];
+
+const IGNORED_ENTRIES = ['node_modules', 'dist', 'build', 'coverage'];
+
+interface WatchedPackage {
+  name: string;
+  snapshot: string;
+}
+
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Watches every workspace package manifest, the workspace manifests and the
+ * lockfiles, and applies incremental upserts/deletes to the package database
+ */
+export class PackageWatcher {
+  private readonly rootDir: string;
+  private readonly debounceMs: number;
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private packages = new Map<string, WatchedPackage>(); // package directory -> package
+  private parentDirs = new Set<string>();
+  private pendingPackageDirs = new Map<string, string>(); // package directory -> trigger
+  private rescanTrigger: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+  private changes: PackageChange[] = [];
+  private lastSyncAt: Date | null = null;
+  private running = false;
+
+  constructor(rootDir: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+    this.rootDir = path.resolve(rootDir);
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Reconciles the database with the workspace and starts watching
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    const current = this.scanPackages();
+    const dbPackages: Array<{ name: string; contentHash?: string | null }> = await PackageRepository.findAll();
+    const storedHashes = new Map(dbPackages.map(pkg => [pkg.name, pkg.contentHash || '']));
+    const dbNames = new Set(storedHashes.keys());
+    const currentNames = new Set(Array.from(current.values()).map(pkg => pkg.name));
+
+    // Packages removed, added or changed while the server was not running
+    for (const name of dbNames) {
+      if (!currentNames.has(name)) {
+        await removePackage(name);
+        this.record('removed', name, this.rootDir, this.rootDir);
+      }
+    }
+    for (const [dir, pkg] of current) {
+      const contentHash = hashPackageContents(pkg);
+      if (!dbNames.has(pkg.name)) {
+        await storePackage(pkg, contentHash);
+        this.record('added', pkg.name, dir, this.rootDir);
+      } else if (storedHashes.get(pkg.name) !== contentHash) {
+        await storePackage(pkg, contentHash);
+        this.record('updated', pkg.name, dir, this.rootDir);
+      }
+    }
+
+    this.packages = new Map(
+      Array.from(current, ([dir, pkg]) => [dir, { name: pkg.name, snapshot: JSON.stringify(pkg) }])
+    );
+    this.lastSyncAt = new Date();
+    this.updateWatchers();
+
+    AppLogger.info(
+      `Watching ${this.packages.size} packages (${this.watchers.size} directories) for changes`
+    );
+  }
+
+  /**
+   * Stops all file system watchers
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+  }
+
+  /**
+   * Applies pending changes immediately instead of waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Never let two syncs write to the database at the same time
+    while (this.syncing) {
+      await this.syncing;
+    }
+    this.syncing = this.sync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Handles a file system event for a watched directory
+   */
+  handleEvent(dir: string, filename: string | null): void {
+    if (!filename) {
+      // Some platforms do not report the file name
+      this.rescanTrigger = dir;
+      this.scheduleSync();
+      return;
+    }
+
+    const filePath = path.join(dir, filename);
+
+    if (dir === this.rootDir && ROOT_TRIGGER_FILES.includes(filename)) {
+      this.rescanTrigger = filePath;
+    }
+
+    if (this.packages.has(dir) && PACKAGE_MANIFESTS.includes(filename)) {
+      this.pendingPackageDirs.set(dir, filePath);
+    }
+
+    // A package directory was created, renamed or deleted
+    if (
+      this.parentDirs.has(dir) &&
+      !filename.startsWith('.') &&
+      !IGNORED_ENTRIES.includes(filename) &&
+      (this.packages.has(filePath) || isDirectory(filePath))
+    ) {
+      this.rescanTrigger = filePath;
+    }
+
+    if (this.rescanTrigger || this.pendingPackageDirs.size) {
+      this.scheduleSync();
+    }
+  }
+
+  getStatus(): WatcherStatus {
+    return {
+      running: this.running,
+      rootPath: this.rootDir,
+      watchedPackages: this.packages.size,
+      watchedDirectories: this.watchers.size,
+      lastSyncAt: this.lastSyncAt,
+      changes: [...this.changes].reverse(),
+    };
+  }
+
+  private scheduleSync(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => {
+        AppLogger.error('Failed to sync package changes', error as Error);
+      });
+    }, this.debounceMs);
+    this.timer.unref?.();
+  }
+
+  private async sync(): Promise<void> {
+    const pending = new Map(this.pendingPackageDirs);
+    const rescanTrigger = this.rescanTrigger;
+    this.pendingPackageDirs.clear();
+    this.rescanTrigger = null;
+
+    if (rescanTrigger) {
+      // Membership may have changed: diff a full scan against the known packages
+      const current = this.scanPackages();
+      const dirs = new Set([...this.packages.keys(), ...current.keys()]);
+      for (const dir of dirs) {
+        await this.applyPackage(dir, current.get(dir) || null, pending.get(dir) || rescanTrigger);
+      }
+      this.updateWatchers();
+    } else {
+      for (const [dir, trigger] of pending) {
+        const next = this.parsePackage(dir);
+        // A manifest that exists but does not parse is most likely mid-write
+        if (!next && fs.existsSync(path.join(dir, 'package.json'))) {
+          AppLogger.debug(`Skipping unreadable manifest in ${dir}`);
+          continue;
+        }
+        await this.applyPackage(dir, next, trigger);
+      }
+    }
+
+    this.lastSyncAt = new Date();
+  }
+
+  /**
+   * Compares a package directory against its known state and writes the difference
+   */
+  private async applyPackage(dir: string, next: PackageInfo | null, trigger: string): Promise<void> {
+    const known = this.packages.get(dir);
+
+    if (!next) {
+      if (known) {
+        await removePackage(known.name);
+        this.packages.delete(dir);
+        this.record('removed', known.name, dir, trigger);
+      }
+      return;
+    }
+
+    const snapshot = JSON.stringify(next);
+    if (known?.snapshot === snapshot) {
+      return;
+    }
+
+    // A renamed package is stored under its new name
+    if (known && known.name !== next.name) {
+      await removePackage(known.name);
+      this.record('removed', known.name, dir, trigger);
+    }
+
+    await storePackage(next);
+    this.packages.set(dir, { name: next.name, snapshot });
+    this.record(known && known.name === next.name ? 'updated' : 'added', next.name, dir, trigger);
+  }
+
+  private scanPackages(): Map<string, PackageInfo> {
+    const packages = new Map<string, PackageInfo>();
+    for (const pkg of scanMonorepo(this.rootDir)) {
+      packages.set(path.resolve(pkg.path), pkg);
+    }
+    return packages;
+  }
+
+  /**
+   * Parses a single package the same way scanMonorepo does
+   */
+  private parsePackage(dir: string): PackageInfo | null {
+    const adapter = appConfig.workspaces.length ? undefined : getWorkspaceAdapter(this.rootDir);
+    const pkg = adapter?.parseProject
+      ? adapter.parseProject(dir)
+      : parsePackageInfo(dir, path.basename(dir));
+    return pkg && assignPackageOwners(this.rootDir, [pkg])[0];
+  }
+
+  /**
+   * Watches the root, every package directory and every directory holding packages
+   */
+  private updateWatchers(): void {
+    const packageDirs = Array.from(this.packages.keys());
+    this.parentDirs = new Set(
+      packageDirs
+        .map(dir => path.dirname(dir))
+        .filter(dir => dir.startsWith(this.rootDir))
+    );
+    const desired = new Set([this.rootDir, ...packageDirs, ...this.parentDirs]);
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!desired.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+
+    for (const dir of desired) {
+      if (this.watchers.has(dir) || !isDirectory(dir)) continue;
+      try {
+        const watcher = fs.watch(dir, (_event, filename) => {
+          this.handleEvent(dir, filename ? filename.toString() : null);
+        });
+        watcher.on('error', error => {
+          AppLogger.warn(`Stopped watching ${dir}: ${error.message}`);
+          watcher.close();
+          this.watchers.delete(dir);
+        });
+        this.watchers.set(dir, watcher);
+      } catch (error) {
+        AppLogger.warn(`Unable to watch ${dir}`);
+      }
+    }
+  }
+
+  private record(type: PackageChangeType, packageName: string, dir: string, trigger: string): void {
+    const change: PackageChange = {
+      type,
+      packageName,
+      path: path.relative(this.rootDir, dir),
+      trigger: path.relative(this.rootDir, trigger) || '.',
+      timestamp: new Date(),
+    };
+    this.changes.push(change);
+    if (this.changes.length > MAX_RECORDED_CHANGES) {
+      this.changes.shift();
+    }
+    AppLogger.info(`Package ${packageName} ${type} (triggered by ${change.trigger})`);
+  }
+}
+
+let activeWatcher: PackageWatcher | null = null;
+
+/**
+ * Starts the package watcher for the monorepo root
+ */
+export const startPackageWatcher = async (rootPath: string, debounceMs?: number) => {
+  if (activeWatcher) {
+    return activeWatcher;
+  }
+  activeWatcher = new PackageWatcher(rootPath, debounceMs);
+  await activeWatcher.start();
+  return activeWatcher;
+}
+
+export const stopPackageWatcher = () => {
+  activeWatcher?.stop();
+  activeWatcher = null;
+}
+
+export const getWatcherStatusService = async (rootPath: string): Promise<WatcherStatus> => {
+  if (!activeWatcher) {
+    return {
+      running: false,
+      rootPath,
+      watchedPackages: 0,
+      watchedDirectories: 0,
+      lastSyncAt: null,
+      changes: [],
+    };
+  }
+  return activeWatcher.getStatus();
+}
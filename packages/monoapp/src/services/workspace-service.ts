@@ -0,0 +1,28 @@
+import { detectWorkspace } from '../utils/workspace-adapters';
+import { AppLogger } from '../middleware/logger';
+
+/**
+ * Detects the workspace layout and package manager used by the monorepo
+ */
+export const getWorkspaceInfoService = async (rootPath: string) => {
+  const workspace = detectWorkspace(rootPath);
+  if (!workspace) {
+    AppLogger.warn('No workspace layout detected at: ' + rootPath);
+    return null;
+  }
+
+  const projects = workspace.projects.map(project => ({
+    name: project.name,
+    path: project.relativePath,
+    type: project.packageInfo.type,
+    version: project.packageInfo.version,
+    tags: project.packageInfo.tags || [],
+  }));
+
+  return {
+    tool: workspace.tool,
+    packageManager: workspace.packageManager,
+    projects,
+    total: projects.length,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Security advisory types
+ */
+
+export type AdvisorySeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * A known vulnerability of a dependency, as reported by the package manager's
+ * audit or found in an offline advisory database
+ */
+export interface Advisory {
+  id: string; // GHSA id when known, otherwise the registry's advisory id
+  severity: AdvisorySeverity;
+  title: string;
+  moduleName: string; // The vulnerable dependency
+  vulnerableVersions: string; // Semver range
+  patchedVersions: string | null;
+  url: string | null;
+  paths: string[]; // Dependency paths from the workspace package, e.g. 'express>qs'
+}
+
+export interface PackageAdvisory extends Advisory {
+  packageName: string;
+  createdAt: Date | string; // Time of the refresh that first found it
+}
+
+/**
+ * One entry of an offline advisory database, in the format of the npm
+ * registry's bulk advisory endpoint
+ */
+export interface AdvisoryDatabaseEntry {
+  id: string | number;
+  title: string;
+  severity: AdvisorySeverity;
+  vulnerable_versions: string;
+  patched_versions?: string;
+  url?: string;
+  github_advisory_id?: string;
+}
+
+export type AdvisoryDatabase = Map<string, AdvisoryDatabaseEntry[]>; // By vulnerable package name
+
+/**
+ * health.advisories section of monodog-config.json
+ */
+export interface AdvisoryConfig {
+  database?: string; // JSON advisory database used instead of the audit command, relative to the root
+  severityWeights?: Partial<Record<AdvisorySeverity, number>>; // Score lost per advisory, 0-1
+}
+
+export interface AdvisoryReport {
+  counts: Record<AdvisorySeverity, number>;
+  advisories: PackageAdvisory[]; // Most severe first
+}
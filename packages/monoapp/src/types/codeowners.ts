@@ -0,0 +1,15 @@
+/**
+ * CODEOWNERS ownership types
+ */
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[]; // @user, @org/team or email
+  section: string | null; // GitLab [Section] the rule belongs to, null before the first one
+  line: number;
+}
+
+export interface CodeownersFile {
+  path: string; // Relative to the monorepo root
+  rules: CodeownersRule[];
+}
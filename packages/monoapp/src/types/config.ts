@@ -2,8 +2,12 @@
  * Configuration types for the monodog application
  */
 
+import type { BoundaryConstraint } from './graph';
+import type { HealthConfig } from './health';
+import type { LicensePolicy } from './license';
+
 export interface MonodogConfig {
-  workspaces: [];
+  workspaces: string[];
   database: {
     type: 'postgres' | 'mysql' | 'sqlite';
     host: string;
@@ -19,4 +23,22 @@ export interface MonodogConfig {
     host: string;
     port: number;
   };
+  watch?: {
+    enabled?: boolean; // Defaults to true
+    debounceMs?: number;
+  };
+  registry?: {
+    url?: string; // Defaults to https://registry.npmjs.org
+    cacheDir?: string; // Defaults to node_modules/.cache/monodog/registry
+    cacheTtlMinutes?: number; // Defaults to 60
+    offline?: boolean; // Only use cached metadata, never hit the network
+    timeoutMs?: number;
+  };
+  tags?: Record<string, string[]>; // Package name -> tags, merged with package.json "monodog.tags"
+  constraints?: BoundaryConstraint[];
+  licenses?: LicensePolicy;
+  health?: HealthConfig;
+  size?: {
+    regressionThresholdPercent?: number; // Growth between snapshots that counts as a regression, defaults to 10
+  };
 }
@@ -0,0 +1,41 @@
+/**
+ * Test coverage report types
+ */
+
+export type CoverageFormat = 'istanbul' | 'lcov' | 'cobertura' | 'clover';
+
+export interface CoverageMetric {
+  total: number;
+  covered: number;
+  pct: number; // 100 when there is nothing to cover
+}
+
+export interface CoverageTotals {
+  lines: CoverageMetric;
+  branches: CoverageMetric;
+  functions: CoverageMetric;
+  statements: CoverageMetric; // Same as lines for formats without statements
+}
+
+export interface FileCoverage extends CoverageTotals {
+  file: string; // Relative to the package directory
+}
+
+export interface CoverageReport {
+  format: CoverageFormat;
+  reportPath: string; // Relative to the package directory
+  totals: CoverageTotals;
+  files: FileCoverage[];
+}
+
+export interface PackageCoverageReport extends CoverageReport {
+  id?: number;
+  packageName: string;
+  createdAt: Date | string;
+}
+
+export interface PackageCoverage {
+  packageName: string;
+  latest: PackageCoverageReport | null;
+  history: Array<{ createdAt: Date | string; totals: CoverageTotals }>; // Oldest first
+}
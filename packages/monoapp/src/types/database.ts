@@ -2,6 +2,9 @@
  * Database related types
  */
 
+import type { HealthCheckResult } from './health';
+import type { TypeCheckReport } from './typecheck';
+
 export interface Commit {
   hash: string;
   message?: string;
@@ -11,15 +14,23 @@ export interface Commit {
   packageName: string;
 }
 
+export interface PackageHealthCheckModel {
+  checkId: string;
+  name: string;
+  status: string;
+  score: number;
+  weight: number;
+  value: string | null; // JSON encoded
+  message: string | null;
+  output: string | null; // JSON encoded CommandOutput
+}
+
 export interface PackageHealthModel {
   packageName: string;
   packageOverallScore: number;
-  packageBuildStatus: string;
-  packageTestCoverage: number;
-  packageLintStatus: string;
-  packageSecurity: string;
-  packageDependencies?: string;
+  typeCheck?: string | null; // JSON encoded TypeCheckReport
   updatedAt?: Date;
+  checks: PackageHealthCheckModel[];
 }
 
 export interface TransformedPackageHealth {
@@ -29,7 +40,10 @@ export interface TransformedPackageHealth {
     testCoverage: number;
     lintStatus: string;
     securityAudit: string;
+    dependencies?: string;
     overallScore: number;
+    checks: HealthCheckResult[];
+    typeCheck?: TypeCheckReport | null;
   };
   isHealthy: boolean;
 }
@@ -59,7 +73,9 @@ export interface PackageModel {
   devDependencies?: string;
   peerDependencies?: string;
   maintainers?: string;
+  owners?: string;
   status?: string;
+  contentHash?: string;
   createdAt?: Date;
   lastUpdated?: Date;
 }
@@ -0,0 +1,53 @@
+/**
+ * External dependency analysis types
+ */
+
+import type { DependencyKind } from './graph';
+
+export interface DependencyUsage {
+  packageName: string;
+  type: DependencyKind;
+  range: string;
+}
+
+export interface DependencyVersionGroup {
+  name: string;
+  ranges: Array<{ range: string; packages: DependencyUsage[] }>; // Most used range first
+  usages: number;
+  mismatched: boolean;
+  suggestedRange: string; // Range with the highest minimum version
+}
+
+export interface VersionMismatchReport {
+  dependencies: number; // Distinct external dependencies
+  mismatched: number;
+  groups: DependencyVersionGroup[];
+}
+
+export interface AlignDependencyResult {
+  dependency: string;
+  range: string;
+  updated: Array<{ packageName: string; types: DependencyKind[]; previous: string[] }>;
+  unchanged: string[]; // Packages already on the range
+  failed: Array<{ packageName: string; error: string; forbidden?: boolean }>; // forbidden: the user may not edit it
+}
+
+export interface ImportUsage {
+  name: string; // Package name, e.g. 'lodash' for 'lodash/get'
+  files: string[]; // Importing files relative to the package directory
+}
+
+export interface PackageDependencyHygiene {
+  packageName: string;
+  filesScanned: number;
+  unused: Array<{ name: string; type: DependencyKind }>; // Declared but never imported
+  missing: ImportUsage[]; // External modules imported without a declaration
+  undeclaredInternal: ImportUsage[]; // Workspace packages imported without a declaration
+}
+
+export interface DependencyHygieneReport {
+  packages: PackageDependencyHygiene[];
+  unused: number;
+  missing: number;
+  undeclaredInternal: number;
+}
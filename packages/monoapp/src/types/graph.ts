@@ -0,0 +1,54 @@
+/**
+ * Dependency graph and build ordering types
+ */
+
+export type DependencyKind = 'prod' | 'dev' | 'peer' | 'optional';
+
+export interface GraphEdge {
+  from: string; // Dependent package
+  to: string; // Dependency package
+  type: DependencyKind;
+  range: string; // Declared range, e.g. 'workspace:^' or '^1.2.0'
+  workspaceProtocol: boolean;
+  satisfies: boolean; // Whether the range accepts the local package version
+}
+
+export interface BuildCycle {
+  packages: string[];
+  edges: GraphEdge[]; // Edges between the cycle members
+}
+
+export interface BuildOrder {
+  dependencyTypes: DependencyKind[];
+  layers: string[][]; // Packages in the same layer can build in parallel
+  cycles: BuildCycle[];
+  blocked: Array<{ name: string; waitingOn: string[] }>; // Unordered packages outside cycles
+}
+
+/**
+ * Module boundary rule for packages carrying sourceTag ('*' matches every package).
+ * Tags may end in '*' to match a prefix, e.g. 'scope:*'.
+ */
+export interface BoundaryConstraint {
+  sourceTag: string;
+  onlyDependOnTags?: string[]; // Dependencies must carry at least one of these tags
+  notDependOnTags?: string[]; // Dependencies must not carry any of these tags
+}
+
+export interface BoundaryViolation {
+  from: string;
+  to: string;
+  source: 'graph' | 'import';
+  type?: DependencyKind; // Declared dependency type, graph edges only
+  files?: string[]; // Importing files, undeclared imports only
+  constraint: BoundaryConstraint;
+  message: string;
+}
+
+export interface BoundaryReport {
+  tags: Record<string, string[]>; // Effective tags per package
+  constraints: BoundaryConstraint[];
+  checkedEdges: number;
+  checkedImports: number | null; // null when source imports were not analyzed
+  violations: BoundaryViolation[];
+}
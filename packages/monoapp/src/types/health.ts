@@ -2,10 +2,191 @@
  * Health related types
  */
 
+import type { Advisory, AdvisoryConfig, AdvisoryDatabase, AdvisorySeverity } from './advisory';
+import type { CoverageReport } from './coverage';
+import type { DependencyInfo, PackageInfo } from './package';
+import type { NotificationConfig } from './notification';
+import type { CommandOutput } from './process';
+import type { TypeCheckReport } from './typecheck';
+
 export interface PackageHealth {
   buildStatus: 'success' | 'failed' | 'running' | 'unknown';
   testCoverage: number;
   lintStatus: 'pass' | 'fail' | 'unknown';
   securityAudit: 'pass' | 'fail' | 'unknown';
+  dependencies?: 'up-to-date' | 'outdated' | 'major-update' | 'unknown';
   overallScore: number;
+  checks: HealthCheckResult[]; // Results the score was calculated from
+  typeCheck?: TypeCheckReport | null; // Diagnostics of the typecheck check, null when it did not run
+}
+
+/**
+ * Outcome of one health check; skipped checks do not count towards the score
+ */
+export type HealthCheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface HealthCheckOutcome {
+  status: HealthCheckStatus;
+  score?: number; // 0-1, defaults to 1 for pass, 0.5 for warn and 0 for fail
+  value?: string | number; // Raw measurement, e.g. the coverage percentage
+  message?: string;
+  output?: CommandOutput; // Captured output of a command that failed the check
+}
+
+export interface HealthCheckResult extends HealthCheckOutcome {
+  id: string;
+  name: string;
+  weight: number;
+  score: number;
+}
+
+/**
+ * Shared state computed once per refresh and handed to every check
+ */
+export interface HealthCheckContext {
+  rootDir: string;
+  licenseViolationPackages?: Set<string>; // Packages depending on a disallowed license
+  resolvedDependencies?: Map<string, DependencyInfo[]>; // Registry statuses by package, resolved on demand when missing
+  coverageReports?: Map<string, CoverageReport | null>; // Parsed coverage by package, read on demand when missing
+  advisoryDatabase?: AdvisoryDatabase; // Matched against installed dependencies instead of running the audit
+  advisories?: Map<string, Advisory[]>; // Filled by the security check with the advisories it found
+  severityWeights?: Partial<Record<AdvisorySeverity, number>>;
+  typeChecks?: Map<string, TypeCheckReport>; // Filled by the typecheck check with the diagnostics it parsed
+  timeoutMs?: number; // Limit for each command of the running check, set from the check's timeoutMs
+  signal?: AbortSignal; // Aborted when the refresh is cancelled; kills running commands
+}
+
+/**
+ * A registered health check. Built-in checks and checks declared in
+ * monodog-config.json are both resolved to this shape.
+ */
+export interface HealthCheck {
+  id: string;
+  name: string;
+  weight: number; // Relative to the weights of the other enabled checks
+  timeoutMs?: number; // Limit for each command the check runs, defaults per check
+  run(pkg: PackageInfo, context: HealthCheckContext): Promise<HealthCheckOutcome>;
+}
+
+/**
+ * User-defined checks declared under health.customChecks in monodog-config.json
+ */
+export type CustomHealthCheckConfig =
+  | {
+      id: string;
+      name?: string;
+      type: 'script';
+      script: string; // Package script to run, skipped for packages without it
+      weight?: number;
+      timeoutMs?: number;
+    }
+  | {
+      id: string;
+      name?: string;
+      type: 'file-exists';
+      path: string; // Relative to the package directory
+      weight?: number;
+    };
+
+/**
+ * Overrides of registered or custom checks by check id
+ */
+export type HealthCheckOverrides = Record<string, { enabled?: boolean; weight?: number; timeoutMs?: number }>;
+
+/**
+ * Minimum overall scores for a package to count as healthy, or as a warning
+ * rather than an error
+ */
+export interface HealthThresholds {
+  healthy: number;
+  warning: number;
+}
+
+export type HealthLevel = 'healthy' | 'warning' | 'error';
+
+/**
+ * health.policies entry of monodog-config.json: thresholds and check
+ * overrides for the packages matching a name pattern or carrying a tag
+ */
+export interface HealthPolicyConfig {
+  name?: string;
+  packages?: string[]; // Package name globs, e.g. '@scope/legacy-*'
+  tags?: string[]; // Tags as in boundary constraints; a trailing '*' matches by prefix
+  thresholds?: Partial<HealthThresholds>;
+  checks?: HealthCheckOverrides;
+}
+
+export interface HealthConfig {
+  checks?: HealthCheckOverrides;
+  customChecks?: CustomHealthCheckConfig[];
+  concurrency?: number; // Commands run at the same time by a refresh, defaults to the CPU count
+  thresholds?: Partial<HealthThresholds>;
+  policies?: HealthPolicyConfig[]; // Applied in order, later policies win
+  advisories?: AdvisoryConfig;
+  notifications?: NotificationConfig;
+}
+
+/**
+ * A check with the overrides that apply to a package resolved
+ */
+export interface HealthCheckPolicy {
+  id: string;
+  name: string;
+  weight: number;
+  enabled: boolean;
+  timeoutMs?: number;
+}
+
+export interface PackageHealthPolicy {
+  packageName: string;
+  policies: string[]; // Names of the matching policies
+  thresholds: HealthThresholds;
+  checks: HealthCheckPolicy[];
+}
+
+/**
+ * Effective health policy: the repository defaults and every package a
+ * policy applies to
+ */
+export interface ResolvedHealthPolicy {
+  thresholds: HealthThresholds;
+  checks: HealthCheckPolicy[];
+  packages: PackageHealthPolicy[];
+}
+
+/**
+ * Health recorded by one refresh, for a package or the whole monorepo
+ */
+export interface HealthSnapshot {
+  packageName: string | null; // null for the whole monorepo
+  overallScore: number;
+  checkScores: Record<string, number>; // Check id -> score (0-1), averaged over packages for the monorepo
+  packageCount: number;
+  healthyCount: number;
+  createdAt: Date | string;
+}
+
+export type HealthTrendDirection = 'up' | 'down' | 'stable';
+
+/**
+ * Change of the health score over a range of snapshots
+ */
+export interface HealthTrend {
+  packageName: string | null;
+  snapshotCount: number;
+  first: number | null; // Score of the oldest snapshot in range
+  latest: number | null;
+  delta: number; // latest - first
+  previousDelta: number; // latest - the snapshot before it
+  direction: HealthTrendDirection;
+  checkDeltas: Record<string, number>; // Score change per check id, on the 0-1 scale
+}
+
+export interface HealthHistory {
+  packageName: string | null;
+  from: string | null;
+  to: string | null;
+  snapshots: HealthSnapshot[]; // Oldest first
+  trend: HealthTrend;
+  packageTrends?: HealthTrend[]; // Per package, for the monorepo history only
 }
@@ -5,8 +5,133 @@
 export type { MonodogConfig } from './config';
 // export type { GitCommit } from './git';
 export { VALID_COMMIT_TYPES } from './git';
-export type { PackageInfo, DependencyInfo, MonorepoStats } from './package';
-export type { PackageHealth } from './health';
+export type {
+  PackageInfo,
+  DependencyInfo,
+  MonorepoStats,
+  RefreshSummary,
+  AffectedPackage,
+} from './package';
+export type {
+  PackageHealth,
+  HealthCheckStatus,
+  HealthCheckOutcome,
+  HealthCheckResult,
+  HealthCheckContext,
+  HealthCheck,
+  CustomHealthCheckConfig,
+  HealthConfig,
+  HealthCheckOverrides,
+  HealthThresholds,
+  HealthLevel,
+  HealthPolicyConfig,
+  HealthCheckPolicy,
+  PackageHealthPolicy,
+  ResolvedHealthPolicy,
+  HealthSnapshot,
+  HealthTrendDirection,
+  HealthTrend,
+  HealthHistory,
+} from './health';
+export type {
+  PackageManager,
+  WorkspaceTool,
+  WorkspaceProject,
+  WorkspaceAdapter,
+  WorkspaceDetection,
+} from './workspace';
+export type {
+  DependencyKind,
+  GraphEdge,
+  BuildCycle,
+  BuildOrder,
+  BoundaryConstraint,
+  BoundaryViolation,
+  BoundaryReport,
+} from './graph';
+export type {
+  DependencyUsage,
+  DependencyVersionGroup,
+  VersionMismatchReport,
+  AlignDependencyResult,
+  ImportUsage,
+  PackageDependencyHygiene,
+  DependencyHygieneReport,
+} from './dependency';
+export type {
+  LockfileName,
+  ParsedLockfile,
+  ResolvedDependency,
+  PackageLockInfo,
+  DuplicateDependency,
+  LockfileReport,
+} from './lockfile';
+export type {
+  LicensePolicy,
+  LicenseStatus,
+  InstalledDependency,
+  LicenseInventoryItem,
+  LicenseViolation,
+  LicenseReport,
+} from './license';
+export type {
+  PackedSize,
+  PackageSizeMeasurement,
+  PackageSizeSnapshot,
+  SizeMetric,
+  SizeRegression,
+  PackageSizeHistory,
+} from './size';
+export type { CodeownersRule, CodeownersFile } from './codeowners';
+export type {
+  CoverageFormat,
+  CoverageMetric,
+  CoverageTotals,
+  FileCoverage,
+  CoverageReport,
+  PackageCoverageReport,
+  PackageCoverage,
+} from './coverage';
+export type { CommandOutput, RunCommandOptions } from './process';
+export type {
+  TypeDiagnosticCategory,
+  TypeDiagnostic,
+  TypeCheckReport,
+} from './typecheck';
+export type {
+  AdvisorySeverity,
+  Advisory,
+  PackageAdvisory,
+  AdvisoryDatabaseEntry,
+  AdvisoryDatabase,
+  AdvisoryConfig,
+  AdvisoryReport,
+} from './advisory';
+export type {
+  NotificationSeverity,
+  NotificationRuleType,
+  NotificationRuleConfig,
+  WebhookFormat,
+  WebhookChannelConfig,
+  EmailChannelConfig,
+  NotificationChannelConfig,
+  SmtpConfig,
+  NotificationConfig,
+  PackageHealthState,
+  HealthNotification,
+  NotificationDelivery,
+} from './notification';
+export type { PublishLintSeverity, PublishLintFinding, PackagePublishLint } from './publish';
+export type { PackageChangeType, PackageChange, WatcherStatus } from './watcher';
+export type {
+  JobType,
+  JobStatus,
+  JobProgress,
+  Job,
+  JobEvent,
+  JobStreamEvent,
+  JobContext,
+} from './job';
 export type {
   CIProvider,
   CIBuild,
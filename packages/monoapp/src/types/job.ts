@@ -0,0 +1,51 @@
+/**
+ * Background job types
+ */
+
+export type JobType = 'health-refresh' | 'package-refresh' | 'publish';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  completed: number;
+  total: number; // 0 until the job knows how much work it has
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress: JobProgress;
+  result: unknown; // Runner return value once succeeded
+  error: string | null;
+  createdAt: Date | string;
+  startedAt: Date | string | null;
+  finishedAt: Date | string | null;
+}
+
+export type JobEvent =
+  | { type: 'status'; status: JobStatus; error?: string }
+  | { type: 'progress'; progress: JobProgress }
+  | { type: 'package-start'; packageName: string }
+  | { type: 'package-finish'; packageName: string; success: boolean; message?: string }
+  | { type: 'log'; message: string };
+
+/**
+ * Event as sent to stream subscribers; sequence numbers start at 1 per job
+ */
+export type JobStreamEvent = JobEvent & {
+  jobId: string;
+  sequence: number;
+  timestamp: string;
+};
+
+/**
+ * Passed to the work a job runs, to report progress and observe cancellation
+ */
+export interface JobContext {
+  signal: AbortSignal;
+  setTotal(total: number): void;
+  packageStarted(packageName: string): void;
+  packageFinished(packageName: string, success?: boolean, message?: string): void;
+  log(message: string): void;
+}
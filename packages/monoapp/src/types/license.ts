@@ -0,0 +1,43 @@
+/**
+ * License compliance types
+ */
+
+export interface LicensePolicy {
+  allow?: string[]; // SPDX identifiers; when set, anything else is a violation
+  deny?: string[]; // SPDX identifiers that are always a violation
+  includeDev?: boolean; // Also walk devDependencies, defaults to false
+}
+
+export type LicenseStatus = 'allowed' | 'denied' | 'not-allowed' | 'unknown';
+
+export interface InstalledDependency {
+  name: string;
+  version: string;
+  license: string | null; // SPDX expression, null when package.json declares none
+  path: string; // Real path of the installed package
+  chain: string[]; // Workspace package first, then each dependency down to this one
+}
+
+export interface LicenseInventoryItem {
+  name: string;
+  version: string;
+  license: string | null;
+  status: LicenseStatus;
+  packages: string[]; // Workspace packages that depend on it, directly or transitively
+}
+
+export interface LicenseViolation {
+  packageName: string; // Workspace package bringing the dependency in
+  name: string;
+  version: string;
+  license: string | null;
+  status: Exclude<LicenseStatus, 'allowed'>;
+  chain: string[];
+}
+
+export interface LicenseReport {
+  policy: LicensePolicy;
+  inventory: LicenseInventoryItem[];
+  licenses: Record<string, number>; // Installed packages per license
+  violations: LicenseViolation[];
+}
@@ -0,0 +1,47 @@
+/**
+ * Lockfile analysis types
+ */
+
+import type { DependencyKind } from './graph';
+
+export type LockfileName = 'pnpm-lock.yaml' | 'package-lock.json' | 'yarn.lock';
+
+/**
+ * A parsed lockfile, independent of the package manager that wrote it
+ */
+export interface ParsedLockfile {
+  lockfile: LockfileName;
+  /**
+   * Resolved version of a direct dependency declared by the workspace package
+   * at importerPath (relative to the root, '.' for the root package)
+   */
+  resolve: (importerPath: string, name: string, range: string) => string | null;
+  versions: Map<string, Set<string>>; // Every installed version per package name
+}
+
+export interface ResolvedDependency {
+  name: string;
+  type: DependencyKind;
+  range: string;
+  resolved: string | null; // null when the lockfile has no entry
+  satisfies: boolean | null; // null when the range is not a semver range
+}
+
+export interface PackageLockInfo {
+  packageName: string;
+  path: string;
+  dependencies: ResolvedDependency[];
+}
+
+export interface DuplicateDependency {
+  name: string;
+  versions: string[];
+  directDependents: Array<{ packageName: string; resolved: string }>;
+}
+
+export interface LockfileReport {
+  lockfile: LockfileName | null;
+  packages: PackageLockInfo[];
+  duplicates: DuplicateDependency[];
+  outOfRange: Array<ResolvedDependency & { packageName: string }>;
+}
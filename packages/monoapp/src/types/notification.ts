@@ -0,0 +1,108 @@
+/**
+ * Health notification types
+ */
+
+import type { HealthCheckResult, HealthCheckStatus } from './health';
+
+export type NotificationSeverity = 'error' | 'warning' | 'info';
+
+export type NotificationRuleType = 'score-below' | 'score-dropped' | 'check-status';
+
+/**
+ * A rule evaluated after every health refresh against the previous health of
+ * each package. Rules match every package unless limited by name pattern or tag.
+ */
+export interface NotificationRuleConfig {
+  name?: string;
+  type: NotificationRuleType;
+  threshold?: number; // score-below: fires when the score falls below it
+  points?: number; // score-dropped: fires when the score drops by at least this much
+  check?: string; // check-status: id of the check
+  from?: HealthCheckStatus | HealthCheckStatus[]; // check-status: any status when omitted
+  to?: HealthCheckStatus | HealthCheckStatus[]; // check-status: defaults to fail
+  packages?: string[]; // Package name patterns
+  tags?: string[];
+  channels?: string[]; // Channel ids, every channel when omitted
+  severity?: NotificationSeverity;
+}
+
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export interface WebhookChannelConfig {
+  id: string;
+  type: 'webhook';
+  url: string;
+  format?: WebhookFormat; // Defaults to json
+  secret?: string; // Signs the body with HMAC-SHA256, ${VAR} reads an environment variable
+  headers?: Record<string, string>;
+  retries?: number; // Attempts after the first, defaults to 3
+  timeoutMs?: number;
+}
+
+export interface EmailChannelConfig {
+  id: string;
+  type: 'email';
+  to: string[];
+  subject?: string; // Defaults to a summary of the notifications
+}
+
+export type NotificationChannelConfig = WebhookChannelConfig | EmailChannelConfig;
+
+export interface SmtpConfig {
+  host: string;
+  port?: number; // Defaults to 465 when secure, 587 otherwise
+  secure?: boolean; // TLS from the start; otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string; // ${VAR} reads an environment variable
+  allowInsecureAuth?: boolean; // Send credentials without TLS, e.g. to a local MailHog
+  from: string;
+  timeoutMs?: number;
+}
+
+/**
+ * health.notifications section of monodog-config.json
+ */
+export interface NotificationConfig {
+  rules?: NotificationRuleConfig[];
+  channels?: NotificationChannelConfig[];
+  smtp?: SmtpConfig;
+  dashboardUrl?: string; // Linked from notifications
+}
+
+/**
+ * Health of a package before or after a refresh, as the rules compare it
+ */
+export interface PackageHealthState {
+  packageName: string;
+  score: number;
+  checks: Array<Pick<HealthCheckResult, 'id' | 'name' | 'status' | 'message'>>;
+}
+
+/**
+ * A rule that fired for a package
+ */
+export interface HealthNotification {
+  rule: string; // Rule name, its position when it has none
+  type: NotificationRuleType;
+  severity: NotificationSeverity;
+  packageName: string;
+  title: string;
+  message: string;
+  previousScore: number;
+  score: number;
+  check?: { id: string; name: string; from: HealthCheckStatus; to: HealthCheckStatus };
+  channels?: string[];
+}
+
+/**
+ * Outcome of sending notifications to one channel
+ */
+export interface NotificationDelivery {
+  channel: string;
+  type: NotificationChannelConfig['type'];
+  ok: boolean;
+  attempts: number;
+  status?: number; // Last HTTP status of a webhook
+  error?: string;
+  notifications: number;
+}
@@ -10,11 +10,15 @@ export interface PackageInfo {
   dependencies: Record<string, string>;
   devDependencies: Record<string, string>;
   peerDependencies: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
   scripts: Record<string, string>;
   maintainers: string[];
+  owners?: string[]; // Effective CODEOWNERS owners of the package directory
   description?: string;
   license?: string;
   repository?: Record<string, string>;
+  tags?: string[];
+  nxTargets?: string[]; // Scripts that are Nx targets from project.json, run through the nx CLI
 }
 
 export interface DependencyInfo {
@@ -37,3 +41,26 @@ export interface MonorepoStats {
   outdatedDependencies: number;
   totalDependencies: number;
 }
+
+/**
+ * Outcome of an incremental package refresh, as lists of package names
+ */
+export interface RefreshSummary {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: string[];
+  failed: string[]; // Not fully stored, retried by the next refresh
+}
+
+/**
+ * A package affected by a set of changed files
+ */
+export interface AffectedPackage {
+  name: string;
+  path: string; // Relative to the monorepo root
+  reason: 'changed' | 'dependent';
+  changedFiles: string[]; // Changed files inside the package (changed packages only)
+  depth: number; // 0 for changed packages, 1 for direct dependents, and so on
+  via: string[]; // Dependency chain from a changed package to this one
+}
@@ -0,0 +1,21 @@
+/**
+ * Command execution types
+ */
+
+/**
+ * Output of a command run through the process pool. Long output keeps its end.
+ */
+export interface CommandOutput {
+  command: string;
+  exitCode: number | null; // null when the command was killed or could not start
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs?: number;
+  signal?: AbortSignal; // Kills the command, or drops it while still queued
+}
@@ -0,0 +1,19 @@
+/**
+ * Publish readiness types
+ */
+
+export type PublishLintSeverity = 'error' | 'warning' | 'suggestion';
+
+export interface PublishLintFinding {
+  code: string; // e.g. FILE_NOT_FOUND, EXPORTS_DEFAULT_NOT_LAST
+  severity: PublishLintSeverity;
+  field: string; // package.json path of the offending value, e.g. exports["./utils"].import
+  message: string;
+}
+
+export interface PackagePublishLint {
+  packageName: string;
+  path: string;
+  private: boolean; // Private packages are skipped and have no findings
+  findings: PublishLintFinding[];
+}
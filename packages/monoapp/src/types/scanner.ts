@@ -4,6 +4,7 @@
 
 import type { PackageInfo, DependencyInfo } from './package';
 import type { PackageHealth } from './health';
+import type { PackageDependencyHygiene } from './dependency';
 import type { MonorepoStats } from './package';
 
 export interface ScanResult {
@@ -21,6 +22,7 @@ export interface PackageReport {
   health: PackageHealth;
   size: { size: number; files: number };
   outdatedDeps: DependencyInfo[];
+  dependencyHygiene: PackageDependencyHygiene;
   lastModified: Date;
   gitInfo?: {
     lastCommit: string;
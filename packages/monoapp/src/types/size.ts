@@ -0,0 +1,42 @@
+/**
+ * Package size tracking types
+ */
+
+export interface PackedSize {
+  size: number; // Tarball bytes
+  unpackedSize: number;
+  entryCount: number;
+}
+
+export interface PackageSizeMeasurement {
+  sourceSize: number;
+  sourceFiles: number;
+  outputSize: number; // dist/ and build/ combined
+  packedSize: number | null; // null when npm pack failed
+  unpackedSize: number | null;
+}
+
+export interface PackageSizeSnapshot extends PackageSizeMeasurement {
+  id?: number;
+  packageName: string;
+  commitHash: string;
+  createdAt: Date | string;
+}
+
+export type SizeMetric = 'sourceSize' | 'outputSize' | 'packedSize';
+
+export interface SizeRegression {
+  metric: SizeMetric;
+  commitHash: string; // Snapshot that grew
+  previousCommitHash: string;
+  previous: number;
+  current: number;
+  changePercent: number;
+}
+
+export interface PackageSizeHistory {
+  packageName: string;
+  thresholdPercent: number;
+  snapshots: PackageSizeSnapshot[]; // Oldest first
+  regressions: SizeRegression[];
+}
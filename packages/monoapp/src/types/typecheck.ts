@@ -0,0 +1,28 @@
+/**
+ * TypeScript type-check types
+ */
+
+export type TypeDiagnosticCategory = 'error' | 'warning';
+
+/**
+ * One diagnostic reported by tsc
+ */
+export interface TypeDiagnostic {
+  file: string | null; // Relative to the package directory, null for project-wide diagnostics
+  line: number | null;
+  column: number | null;
+  code: number; // e.g. 2322 for TS2322
+  category: TypeDiagnosticCategory;
+  message: string;
+}
+
+/**
+ * Result of type-checking a package. Only the first diagnostics are kept,
+ * errors before warnings; the counts cover all of them.
+ */
+export interface TypeCheckReport {
+  errorCount: number;
+  warningCount: number;
+  diagnostics: TypeDiagnostic[];
+  durationMs: number;
+}
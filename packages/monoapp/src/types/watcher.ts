@@ -0,0 +1,22 @@
+/**
+ * Types for the workspace file watcher
+ */
+
+export type PackageChangeType = 'added' | 'updated' | 'removed';
+
+export interface PackageChange {
+  type: PackageChangeType;
+  packageName: string;
+  path: string;
+  trigger: string; // File or directory that caused the change
+  timestamp: Date;
+}
+
+export interface WatcherStatus {
+  running: boolean;
+  rootPath: string;
+  watchedPackages: number;
+  watchedDirectories: number;
+  lastSyncAt: Date | null;
+  changes: PackageChange[];
+}
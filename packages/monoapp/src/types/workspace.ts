@@ -0,0 +1,55 @@
+/**
+ * Workspace layout and package manager detection types
+ */
+
+import type { PackageInfo } from './package';
+
+/**
+ * Package managers able to install dependencies and run package scripts
+ */
+export type PackageManager = 'pnpm' | 'npm' | 'yarn';
+
+/**
+ * Workspace layouts Monodog can discover projects from
+ */
+export type WorkspaceTool =
+  | 'pnpm'
+  | 'npm'
+  | 'yarn'
+  | 'yarn-berry'
+  | 'lerna'
+  | 'nx'
+  | 'rush';
+
+/**
+ * A project discovered by a workspace adapter, normalized to PackageInfo
+ */
+export interface WorkspaceProject {
+  name: string;
+  relativePath: string;
+  packageInfo: PackageInfo;
+}
+
+/**
+ * Adapter able to discover workspace projects for one monorepo layout
+ */
+export interface WorkspaceAdapter {
+  tool: WorkspaceTool;
+  /** Returns true when the layout's manifest is present in rootDir */
+  detect(rootDir: string): boolean;
+  /** Returns project directories relative to rootDir */
+  getProjectPaths(rootDir: string): string[];
+  /** Optional manifest reader for projects without a package.json */
+  parseProject?(projectPath: string): PackageInfo | null;
+  /** Optional package manager declared by the layout's own manifest */
+  getPackageManager?(rootDir: string): PackageManager | undefined;
+}
+
+/**
+ * Result of workspace detection reported by the API
+ */
+export interface WorkspaceDetection {
+  tool: WorkspaceTool;
+  packageManager: PackageManager;
+  projects: WorkspaceProject[];
+}
@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import path from 'path';
+import { collectInstalledDependencies } from './license-utils';
+import { satisfies } from './semver-utils';
+import type {
+  Advisory,
+  AdvisoryDatabase,
+  AdvisoryDatabaseEntry,
+  AdvisorySeverity,
+  HealthCheckOutcome,
+  PackageInfo,
+} from '../types';
+
+/**
+ * Severities from most to least severe
+ */
+export const ADVISORY_SEVERITIES: AdvisorySeverity[] = ['critical', 'high', 'moderate', 'low', 'info'];
+
+/**
+ * Score a package loses per advisory of each severity
+ */
+export const DEFAULT_SEVERITY_WEIGHTS: Record<AdvisorySeverity, number> = {
+  critical: 1,
+  high: 0.5,
+  moderate: 0.2,
+  low: 0.05,
+  info: 0,
+};
+
+// Paths kept per advisory when walking npm's dependency graph
+const MAX_ADVISORY_PATHS = 20;
+
+const GHSA_ID = /GHSA(-[23456789cfghjmpqrvwx]{4}){3}/;
+
+export function normalizeSeverity(severity: unknown): AdvisorySeverity {
+  const value = String(severity).toLowerCase();
+  if (value === 'medium') return 'moderate';
+  return ADVISORY_SEVERITIES.includes(value as AdvisorySeverity) ? (value as AdvisorySeverity) : 'info';
+}
+
+function getAdvisoryId(id: unknown, url?: string, githubId?: string): string {
+  return githubId || url?.match(GHSA_ID)?.[0] || String(id);
+}
+
+/**
+ * Advisories of an npm v6, pnpm or Yarn classic report: a map of advisories
+ * with their dependency paths per installed version
+ */
+function parseAdvisoriesMap(advisories: Record<string, any>): Advisory[] {
+  return Object.values(advisories).map(advisory => ({
+    id: getAdvisoryId(advisory.id, advisory.url, advisory.github_advisory_id),
+    severity: normalizeSeverity(advisory.severity),
+    title: advisory.title ?? '',
+    moduleName: advisory.module_name ?? '',
+    vulnerableVersions: advisory.vulnerable_versions ?? '*',
+    patchedVersions: advisory.patched_versions || null,
+    url: advisory.url || null,
+    paths: Array.from(
+      new Set<string>((advisory.findings ?? []).flatMap((finding: { paths?: string[] }) => finding.paths ?? []))
+    ),
+  }));
+}
+
+/**
+ * Advisories of an npm v7+ report. Vulnerabilities list the advisories they
+ * come from under via and the packages depending on them under effects;
+ * paths are walked up the effects to a direct dependency.
+ */
+function parseVulnerabilities(vulnerabilities: Record<string, any>): Advisory[] {
+  const walkPaths = (name: string, seen: Set<string>): string[][] => {
+    const effects: string[] = (vulnerabilities[name]?.effects ?? []).filter((effect: string) => !seen.has(effect));
+    if (effects.length === 0) return [[name]];
+    return effects
+      .flatMap(effect => walkPaths(effect, new Set([...seen, effect])))
+      .slice(0, MAX_ADVISORY_PATHS)
+      .map(chain => [...chain, name]);
+  };
+
+  const advisories = new Map<string, Advisory>();
+  for (const [name, vulnerability] of Object.entries(vulnerabilities)) {
+    for (const via of vulnerability.via ?? []) {
+      // String entries point at another vulnerable package, listed separately
+      if (typeof via !== 'object') continue;
+
+      const id = getAdvisoryId(via.source, via.url);
+      if (advisories.has(`${id}:${name}`)) continue;
+      advisories.set(`${id}:${name}`, {
+        id,
+        severity: normalizeSeverity(via.severity ?? vulnerability.severity),
+        title: via.title ?? '',
+        moduleName: via.name ?? name,
+        vulnerableVersions: via.range ?? vulnerability.range ?? '*',
+        patchedVersions: null,
+        url: via.url || null,
+        paths: walkPaths(name, new Set([name])).map(chain => chain.join('>')),
+      });
+    }
+  }
+  return Array.from(advisories.values());
+}
+
+/**
+ * Advisories of an audit report in the npm v6, npm v7+, pnpm or Yarn classic
+ * JSON format
+ */
+export function parseAuditReport(report: any): Advisory[] {
+  if (report?.vulnerabilities && typeof report.vulnerabilities === 'object') {
+    return parseVulnerabilities(report.vulnerabilities);
+  }
+  if (report?.advisories && typeof report.advisories === 'object') {
+    return parseAdvisoriesMap(report.advisories);
+  }
+  return [];
+}
+
+/**
+ * Name in a Yarn locator, e.g. '@scope/name' of '@scope/name@npm:1.0.0'
+ */
+function getLocatorName(locator: string): string {
+  const separator = locator.indexOf('@', 1);
+  return separator > 0 ? locator.slice(0, separator) : locator;
+}
+
+/**
+ * Advisories of a Yarn 2+ `yarn npm audit --json` report: one JSON object per
+ * line and vulnerable package, listing the packages depending on it. Each
+ * dependent becomes a path to the vulnerable package, e.g. 'express>qs'.
+ */
+export function parseYarnBerryAudit(output: string): Advisory[] {
+  return output.split('\n').flatMap(line => {
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return [];
+    }
+    const advisory = entry?.children;
+    if (typeof entry?.value !== 'string' || !advisory || typeof advisory !== 'object') {
+      return [];
+    }
+    const dependents: string[] = Array.isArray(advisory.Dependents) ? advisory.Dependents : [];
+    return [
+      {
+        id: getAdvisoryId(advisory.ID, advisory.URL),
+        severity: normalizeSeverity(advisory.Severity),
+        title: advisory.Issue ?? '',
+        moduleName: entry.value,
+        vulnerableVersions: advisory['Vulnerable Versions'] ?? '*',
+        patchedVersions: null,
+        url: advisory.URL || null,
+        paths: Array.from(new Set(dependents.map(dependent => `${getLocatorName(dependent)}>${entry.value}`))),
+      },
+    ];
+  });
+}
+
+/**
+ * Advisories reaching a workspace package, with the paths leading to them
+ * from it. Paths starting at the package (its name, or its directory as pnpm
+ * reports it) lose that first segment; paths starting at one of its declared
+ * dependencies are kept. Workspace-wide audits report every package, so any
+ * other path belongs to another package.
+ */
+export function filterPackageAdvisories(advisories: Advisory[], pkg: PackageInfo, rootDir: string): Advisory[] {
+  const importerPath = path.relative(rootDir, pkg.path).split(path.sep).join('/') || '.';
+  const packageIds = new Set([pkg.name, importerPath, importerPath.replace(/\//g, '__')]);
+  const declared = new Set(
+    Object.keys({ ...pkg.dependencies, ...pkg.devDependencies, ...pkg.optionalDependencies })
+  );
+
+  const toPackagePath = (dependencyPath: string): string | null => {
+    const segments = dependencyPath.split('>').map(segment => segment.trim());
+    if (packageIds.has(segments[0]) && segments.length > 1) return segments.slice(1).join('>');
+    return declared.has(segments[0]) ? segments.join('>') : null;
+  };
+
+  return advisories.flatMap(advisory => {
+    const paths = Array.from(
+      new Set(advisory.paths.map(toPackagePath).filter((item): item is string => item !== null))
+    );
+    return paths.length > 0 ? [{ ...advisory, paths }] : [];
+  });
+}
+
+/**
+ * Reads an offline advisory database: the response of the npm registry's
+ * bulk advisory endpoint (advisories by package name) or a saved npm v6 or
+ * pnpm audit report
+ */
+export function loadAdvisoryDatabase(filePath: string): AdvisoryDatabase {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const database: AdvisoryDatabase = new Map();
+  const add = (name: string, entry: AdvisoryDatabaseEntry) => database.set(name, [...(database.get(name) ?? []), entry]);
+
+  if (data?.advisories && typeof data.advisories === 'object' && !Array.isArray(data.advisories)) {
+    Object.values<any>(data.advisories).forEach(advisory => add(advisory.module_name, advisory));
+  } else {
+    Object.entries(data ?? {}).forEach(([name, entries]) => {
+      if (Array.isArray(entries)) entries.forEach(entry => add(name, entry));
+    });
+  }
+  return database;
+}
+
+/**
+ * Advisories of the dependencies installed for a package, production and
+ * development, matched by version against an offline database
+ */
+export function findOfflineAdvisories(pkg: PackageInfo, database: AdvisoryDatabase): Advisory[] {
+  const advisories = new Map<string, Advisory>();
+
+  for (const dependency of collectInstalledDependencies(pkg, true)) {
+    for (const entry of database.get(dependency.name) ?? []) {
+      if (!satisfies(dependency.version, entry.vulnerable_versions)) continue;
+
+      const id = getAdvisoryId(entry.id, entry.url, entry.github_advisory_id);
+      const key = `${id}:${dependency.name}`;
+      const advisory = advisories.get(key) ?? {
+        id,
+        severity: normalizeSeverity(entry.severity),
+        title: entry.title ?? '',
+        moduleName: dependency.name,
+        vulnerableVersions: entry.vulnerable_versions,
+        patchedVersions: entry.patched_versions || null,
+        url: entry.url || null,
+        paths: [],
+      };
+      advisory.paths.push(dependency.chain.slice(1).join('>'));
+      advisories.set(key, advisory);
+    }
+  }
+  return Array.from(advisories.values());
+}
+
+export function countAdvisories(advisories: Array<Pick<Advisory, 'severity'>>): Record<AdvisorySeverity, number> {
+  const counts = { critical: 0, high: 0, moderate: 0, low: 0, info: 0 };
+  advisories.forEach(advisory => counts[advisory.severity]++);
+  return counts;
+}
+
+/**
+ * Orders advisories from the most to the least severe
+ */
+export function compareAdvisories(a: Pick<Advisory, 'severity' | 'moduleName'>, b: Pick<Advisory, 'severity' | 'moduleName'>): number {
+  return (
+    ADVISORY_SEVERITIES.indexOf(a.severity) - ADVISORY_SEVERITIES.indexOf(b.severity) ||
+    a.moduleName.localeCompare(b.moduleName)
+  );
+}
+
+/**
+ * Security check outcome: every advisory takes its severity's weight off the
+ * score. High and critical advisories fail the check, moderate and low ones warn.
+ */
+export function scoreAdvisories(
+  advisories: Advisory[],
+  weights: Partial<Record<AdvisorySeverity, number>> = {}
+): HealthCheckOutcome {
+  if (advisories.length === 0) {
+    return { status: 'pass', score: 1, value: 0 };
+  }
+
+  const resolvedWeights = { ...DEFAULT_SEVERITY_WEIGHTS, ...weights };
+  const counts = countAdvisories(advisories);
+  const score = Math.max(
+    0,
+    1 - advisories.reduce((sum, advisory) => sum + Math.max(0, resolvedWeights[advisory.severity]), 0)
+  );
+  const summary = ADVISORY_SEVERITIES.filter(severity => counts[severity] > 0)
+    .map(severity => `${counts[severity]} ${severity}`)
+    .join(', ');
+
+  return {
+    status: counts.critical || counts.high ? 'fail' : counts.moderate || counts.low ? 'warn' : 'pass',
+    score,
+    value: advisories.length,
+    message: `${advisories.length} ${advisories.length === 1 ? 'advisory' : 'advisories'} (${summary})`,
+  };
+}
@@ -0,0 +1,117 @@
+import path from 'path';
+import { generateDependencyGraph } from './utilities';
+
+import type { AffectedPackage, PackageInfo } from '../types';
+
+function toPosix(value: string): string {
+  return value.replace(/\\/g, '/');
+}
+
+/**
+ * Finds the package owning a file: the deepest package directory containing it
+ */
+function findOwningPackage(
+  file: string,
+  packageDirs: Array<{ name: string; dir: string }>
+): string | undefined {
+  let owner: { name: string; dir: string } | undefined;
+  for (const pkg of packageDirs) {
+    const contains = pkg.dir === '' || file === pkg.dir || file.startsWith(pkg.dir + '/');
+    if (contains && (!owner || pkg.dir.length > owner.dir.length)) {
+      owner = pkg;
+    }
+  }
+  return owner?.name;
+}
+
+/**
+ * Name of the package whose directory contains a file (relative to rootDir),
+ * undefined when the file is outside every package
+ */
+export function findPackageForFile(
+  rootDir: string,
+  packages: Array<{ name: string; path: string }>,
+  file: string
+): string | undefined {
+  return findOwningPackage(
+    toPosix(path.normalize(file)),
+    packages.map(pkg => ({ name: pkg.name, dir: toPosix(path.relative(rootDir, pkg.path)) }))
+  );
+}
+
+/**
+ * Maps changed files (relative to rootDir) to the packages containing them and
+ * walks reverse dependency edges to collect direct and transitive dependents.
+ * Files outside every package are returned as unowned.
+ */
+export function findAffectedPackages(
+  rootDir: string,
+  packages: PackageInfo[],
+  changedFiles: string[]
+): { affected: AffectedPackage[]; unownedFiles: string[] } {
+  const packageDirs = packages.map(pkg => ({
+    name: pkg.name,
+    dir: toPosix(path.relative(rootDir, pkg.path)),
+  }));
+  const dirByName = new Map(packageDirs.map(pkg => [pkg.name, pkg.dir]));
+
+  const filesByPackage = new Map<string, string[]>();
+  const unownedFiles: string[] = [];
+  for (const rawFile of changedFiles) {
+    const file = toPosix(rawFile);
+    const owner = findOwningPackage(file, packageDirs);
+    if (owner) {
+      filesByPackage.set(owner, [...(filesByPackage.get(owner) || []), file]);
+    } else {
+      unownedFiles.push(file);
+    }
+  }
+
+  // Reverse edges: dependency -> packages depending on it
+  const dependents = new Map<string, string[]>();
+  for (const edge of generateDependencyGraph(packages).edges) {
+    dependents.set(edge.to, [...(dependents.get(edge.to) || []), edge.from]);
+  }
+
+  const affected = new Map<string, AffectedPackage>();
+  let frontier: AffectedPackage[] = [];
+
+  for (const pkg of packages) {
+    const files = filesByPackage.get(pkg.name);
+    if (files) {
+      const entry: AffectedPackage = {
+        name: pkg.name,
+        path: dirByName.get(pkg.name) || '',
+        reason: 'changed',
+        changedFiles: files,
+        depth: 0,
+        via: [pkg.name],
+      };
+      affected.set(pkg.name, entry);
+      frontier.push(entry);
+    }
+  }
+
+  // Breadth-first so every dependent keeps its shortest chain
+  while (frontier.length) {
+    const next: AffectedPackage[] = [];
+    for (const current of frontier) {
+      for (const dependent of dependents.get(current.name) || []) {
+        if (affected.has(dependent)) continue;
+        const entry: AffectedPackage = {
+          name: dependent,
+          path: dirByName.get(dependent) || '',
+          reason: 'dependent',
+          changedFiles: [],
+          depth: current.depth + 1,
+          via: [...current.via, dependent],
+        };
+        affected.set(dependent, entry);
+        next.push(entry);
+      }
+    }
+    frontier = next;
+  }
+
+  return { affected: Array.from(affected.values()), unownedFiles };
+}
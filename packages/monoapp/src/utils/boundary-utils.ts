@@ -0,0 +1,124 @@
+import { DEPENDENCY_KINDS, getInternalEdges } from './graph-utils';
+import type {
+  BoundaryConstraint,
+  BoundaryReport,
+  BoundaryViolation,
+  DependencyHygieneReport,
+  DependencyKind,
+  PackageInfo,
+} from '../types';
+
+export interface BoundaryOptions {
+  tags?: Record<string, string[]>; // Extra tags per package name, e.g. from monodog-config.json
+  constraints?: BoundaryConstraint[];
+  dependencyTypes?: DependencyKind[];
+  hygiene?: DependencyHygieneReport; // Source analysis, adds undeclared workspace imports
+}
+
+/**
+ * Whether a tag matches a constraint pattern: '*' matches anything,
+ * a trailing '*' matches by prefix
+ */
+export function matchesTag(tag: string, pattern: string): boolean {
+  if (pattern.endsWith('*')) {
+    return tag.startsWith(pattern.slice(0, -1));
+  }
+  return tag === pattern;
+}
+
+function hasMatchingTag(tags: string[], patterns: string[]): boolean {
+  return patterns.some(pattern => pattern === '*' || tags.some(tag => matchesTag(tag, pattern)));
+}
+
+/**
+ * Tags declared in package.json merged with the configured tags
+ */
+export function getPackageTags(
+  packages: PackageInfo[],
+  configTags: Record<string, string[]> = {}
+): Record<string, string[]> {
+  const tags: Record<string, string[]> = {};
+  for (const pkg of packages) {
+    tags[pkg.name] = Array.from(new Set([...(pkg.tags || []), ...(configTags[pkg.name] || [])]));
+  }
+  return tags;
+}
+
+/**
+ * Checks one dependency against every constraint that applies to the dependent package.
+ * Returns the first constraint broken and why.
+ */
+export function checkBoundary(
+  from: string,
+  to: string,
+  tags: Record<string, string[]>,
+  constraints: BoundaryConstraint[]
+): { constraint: BoundaryConstraint; message: string } | null {
+  const fromTags = tags[from] || [];
+  const toTags = tags[to] || [];
+
+  for (const constraint of constraints) {
+    if (!hasMatchingTag(fromTags, [constraint.sourceTag])) continue;
+    const source = constraint.sourceTag === '*' ? from : `${from} (${constraint.sourceTag})`;
+
+    if (constraint.notDependOnTags?.length && hasMatchingTag(toTags, constraint.notDependOnTags)) {
+      return {
+        constraint,
+        message: `${source} may not depend on packages tagged ${constraint.notDependOnTags.join(', ')}, but depends on ${to}`,
+      };
+    }
+    if (constraint.onlyDependOnTags && !hasMatchingTag(toTags, constraint.onlyDependOnTags)) {
+      return {
+        constraint,
+        message: `${source} may only depend on packages tagged ${constraint.onlyDependOnTags.join(', ') || '(none)'}, but depends on ${to}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the typed dependency graph, and undeclared workspace imports when source
+ * analysis is given, against the tag constraints
+ */
+export function validateBoundaries(
+  packages: PackageInfo[],
+  { tags: configTags, constraints = [], dependencyTypes = DEPENDENCY_KINDS, hygiene }: BoundaryOptions
+): BoundaryReport {
+  const tags = getPackageTags(packages, configTags);
+  const edges = getInternalEdges(packages, dependencyTypes);
+  const violations: BoundaryViolation[] = [];
+
+  for (const edge of edges) {
+    const broken = checkBoundary(edge.from, edge.to, tags, constraints);
+    if (broken) {
+      violations.push({ from: edge.from, to: edge.to, source: 'graph', type: edge.type, ...broken });
+    }
+  }
+
+  // Declared imports are already covered by their graph edge
+  let checkedImports = 0;
+  for (const result of hygiene?.packages || []) {
+    for (const usage of result.undeclaredInternal) {
+      checkedImports++;
+      const broken = checkBoundary(result.packageName, usage.name, tags, constraints);
+      if (broken) {
+        violations.push({
+          from: result.packageName,
+          to: usage.name,
+          source: 'import',
+          files: usage.files,
+          ...broken,
+        });
+      }
+    }
+  }
+
+  return {
+    tags,
+    constraints,
+    checkedEdges: edges.length,
+    checkedImports: hygiene ? checkedImports : null,
+    violations,
+  };
+}
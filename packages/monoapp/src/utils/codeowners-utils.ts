@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import path from 'path';
+import type { CodeownersFile, CodeownersRule, PackageInfo } from '../types';
+
+// Locations GitHub and GitLab look for the file, in lookup order
+export const CODEOWNERS_LOCATIONS = [
+  '.github/CODEOWNERS',
+  '.gitlab/CODEOWNERS',
+  'CODEOWNERS',
+  'docs/CODEOWNERS',
+];
+
+/**
+ * Parses GitHub and GitLab CODEOWNERS syntax. GitLab section headers
+ * ([Section], ^[Optional], [Section][2]) may list default owners that apply
+ * to rules of that section without owners of their own.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  let section: string | null = null;
+  let sectionOwners: string[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    // '\#' escapes a pattern starting with #, anything after an unescaped # is a comment
+    const line = rawLine.replace(/(^|[^\\])#.*$/, '$1').trim();
+    if (!line) return;
+
+    const header = line.match(/^\^?\[([^\]]+)\](?:\[\d+\])?\s*(.*)$/);
+    if (header) {
+      section = header[1].trim();
+      sectionOwners = header[2].split(/\s+/).filter(Boolean);
+      return;
+    }
+
+    const [pattern, ...owners] = line.split(/(?<!\\)\s+/);
+    rules.push({
+      pattern: pattern.replace(/\\(.)/g, '$1'),
+      owners: owners.length ? owners : sectionOwners,
+      section,
+      line: index + 1,
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * First CODEOWNERS file found in the standard locations, or null
+ */
+export function readCodeowners(rootPath: string): CodeownersFile | null {
+  for (const location of CODEOWNERS_LOCATIONS) {
+    try {
+      const content = fs.readFileSync(path.join(rootPath, location), 'utf8');
+      return { path: location, rules: parseCodeowners(content) };
+    } catch {
+      // Try the next location
+    }
+  }
+  return null;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  let body = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' matches zero or more directories, a trailing '**' everything below
+      if (pattern[i + 2] === '/') {
+        body += '(?:.*/)?';
+        i += 2;
+      } else {
+        body += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      body += '[^/]*';
+    } else if (char === '?') {
+      body += '[^/]';
+    } else {
+      body += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(body);
+}
+
+/**
+ * Whether a gitignore-style CODEOWNERS pattern matches a path relative to the
+ * repository root. A matching directory also matches everything below it.
+ */
+export function matchesCodeownersPattern(pattern: string, filePath: string, isDirectory = false): boolean {
+  const directoryOnly = pattern.endsWith('/');
+  let trimmed = pattern.replace(/\/+$/, '');
+  // Patterns with a slash before the end are relative to the root, others match at any depth
+  const anchored = trimmed.includes('/');
+  trimmed = trimmed.replace(/^\/+/, '');
+  if (!trimmed) {
+    return true;
+  }
+
+  const body = patternToRegExp(trimmed).source;
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const normalized = filePath.split(path.sep).join('/').replace(/^\/+|\/+$/g, '');
+
+  if (new RegExp(`${prefix}${body}/.+$`).test(normalized)) {
+    return true;
+  }
+  return (!directoryOnly || isDirectory) && new RegExp(`${prefix}${body}$`).test(normalized);
+}
+
+/**
+ * Effective owners of a path: the last matching rule wins. With GitLab
+ * sections the last match of every section applies, owners are combined.
+ */
+export function getOwnersForPath(rules: CodeownersRule[], filePath: string, isDirectory = false): string[] {
+  const lastMatches = new Map<string | null, CodeownersRule>();
+  for (const rule of rules) {
+    if (matchesCodeownersPattern(rule.pattern, filePath, isDirectory)) {
+      lastMatches.set(rule.section, rule);
+    }
+  }
+
+  const owners = new Set<string>();
+  lastMatches.forEach(rule => rule.owners.forEach(owner => owners.add(owner)));
+  return Array.from(owners);
+}
+
+/**
+ * Sets the CODEOWNERS owners of each package from the owners of its directory.
+ * Packages keep an empty list when there is no CODEOWNERS file.
+ */
+export function assignPackageOwners(rootPath: string, packages: PackageInfo[]): PackageInfo[] {
+  const codeowners = readCodeowners(rootPath);
+  for (const pkg of packages) {
+    const relativePath = path.relative(rootPath, path.resolve(rootPath, pkg.path));
+    pkg.owners = codeowners ? getOwnersForPath(codeowners.rules, relativePath, true) : [];
+  }
+  return packages;
+}
@@ -0,0 +1,323 @@
+import * as fs from 'fs';
+import path from 'path';
+import { AppLogger } from '../middleware/logger';
+import type {
+  CoverageFormat,
+  CoverageMetric,
+  CoverageReport,
+  CoverageTotals,
+  FileCoverage,
+} from '../types';
+
+type ParsedCoverage = Pick<CoverageReport, 'totals' | 'files'>;
+
+/**
+ * Report locations in the order they are looked up, relative to the package
+ */
+export const COVERAGE_REPORTS: Array<{ file: string; format: CoverageFormat }> = [
+  { file: 'coverage/coverage-summary.json', format: 'istanbul' },
+  { file: 'coverage/coverage-final.json', format: 'istanbul' },
+  { file: 'coverage/lcov.info', format: 'lcov' },
+  { file: 'lcov.info', format: 'lcov' },
+  { file: 'coverage/cobertura-coverage.xml', format: 'cobertura' },
+  { file: 'coverage/cobertura.xml', format: 'cobertura' },
+  { file: 'cobertura.xml', format: 'cobertura' },
+  { file: 'coverage/clover.xml', format: 'clover' },
+  { file: 'clover.xml', format: 'clover' },
+];
+
+const COVERAGE_KEYS: Array<keyof CoverageTotals> = ['lines', 'branches', 'functions', 'statements'];
+
+export function toMetric(total: number, covered: number): CoverageMetric {
+  return {
+    total,
+    covered,
+    pct: total ? Math.round((covered / total) * 10000) / 100 : 100,
+  };
+}
+
+const emptyTotals = (): CoverageTotals => ({
+  lines: toMetric(0, 0),
+  branches: toMetric(0, 0),
+  functions: toMetric(0, 0),
+  statements: toMetric(0, 0),
+});
+
+/**
+ * Sums the file metrics into report totals
+ */
+export function sumCoverage(files: CoverageTotals[]): CoverageTotals {
+  const totals = emptyTotals();
+  for (const key of COVERAGE_KEYS) {
+    const total = files.reduce((sum, file) => sum + file[key].total, 0);
+    const covered = files.reduce((sum, file) => sum + file[key].covered, 0);
+    totals[key] = toMetric(total, covered);
+  }
+  return totals;
+}
+
+/**
+ * Report paths are often absolute or relative to the directory tests ran in;
+ * they are stored relative to the package with forward slashes.
+ */
+function toPackagePath(file: string, baseDir: string): string {
+  const absolute = path.isAbsolute(file) ? file : path.resolve(baseDir, file);
+  return path.relative(baseDir, absolute).split(path.sep).join('/');
+}
+
+function finishReport(files: FileCoverage[]): ParsedCoverage {
+  const sorted = [...files].sort((a, b) => a.file.localeCompare(b.file));
+  return { totals: sumCoverage(sorted), files: sorted };
+}
+
+/**
+ * Parses an lcov tracefile. Missing summary lines (LF, BRF, FNF) are counted
+ * from the DA, BRDA and FNDA records. lcov has no statements, so they mirror
+ * the lines.
+ */
+export function parseLcov(content: string, baseDir: string): ParsedCoverage {
+  const files: FileCoverage[] = [];
+  for (const record of content.split(/^end_of_record\s*$/m)) {
+    const fields = new Map<string, string[]>();
+    for (const line of record.split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+      const key = line.slice(0, separator).trim();
+      fields.set(key, [...(fields.get(key) ?? []), line.slice(separator + 1).trim()]);
+    }
+    const sourceFile = fields.get('SF')?.[0];
+    if (!sourceFile) continue;
+
+    const summary = (key: string) => {
+      const value = fields.get(key)?.[0];
+      return value === undefined ? undefined : Number(value);
+    };
+    const counts = (key: string, isCovered: (parts: string[]) => boolean) => {
+      const records = (fields.get(key) ?? []).map(value => value.split(','));
+      return { total: records.length, covered: records.filter(isCovered).length };
+    };
+
+    const lineCounts = counts('DA', parts => Number(parts[1]) > 0);
+    const branchCounts = counts('BRDA', parts => parts[3] !== '-' && Number(parts[3]) > 0);
+    const functionCounts = counts('FNDA', parts => Number(parts[0]) > 0);
+    const lines = toMetric(summary('LF') ?? lineCounts.total, summary('LH') ?? lineCounts.covered);
+
+    files.push({
+      file: toPackagePath(sourceFile, baseDir),
+      lines,
+      branches: toMetric(summary('BRF') ?? branchCounts.total, summary('BRH') ?? branchCounts.covered),
+      functions: toMetric(summary('FNF') ?? functionCounts.total, summary('FNH') ?? functionCounts.covered),
+      statements: lines,
+    });
+  }
+  return finishReport(files);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(tag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    result[match[1]] = decodeXml(match[2]);
+  }
+  return result;
+}
+
+/**
+ * Elements of a tag name with their attributes and inner markup, empty for
+ * self-closing elements
+ */
+function elements(xml: string, name: string): Array<{ attrs: Record<string, string>; body: string }> {
+  const pattern = new RegExp(`<${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => ({
+    attrs: attributes(match[1]),
+    body: match[2] ?? '',
+  }));
+}
+
+/**
+ * Parses a Cobertura XML report. Classes of the same file are merged, file
+ * names are resolved against the first source directory. Cobertura has no
+ * statements, so they mirror the lines.
+ */
+export function parseCobertura(content: string, baseDir: string): ParsedCoverage {
+  const [source] = elements(content, 'source').map(({ body }) => decodeXml(body.trim()));
+  const sourceDir = source ? path.resolve(baseDir, source) : baseDir;
+  const byFile = new Map<string, { lines: Map<number, boolean>; branches: [number, number]; functions: [number, number] }>();
+
+  for (const { attrs, body } of elements(content, 'class')) {
+    if (!attrs.filename) continue;
+    const file = toPackagePath(path.resolve(sourceDir, attrs.filename), baseDir);
+    const entry = byFile.get(file) ?? { lines: new Map(), branches: [0, 0], functions: [0, 0] };
+    byFile.set(file, entry);
+
+    for (const method of elements(body, 'method')) {
+      const methodLines = elements(method.body, 'line');
+      const hit = methodLines.length
+        ? methodLines.some(line => Number(line.attrs.hits) > 0)
+        : Number(method.attrs['line-rate']) > 0;
+      entry.functions = [entry.functions[0] + 1, entry.functions[1] + (hit ? 1 : 0)];
+    }
+
+    const classLines = body.replace(/<methods\b[\s\S]*?<\/methods>/g, '');
+    for (const { attrs: line } of elements(classLines, 'line')) {
+      const number = Number(line.number);
+      entry.lines.set(number, entry.lines.get(number) || Number(line.hits) > 0);
+      const conditions = /\((\d+)\/(\d+)\)/.exec(line['condition-coverage'] ?? '');
+      if (line.branch === 'true' && conditions) {
+        entry.branches = [entry.branches[0] + Number(conditions[2]), entry.branches[1] + Number(conditions[1])];
+      }
+    }
+  }
+
+  const files = Array.from(byFile, ([file, entry]) => {
+    const lines = toMetric(entry.lines.size, Array.from(entry.lines.values()).filter(Boolean).length);
+    return {
+      file,
+      lines,
+      branches: toMetric(entry.branches[0], entry.branches[1]),
+      functions: toMetric(entry.functions[0], entry.functions[1]),
+      statements: lines,
+    };
+  });
+  return finishReport(files);
+}
+
+/**
+ * Parses a Clover XML report. Statements, branches and functions come from
+ * the metrics of each file, lines are counted from its line elements.
+ */
+export function parseClover(content: string, baseDir: string): ParsedCoverage {
+  const files: FileCoverage[] = [];
+  for (const { attrs, body } of elements(content, 'file')) {
+    const sourceFile = attrs.path || attrs.name;
+    if (!sourceFile) continue;
+    const [metrics] = elements(body, 'metrics').map(metric => metric.attrs);
+    const metric = (total: string, covered: string) =>
+      toMetric(Number(metrics?.[total] ?? 0), Number(metrics?.[covered] ?? 0));
+
+    const lines = new Map<number, boolean>();
+    for (const { attrs: line } of elements(body, 'line')) {
+      if (line.type === 'method') continue;
+      const number = Number(line.num);
+      lines.set(number, lines.get(number) || Number(line.count) > 0);
+    }
+
+    files.push({
+      file: toPackagePath(sourceFile, baseDir),
+      lines: toMetric(lines.size, Array.from(lines.values()).filter(Boolean).length),
+      branches: metric('conditionals', 'coveredconditionals'),
+      functions: metric('methods', 'coveredmethods'),
+      statements: metric('statements', 'coveredstatements'),
+    });
+  }
+  return finishReport(files);
+}
+
+/**
+ * Counts one file of an Istanbul coverage-final.json. Lines are the start
+ * lines of statements, covered when any statement on them ran.
+ */
+function countIstanbulFile(data: {
+  statementMap?: Record<string, { start: { line: number } }>;
+  s?: Record<string, number>;
+  f?: Record<string, number>;
+  b?: Record<string, number[]>;
+}): CoverageTotals {
+  const statementHits = Object.entries(data.s ?? {});
+  const lines = new Map<number, boolean>();
+  for (const [id, hits] of statementHits) {
+    const line = data.statementMap?.[id]?.start.line;
+    if (line !== undefined) {
+      lines.set(line, lines.get(line) || hits > 0);
+    }
+  }
+  const functionHits = Object.values(data.f ?? {});
+  const branchHits = Object.values(data.b ?? {}).flat();
+
+  return {
+    lines: toMetric(lines.size, Array.from(lines.values()).filter(Boolean).length),
+    branches: toMetric(branchHits.length, branchHits.filter(hits => hits > 0).length),
+    functions: toMetric(functionHits.length, functionHits.filter(hits => hits > 0).length),
+    statements: toMetric(statementHits.length, statementHits.filter(([, hits]) => hits > 0).length),
+  };
+}
+
+/**
+ * Metric of a coverage-summary.json entry. Counts are preferred; a summary
+ * written without them keeps its percentage.
+ */
+function summaryMetric(value?: { total?: number; covered?: number; pct?: number | string }): CoverageMetric {
+  if (typeof value?.total === 'number') {
+    return toMetric(value.total, Number(value.covered ?? 0));
+  }
+  return typeof value?.pct === 'number' ? { total: 0, covered: 0, pct: value.pct } : toMetric(0, 0);
+}
+
+/**
+ * Parses Istanbul JSON output, either a coverage-summary.json or the raw
+ * hit counts of a coverage-final.json
+ */
+export function parseIstanbulJson(content: string, baseDir: string): ParsedCoverage {
+  const data = JSON.parse(content);
+  if (!data || typeof data !== 'object') {
+    throw new Error('Istanbul coverage must be a JSON object');
+  }
+
+  const files: FileCoverage[] = [];
+  for (const [key, value] of Object.entries<Record<string, any>>(data)) {
+    if (key === 'total' || !value || typeof value !== 'object') continue;
+
+    if (value.statementMap) {
+      files.push({ file: toPackagePath(value.path ?? key, baseDir), ...countIstanbulFile(value) });
+      continue;
+    }
+    const summary = emptyTotals();
+    for (const metric of COVERAGE_KEYS) {
+      summary[metric] = summaryMetric(value[metric]);
+    }
+    files.push({ file: toPackagePath(key, baseDir), ...summary });
+  }
+
+  const report = finishReport(files);
+  // A summary may list only the total
+  if (data.total && !files.length) {
+    for (const metric of COVERAGE_KEYS) {
+      report.totals[metric] = summaryMetric(data.total[metric]);
+    }
+  }
+  return report;
+}
+
+const PARSERS: Record<CoverageFormat, (content: string, baseDir: string) => ParsedCoverage> = {
+  istanbul: parseIstanbulJson,
+  lcov: parseLcov,
+  cobertura: parseCobertura,
+  clover: parseClover,
+};
+
+/**
+ * Reads the first coverage report found in a package directory. A report
+ * that fails to parse is skipped in favour of the next one. Returns null when
+ * the package has no readable report.
+ */
+export function readCoverageReport(packagePath: string): CoverageReport | null {
+  for (const { file, format } of COVERAGE_REPORTS) {
+    const reportPath = path.join(packagePath, file);
+    if (!fs.existsSync(reportPath)) continue;
+    try {
+      const parsed = PARSERS[format](fs.readFileSync(reportPath, 'utf8'), packagePath);
+      return { format, reportPath: file, ...parsed };
+    } catch (error) {
+      AppLogger.warn(`Could not parse ${format} coverage report ${reportPath}: ${error}`);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import path from 'path';
+
+/**
+ * Directories that are never descended into while resolving globs
+ */
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * Expands brace sets into individual patterns
+ * e.g. 'apps/{web,api}/*' -> ['apps/web/*', 'apps/api/*']
+ */
+function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        const prefix = pattern.slice(0, start);
+        const suffix = pattern.slice(i + 1);
+        const options = splitBraceOptions(pattern.slice(start + 1, i));
+
+        // A brace without a comma is literal text
+        if (options.length < 2) {
+          return expandBraces(suffix).map(
+            rest => `${prefix}{${options[0] ?? ''}}${rest}`
+          );
+        }
+
+        const expanded: string[] = [];
+        for (const option of options) {
+          expanded.push(...expandBraces(prefix + option + suffix));
+        }
+        return expanded;
+      }
+    }
+  }
+
+  return [pattern];
+}
+
+/**
+ * Splits the body of a brace set on top-level commas
+ */
+function splitBraceOptions(body: string): string[] {
+  const options: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      options.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    current += char;
+  }
+  options.push(current);
+
+  return options;
+}
+
+/**
+ * Converts a single path segment pattern into a regular expression source
+ */
+function segmentToRegExpSource(segment: string): string {
+  let source = '';
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = segment.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        let set = segment.slice(i + 1, close);
+        if (set.startsWith('!')) set = '^' + set.slice(1);
+        source += `[${set.replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Normalizes a glob/path into forward-slash segments without leading './' or trailing '/'
+ */
+function toSegments(value: string): string[] {
+  return value
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment, index) => segment !== '' && !(segment === '.' && index === 0));
+}
+
+/**
+ * Converts a glob pattern into a regular expression matching relative posix paths.
+ * Supports '**', '*', '?', character classes and brace sets.
+ * A trailing '/**' also matches the directory itself.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const sources = expandBraces(pattern).map(expanded => {
+    // Consecutive globstars are equivalent to a single one
+    const segments = toSegments(expanded).filter(
+      (segment, index, all) => !(segment === '**' && all[index - 1] === '**')
+    );
+    let source = '';
+
+    segments.forEach((segment, index) => {
+      const isLast = index === segments.length - 1;
+      if (segment === '**') {
+        source += isLast ? '(?:/.*)?' : '(?:/[^/]+)*';
+      } else {
+        source += (index === 0 ? '' : '/') + segmentToRegExpSource(segment);
+      }
+    });
+
+    // Patterns starting with '**' must not require a leading separator
+    if (source.startsWith('(?:/[^/]+)*')) {
+      source = '(?:[^/]+/)*' + source.slice('(?:/[^/]+)*/'.length);
+    } else if (source.startsWith('(?:/.*)?')) {
+      source = '.*';
+    }
+
+    return source;
+  });
+
+  return new RegExp(`^(?:${sources.join('|')})$`);
+}
+
+/**
+ * Tests whether a relative path matches a glob pattern
+ */
+export function matchGlob(relativePath: string, pattern: string): boolean {
+  const normalized = toSegments(relativePath).join('/');
+  return globToRegExp(pattern).test(normalized);
+}
+
+/**
+ * Walks the file system segment by segment and collects directories matching the pattern
+ */
+function collectMatchingDirectories(
+  rootDir: string,
+  segments: string[],
+  current: string,
+  results: Set<string>,
+  visited: Set<string>
+): void {
+  const visitKey = `${current}\0${segments.join('/')}`;
+  if (visited.has(visitKey)) return;
+  visited.add(visitKey);
+
+  if (segments.length === 0) {
+    if (current) results.add(current);
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  const currentPath = path.join(rootDir, current);
+
+  if (segment === '**') {
+    // '**' matches zero directories...
+    collectMatchingDirectories(rootDir, rest, current, results, visited);
+    // ...or any number of nested directories
+    for (const child of listDirectories(currentPath, false)) {
+      collectMatchingDirectories(
+        rootDir,
+        segments,
+        joinRelative(current, child),
+        results,
+        visited
+      );
+    }
+    return;
+  }
+
+  const hasMagic = /[*?[]/.test(segment);
+  if (!hasMagic) {
+    if (IGNORED_DIRECTORIES.includes(segment)) return;
+    const nextPath = path.join(currentPath, segment);
+    if (isDirectory(nextPath)) {
+      collectMatchingDirectories(
+        rootDir,
+        rest,
+        joinRelative(current, segment),
+        results,
+        visited
+      );
+    }
+    return;
+  }
+
+  const matcher = new RegExp(`^${segmentToRegExpSource(segment)}$`);
+  for (const child of listDirectories(currentPath, segment.startsWith('.'))) {
+    if (matcher.test(child)) {
+      collectMatchingDirectories(
+        rootDir,
+        rest,
+        joinRelative(current, child),
+        results,
+        visited
+      );
+    }
+  }
+}
+
+function joinRelative(base: string, child: string): string {
+  return base ? `${base}/${child}` : child;
+}
+
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Lists sub directories, skipping ignored and (unless requested) hidden ones
+ */
+function listDirectories(dirPath: string, includeHidden: boolean): string[] {
+  try {
+    return fs
+      .readdirSync(dirPath, { withFileTypes: true })
+      .filter(dirent => dirent.isDirectory())
+      .map(dirent => dirent.name)
+      .filter(
+        name =>
+          !IGNORED_DIRECTORIES.includes(name) &&
+          (includeHidden || !name.startsWith('.'))
+      );
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Resolves an ordered list of globs into matching directories relative to rootDir.
+ * Patterns prefixed with '!' remove previously matched directories; later positive
+ * patterns can add them back. Results are de-duplicated and keep discovery order.
+ */
+export function resolveDirectoryGlobs(rootDir: string, globs: string[]): string[] {
+  const matched = new Set<string>();
+
+  for (const rawGlob of globs) {
+    const glob = rawGlob.trim();
+    if (!glob) continue;
+
+    if (glob.startsWith('!')) {
+      const negation = glob.slice(1);
+      for (const dir of Array.from(matched)) {
+        if (matchGlob(dir, negation)) {
+          matched.delete(dir);
+        }
+      }
+      continue;
+    }
+
+    for (const expanded of expandBraces(glob)) {
+      const found = new Set<string>();
+      collectMatchingDirectories(rootDir, toSegments(expanded), '', found, new Set());
+      found.forEach(dir => matched.add(dir));
+    }
+  }
+
+  return Array.from(matched);
+}
+
+export { expandBraces };
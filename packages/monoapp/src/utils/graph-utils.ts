@@ -0,0 +1,160 @@
+import type {
+  BuildCycle,
+  BuildOrder,
+  DependencyKind,
+  GraphEdge,
+  PackageInfo,
+} from '../types';
+import { isWorkspaceProtocol, satisfiesLocalVersion } from './semver-utils';
+
+export const DEPENDENCY_KINDS: DependencyKind[] = ['prod', 'dev', 'peer', 'optional'];
+
+export const DEPENDENCY_FIELDS: Record<DependencyKind, keyof PackageInfo> = {
+  prod: 'dependencies',
+  dev: 'devDependencies',
+  peer: 'peerDependencies',
+  optional: 'optionalDependencies',
+};
+
+/**
+ * Collects typed edges between workspace packages for the given dependency
+ * types, with the declared range checked against the local package version
+ */
+export function getInternalEdges(
+  packages: PackageInfo[],
+  dependencyTypes: DependencyKind[] = DEPENDENCY_KINDS
+): GraphEdge[] {
+  const versions = new Map(packages.map(pkg => [pkg.name, pkg.version]));
+  const edges: GraphEdge[] = [];
+
+  for (const pkg of packages) {
+    for (const type of dependencyTypes) {
+      const declared = (pkg[DEPENDENCY_FIELDS[type]] || {}) as Record<string, string>;
+      Object.entries(declared).forEach(([depName, range]) => {
+        const localVersion = versions.get(depName);
+        if (localVersion !== undefined) {
+          edges.push({
+            from: pkg.name,
+            to: depName,
+            type,
+            range,
+            workspaceProtocol: isWorkspaceProtocol(range),
+            satisfies: satisfiesLocalVersion(range, localVersion),
+          });
+        }
+      });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Tarjan's algorithm restricted to the given nodes; returns components that
+ * form a cycle (more than one package, or a package depending on itself)
+ */
+function findCycles(nodes: string[], edges: GraphEdge[]): BuildCycle[] {
+  const nodeSet = new Set(nodes);
+  const adjacency = new Map<string, string[]>();
+  nodes.forEach(node => adjacency.set(node, []));
+  edges
+    .filter(edge => nodeSet.has(edge.from) && nodeSet.has(edge.to))
+    .forEach(edge => adjacency.get(edge.from)!.push(edge.to));
+
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const strongConnect = (node: string): void => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of adjacency.get(node) || []) {
+      if (!indices.has(next)) {
+        strongConnect(next);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  nodes.forEach(node => {
+    if (!indices.has(node)) strongConnect(node);
+  });
+
+  return components
+    .filter(
+      component =>
+        component.length > 1 ||
+        edges.some(edge => edge.from === component[0] && edge.to === component[0])
+    )
+    .map(component => {
+      const members = new Set(component);
+      return {
+        packages: component.sort(),
+        edges: edges.filter(edge => members.has(edge.from) && members.has(edge.to)),
+      };
+    });
+}
+
+/**
+ * Orders packages into topological layers: every package only depends on
+ * packages in earlier layers, so a layer can build in parallel. Packages that
+ * cannot be ordered are reported as blocking cycles or as blocked behind them.
+ */
+export function computeBuildOrder(
+  packages: PackageInfo[],
+  dependencyTypes: DependencyKind[] = DEPENDENCY_KINDS
+): BuildOrder {
+  const edges = getInternalEdges(packages, dependencyTypes);
+  const pendingDeps = new Map<string, Set<string>>();
+  packages.forEach(pkg => pendingDeps.set(pkg.name, new Set()));
+  edges.forEach(edge => pendingDeps.get(edge.from)!.add(edge.to));
+
+  const layers: string[][] = [];
+  const ordered = new Set<string>();
+
+  for (;;) {
+    const layer = Array.from(pendingDeps.keys())
+      .filter(name => !ordered.has(name))
+      .filter(name => Array.from(pendingDeps.get(name)!).every(dep => ordered.has(dep)))
+      .sort();
+    if (!layer.length) break;
+    layer.forEach(name => ordered.add(name));
+    layers.push(layer);
+  }
+
+  const remaining = Array.from(pendingDeps.keys()).filter(name => !ordered.has(name));
+  const cycles = findCycles(remaining, edges);
+  const inCycle = new Set(cycles.flatMap(cycle => cycle.packages));
+
+  const blocked = remaining
+    .filter(name => !inCycle.has(name))
+    .sort()
+    .map(name => ({
+      name,
+      waitingOn: Array.from(pendingDeps.get(name)!)
+        .filter(dep => !ordered.has(dep))
+        .sort(),
+    }));
+
+  return { dependencyTypes, layers, cycles, blocked };
+}
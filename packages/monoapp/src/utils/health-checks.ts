@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import path from 'path';
+import { AppLogger } from '../middleware/logger';
+import { readCoverageReport } from './coverage-utils';
+import { getOutcomeScore } from './health-utils';
+import { applyCheckOverrides } from './health-policy-utils';
+import { funAuditPackage, funRunPackageScript, funTypeCheckPackage } from './monorepo-scanner';
+import { findOfflineAdvisories, scoreAdvisories } from './advisory-utils';
+import { getDeclaredDependencies, resolveDependencyStatuses, summarizeDependencyStatus } from './outdated-utils';
+
+import type {
+  Advisory,
+  CommandOutput,
+  CustomHealthCheckConfig,
+  HealthCheck,
+  HealthCheckContext,
+  HealthCheckOutcome,
+  HealthCheckResult,
+  HealthConfig,
+  PackageInfo,
+} from '../types';
+
+// Command limits of checks without a configured timeoutMs
+const BUILD_TIMEOUT_MS = 120000;
+const LINT_TIMEOUT_MS = 60000;
+const AUDIT_TIMEOUT_MS = 30000;
+const TYPECHECK_TIMEOUT_MS = 120000;
+const DEFAULT_SCRIPT_TIMEOUT_MS = 60000;
+
+// Coverage at or above these percentages passes or warns, below fails
+const COVERAGE_PASS_PERCENT = 80;
+const COVERAGE_WARN_PERCENT = 50;
+
+function commandOptions(context: HealthCheckContext, defaultTimeoutMs: number) {
+  return { timeoutMs: context.timeoutMs ?? defaultTimeoutMs, signal: context.signal };
+}
+
+function describeFailure(script: string, output: CommandOutput): string {
+  if (output.timedOut) {
+    return `${script} script timed out after ${Math.round(output.durationMs / 1000)}s`;
+  }
+  return output.exitCode === null
+    ? `${script} script did not finish`
+    : `${script} script failed with exit code ${output.exitCode}`;
+}
+
+/**
+ * Check passing when a package script exits with 0. The output of a failed
+ * run is kept so the dashboard can show why it failed.
+ */
+async function runScriptCheck(
+  pkg: PackageInfo,
+  script: string,
+  options: { timeoutMs: number; signal?: AbortSignal }
+): Promise<HealthCheckOutcome> {
+  const output = await funRunPackageScript(pkg, script, options);
+  if (!output) return { status: 'skip', message: `No ${script} script` };
+  if (output.exitCode === 0) return { status: 'pass' };
+  return { status: 'fail', message: describeFailure(script, output), output };
+}
+
+const buildCheck: HealthCheck = {
+  id: 'build',
+  name: 'Build',
+  weight: 30,
+  run: (pkg, context) => runScriptCheck(pkg, 'build', commandOptions(context, BUILD_TIMEOUT_MS)),
+};
+
+const coverageCheck: HealthCheck = {
+  id: 'coverage',
+  name: 'Test Coverage',
+  weight: 25,
+  run: async (pkg, context) => {
+    const report = context.coverageReports?.has(pkg.name)
+      ? context.coverageReports.get(pkg.name)
+      : readCoverageReport(pkg.path);
+    if (!report) {
+      return { status: 'skip', message: 'No coverage report' };
+    }
+    const { lines, branches, functions } = report.totals;
+    return {
+      status: lines.pct >= COVERAGE_PASS_PERCENT ? 'pass' : lines.pct >= COVERAGE_WARN_PERCENT ? 'warn' : 'fail',
+      score: lines.pct / 100,
+      value: lines.pct,
+      message: `Lines ${lines.pct}%, branches ${branches.pct}%, functions ${functions.pct}% (${report.format})`,
+    };
+  },
+};
+
+const lintCheck: HealthCheck = {
+  id: 'lint',
+  name: 'Lint',
+  weight: 25,
+  run: (pkg, context) => runScriptCheck(pkg, 'lint', commandOptions(context, LINT_TIMEOUT_MS)),
+};
+
+const typecheckCheck: HealthCheck = {
+  id: 'typecheck',
+  name: 'Type Check',
+  weight: 20,
+  run: async (pkg, context) => {
+    const result = await funTypeCheckPackage(pkg, commandOptions(context, TYPECHECK_TIMEOUT_MS));
+    if (!result) return { status: 'skip', message: 'No tsconfig.json' };
+
+    const { report, output } = result;
+    if (output.timedOut) {
+      return { status: 'fail', message: `tsc timed out after ${Math.round(output.durationMs / 1000)}s`, output };
+    }
+    if (!report) return { status: 'skip', message: 'tsc could not run', output };
+    context.typeChecks?.set(pkg.name, report);
+
+    const { errorCount, warningCount } = report;
+    const message = `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`;
+    if (errorCount > 0) return { status: 'fail', value: errorCount, message };
+    if (warningCount > 0) return { status: 'warn', value: 0, message };
+    return { status: 'pass', value: 0 };
+  },
+};
+
+const securityCheck: HealthCheck = {
+  id: 'security',
+  name: 'Security',
+  weight: 20,
+  run: async (pkg, context) => {
+    // Dependencies under a disallowed license fail the security check like advisories do
+    const licenseViolation = context.licenseViolationPackages?.has(pkg.name);
+    let advisories: Advisory[];
+    try {
+      advisories = context.advisoryDatabase
+        ? findOfflineAdvisories(pkg, context.advisoryDatabase)
+        : await funAuditPackage(pkg, context.rootDir, commandOptions(context, AUDIT_TIMEOUT_MS));
+    } catch (error) {
+      AppLogger.warn(`Audit failed for ${pkg.name}: ${error}`);
+      return licenseViolation
+        ? { status: 'fail', message: 'Depends on a disallowed license' }
+        : { status: 'skip', message: 'Audit could not run' };
+    }
+    context.advisories?.set(pkg.name, advisories);
+
+    const outcome = scoreAdvisories(advisories, context.severityWeights);
+    if (licenseViolation) {
+      const message = outcome.message ? `Depends on a disallowed license; ${outcome.message}` : 'Depends on a disallowed license';
+      return { status: 'fail', score: 0, value: outcome.value, message };
+    }
+    return outcome;
+  },
+};
+
+const dependenciesCheck: HealthCheck = {
+  id: 'dependencies',
+  name: 'Dependencies',
+  weight: 10,
+  run: async (pkg, context) => {
+    const dependencies =
+      context.resolvedDependencies?.get(pkg.name) ??
+      (await resolveDependencyStatuses(getDeclaredDependencies(pkg)));
+    const status = summarizeDependencyStatus(dependencies);
+    switch (status) {
+      case 'up-to-date':
+        return { status: 'pass', value: status };
+      case 'outdated':
+        return { status: 'warn', score: 0.6, value: status };
+      case 'major-update':
+        return { status: 'warn', score: 0.2, value: status };
+      default:
+        return { status: 'skip', value: status, message: 'Registry versions unavailable' };
+    }
+  },
+};
+
+/**
+ * Registered checks in reporting order
+ */
+const healthChecks: HealthCheck[] = [
+  buildCheck,
+  coverageCheck,
+  lintCheck,
+  typecheckCheck,
+  securityCheck,
+  dependenciesCheck,
+];
+
+/**
+ * Registers a health check; a check with the same id is replaced
+ */
+export function registerHealthCheck(check: HealthCheck): void {
+  const existingIndex = healthChecks.findIndex(c => c.id === check.id);
+  if (existingIndex !== -1) {
+    healthChecks.splice(existingIndex, 1, check);
+  } else {
+    healthChecks.push(check);
+  }
+}
+
+/**
+ * Builds a check from a health.customChecks entry of monodog-config.json
+ */
+export function createCustomHealthCheck(config: CustomHealthCheckConfig): HealthCheck {
+  const base = { id: config.id, weight: config.weight ?? 10 };
+
+  if (config.type === 'script') {
+    return {
+      ...base,
+      name: config.name ?? `Script: ${config.script}`,
+      timeoutMs: config.timeoutMs,
+      run: (pkg, context) =>
+        runScriptCheck(pkg, config.script, commandOptions(context, DEFAULT_SCRIPT_TIMEOUT_MS)),
+    };
+  }
+
+  return {
+    ...base,
+    name: config.name ?? `File: ${config.path}`,
+    run: async pkg =>
+      fs.existsSync(path.join(pkg.path, config.path))
+        ? { status: 'pass' }
+        : { status: 'fail', message: `${config.path} is missing` },
+  };
+}
+
+/**
+ * Registered and custom checks with the enabled and weight overrides of the
+ * health config applied. Disabled checks are left out.
+ */
+export function getHealthChecks(config: HealthConfig = {}): HealthCheck[] {
+  const checks = [...healthChecks];
+  for (const custom of config.customChecks ?? []) {
+    if (!custom.id || !['script', 'file-exists'].includes(custom.type)) {
+      AppLogger.warn(`Ignoring invalid custom health check ${JSON.stringify(custom)}`);
+      continue;
+    }
+    const existingIndex = checks.findIndex(check => check.id === custom.id);
+    if (existingIndex !== -1) {
+      AppLogger.warn(`Custom health check ${custom.id} replaces the check with the same id`);
+      checks.splice(existingIndex, 1);
+    }
+    checks.push(createCustomHealthCheck(custom));
+  }
+
+  return applyCheckOverrides(checks, config.checks);
+}
+
+/**
+ * Runs checks one after another for a package. A check that throws is
+ * reported as skipped so it does not count against the package.
+ */
+export async function runHealthChecks(
+  pkg: PackageInfo,
+  checks: HealthCheck[],
+  context: HealthCheckContext
+): Promise<HealthCheckResult[]> {
+  const results: HealthCheckResult[] = [];
+  for (const check of checks) {
+    let outcome: HealthCheckOutcome;
+    try {
+      outcome = await check.run(pkg, { ...context, timeoutMs: check.timeoutMs });
+    } catch (error) {
+      AppLogger.warn(`Health check ${check.id} failed to run for ${pkg.name}: ${error}`);
+      outcome = { status: 'skip', message: 'Check failed to run' };
+    }
+    results.push({
+      ...outcome,
+      id: check.id,
+      name: check.name,
+      weight: check.weight,
+      score: outcome.status === 'skip' ? 0 : getOutcomeScore(outcome),
+    });
+  }
+  return results;
+}
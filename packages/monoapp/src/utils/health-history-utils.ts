@@ -0,0 +1,97 @@
+import { DEFAULT_HEALTH_THRESHOLDS } from './health-policy-utils';
+import type { HealthCheckResult, HealthSnapshot, HealthTrend } from '../types';
+
+// Score changes smaller than this many points are reported as stable
+export const STABLE_TREND_THRESHOLD = 1;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Snapshot of one package from the results of a refresh. Skipped checks are
+ * left out of the check scores. Whether the package is healthy depends on the
+ * thresholds of its policy, the default ones when not given.
+ */
+export function buildPackageSnapshot(
+  packageName: string,
+  overallScore: number,
+  results: HealthCheckResult[],
+  createdAt: Date,
+  healthy: boolean = overallScore >= DEFAULT_HEALTH_THRESHOLDS.healthy
+): HealthSnapshot {
+  const checkScores: Record<string, number> = {};
+  results
+    .filter(result => result.status !== 'skip')
+    .forEach(result => {
+      checkScores[result.id] = result.score;
+    });
+
+  return {
+    packageName,
+    overallScore,
+    checkScores,
+    packageCount: 1,
+    healthyCount: healthy ? 1 : 0,
+    createdAt,
+  };
+}
+
+/**
+ * Monorepo snapshot averaging the package snapshots of the same refresh. Each
+ * check is averaged over the packages it ran for.
+ */
+export function buildRepositorySnapshot(packageSnapshots: HealthSnapshot[], createdAt: Date): HealthSnapshot {
+  const totals = new Map<string, { sum: number; count: number }>();
+  for (const snapshot of packageSnapshots) {
+    Object.entries(snapshot.checkScores).forEach(([id, score]) => {
+      const total = totals.get(id) ?? { sum: 0, count: 0 };
+      totals.set(id, { sum: total.sum + score, count: total.count + 1 });
+    });
+  }
+
+  const checkScores: Record<string, number> = {};
+  totals.forEach(({ sum, count }, id) => {
+    checkScores[id] = round(sum / count);
+  });
+
+  const packageCount = packageSnapshots.length;
+  return {
+    packageName: null,
+    overallScore: packageCount
+      ? round(packageSnapshots.reduce((sum, snapshot) => sum + snapshot.overallScore, 0) / packageCount)
+      : 0,
+    checkScores,
+    packageCount,
+    healthyCount: packageSnapshots.reduce((sum, snapshot) => sum + snapshot.healthyCount, 0),
+    createdAt,
+  };
+}
+
+/**
+ * Score changes across snapshots ordered oldest first
+ */
+export function calculateHealthTrend(packageName: string | null, snapshots: HealthSnapshot[]): HealthTrend {
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+  const previous = snapshots[snapshots.length - 2];
+  const delta = first && latest ? round(latest.overallScore - first.overallScore) : 0;
+
+  const checkDeltas: Record<string, number> = {};
+  if (first && latest) {
+    Object.entries(latest.checkScores).forEach(([id, score]) => {
+      if (first.checkScores[id] !== undefined) {
+        checkDeltas[id] = round(score - first.checkScores[id]);
+      }
+    });
+  }
+
+  return {
+    packageName,
+    snapshotCount: snapshots.length,
+    first: first?.overallScore ?? null,
+    latest: latest?.overallScore ?? null,
+    delta,
+    previousDelta: previous && latest ? round(latest.overallScore - previous.overallScore) : 0,
+    direction: Math.abs(delta) < STABLE_TREND_THRESHOLD ? 'stable' : delta > 0 ? 'up' : 'down',
+    checkDeltas,
+  };
+}
@@ -0,0 +1,110 @@
+import { matchesTag } from './boundary-utils';
+import { matchGlob } from './glob-utils';
+import type {
+  HealthCheck,
+  HealthCheckOverrides,
+  HealthCheckPolicy,
+  HealthConfig,
+  HealthLevel,
+  HealthPolicyConfig,
+  HealthThresholds,
+} from '../types';
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = { healthy: 80, warning: 60 };
+
+const clampScore = (value: number) => Math.min(100, Math.max(0, value));
+
+/**
+ * Defaults with each set of overrides applied in turn. The warning threshold
+ * never exceeds the healthy one.
+ */
+export function resolveThresholds(...overrides: Array<Partial<HealthThresholds> | undefined>): HealthThresholds {
+  const merged = Object.assign({}, DEFAULT_HEALTH_THRESHOLDS, ...overrides.filter(Boolean));
+  const healthy = clampScore(merged.healthy);
+  return { healthy, warning: Math.min(healthy, clampScore(merged.warning)) };
+}
+
+/**
+ * Level of an overall score under the given thresholds
+ */
+export function getHealthLevel(score: number, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): HealthLevel {
+  if (score >= thresholds.healthy) return 'healthy';
+  if (score >= thresholds.warning) return 'warning';
+  return 'error';
+}
+
+/**
+ * Name reported for a policy, its position when it has none
+ */
+export function getPolicyName(policy: HealthPolicyConfig, index: number): string {
+  return policy.name || `policies[${index}]`;
+}
+
+/**
+ * Whether a policy applies to a package, by name pattern or by tag
+ */
+export function matchesHealthPolicy(policy: HealthPolicyConfig, packageName: string, tags: string[] = []): boolean {
+  return (
+    (policy.packages ?? []).some(pattern => matchGlob(packageName, pattern)) ||
+    (policy.tags ?? []).some(pattern => pattern === '*' || tags.some(tag => matchesTag(tag, pattern)))
+  );
+}
+
+/**
+ * Check overrides and thresholds of a package: the repository settings with
+ * every matching policy applied in order
+ */
+export function resolvePackageHealthPolicy(
+  config: HealthConfig = {},
+  packageName: string,
+  tags: string[] = []
+): { policies: string[]; thresholds: HealthThresholds; checks: HealthCheckOverrides } {
+  const matching = (config.policies ?? [])
+    .map((policy, index) => ({ policy, name: getPolicyName(policy, index) }))
+    .filter(({ policy }) => matchesHealthPolicy(policy, packageName, tags));
+
+  const checks: HealthCheckOverrides = { ...config.checks };
+  for (const { policy } of matching) {
+    Object.entries(policy.checks ?? {}).forEach(([id, override]) => {
+      checks[id] = { ...checks[id], ...override };
+    });
+  }
+
+  return {
+    policies: matching.map(({ name }) => name),
+    thresholds: resolveThresholds(config.thresholds, ...matching.map(({ policy }) => policy.thresholds)),
+    checks,
+  };
+}
+
+/**
+ * Checks left enabled by the overrides, with their weight and timeout applied
+ */
+export function applyCheckOverrides(checks: HealthCheck[], overrides: HealthCheckOverrides = {}): HealthCheck[] {
+  return checks
+    .filter(check => overrides[check.id]?.enabled !== false)
+    .map(check => {
+      const { weight, timeoutMs } = overrides[check.id] ?? {};
+      return {
+        ...check,
+        ...(weight === undefined ? {} : { weight: Math.max(0, weight) }),
+        ...(timeoutMs === undefined ? {} : { timeoutMs }),
+      };
+    });
+}
+
+/**
+ * Every check with the overrides applied, disabled ones included
+ */
+export function describeCheckPolicies(checks: HealthCheck[], overrides: HealthCheckOverrides = {}): HealthCheckPolicy[] {
+  return checks.map(check => {
+    const { enabled, weight, timeoutMs = check.timeoutMs } = overrides[check.id] ?? {};
+    return {
+      id: check.id,
+      name: check.name,
+      weight: weight === undefined ? check.weight : Math.max(0, weight),
+      enabled: enabled !== false,
+      ...(timeoutMs === undefined ? {} : { timeoutMs }),
+    };
+  });
+}
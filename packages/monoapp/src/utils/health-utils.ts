@@ -1,67 +1,70 @@
-import type { PackageHealth } from '../types';
+import type { HealthCheckOutcome, HealthCheckResult, PackageHealth } from '../types';
+
+// Score of a check that did not report one itself
+const STATUS_SCORES: Record<HealthCheckOutcome['status'], number> = {
+  pass: 1,
+  warn: 0.5,
+  fail: 0,
+  skip: 0,
+};
+
+const DEPENDENCY_STATUSES = ['up-to-date', 'outdated', 'major-update', 'unknown'];
 
 /**
- * Calculates package health score based on various metrics
+ * Score of a check outcome between 0 and 1
  */
-function calculatePackageHealth(
-  buildStatus: PackageHealth['buildStatus'],
-  testCoverage: number,
-  lintStatus: PackageHealth['lintStatus'],
-  securityAudit: PackageHealth['securityAudit']
-): PackageHealth {
-  let score = 0;
+function getOutcomeScore(outcome: HealthCheckOutcome): number {
+  const score = outcome.score ?? STATUS_SCORES[outcome.status];
+  return Math.min(1, Math.max(0, score));
+}
 
-  // Build status (30 points)
-  switch (buildStatus) {
-    case 'success':
-      score += 30;
-      break;
-    case 'running':
-      score += 15;
-      break;
-    case 'failed':
-      score += 0;
-      break;
-    default:
-      score += 10;
+/**
+ * Weighted average of the check scores on a 0-100 scale. Skipped checks and
+ * checks without weight are left out, with nothing left to score it is 0.
+ */
+function calculateHealthScore(results: HealthCheckResult[]): number {
+  const scored = results.filter(result => result.status !== 'skip' && result.weight > 0);
+  const totalWeight = scored.reduce((sum, result) => sum + result.weight, 0);
+  if (!totalWeight) {
+    return 0;
   }
 
-  // Test coverage (25 points) Note: test coverage is currently not calculated
-  score += 25;//Math.min(25, (testCoverage / 100) * 25);
+  const weightedScore = scored.reduce((sum, result) => sum + result.score * result.weight, 0);
+  return Math.round((weightedScore / totalWeight) * 100);
+}
 
-  // Lint status (25 points)
-  switch (lintStatus) {
-    case 'pass':
-      score += 25;
-      break;
-    case 'fail':
-      score += 0;
-      break;
-    default:
-      score += 10;
-  }
+/**
+ * Calculates package health from the results of the enabled health checks. The
+ * build, coverage, lint, security and dependencies fields are derived from the
+ * built-in checks of the same id for consumers of the fixed health shape.
+ */
+function calculatePackageHealth(results: HealthCheckResult[]): PackageHealth {
+  const byId = new Map(results.map(result => [result.id, result]));
+  const toStatus = <T extends string>(id: string, pass: T, fail: T): T | 'unknown' => {
+    const status = byId.get(id)?.status;
+    return status === 'pass' ? pass : status === 'fail' ? fail : 'unknown';
+  };
 
-  // Security audit (20 points)
-  switch (securityAudit) {
-    case 'pass':
-      score += 20;
-      break;
-    case 'fail':
-      score += 0;
-      break;
-    default:
-      score += 10;
-  }
+  const coverage = byId.get('coverage')?.value;
+  const dependencies = byId.get('dependencies')?.value;
 
   return {
-    buildStatus,
-    testCoverage,
-    lintStatus,
-    securityAudit,
-    overallScore: Math.round(score),
+    buildStatus: toStatus('build', 'success', 'failed'),
+    testCoverage: typeof coverage === 'number' ? coverage : 0,
+    lintStatus: toStatus('lint', 'pass', 'fail'),
+    securityAudit: toStatus('security', 'pass', 'fail'),
+    dependencies: byId.has('dependencies')
+      ? DEPENDENCY_STATUSES.includes(dependencies as string)
+        ? (dependencies as PackageHealth['dependencies'])
+        : 'unknown'
+      : undefined,
+    overallScore: calculateHealthScore(results),
+    checks: results,
   };
 }
 
 export {
+  getOutcomeScore,
+  calculateHealthScore,
   calculatePackageHealth,
 };
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import path from 'path';
+import { builtinModules } from 'module';
+import { DEPENDENCY_FIELDS, DEPENDENCY_KINDS } from './graph-utils';
+import type {
+  DependencyHygieneReport,
+  DependencyKind,
+  ImportUsage,
+  PackageDependencyHygiene,
+  PackageInfo,
+} from '../types';
+
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', 'coverage', 'out'];
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+// Comments are blanked out, string literals are kept so specifiers survive
+const COMMENT_OR_STRING =
+  /\/\*[\s\S]*?\*\/|\/\/[^\n]*|'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|\x60(?:\\.|[^\x60\\])*\x60/g;
+
+// import x from 'a', import 'a', export { x } from 'a' (optionally type-only)
+const STATIC_IMPORT =
+  /(?<![.\w$])(import|export)\s+(type\s+)?(?:[\w$*{}\s,]+?\s+from\s*)?['"]([^'"\n]+)['"]/g;
+
+// require('a'), require.resolve('a') and import('a')
+const CALL_IMPORT = /(?<![.\w$])(?:require(?:\.resolve)?|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g;
+
+export interface ImportSpecifier {
+  specifier: string;
+  typeOnly: boolean;
+}
+
+/**
+ * Module specifiers imported by a TS/JS source file
+ */
+export function extractImports(source: string): ImportSpecifier[] {
+  const code = source.replace(COMMENT_OR_STRING, match =>
+    match.startsWith('/*') || match.startsWith('//') ? ' ' : match
+  );
+  const imports: ImportSpecifier[] = [];
+
+  for (const match of code.matchAll(STATIC_IMPORT)) {
+    imports.push({ specifier: match[3], typeOnly: Boolean(match[2]) });
+  }
+  for (const match of code.matchAll(CALL_IMPORT)) {
+    imports.push({ specifier: match[1], typeOnly: false });
+  }
+  return imports;
+}
+
+/**
+ * Package name behind a bare specifier, e.g. '@scope/pkg/sub' -> '@scope/pkg'.
+ * Relative paths, node builtins, path aliases and URLs return null.
+ */
+export function getImportedPackageName(specifier: string): string | null {
+  if (/^[./~#]/.test(specifier) || specifier.startsWith('@/') || specifier.includes(':')) {
+    return null;
+  }
+
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  if (!name || (name.startsWith('@') && parts.length < 2)) {
+    return null;
+  }
+  return BUILTIN_MODULES.has(name) ? null : name;
+}
+
+/**
+ * DefinitelyTyped package providing types for a module, e.g. '@scope/pkg' -> '@types/scope__pkg'
+ */
+export function getTypesPackageName(name: string): string {
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+}
+
+/**
+ * TS/JS source files of a package, skipping build output, node_modules, declaration files
+ * and nested packages (directories with their own package.json)
+ */
+export function collectSourceFiles(packagePath: string): string[] {
+  const files: string[] = [];
+
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (
+          !entry.name.startsWith('.') &&
+          !IGNORED_DIRECTORIES.includes(entry.name) &&
+          !fs.existsSync(path.join(fullPath, 'package.json'))
+        ) {
+          walk(fullPath);
+        }
+      } else if (
+        entry.isFile() &&
+        SOURCE_EXTENSIONS.includes(path.extname(entry.name)) &&
+        !/\.d\.[mc]?ts$/.test(entry.name)
+      ) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  walk(packagePath);
+  return files.sort();
+}
+
+/**
+ * Executable names a dependency installs, looked up in the nearest node_modules
+ */
+function getBinNames(name: string, fromDir: string): string[] {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const manifest = path.join(dir, 'node_modules', name, 'package.json');
+    if (fs.existsSync(manifest)) {
+      try {
+        const { bin } = JSON.parse(fs.readFileSync(manifest, 'utf8'));
+        if (typeof bin === 'string') return [name.split('/').pop()!];
+        return bin ? Object.keys(bin) : [];
+      } catch {
+        return [];
+      }
+    }
+    if (path.dirname(dir) === dir) return [];
+  }
+}
+
+/**
+ * Whether a declared dependency is used without being imported:
+ * type packages and tools invoked from package scripts
+ */
+function isImplicitlyUsed(name: string, pkg: PackageInfo): boolean {
+  if (name.startsWith('@types/')) {
+    return true;
+  }
+
+  const scripts = Object.values(pkg.scripts || {});
+  if (!scripts.length) {
+    return false;
+  }
+  const commands = [name, ...getBinNames(name, pkg.path)];
+  return commands.some(command => {
+    const escaped = command.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(^|[\\s/"'=&|;(])${escaped}($|[\\s"';&|)])`);
+    return scripts.some(script => pattern.test(script));
+  });
+}
+
+function toUsages(files: Map<string, Set<string>>): ImportUsage[] {
+  return Array.from(files.entries())
+    .map(([name, importers]) => ({ name, files: Array.from(importers).sort() }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Compares what a package imports with what its package.json declares
+ */
+export function analyzePackageImports(
+  pkg: PackageInfo,
+  workspaceNames: Set<string>
+): PackageDependencyHygiene {
+  const declared = new Map<string, DependencyKind[]>();
+  for (const type of DEPENDENCY_KINDS) {
+    Object.keys(pkg[DEPENDENCY_FIELDS[type]] || {}).forEach(name => {
+      declared.set(name, [...(declared.get(name) || []), type]);
+    });
+  }
+
+  const sourceFiles = collectSourceFiles(pkg.path);
+  const imported = new Map<string, Set<string>>();
+  const runtimeImports = new Set<string>();
+
+  for (const file of sourceFiles) {
+    let source: string;
+    try {
+      source = fs.readFileSync(file, 'utf8');
+    } catch {
+      continue;
+    }
+
+    const relativePath = path.relative(pkg.path, file).split(path.sep).join('/');
+    for (const { specifier, typeOnly } of extractImports(source)) {
+      const name = getImportedPackageName(specifier);
+      if (!name || name === pkg.name) continue;
+
+      const importers = imported.get(name) || new Set<string>();
+      importers.add(relativePath);
+      imported.set(name, importers);
+      if (!typeOnly) runtimeImports.add(name);
+    }
+  }
+
+  const unused: PackageDependencyHygiene['unused'] = [];
+  declared.forEach((types, name) => {
+    if (imported.has(name) || isImplicitlyUsed(name, pkg)) return;
+    types.forEach(type => unused.push({ name, type }));
+  });
+
+  const missing = new Map<string, Set<string>>();
+  const undeclaredInternal = new Map<string, Set<string>>();
+  imported.forEach((importers, name) => {
+    if (declared.has(name)) return;
+    if (workspaceNames.has(name)) {
+      undeclaredInternal.set(name, importers);
+      return;
+    }
+    // Type-only imports are covered by a declared @types package
+    if (!runtimeImports.has(name) && declared.has(getTypesPackageName(name))) return;
+    missing.set(name, importers);
+  });
+
+  return {
+    packageName: pkg.name,
+    filesScanned: sourceFiles.length,
+    unused: unused.sort((a, b) => a.name.localeCompare(b.name)),
+    missing: toUsages(missing),
+    undeclaredInternal: toUsages(undeclaredInternal),
+  };
+}
+
+/**
+ * Unused, missing and undeclared workspace dependencies for the selected packages
+ * (all of them by default)
+ */
+export function analyzeDependencyHygiene(
+  packages: PackageInfo[],
+  selected: PackageInfo[] = packages
+): DependencyHygieneReport {
+  const workspaceNames = new Set(packages.map(pkg => pkg.name));
+  const results = selected.map(pkg => analyzePackageImports(pkg, workspaceNames));
+
+  return {
+    packages: results,
+    unused: results.reduce((sum, result) => sum + result.unused.length, 0),
+    missing: results.reduce((sum, result) => sum + result.missing.length, 0),
+    undeclaredInternal: results.reduce((sum, result) => sum + result.undeclaredInternal.length, 0),
+  };
+}
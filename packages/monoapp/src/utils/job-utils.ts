@@ -0,0 +1,20 @@
+import type { JobContext } from '../types';
+
+/**
+ * Thrown by job work that stops early because its job was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Stops the current job between steps once cancellation was requested
+ */
+export function throwIfCancelled(context?: JobContext): void {
+  if (context?.signal.aborted) {
+    throw new JobCancelledError();
+  }
+}
@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import path from 'path';
+import type {
+  InstalledDependency,
+  LicenseInventoryItem,
+  LicensePolicy,
+  LicenseReport,
+  LicenseStatus,
+  LicenseViolation,
+  PackageInfo,
+} from '../types';
+
+interface PackageManifest {
+  name?: string;
+  version?: string;
+  license?: string | { type?: string };
+  licenses?: Array<string | { type?: string }>;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+/**
+ * SPDX expression from the license field, or the legacy licenses array joined with OR
+ */
+export function getDeclaredLicense(manifest: PackageManifest): string | null {
+  const toId = (value?: string | { type?: string }) =>
+    (typeof value === 'string' ? value : value?.type)?.trim() || null;
+
+  const license = toId(manifest.license);
+  if (license) {
+    return license;
+  }
+
+  const legacy = (manifest.licenses || []).map(toId).filter((id): id is string => Boolean(id));
+  if (!legacy.length) return null;
+  return legacy.length === 1 ? legacy[0] : `(${legacy.join(' OR ')})`;
+}
+
+const STATUS_RANK: Record<LicenseStatus, number> = {
+  allowed: 0,
+  unknown: 1,
+  'not-allowed': 2,
+  denied: 3,
+};
+
+function normalizeId(id: string): string {
+  return id.replace(/\+$/, '').toLowerCase();
+}
+
+function checkIdentifier(id: string, policy: LicensePolicy): LicenseStatus {
+  const normalized = normalizeId(id);
+  if (policy.deny?.some(denied => normalizeId(denied) === normalized)) {
+    return 'denied';
+  }
+  if (policy.allow?.length && !policy.allow.some(allowed => normalizeId(allowed) === normalized)) {
+    return 'not-allowed';
+  }
+  return 'allowed';
+}
+
+/**
+ * Checks an SPDX expression against the policy. With OR the best alternative
+ * counts, with AND the worst part does. Unparsable expressions are unknown.
+ */
+export function evaluateLicense(expression: string | null, policy: LicensePolicy): LicenseStatus {
+  if (!expression || /^SEE LICEN[CS]E IN /i.test(expression)) {
+    return 'unknown';
+  }
+
+  const tokens = expression.match(/\(|\)|[^\s()]+/g) || [];
+  let position = 0;
+
+  const parseOr = (): LicenseStatus | null => {
+    let status = parseAnd();
+    while (status && tokens[position]?.toUpperCase() === 'OR') {
+      position++;
+      const next = parseAnd();
+      if (!next) return null;
+      status = STATUS_RANK[next] < STATUS_RANK[status] ? next : status;
+    }
+    return status;
+  };
+
+  const parseAnd = (): LicenseStatus | null => {
+    let status = parseAtom();
+    while (status && tokens[position]?.toUpperCase() === 'AND') {
+      position++;
+      const next = parseAtom();
+      if (!next) return null;
+      status = STATUS_RANK[next] > STATUS_RANK[status] ? next : status;
+    }
+    return status;
+  };
+
+  const parseAtom = (): LicenseStatus | null => {
+    const token = tokens[position++];
+    if (token === '(') {
+      const status = parseOr();
+      return tokens[position++] === ')' ? status : null;
+    }
+    if (!token || token === ')' || /^(AND|OR|WITH)$/i.test(token)) {
+      return null;
+    }
+    // Exceptions such as 'GPL-2.0 WITH Classpath-exception-2.0' follow the base license
+    if (tokens[position]?.toUpperCase() === 'WITH') {
+      position += 2;
+    }
+    return checkIdentifier(token, policy);
+  };
+
+  const status = parseOr();
+  return status && position === tokens.length ? status : 'unknown';
+}
+
+/**
+ * Directory of an installed package as Node would resolve it from fromDir,
+ * with symlinks (pnpm, workspaces) resolved
+ */
+export function resolveInstalledPackage(name: string, fromDir: string): string | null {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, 'node_modules', name);
+    if (fs.existsSync(path.join(candidate, 'package.json'))) {
+      try {
+        return fs.realpathSync(candidate);
+      } catch {
+        return null;
+      }
+    }
+    if (path.dirname(dir) === dir) return null;
+  }
+}
+
+function readManifest(dir: string): PackageManifest | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every package installed for a workspace package, walked breadth first through
+ * node_modules so each chain is the shortest one. Workspace packages are walked
+ * through but not listed.
+ */
+export function collectInstalledDependencies(
+  pkg: PackageInfo,
+  includeDev = false,
+  workspaceNames: Set<string> = new Set()
+): InstalledDependency[] {
+  const installed: InstalledDependency[] = [];
+  const visited = new Set<string>([fs.existsSync(pkg.path) ? fs.realpathSync(pkg.path) : pkg.path]);
+  const queue: Array<{ dir: string; chain: string[]; dependencies: string[] }> = [
+    {
+      dir: pkg.path,
+      chain: [pkg.name],
+      dependencies: Object.keys({
+        ...pkg.dependencies,
+        ...pkg.optionalDependencies,
+        ...(includeDev ? pkg.devDependencies : {}),
+      }),
+    },
+  ];
+
+  while (queue.length) {
+    const { dir, chain, dependencies } = queue.shift()!;
+
+    for (const name of dependencies) {
+      const resolved = resolveInstalledPackage(name, dir);
+      if (!resolved || visited.has(resolved)) continue;
+      visited.add(resolved);
+
+      const manifest = readManifest(resolved);
+      if (!manifest) continue;
+
+      const dependencyChain = [...chain, name];
+      if (!workspaceNames.has(name)) {
+        installed.push({
+          name,
+          version: manifest.version || '0.0.0',
+          license: getDeclaredLicense(manifest),
+          path: resolved,
+          chain: dependencyChain,
+        });
+      }
+      queue.push({
+        dir: resolved,
+        chain: dependencyChain,
+        dependencies: Object.keys({ ...manifest.dependencies, ...manifest.optionalDependencies }),
+      });
+    }
+  }
+
+  return installed;
+}
+
+/**
+ * License inventory of the installed dependencies of the given packages and the
+ * policy violations with the chain that brings each one in. Unknown licenses only
+ * count as violations when an allow list is configured.
+ */
+export function buildLicenseReport(
+  packages: PackageInfo[],
+  policy: LicensePolicy = {},
+  workspaceNames: Set<string> = new Set(packages.map(pkg => pkg.name))
+): LicenseReport {
+  const inventory = new Map<string, LicenseInventoryItem>();
+  const violations: LicenseViolation[] = [];
+
+  for (const pkg of packages) {
+    for (const dependency of collectInstalledDependencies(pkg, policy.includeDev, workspaceNames)) {
+      const key = `${dependency.name}@${dependency.version}`;
+      let item = inventory.get(key);
+      if (!item) {
+        item = {
+          name: dependency.name,
+          version: dependency.version,
+          license: dependency.license,
+          status: evaluateLicense(dependency.license, policy),
+          packages: [],
+        };
+        inventory.set(key, item);
+      }
+      if (!item.packages.includes(pkg.name)) {
+        item.packages.push(pkg.name);
+      }
+
+      if (item.status === 'allowed' || (item.status === 'unknown' && !policy.allow?.length)) {
+        continue;
+      }
+      violations.push({
+        packageName: pkg.name,
+        name: dependency.name,
+        version: dependency.version,
+        license: dependency.license,
+        status: item.status,
+        chain: dependency.chain,
+      });
+    }
+  }
+
+  const items = Array.from(inventory.values()).sort(
+    (a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version)
+  );
+  const licenses: Record<string, number> = {};
+  items.forEach(item => {
+    const license = item.license || 'UNKNOWN';
+    licenses[license] = (licenses[license] || 0) + 1;
+  });
+
+  return { policy, inventory: items, licenses, violations };
+}
+
+/**
+ * CSV export of the inventory; the chain column lists the violation chains per package
+ */
+export function licenseReportToCsv(report: LicenseReport): string {
+  const headers = ['Package', 'Version', 'License', 'Status', 'Used By', 'Chain'];
+  const rows = report.inventory.map(item => [
+    item.name,
+    item.version,
+    item.license || '',
+    item.status,
+    item.packages.join(' '),
+    report.violations
+      .filter(violation => violation.name === item.name && violation.version === item.version)
+      .map(violation => violation.chain.join(' > '))
+      .join('; '),
+  ]);
+
+  return [headers, ...rows]
+    .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
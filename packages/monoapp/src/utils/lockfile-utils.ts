@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import path from 'path';
+import * as yaml from 'js-yaml';
+import { AppLogger } from '../middleware/logger';
+import { DEPENDENCY_FIELDS, DEPENDENCY_KINDS } from './graph-utils';
+import {
+  compareVersions,
+  isValidRange,
+  parseVersion,
+  resolveDeclaredRange,
+  satisfies,
+} from './semver-utils';
+import type {
+  LockfileName,
+  LockfileReport,
+  PackageInfo,
+  PackageLockInfo,
+  ParsedLockfile,
+} from '../types';
+
+/**
+ * Lockfiles in the order they are looked up
+ */
+export const SUPPORTED_LOCKFILES: LockfileName[] = ['pnpm-lock.yaml', 'package-lock.json', 'yarn.lock'];
+
+const LOCAL_PROTOCOL = /^(workspace|link|file|portal):/;
+
+function addVersion(versions: Map<string, Set<string>>, name: string, version: string): void {
+  if (!parseVersion(version)) return;
+  const known = versions.get(name) || new Set<string>();
+  known.add(version);
+  versions.set(name, known);
+}
+
+/**
+ * Splits 'name@version' (the name may be scoped) at the version separator
+ */
+function splitAtVersion(spec: string): [string, string] | null {
+  const index = spec.lastIndexOf('@');
+  return index > 0 ? [spec.slice(0, index), spec.slice(index + 1)] : null;
+}
+
+type PnpmDependencies = Record<string, string | { specifier?: string; version?: string }>;
+
+interface PnpmImporter {
+  dependencies?: PnpmDependencies;
+  devDependencies?: PnpmDependencies;
+  optionalDependencies?: PnpmDependencies;
+}
+
+/**
+ * pnpm-lock.yaml v5 ('/name/1.0.0_peer@1.0.0'), v6 ('/name@1.0.0(peer@1.0.0)')
+ * and v9 ('name@1.0.0') formats
+ */
+export function parsePnpmLock(content: string): ParsedLockfile {
+  const data = (yaml.load(content) || {}) as PnpmImporter & {
+    lockfileVersion?: string | number;
+    importers?: Record<string, PnpmImporter>;
+    packages?: Record<string, unknown>;
+  };
+  const isV5 = Number(String(data.lockfileVersion ?? '').split('.')[0]) < 6;
+
+  const normalizeVersion = (value: string): string => {
+    let version = value.replace(/\(.*$/, '');
+    if (isV5) {
+      // Aliases are written as '/real-name/1.0.0', peers as '1.0.0_peer@1.0.0'
+      version = version.slice(version.lastIndexOf('/') + 1).replace(/_.*$/, '');
+    } else {
+      version = splitAtVersion(version.replace(/^\//, ''))?.[1] ?? version;
+    }
+    return version;
+  };
+
+  // Single project lockfiles keep the dependencies at the top level
+  const importers: Record<string, PnpmImporter> = data.importers || { '.': data };
+
+  const versions = new Map<string, Set<string>>();
+  Object.keys(data.packages || {}).forEach(key => {
+    const spec = key.replace(/^\//, '').replace(/\(.*$/, '');
+    if (isV5) {
+      const index = spec.lastIndexOf('/');
+      if (index > 0) addVersion(versions, spec.slice(0, index), spec.slice(index + 1).replace(/_.*$/, ''));
+    } else {
+      const parts = splitAtVersion(spec);
+      if (parts) addVersion(versions, parts[0], parts[1]);
+    }
+  });
+
+  return {
+    lockfile: 'pnpm-lock.yaml',
+    versions,
+    resolve: (importerPath, name) => {
+      const importer = importers[importerPath];
+      if (!importer) return null;
+      for (const field of ['dependencies', 'devDependencies', 'optionalDependencies'] as const) {
+        const entry = importer[field]?.[name];
+        const version = typeof entry === 'string' ? entry : entry?.version;
+        if (version) {
+          return LOCAL_PROTOCOL.test(version) ? null : normalizeVersion(version);
+        }
+      }
+      return null;
+    },
+  };
+}
+
+interface NpmLockEntry {
+  version?: string;
+  link?: boolean;
+  dependencies?: Record<string, NpmLockEntry>;
+}
+
+/**
+ * package-lock.json v2/v3 ('packages' keyed by install path) and v1 (nested 'dependencies')
+ */
+export function parseNpmLock(content: string): ParsedLockfile {
+  const data = JSON.parse(content) as {
+    packages?: Record<string, NpmLockEntry>;
+    dependencies?: Record<string, NpmLockEntry>;
+  };
+  const versions = new Map<string, Set<string>>();
+
+  if (data.packages) {
+    const entries = data.packages;
+    Object.entries(entries).forEach(([installPath, entry]) => {
+      const index = installPath.lastIndexOf('node_modules/');
+      if (index !== -1 && entry.version && !entry.link) {
+        addVersion(versions, installPath.slice(index + 'node_modules/'.length), entry.version);
+      }
+    });
+
+    return {
+      lockfile: 'package-lock.json',
+      versions,
+      resolve: (importerPath, name) => {
+        // Follow node resolution from the package directory up to the root
+        let dir = importerPath === '.' ? '' : importerPath;
+        for (;;) {
+          const entry = entries[`${dir ? `${dir}/` : ''}node_modules/${name}`];
+          if (entry) {
+            return entry.link ? null : entry.version || null;
+          }
+          if (!dir) return null;
+          const parent = path.posix.dirname(dir);
+          dir = parent === '.' ? '' : parent;
+        }
+      },
+    };
+  }
+
+  const collect = (dependencies: Record<string, NpmLockEntry>) => {
+    Object.entries(dependencies).forEach(([name, entry]) => {
+      if (entry.version) addVersion(versions, name, entry.version);
+      if (entry.dependencies) collect(entry.dependencies);
+    });
+  };
+  collect(data.dependencies || {});
+
+  return {
+    lockfile: 'package-lock.json',
+    versions,
+    resolve: (_importerPath, name) => data.dependencies?.[name]?.version || null,
+  };
+}
+
+/**
+ * yarn.lock in both the classic and the Berry (YAML based) format
+ */
+export function parseYarnLock(content: string): ParsedLockfile {
+  const descriptors = new Map<string, string>(); // 'name@range' -> version
+  const versions = new Map<string, Set<string>>();
+  let current: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    if (!/^\s/.test(line) && line.endsWith(':')) {
+      current = line
+        .slice(0, -1)
+        .split(/,\s*/)
+        .map(descriptor => descriptor.replace(/^"|"$/g, ''))
+        .filter(descriptor => descriptor !== '__metadata');
+      continue;
+    }
+
+    const versionMatch = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+    if (versionMatch && current.length) {
+      for (const descriptor of current) {
+        const parts = splitAtVersion(descriptor.replace(/@npm:/, '@'));
+        // Berry writes workspaces as 'name@workspace:path' with a placeholder version
+        if (!parts || LOCAL_PROTOCOL.test(parts[1])) continue;
+        descriptors.set(`${parts[0]}@${parts[1]}`, versionMatch[1]);
+        addVersion(versions, parts[0], versionMatch[1]);
+      }
+      current = [];
+    }
+  }
+
+  return {
+    lockfile: 'yarn.lock',
+    versions,
+    resolve: (_importerPath, name, range) =>
+      descriptors.get(`${name}@${range.replace(/^npm:/, '')}`) || null,
+  };
+}
+
+const PARSERS: Record<LockfileName, (content: string) => ParsedLockfile> = {
+  'pnpm-lock.yaml': parsePnpmLock,
+  'package-lock.json': parseNpmLock,
+  'yarn.lock': parseYarnLock,
+};
+
+const lockfileCache = new Map<string, { mtimeMs: number; lockfile: ParsedLockfile }>();
+
+/**
+ * Reads the first supported lockfile at the monorepo root; parsed lockfiles are
+ * cached until the file changes
+ */
+export function readLockfile(rootDir: string): ParsedLockfile | null {
+  for (const name of SUPPORTED_LOCKFILES) {
+    const lockfilePath = path.join(rootDir, name);
+    if (!fs.existsSync(lockfilePath)) continue;
+
+    try {
+      const { mtimeMs } = fs.statSync(lockfilePath);
+      const cached = lockfileCache.get(lockfilePath);
+      if (cached?.mtimeMs === mtimeMs) {
+        return cached.lockfile;
+      }
+
+      const lockfile = PARSERS[name](fs.readFileSync(lockfilePath, 'utf8'));
+      lockfileCache.set(lockfilePath, { mtimeMs, lockfile });
+      return lockfile;
+    } catch (error) {
+      AppLogger.error(`Error parsing ${name}`, error as Error);
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves every direct external dependency of the packages against the
+ * lockfile and lists packages installed in more than one version
+ */
+export function buildLockfileReport(
+  rootDir: string,
+  packages: PackageInfo[],
+  lockfile: ParsedLockfile | null
+): LockfileReport {
+  const workspaceNames = new Set(packages.map(pkg => pkg.name));
+
+  const packageInfos: PackageLockInfo[] = packages.map(pkg => {
+    const importerPath = path.relative(rootDir, pkg.path).split(path.sep).join('/') || '.';
+    const dependencies: PackageLockInfo['dependencies'] = [];
+
+    for (const type of DEPENDENCY_KINDS) {
+      const declared = (pkg[DEPENDENCY_FIELDS[type]] || {}) as Record<string, string>;
+      Object.entries(declared).forEach(([name, range]) => {
+        if (workspaceNames.has(name) || LOCAL_PROTOCOL.test(range)) return;
+
+        const resolved = lockfile?.resolve(importerPath, name, range) ?? null;
+        const semverRange = resolveDeclaredRange(range, '');
+        dependencies.push({
+          name,
+          type,
+          range,
+          resolved,
+          satisfies: resolved && isValidRange(semverRange) ? satisfies(resolved, semverRange) : null,
+        });
+      });
+    }
+
+    return { packageName: pkg.name, path: importerPath, dependencies };
+  });
+
+  const duplicates = Array.from(lockfile?.versions || [])
+    .filter(([, installed]) => installed.size > 1)
+    .map(([name, installed]) => ({
+      name,
+      versions: Array.from(installed).sort(compareVersions),
+      directDependents: packageInfos.flatMap(info =>
+        info.dependencies
+          .filter(dep => dep.name === name && dep.resolved)
+          .map(dep => ({ packageName: info.packageName, resolved: dep.resolved! }))
+      ),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const outOfRange = packageInfos.flatMap(info =>
+    info.dependencies
+      .filter(dep => dep.satisfies === false)
+      .map(dep => ({ ...dep, packageName: info.packageName }))
+  );
+
+  return {
+    lockfile: lockfile?.lockfile ?? null,
+    packages: packageInfos,
+    duplicates,
+    outOfRange,
+  };
+}
@@ -1,15 +1,18 @@
 // Monorepo Scanner
 import fs from 'fs';
 import path from 'path';
-import { execSync } from 'child_process';
 import { AppLogger } from '../middleware/logger';
 import type {
+  Advisory,
+  CommandOutput,
   PackageInfo,
   DependencyInfo,
   PackageHealth,
   MonorepoStats,
   ScanResult,
   PackageReport,
+  RunCommandOptions,
+  TypeCheckReport,
 } from '../types';
 import {
   scanMonorepo,
@@ -20,6 +23,27 @@ import {
   checkOutdatedDependencies,
   getPackageSize,
 } from './utilities';
+import {
+  detectPackageManager,
+  getAuditCommand,
+  getExecCommand,
+  getPackageScriptCommand,
+  isYarnBerry,
+} from './workspace-adapters';
+import { processPool } from './process-pool';
+import { analyzePackageImports } from './import-analysis-utils';
+import { getHealthChecks, runHealthChecks } from './health-checks';
+import { readCoverageReport } from './coverage-utils';
+import { filterPackageAdvisories, parseAuditReport, parseYarnBerryAudit } from './advisory-utils';
+import { parseTscOutput } from './typecheck-utils';
+
+type ScriptOptions = Partial<Omit<RunCommandOptions, 'cwd'>>;
+
+// Defaults for checks whose timeout is not configured
+const BUILD_TIMEOUT_MS = 30000;
+const LINT_TIMEOUT_MS = 10000;
+const AUDIT_TIMEOUT_MS = 15000;
+const GIT_TIMEOUT_MS = 10000;
 
 export class MonorepoScanner {
   private rootDir: string;
@@ -60,7 +84,7 @@ export class MonorepoScanner {
       const circularDependencies = findCircularDependencies(packages);
 
       // Check for outdated packages
-      const outdatedPackages = this.findOutdatedPackages(packages);
+      const outdatedPackages = await this.findOutdatedPackages(packages);
 
       const result: ScanResult = {
         packages,
@@ -88,11 +112,12 @@ export class MonorepoScanner {
    */
   async generatePackageReports(): Promise<PackageReport[]> {
     const packages = scanMonorepo(this.rootDir);
+    const workspaceNames = new Set(packages.map(pkg => pkg.name));
     const reports: PackageReport[] = [];
 
     for (const pkg of packages) {
       try {
-        const report = await this.generatePackageReport(pkg);
+        const report = await this.generatePackageReport(pkg, workspaceNames);
         reports.push(report);
       } catch (error) {
         AppLogger.error(`Error generating report for ${pkg.name}`, error as Error);
@@ -105,10 +130,14 @@ export class MonorepoScanner {
   /**
    * Generates a detailed report for a specific package
    */
-  async generatePackageReport(pkg: PackageInfo): Promise<PackageReport> {
+  async generatePackageReport(
+    pkg: PackageInfo,
+    workspaceNames: Set<string> = new Set(scanMonorepo(this.rootDir).map(info => info.name))
+  ): Promise<PackageReport> {
     const health = await this.assessPackageHealth(pkg);
     const size = getPackageSize(pkg.path);
-    const outdatedDeps = checkOutdatedDependencies(pkg);
+    const outdatedDeps = await checkOutdatedDependencies(pkg);
+    const dependencyHygiene = analyzePackageImports(pkg, workspaceNames);
     const lastModified = this.getLastModified(pkg.path);
     const gitInfo = await this.getGitInfo(pkg.path);
 
@@ -117,6 +146,7 @@ export class MonorepoScanner {
       health,
       size,
       outdatedDeps,
+      dependencyHygiene,
       lastModified,
       gitInfo,
     };
@@ -126,208 +156,159 @@ export class MonorepoScanner {
    * Assesses the health of a package
    */
   private async assessPackageHealth(pkg: PackageInfo): Promise<PackageHealth> {
-    // Check build status
-    const buildStatus = await this.checkBuildStatus(pkg);
-
-    // Check test coverage
-    const testCoverage = await this.checkTestCoverage(pkg);
-
-    // Check lint status
-    const lintStatus = await this.checkLintStatus(pkg);
+    const results = await runHealthChecks(pkg, getHealthChecks(), { rootDir: this.rootDir });
+    return calculatePackageHealth(results);
+  }
 
-    // Check security audit
-    const securityAudit = await this.checkSecurityAudit(pkg);
+  /**
+   * Runs a package script with the workspace's package manager through the
+   * process pool. Returns null when the package has no such script.
+   */
+  async runPackageScript(
+    pkg: PackageInfo,
+    script: string,
+    options: ScriptOptions = {}
+  ): Promise<CommandOutput | null> {
+    if (!pkg.scripts[script]) {
+      return null;
+    }
+    const { command, cwd } = getPackageScriptCommand(pkg, script);
+    return processPool.run(command, { ...options, cwd });
+  }
 
-    return calculatePackageHealth(
-      buildStatus,
-      testCoverage,
-      lintStatus,
-      securityAudit
+  /**
+   * Type-checks a package with the TypeScript it has installed. Returns null
+   * when the package has no tsconfig.json; report is null when tsc printed
+   * no diagnostics yet did not succeed, e.g. when it is not installed.
+   */
+  async typeCheckPackage(
+    pkg: PackageInfo,
+    options: ScriptOptions = {}
+  ): Promise<{ report: TypeCheckReport | null; output: CommandOutput } | null> {
+    if (!fs.existsSync(path.join(pkg.path, 'tsconfig.json'))) {
+      return null;
+    }
+    const output = await processPool.run(
+      getExecCommand(detectPackageManager(pkg.path), 'tsc --noEmit --pretty false -p tsconfig.json'),
+      { ...options, cwd: pkg.path }
     );
+    const report = parseTscOutput(output.stdout, output.durationMs);
+    const ran = output.exitCode === 0 || report.errorCount + report.warningCount > 0;
+    return { report: ran && !output.timedOut ? report : null, output };
   }
 
   /**
    * Checks if a package builds successfully
    */
   async checkBuildStatus(
-    pkg: PackageInfo
+    pkg: PackageInfo,
+    options: ScriptOptions = {}
   ): Promise<PackageHealth['buildStatus']> {
-    try {
-      if (pkg.scripts.build) {
-        // Try to run build command
-        execSync('npm run build', {
-          cwd: pkg.path,
-          stdio: 'pipe',
-          timeout: 30000,
-        });
-        return 'success';
-      }
-      return 'unknown';
-    } catch (error) {
-      return 'failed';
-    }
+    const output = await this.runPackageScript(pkg, 'build', { timeoutMs: BUILD_TIMEOUT_MS, ...options });
+    if (!output) return 'unknown';
+    return output.exitCode === 0 ? 'success' : 'failed';
   }
 
   /**
-   * Checks test coverage for a package
+   * Line coverage percentage from the package's coverage report, 0 without one
    */
-  // async checkTestCoverage(pkg: PackageInfo): Promise<number> {
-  //   try {
-  //     if (pkg.scripts.test) {
-  //       // This would typically run tests and parse coverage reports
-  //       // For now, return a mock value
-  //       return Math.floor(Math.random() * 100);
-  //     }
-  //     return 0;
-  //   } catch (error) {
-  //     return 0;
-  //   }
-  // }
   async checkTestCoverage(pkg: PackageInfo): Promise<number> {
-    try {
-      // First, check for existing coverage reports
-      const coveragePaths = [
-        path.join(pkg.path, 'coverage', 'coverage-summary.json'),
-        path.join(pkg.path, 'coverage', 'lcov.info'),
-        path.join(pkg.path, 'coverage', 'clover.xml'),
-        path.join(pkg.path, 'coverage.json'),
-      ];
-
-      // Look for any coverage file that exists
-      for (const coveragePath of coveragePaths) {
-        if (fs.existsSync(coveragePath)) {
-          if (coveragePath.endsWith('coverage-summary.json')) {
-            try {
-              const coverage = JSON.parse(
-                fs.readFileSync(coveragePath, 'utf8')
-              );
-              return (
-                coverage.total?.lines?.pct ||
-                coverage.total?.statements?.pct ||
-                0
-              );
-            } catch (error) {
-              AppLogger.warn(`Error parsing coverage file for ${pkg.name}`);
-            }
-          }
-          // If we find any coverage file but can't parse it, assume coverage exists
-          return 0; // Default coverage if files exist but can't parse
-        }
-      }
-
-      // If no coverage files found and package has test script
-      if (pkg.scripts.test) {
-        // Return a reasonable default based on whether tests are likely to have coverage
-        const hasCoverageSetup =
-          pkg.scripts.test.includes('--coverage') ||
-          pkg.scripts.test.includes('coverage') ||
-          pkg.devDependencies?.jest ||
-          pkg.devDependencies?.nyc ||
-          pkg.devDependencies?.['@types/jest'];
-
-        return hasCoverageSetup ? 30 : 0; // Reasonable defaults
-      }
-
-      return 0;
-    } catch (error) {
-      AppLogger.warn(`Error checking coverage for ${pkg.name}`);
-      return 0;
-    }
+    return readCoverageReport(pkg.path)?.totals.lines.pct ?? 0;
   }
 
   /**
    * Checks lint status for a package
    */
   async checkLintStatus(
-    pkg: PackageInfo
+    pkg: PackageInfo,
+    options: ScriptOptions = {}
   ): Promise<PackageHealth['lintStatus']> {
-    try {
-      if (pkg.scripts.lint) {
-        // Try to run lint command
-        execSync('npm run lint', {
-          cwd: pkg.path,
-          stdio: 'pipe',
-          timeout: 10000,
-        });
-        return 'pass';
-      }
-      return 'unknown';
-    } catch (error) {
-      return 'fail';
-    }
+    const output = await this.runPackageScript(pkg, 'lint', { timeoutMs: LINT_TIMEOUT_MS, ...options });
+    if (!output) return 'unknown';
+    return output.exitCode === 0 ? 'pass' : 'fail';
   }
 
   /**
    * Checks security audit for a package
    */
   async checkSecurityAudit(
-    pkg: PackageInfo
+    pkg: PackageInfo,
+    options: ScriptOptions = {}
   ): Promise<PackageHealth['securityAudit']> {
     try {
-
-      const audit = await this.runPnpmAudit(pkg.path)
-
-      // Extract paths from audit report
-      if (audit && audit.advisories) {
-        for (const key in audit.advisories) {
-          const advisory = audit.advisories[key];
-          for (const k in advisory.findings) {
-            if (advisory.findings[k].paths && Array.isArray(advisory.findings[k].paths)) {
-              for (const pathStr of advisory.findings[k].paths) {
-                // Extract the first segment of the path (the top-level package)
-                const topPkg = pathStr.split(">")[0].trim();
-                const normalizedShort = path.normalize(topPkg);
-                const normalizedFull = path.normalize(pkg.path);
-
-                if (normalizedFull.endsWith(normalizedShort)) {
-                  // Break early if we found a match
-                  return 'fail';
-                }
-              }
-            }
-          }
-        }
-      }
-
-      return 'pass';
+      const advisories = await this.auditPackage(pkg, this.rootDir, options);
+      return advisories.length > 0 ? 'fail' : 'pass';
     } catch (error) {
       return 'unknown';
     }
   }
 
   /**
-  * Executes 'pnpm audit' safely.
+   * Advisories reaching a package according to the package manager's audit.
+   * Throws when the audit cannot run.
+   */
+  async auditPackage(
+    pkg: PackageInfo,
+    rootDir: string = this.rootDir,
+    options: ScriptOptions = {}
+  ): Promise<Advisory[]> {
+    return filterPackageAdvisories(await this.runAudit(pkg.path, options), pkg, rootDir);
+  }
+
+  /**
+  * Runs the package manager's audit and parses its JSON report. Audits exit
+  * non-zero when they find advisories, so only unreadable output is an error.
   */
-  async runPnpmAudit(packagePath: string): Promise<any> {
+  async runAudit(packagePath: string, options: ScriptOptions = {}): Promise<Advisory[]> {
+    const packageManager = detectPackageManager(packagePath);
+    const yarnBerry = packageManager === 'yarn' && isYarnBerry(packagePath);
+    const output = await processPool.run(getAuditCommand(packageManager, yarnBerry), {
+      timeoutMs: AUDIT_TIMEOUT_MS,
+      ...options,
+      cwd: packagePath,
+    });
+    if (output.timedOut) {
+      throw new Error(`${output.command} timed out`);
+    }
+
+    if (yarnBerry) {
+      const advisories = parseYarnBerryAudit(output.stdout);
+      if (advisories.length === 0 && output.exitCode !== 0) {
+        throw new Error(`${output.command} failed: ${output.stderr.trim()}`);
+      }
+      return advisories;
+    }
+
     try {
-      const stdout = execSync('pnpm audit --json', {
-        cwd: packagePath,
-        stdio: ['pipe', 'pipe', 'pipe'], // Ensure pipes are set to capture output
-        timeout: 15000,
-        encoding: 'utf8',
-      });
-
-    return JSON.parse(stdout);
-    } catch (error: any) {
-      if (error.stdout) {
+      return parseAuditReport(JSON.parse(output.stdout));
+    } catch {
+      // Yarn prints one JSON object per line, advisories among them
+      const advisories: Record<string, unknown> = {};
+      for (const line of output.stdout.split('\n')) {
         try {
-          return JSON.parse(error.stdout.toString());
-        } catch (parseError) {
-          throw new Error(`Failed to parse audit JSON: ${parseError}`);
+          const entry = JSON.parse(line);
+          if (entry.type === 'auditAdvisory') {
+            advisories[entry.data.advisory.id] = entry.data.advisory;
+          }
+        } catch {
+          // Progress and summary lines
         }
       }
-      throw new Error(`pnpm audit failed: ${error.message}`);
+      if (Object.keys(advisories).length === 0 && output.exitCode !== 0) {
+        throw new Error(`${output.command} failed: ${output.stderr.trim()}`);
+      }
+      return parseAuditReport({ advisories });
     }
   }
 
   /**
    * Finds packages with outdated dependencies
    */
-  private findOutdatedPackages(packages: PackageInfo[]): string[] {
+  private async findOutdatedPackages(packages: PackageInfo[]): Promise<string[]> {
     const outdated: string[] = [];
 
     for (const pkg of packages) {
-      const outdatedDeps = checkOutdatedDependencies(pkg);
+      const outdatedDeps = await checkOutdatedDependencies(pkg);
       if (outdatedDeps.length > 0) {
         outdated.push(pkg.name);
       }
@@ -362,35 +343,17 @@ export class MonorepoScanner {
       }
 
       // Get last commit info
-      const lastCommit = execSync('git rev-parse HEAD', {
-        cwd: packagePath,
-        stdio: 'pipe',
-      })
-        .toString()
-        .trim();
-
-      const lastCommitDate = new Date(
-        execSync('git log -1 --format=%cd', {
-          cwd: packagePath,
-          stdio: 'pipe',
-        })
-          .toString()
-          .trim()
-      );
-
-      const author = execSync('git log -1 --format=%an', {
-        cwd: packagePath,
-        stdio: 'pipe',
-      })
-        .toString()
-        .trim();
-
-      const branch = execSync('git branch --show-current', {
-        cwd: packagePath,
-        stdio: 'pipe',
-      })
-        .toString()
-        .trim();
+      const git = async (args: string) => {
+        const output = await processPool.run(`git ${args}`, { cwd: packagePath, timeoutMs: GIT_TIMEOUT_MS });
+        if (output.exitCode !== 0) {
+          throw new Error(`git ${args} failed: ${output.stderr.trim()}`);
+        }
+        return output.stdout.trim();
+      };
+      const lastCommit = await git('rev-parse HEAD');
+      const lastCommitDate = new Date(await git('log -1 --format=%cd'));
+      const author = await git('log -1 --format=%an');
+      const branch = await git('branch --show-current');
 
       return {
         lastCommit: lastCommit.substring(0, 7),
@@ -595,10 +558,19 @@ export function scanForFiles(fileTypes: string[]): Record<string, string[]> {
 }
 
 // Fix these function signatures - they should accept single PackageInfo objects
+export async function funRunPackageScript(
+  pkg: PackageInfo,
+  script: string,
+  options?: ScriptOptions
+): Promise<CommandOutput | null> {
+  return scanner.runPackageScript(pkg, script, options);
+}
+
 export async function funCheckBuildStatus(
-  pkg: PackageInfo
+  pkg: PackageInfo,
+  options?: ScriptOptions
 ): Promise<PackageHealth['buildStatus']> {
-  return scanner.checkBuildStatus(pkg);
+  return scanner.checkBuildStatus(pkg, options);
 }
 
 export async function funCheckTestCoverage(pkg: PackageInfo): Promise<number> {
@@ -606,13 +578,30 @@ export async function funCheckTestCoverage(pkg: PackageInfo): Promise<number> {
 }
 
 export async function funCheckLintStatus(
-  pkg: PackageInfo
+  pkg: PackageInfo,
+  options?: ScriptOptions
 ): Promise<PackageHealth['lintStatus']> {
-  return scanner.checkLintStatus(pkg);
+  return scanner.checkLintStatus(pkg, options);
 }
 
 export async function funCheckSecurityAudit(
-  pkg: PackageInfo
+  pkg: PackageInfo,
+  options?: ScriptOptions
 ): Promise<PackageHealth['securityAudit']> {
-  return scanner.checkSecurityAudit(pkg);
+  return scanner.checkSecurityAudit(pkg, options);
+}
+
+export async function funTypeCheckPackage(
+  pkg: PackageInfo,
+  options?: ScriptOptions
+): Promise<{ report: TypeCheckReport | null; output: CommandOutput } | null> {
+  return scanner.typeCheckPackage(pkg, options);
+}
+
+export async function funAuditPackage(
+  pkg: PackageInfo,
+  rootDir: string,
+  options?: ScriptOptions
+): Promise<Advisory[]> {
+  return scanner.auditPackage(pkg, rootDir, options);
 }
@@ -0,0 +1,257 @@
+import { createHmac } from 'crypto';
+import { DEFAULT_HEALTH_THRESHOLDS, matchesHealthPolicy } from './health-policy-utils';
+import type {
+  HealthCheckStatus,
+  HealthNotification,
+  NotificationRuleConfig,
+  NotificationSeverity,
+  PackageHealthState,
+  WebhookFormat,
+} from '../types';
+
+const DEFAULT_DROP_POINTS = 10;
+
+const SEVERITY_ORDER: NotificationSeverity[] = ['error', 'warning', 'info'];
+
+const SEVERITY_COLORS: Record<NotificationSeverity, string> = {
+  error: '#dc2626',
+  warning: '#d97706',
+  info: '#2563eb',
+};
+
+/**
+ * Name reported for a rule, its position when it has none
+ */
+export function getRuleName(rule: NotificationRuleConfig, index: number): string {
+  return rule.name || `rules[${index}]`;
+}
+
+function matchesRule(rule: NotificationRuleConfig, packageName: string, tags: string[]): boolean {
+  if (!rule.packages && !rule.tags) return true;
+  return matchesHealthPolicy(rule, packageName, tags);
+}
+
+const toStatuses = (value: HealthCheckStatus | HealthCheckStatus[] | undefined, fallback: HealthCheckStatus[]) =>
+  value === undefined ? fallback : Array.isArray(value) ? value : [value];
+
+function evaluateRule(
+  rule: NotificationRuleConfig,
+  name: string,
+  previous: PackageHealthState,
+  current: PackageHealthState
+): Omit<HealthNotification, 'rule' | 'type' | 'packageName' | 'previousScore' | 'score' | 'channels'>[] {
+  const scores = `from ${previous.score} to ${current.score}`;
+
+  switch (rule.type) {
+    case 'score-below': {
+      const threshold = rule.threshold ?? DEFAULT_HEALTH_THRESHOLDS.warning;
+      if (previous.score < threshold || current.score >= threshold) return [];
+      return [
+        {
+          severity: rule.severity ?? 'error',
+          title: `${current.packageName} health fell below ${threshold}`,
+          message: `Health score went ${scores}`,
+        },
+      ];
+    }
+    case 'score-dropped': {
+      const points = rule.points ?? DEFAULT_DROP_POINTS;
+      if (previous.score - current.score < points) return [];
+      return [
+        {
+          severity: rule.severity ?? 'warning',
+          title: `${current.packageName} health dropped by ${previous.score - current.score} points`,
+          message: `Health score went ${scores}`,
+        },
+      ];
+    }
+    case 'check-status': {
+      const from = toStatuses(rule.from, ['pass', 'warn', 'fail', 'skip']);
+      const to = toStatuses(rule.to, ['fail']);
+      return current.checks.flatMap(check => {
+        const before = previous.checks.find(item => item.id === check.id);
+        if ((rule.check && check.id !== rule.check) || !before || before.status === check.status) return [];
+        if (!from.includes(before.status) || !to.includes(check.status)) return [];
+        return [
+          {
+            severity: rule.severity ?? (check.status === 'fail' ? 'error' : 'warning'),
+            title: `${current.packageName}: ${check.name} went from ${before.status} to ${check.status}`,
+            message: check.message || `Health score went ${scores}`,
+            check: { id: check.id, name: check.name, from: before.status, to: check.status },
+          },
+        ];
+      });
+    }
+    default:
+      throw new Error(`Unknown notification rule type in ${name}: ${(rule as { type: string }).type}`);
+  }
+}
+
+/**
+ * Notifications for the changes of a refresh. Rules compare each package with
+ * its health before the refresh, so packages seen for the first time never
+ * fire one.
+ */
+export function evaluateNotificationRules(
+  rules: NotificationRuleConfig[],
+  previous: PackageHealthState[],
+  current: PackageHealthState[],
+  tags: Record<string, string[]> = {}
+): HealthNotification[] {
+  const before = new Map(previous.map(state => [state.packageName, state]));
+
+  return current.flatMap(state => {
+    const previousState = before.get(state.packageName);
+    if (!previousState) return [];
+
+    return rules.flatMap((rule, index) => {
+      if (!matchesRule(rule, state.packageName, tags[state.packageName] ?? [])) return [];
+      const name = getRuleName(rule, index);
+      return evaluateRule(rule, name, previousState, state).map(notification => ({
+        rule: name,
+        type: rule.type,
+        packageName: state.packageName,
+        previousScore: previousState.score,
+        score: state.score,
+        ...notification,
+        ...(rule.channels ? { channels: rule.channels } : {}),
+      }));
+    });
+  });
+}
+
+/**
+ * Most severe first
+ */
+export function sortNotifications(notifications: HealthNotification[]): HealthNotification[] {
+  return [...notifications].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      a.packageName.localeCompare(b.packageName)
+  );
+}
+
+/**
+ * One line summary, used as email subject and chat message title
+ */
+export function summarizeNotifications(notifications: HealthNotification[]): string {
+  if (notifications.length === 1) return notifications[0].title;
+  const packages = Array.from(new Set(notifications.map(notification => notification.packageName)));
+  const listed = packages.slice(0, 3).join(', ') + (packages.length > 3 ? ` and ${packages.length - 3} more` : '');
+  return `${notifications.length} health alerts: ${listed}`;
+}
+
+export function getPackageUrl(dashboardUrl: string | undefined, packageName: string): string | undefined {
+  return dashboardUrl ? `${dashboardUrl.replace(/\/+$/, '')}/packages/${encodeURIComponent(packageName)}` : undefined;
+}
+
+/**
+ * Plain text body listing every notification, for email
+ */
+export function formatNotificationText(notifications: HealthNotification[], dashboardUrl?: string): string {
+  const sections = sortNotifications(notifications).map(notification => {
+    const url = getPackageUrl(dashboardUrl, notification.packageName);
+    return [
+      `[${notification.severity.toUpperCase()}] ${notification.title}`,
+      notification.message,
+      `Score: ${notification.previousScore} -> ${notification.score} (rule ${notification.rule})`,
+      ...(url ? [url] : []),
+    ].join('\n');
+  });
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Body of a webhook request: the notifications as they are (json), or a
+ * message for a Slack compatible (Slack, Mattermost, Rocket.Chat) or Microsoft
+ * Teams incoming webhook
+ */
+export function buildWebhookPayload(
+  format: WebhookFormat,
+  notifications: HealthNotification[],
+  options: { dashboardUrl?: string; sentAt?: Date } = {}
+): Record<string, unknown> {
+  const sorted = sortNotifications(notifications);
+  const summary = summarizeNotifications(sorted);
+  const score = (notification: HealthNotification) => `${notification.previousScore} → ${notification.score}`;
+
+  switch (format) {
+    case 'slack':
+      return {
+        text: summary,
+        attachments: sorted.map(notification => ({
+          color: SEVERITY_COLORS[notification.severity],
+          title: notification.title,
+          title_link: getPackageUrl(options.dashboardUrl, notification.packageName),
+          text: notification.message,
+          fields: [
+            { title: 'Score', value: score(notification), short: true },
+            { title: 'Rule', value: notification.rule, short: true },
+          ],
+        })),
+      };
+    case 'teams': {
+      const dashboardUrl = options.dashboardUrl;
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary,
+        title: summary,
+        themeColor: SEVERITY_COLORS[sorted[0]?.severity ?? 'info'].slice(1),
+        sections: sorted.map(notification => ({
+          activityTitle: notification.title,
+          text: notification.message,
+          facts: [
+            { name: 'Score', value: score(notification) },
+            { name: 'Rule', value: notification.rule },
+          ],
+        })),
+        ...(dashboardUrl
+          ? {
+              potentialAction: [
+                { '@type': 'OpenUri', name: 'Open dashboard', targets: [{ os: 'default', uri: dashboardUrl }] },
+              ],
+            }
+          : {}),
+      };
+    }
+    default:
+      return {
+        event: 'health.notifications',
+        sentAt: (options.sentAt ?? new Date()).toISOString(),
+        summary,
+        notifications: sorted.map(notification => ({
+          ...notification,
+          url: getPackageUrl(options.dashboardUrl, notification.packageName),
+        })),
+      };
+  }
+}
+
+/**
+ * HMAC-SHA256 of '<timestamp>.<body>', hex encoded. Receivers recompute it
+ * with the shared secret and reject stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Expands ${VAR} references to environment variables, so secrets can stay out
+ * of monodog-config.json
+ */
+export function resolveSecret(value: string | undefined): string | undefined {
+  return value?.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * Host of a webhook URL, shown in place of the URL since paths and queries
+ * often carry the webhook's token. Null when the URL is not valid.
+ */
+export function getWebhookHost(url: string): string | null {
+  try {
+    return new URL(resolveSecret(url) ?? '').host;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,115 @@
+import { getRegistryClient, RegistryClient, RegistryMetadata } from './registry-client';
+import {
+  compareVersions,
+  isValidRange,
+  maxSatisfying,
+  minVersion,
+  parseVersion,
+  resolveDeclaredRange,
+  satisfies,
+} from './semver-utils';
+import type { DependencyInfo, PackageInfo } from '../types';
+
+type DependencyStatus = NonNullable<DependencyInfo['status']>;
+
+const LOCAL_PROTOCOL = /^(workspace|link|file|portal):/;
+const REGISTRY_CONCURRENCY = 8;
+
+/**
+ * Lists the declared dependencies of a package; statuses start as unknown
+ */
+export function getDeclaredDependencies(pkg: PackageInfo): DependencyInfo[] {
+  const fields: Array<[Record<string, string> | undefined, DependencyInfo['type']]> = [
+    [pkg.dependencies, 'dependency'],
+    [pkg.devDependencies, 'devDependency'],
+    [pkg.peerDependencies, 'peerDependency'],
+  ];
+
+  return fields.flatMap(([declared, type]) =>
+    Object.entries(declared || {}).map(([name, version]) => ({
+      name,
+      version,
+      type,
+      latest: '',
+      status: 'unknown' as const,
+      outdated: false,
+    }))
+  );
+}
+
+/**
+ * Classifies a declared range against the registry metadata of the dependency.
+ * A newer major (or a newer minor of a 0.x version) is a major update.
+ */
+export function getDependencyStatus(range: string, metadata: RegistryMetadata | null): DependencyStatus {
+  const latest = metadata?.latest;
+  if (!latest || LOCAL_PROTOCOL.test(range)) {
+    return 'unknown';
+  }
+
+  const semverRange = resolveDeclaredRange(range, latest);
+  if (!isValidRange(semverRange)) {
+    return 'unknown';
+  }
+  if (satisfies(latest, semverRange)) {
+    return 'up-to-date';
+  }
+
+  const current = maxSatisfying(metadata.versions, semverRange) || minVersion(semverRange);
+  const currentVersion = current ? parseVersion(current) : null;
+  const latestVersion = parseVersion(latest);
+  if (!currentVersion || !latestVersion) {
+    return 'unknown';
+  }
+  // Ranges pointing past latest (e.g. a next or beta tag) are not outdated
+  if (compareVersions(current!, latest) >= 0) {
+    return 'up-to-date';
+  }
+
+  const breaking =
+    latestVersion.major > currentVersion.major ||
+    (latestVersion.major === 0 && latestVersion.minor > currentVersion.minor);
+  return breaking ? 'major-update' : 'outdated';
+}
+
+/**
+ * Fills latest, status and outdated for each dependency from the registry
+ */
+export async function resolveDependencyStatuses(
+  dependencies: DependencyInfo[],
+  client: RegistryClient = getRegistryClient()
+): Promise<DependencyInfo[]> {
+  const resolved: DependencyInfo[] = new Array(dependencies.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < dependencies.length) {
+      const index = next++;
+      const dependency = dependencies[index];
+      const metadata = LOCAL_PROTOCOL.test(dependency.version)
+        ? null
+        : await client.getMetadata(dependency.name);
+      const status = getDependencyStatus(dependency.version, metadata);
+
+      resolved[index] = {
+        ...dependency,
+        latest: metadata?.latest || '',
+        status,
+        outdated: status === 'outdated' || status === 'major-update',
+      };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(REGISTRY_CONCURRENCY, dependencies.length) }, worker));
+  return resolved;
+}
+
+/**
+ * Rolls dependency statuses up into one package level status
+ */
+export function summarizeDependencyStatus(dependencies: DependencyInfo[]): DependencyStatus {
+  if (dependencies.some(dep => dep.status === 'major-update')) return 'major-update';
+  if (dependencies.some(dep => dep.status === 'outdated')) return 'outdated';
+  if (dependencies.some(dep => dep.status === 'up-to-date')) return 'up-to-date';
+  return 'unknown';
+}
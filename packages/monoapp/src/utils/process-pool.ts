@@ -0,0 +1,136 @@
+import os from 'os';
+import { spawn } from 'child_process';
+import type { CommandOutput, RunCommandOptions } from '../types';
+
+const DEFAULT_CONCURRENCY = Math.max(1, os.cpus().length);
+
+// Characters kept from the end of stdout and stderr each
+const MAX_OUTPUT_LENGTH = 16 * 1024;
+
+// Time a command gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 5000;
+
+// Commands run in their own process group so package manager children are killed too
+const USE_PROCESS_GROUP = process.platform !== 'win32';
+
+function appendOutput(current: string, chunk: Buffer): string {
+  const next = current + chunk.toString();
+  return next.length > MAX_OUTPUT_LENGTH ? next.slice(-MAX_OUTPUT_LENGTH) : next;
+}
+
+function killCommand(pid: number | undefined, signal: NodeJS.Signals): void {
+  if (pid === undefined) return;
+  try {
+    process.kill(USE_PROCESS_GROUP ? -pid : pid, signal);
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Runs one shell command without blocking the event loop. Never rejects: a
+ * command that fails to start reports the error on stderr.
+ */
+function executeCommand(command: string, options: RunCommandOptions): Promise<CommandOutput> {
+  const startedAt = Date.now();
+  let stdout = '';
+  let stderr = '';
+  let timedOut = false;
+
+  return new Promise(resolve => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: USE_PROCESS_GROUP,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const terminate = () => {
+      killCommand(child.pid, 'SIGTERM');
+      setTimeout(() => killCommand(child.pid, 'SIGKILL'), KILL_GRACE_MS).unref();
+    };
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          terminate();
+        }, options.timeoutMs)
+      : undefined;
+    options.signal?.addEventListener('abort', terminate, { once: true });
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', terminate);
+      resolve({
+        command,
+        exitCode,
+        stdout,
+        stderr: error ? appendOutput(stderr, Buffer.from(error.message)) : stderr,
+        durationMs: Date.now() - startedAt,
+        timedOut,
+      });
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => (stdout = appendOutput(stdout, chunk)));
+    child.stderr.on('data', (chunk: Buffer) => (stderr = appendOutput(stderr, chunk)));
+    child.on('error', error => finish(null, error));
+    child.on('close', code => finish(code));
+  });
+}
+
+/**
+ * Runs shell commands with at most `concurrency` of them at a time; the rest
+ * wait in order.
+ */
+export class ProcessPool {
+  private concurrency: number;
+  private running = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.startNext();
+  }
+
+  getStatus(): { concurrency: number; running: number; queued: number } {
+    return { concurrency: this.concurrency, running: this.running, queued: this.queue.length };
+  }
+
+  run(command: string, options: RunCommandOptions): Promise<CommandOutput> {
+    return new Promise(resolve => {
+      this.queue.push(() => {
+        const result = options.signal?.aborted
+          ? Promise.resolve({
+              command,
+              exitCode: null,
+              stdout: '',
+              stderr: 'Cancelled before it started',
+              durationMs: 0,
+              timedOut: false,
+            })
+          : executeCommand(command, options);
+        result.then(output => {
+          this.running--;
+          this.startNext();
+          resolve(output);
+        });
+      });
+      this.startNext();
+    });
+  }
+
+  private startNext(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      this.running++;
+      this.queue.shift()!();
+    }
+  }
+}
+
+/**
+ * Pool shared by the health checks and the scanner
+ */
+export const processPool = new ProcessPool();
@@ -0,0 +1,319 @@
+import * as fs from 'fs';
+import path from 'path';
+import { matchGlob } from './glob-utils';
+import type { PackagePublishLint, PublishLintFinding, PublishLintSeverity } from '../types';
+
+interface PublishManifest {
+  name?: string;
+  version?: string;
+  private?: boolean;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  browser?: unknown;
+  exports?: unknown;
+  bin?: string | Record<string, string>;
+  files?: unknown;
+  publishConfig?: Record<string, unknown>;
+}
+
+// Entry fields pnpm and yarn replace with their publishConfig value on publish
+const PUBLISH_CONFIG_OVERRIDES = ['main', 'module', 'types', 'typings', 'browser', 'exports', 'bin'] as const;
+
+// npm always packs these, whatever the files allowlist says
+const ALWAYS_PUBLISHED = /^(package\.json|readme(\..*)?|licen[cs]e(\..*)?)$/i;
+
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+class FindingCollector {
+  readonly findings: PublishLintFinding[] = [];
+
+  add(severity: PublishLintSeverity, code: string, field: string, message: string): void {
+    this.findings.push({ code, severity, field, message });
+  }
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function toRelative(target: string): string {
+  return path.posix.normalize(target.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+}
+
+/**
+ * File main resolves to the way Node does: as is, with an extension, or as a directory index
+ */
+function resolveMain(dir: string, main: string): string | null {
+  const relative = toRelative(main);
+  const candidates = [
+    relative,
+    ...['.js', '.json', '.node'].map(ext => relative + ext),
+    ...['index.js', 'index.json', 'index.node'].map(index => path.posix.join(relative, index)),
+  ];
+  return candidates.find(candidate => isFile(path.join(dir, candidate))) ?? null;
+}
+
+function listFiles(dir: string, relativeDir = ''): string[] {
+  let items: fs.Dirent[];
+  try {
+    items = fs.readdirSync(path.join(dir, relativeDir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  return items.flatMap(item => {
+    const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+    if (item.isDirectory()) {
+      return IGNORED_DIRECTORIES.includes(item.name) ? [] : listFiles(dir, relativePath);
+    }
+    return item.isFile() ? [relativePath] : [];
+  });
+}
+
+/**
+ * Whether npm would pack a file given the files allowlist; negated entries
+ * exclude again and the last matching entry wins
+ */
+export function isPublishedFile(relativePath: string, files: string[]): boolean {
+  if (ALWAYS_PUBLISHED.test(relativePath)) {
+    return true;
+  }
+
+  let published = false;
+  for (const entry of files) {
+    const negated = entry.startsWith('!');
+    const pattern = toRelative(negated ? entry.slice(1) : entry).replace(/\/+$/, '');
+    if (matchGlob(relativePath, pattern) || matchGlob(relativePath, `${pattern}/**`)) {
+      published = !negated;
+    }
+  }
+  return published;
+}
+
+/**
+ * Walks an exports map, checking key shapes and condition order, and returns
+ * every target with the field it was found under
+ */
+function collectExportTargets(
+  value: unknown,
+  field: string,
+  collector: FindingCollector
+): Array<{ field: string; target: string }> {
+  if (typeof value === 'string') {
+    return [{ field, target: value }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((fallback, index) => collectExportTargets(fallback, `${field}[${index}]`, collector));
+  }
+  if (!value || typeof value !== 'object') {
+    // null blocks a subpath on purpose
+    return [];
+  }
+
+  const keys = Object.keys(value);
+  const subpaths = keys.filter(key => key.startsWith('.'));
+  if (subpaths.length && subpaths.length !== keys.length) {
+    collector.add('error', 'EXPORTS_MIXED_KEYS', field, 'exports cannot mix subpaths (".") with conditions');
+    return [];
+  }
+
+  if (!subpaths.length) {
+    if (keys.includes('types') && keys.indexOf('types') !== 0) {
+      collector.add('warning', 'EXPORTS_TYPES_NOT_FIRST', `${field}.types`, 'The "types" condition should come first so TypeScript picks it up');
+    }
+    if (keys.includes('default') && keys.indexOf('default') !== keys.length - 1) {
+      collector.add('error', 'EXPORTS_DEFAULT_NOT_LAST', `${field}.default`, 'The "default" condition must come last, conditions after it are never matched');
+    }
+  }
+
+  return keys.flatMap(key =>
+    collectExportTargets(
+      (value as Record<string, unknown>)[key],
+      key.startsWith('.') ? `${field}[${JSON.stringify(key)}]` : `${field}.${key}`,
+      collector
+    )
+  );
+}
+
+function hasTypesCondition(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(hasTypesCondition);
+  if (!value || typeof value !== 'object') return false;
+  return Object.entries(value).some(([key, nested]) => key === 'types' || hasTypesCondition(nested));
+}
+
+/**
+ * publint-style checks of the fields that decide what a package publishes
+ * (main, module, types, exports, bin, files and publishConfig) against the
+ * files on disk, typically the built output
+ */
+export function lintPackageForPublish(packageDir: string, manifest: PublishManifest): PublishLintFinding[] {
+  const collector = new FindingCollector();
+  const publishConfig = manifest.publishConfig ?? {};
+
+  if (!manifest.name) {
+    collector.add('error', 'NAME_MISSING', 'name', 'Packages need a name to be published');
+  }
+  if (!manifest.version) {
+    collector.add('error', 'VERSION_MISSING', 'version', 'Packages need a version to be published');
+  }
+
+  // pnpm publishes from publishConfig.directory when set
+  let dir = packageDir;
+  if (typeof publishConfig.directory === 'string') {
+    dir = path.join(packageDir, publishConfig.directory);
+    if (!isDirectory(dir)) {
+      collector.add('error', 'FILE_NOT_FOUND', 'publishConfig.directory', `Directory ${publishConfig.directory} does not exist`);
+      return collector.findings;
+    }
+  }
+
+  if (publishConfig.access !== undefined && !['public', 'restricted'].includes(publishConfig.access as string)) {
+    collector.add('error', 'PUBLISH_CONFIG_ACCESS', 'publishConfig.access', 'access must be "public" or "restricted"');
+  } else if (manifest.name?.startsWith('@') && publishConfig.access !== 'public') {
+    collector.add('suggestion', 'SCOPED_ACCESS', 'publishConfig.access', 'Scoped packages publish as restricted unless publishConfig.access is "public"');
+  }
+  if (publishConfig.registry !== undefined) {
+    try {
+      new URL(publishConfig.registry as string);
+    } catch {
+      collector.add('error', 'PUBLISH_CONFIG_REGISTRY', 'publishConfig.registry', `Invalid registry URL: ${publishConfig.registry}`);
+    }
+  }
+
+  const fieldName = (field: (typeof PUBLISH_CONFIG_OVERRIDES)[number]) =>
+    publishConfig[field] !== undefined ? `publishConfig.${field}` : field;
+  const published: PublishManifest = { ...manifest };
+  PUBLISH_CONFIG_OVERRIDES.forEach(field => {
+    if (publishConfig[field] !== undefined) {
+      (published as Record<string, unknown>)[field] = publishConfig[field];
+    }
+  });
+
+  // Files that have to end up in the tarball; main and bin are always packed by npm
+  const referenced: Array<{ field: string; file: string }> = [];
+
+  if (typeof published.main === 'string') {
+    if (!resolveMain(dir, published.main)) {
+      collector.add('error', 'FILE_NOT_FOUND', fieldName('main'), `${published.main} does not exist`);
+    }
+  } else if (published.exports === undefined && published.bin === undefined && !isFile(path.join(dir, 'index.js'))) {
+    collector.add('error', 'NO_ENTRY', 'main', 'No main, exports or bin, and there is no index.js to fall back to');
+  }
+
+  const fileFields = ['module', 'types', 'typings'] as const;
+  for (const field of fileFields) {
+    const value = published[field];
+    if (typeof value !== 'string') continue;
+    if (isFile(path.join(dir, toRelative(value)))) {
+      referenced.push({ field: fieldName(field), file: toRelative(value) });
+    } else {
+      collector.add('error', 'FILE_NOT_FOUND', fieldName(field), `${value} does not exist`);
+    }
+  }
+  if (typeof published.browser === 'string') {
+    if (isFile(path.join(dir, toRelative(published.browser)))) {
+      referenced.push({ field: fieldName('browser'), file: toRelative(published.browser) });
+    } else {
+      collector.add('error', 'FILE_NOT_FOUND', fieldName('browser'), `${published.browser} does not exist`);
+    }
+  }
+
+  if (published.exports !== undefined) {
+    for (const { field, target } of collectExportTargets(published.exports, fieldName('exports'), collector)) {
+      if (!target.startsWith('./')) {
+        collector.add('error', 'EXPORTS_INVALID_TARGET', field, `${target} must start with "./"`);
+      } else if (target.includes('*')) {
+        const base = path.posix.dirname(toRelative(target.slice(0, target.indexOf('*')) + 'x'));
+        if (!isDirectory(path.join(dir, base))) {
+          collector.add('error', 'FILE_NOT_FOUND', field, `No directory ${base} for the pattern ${target}`);
+        }
+      } else if (isFile(path.join(dir, toRelative(target)))) {
+        referenced.push({ field, file: toRelative(target) });
+      } else {
+        collector.add('error', 'FILE_NOT_FOUND', field, `${target} does not exist`);
+      }
+    }
+  }
+
+  const mainTypes =
+    typeof published.main === 'string' && isFile(path.join(dir, toRelative(published.main).replace(/\.[cm]?js$/, '.d.ts')));
+  if (
+    !published.types &&
+    !published.typings &&
+    !hasTypesCondition(published.exports) &&
+    !mainTypes &&
+    isFile(path.join(packageDir, 'tsconfig.json'))
+  ) {
+    collector.add('warning', 'TYPES_MISSING', 'types', 'TypeScript package without "types" or a "types" export condition');
+  }
+
+  const bins = typeof published.bin === 'string' ? { [manifest.name ?? 'bin']: published.bin } : published.bin ?? {};
+  for (const [name, file] of Object.entries(bins)) {
+    const field = typeof published.bin === 'string' ? fieldName('bin') : `${fieldName('bin')}.${name}`;
+    const binPath = path.join(dir, toRelative(file));
+    if (!isFile(binPath)) {
+      collector.add('error', 'FILE_NOT_FOUND', field, `${file} does not exist`);
+    } else if (!fs.readFileSync(binPath, 'utf8').startsWith('#!')) {
+      collector.add('warning', 'BIN_NO_SHEBANG', field, `${file} has no #! line, so it cannot run as a command`);
+    }
+  }
+
+  if (manifest.files === undefined) {
+    if (!isFile(path.join(dir, '.npmignore'))) {
+      collector.add('warning', 'FILES_MISSING', 'files', 'No files allowlist, so everything except .gitignore entries is published');
+    }
+  } else if (!Array.isArray(manifest.files) || !manifest.files.every(entry => typeof entry === 'string')) {
+    collector.add('error', 'FILES_INVALID', 'files', 'files must be an array of paths or globs');
+  } else {
+    const files = manifest.files as string[];
+    const onDisk = listFiles(dir);
+    files.forEach((entry, index) => {
+      if (entry.startsWith('!')) return;
+      const pattern = toRelative(entry).replace(/\/+$/, '');
+      if (!onDisk.some(file => matchGlob(file, pattern) || matchGlob(file, `${pattern}/**`))) {
+        collector.add('warning', 'FILES_PATTERN_UNMATCHED', `files[${index}]`, `${entry} does not match any file, is the package built?`);
+      }
+    });
+    for (const { field, file } of referenced) {
+      if (!isPublishedFile(file, files)) {
+        collector.add('error', 'FILE_NOT_PUBLISHED', field, `${file} is not included by the files allowlist`);
+      }
+    }
+  }
+
+  return collector.findings;
+}
+
+/**
+ * Reads a package manifest from disk and lints it, skipping private packages
+ */
+export function lintPackageDirectory(packageDir: string): PackagePublishLint | null {
+  let manifest: PublishManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const isPrivate = manifest.private === true;
+  return {
+    packageName: manifest.name ?? path.basename(packageDir),
+    path: packageDir,
+    private: isPrivate,
+    findings: isPrivate ? [] : lintPackageForPublish(packageDir, manifest),
+  };
+}
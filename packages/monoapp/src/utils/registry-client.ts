@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import path from 'path';
+import { appConfig } from '../config-loader';
+import { AppLogger } from '../middleware/logger';
+
+const DEFAULT_REGISTRY_URL = 'https://registry.npmjs.org';
+const DEFAULT_CACHE_TTL_MINUTES = 60;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface RegistryMetadata {
+  name: string;
+  latest: string | null;
+  versions: string[];
+}
+
+export interface RegistryClientOptions {
+  url?: string;
+  cacheDir?: string;
+  cacheTtlMinutes?: number;
+  offline?: boolean;
+  timeoutMs?: number;
+}
+
+interface CacheEntry {
+  fetchedAt: number;
+  metadata: RegistryMetadata | null; // null records a package missing from the registry
+}
+
+/**
+ * Fetches package metadata from an npm compatible registry (npmjs, Verdaccio, ...)
+ * with an on-disk cache. In offline mode only cached metadata is used.
+ */
+export class RegistryClient {
+  private readonly url: string;
+  private readonly cacheDir: string;
+  private readonly cacheTtlMs: number;
+  private readonly offline: boolean;
+  private readonly timeoutMs: number;
+  private readonly inFlight = new Map<string, Promise<RegistryMetadata | null>>();
+
+  constructor(options: RegistryClientOptions = {}) {
+    this.url = (options.url || DEFAULT_REGISTRY_URL).replace(/\/+$/, '');
+    this.cacheDir =
+      options.cacheDir || path.join(process.cwd(), 'node_modules', '.cache', 'monodog', 'registry');
+    this.cacheTtlMs = (options.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES) * 60 * 1000;
+    this.offline = options.offline ?? false;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Returns the package metadata, or null when it is unknown to the registry
+   * (or not cached while offline)
+   */
+  async getMetadata(name: string): Promise<RegistryMetadata | null> {
+    const cached = this.readCache(name);
+    if (cached && (this.offline || Date.now() - cached.fetchedAt < this.cacheTtlMs)) {
+      return cached.metadata;
+    }
+    if (this.offline) {
+      return null;
+    }
+
+    // Share one request between concurrent lookups of the same package
+    let request = this.inFlight.get(name);
+    if (!request) {
+      request = this.fetchMetadata(name)
+        .then(metadata => {
+          this.writeCache(name, { fetchedAt: Date.now(), metadata });
+          return metadata;
+        })
+        .catch(error => {
+          AppLogger.warn(`Registry lookup failed for ${name}: ${(error as Error).message}`);
+          // Fall back to stale metadata when the registry is unreachable
+          return cached?.metadata ?? null;
+        })
+        .finally(() => this.inFlight.delete(name));
+      this.inFlight.set(name, request);
+    }
+    return request;
+  }
+
+  private async fetchMetadata(name: string): Promise<RegistryMetadata | null> {
+    // Scoped names keep the '@' but escape the slash
+    const response = await fetch(`${this.url}/${name.replace('/', '%2f')}`, {
+      headers: { Accept: 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Registry responded with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      'dist-tags'?: Record<string, string>;
+      versions?: Record<string, unknown>;
+    };
+    return {
+      name,
+      latest: data['dist-tags']?.latest ?? null,
+      versions: Object.keys(data.versions || {}),
+    };
+  }
+
+  private cachePath(name: string): string {
+    return path.join(this.cacheDir, `${encodeURIComponent(name)}.json`);
+  }
+
+  private readCache(name: string): CacheEntry | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.cachePath(name), 'utf8')) as CacheEntry;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private writeCache(name: string, entry: CacheEntry): void {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(this.cachePath(name), JSON.stringify(entry));
+    } catch (error) {
+      AppLogger.warn(`Unable to cache registry metadata for ${name}`);
+    }
+  }
+}
+
+let registryClient: RegistryClient | null = null;
+
+/**
+ * Registry client configured from the `registry` section of monodog-config.json
+ */
+export function getRegistryClient(): RegistryClient {
+  if (!registryClient) {
+    registryClient = new RegistryClient(appConfig.registry);
+  }
+  return registryClient;
+}
@@ -0,0 +1,352 @@
+/**
+ * Minimal semver parsing and range matching (caret, tilde, x-ranges,
+ * comparators, hyphen ranges and '||' unions) plus workspace protocol handling
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemVer;
+  synthetic: boolean; // Generated upper bounds never admit prereleases
+}
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN = /^[v=]*\s*(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN =
+  /^[v=]*\s*(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parses a full version such as '1.2.3' or 'v1.2.3-beta.1'
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  // Numeric identifiers always have lower precedence
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareSemVer(a: SemVer, b: SemVer): number {
+  const main = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (main) return main;
+
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) return -1;
+    if (b.prerelease[i] === undefined) return 1;
+    const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (result) return result;
+  }
+  return 0;
+}
+
+/**
+ * Compares two versions: negative when a < b, positive when a > b.
+ * Unparsable versions sort before valid ones.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    return (parsedA ? 1 : 0) - (parsedB ? 1 : 0);
+  }
+  return Math.sign(compareSemVer(parsedA, parsedB));
+}
+
+function parsePartial(value: string): PartialVersion | null {
+  const match = PARTIAL_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const toNumber = (part?: string) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+
+  const major = toNumber(match[1]);
+  const minor = major === undefined ? undefined : toNumber(match[2]);
+  const patch = minor === undefined ? undefined : toNumber(match[3]);
+  return { major, minor, patch, prerelease: match[4] ? match[4].split('.') : [] };
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+function comparator(
+  operator: Comparator['operator'],
+  value: SemVer,
+  synthetic = false
+): Comparator {
+  return { operator, version: value, synthetic };
+}
+
+/**
+ * Lower bound of a partial version, e.g. '1.2' -> >=1.2.0
+ */
+function lowerBound(partial: PartialVersion): Comparator {
+  return comparator(
+    '>=',
+    version(partial.major ?? 0, partial.minor ?? 0, partial.patch ?? 0, partial.prerelease)
+  );
+}
+
+/**
+ * Exclusive upper bound where the first unspecified part is bumped, e.g. '1.2' -> <1.3.0-0
+ */
+function xRangeUpperBound(partial: PartialVersion): Comparator | null {
+  if (partial.major === undefined) return null;
+  if (partial.minor === undefined) {
+    return comparator('<', version(partial.major + 1, 0, 0, ['0']), true);
+  }
+  return comparator('<', version(partial.major, partial.minor + 1, 0, ['0']), true);
+}
+
+function desugar(token: string): Comparator[] | null {
+  const match = /^(\^|~>?|<=|>=|<|>|=)?\s*(.*)$/.exec(token);
+  if (!match) return null;
+  const operator = match[1] || '';
+  const partial = parsePartial(match[2] || '*');
+  if (!partial) return null;
+
+  const isFull = partial.patch !== undefined;
+  const { major = 0, minor = 0, patch = 0 } = partial;
+
+  switch (operator) {
+    case '^': {
+      if (partial.major === undefined) return [];
+      let upper: SemVer;
+      if (major > 0 || partial.minor === undefined) {
+        upper = version(major + 1, 0, 0, ['0']);
+      } else if (minor > 0 || partial.patch === undefined) {
+        upper = version(0, minor + 1, 0, ['0']);
+      } else {
+        upper = version(0, 0, patch + 1, ['0']);
+      }
+      return [lowerBound(partial), comparator('<', upper, true)];
+    }
+    case '~':
+    case '~>': {
+      if (partial.major === undefined) return [];
+      const upper =
+        partial.minor === undefined
+          ? version(major + 1, 0, 0, ['0'])
+          : version(major, minor + 1, 0, ['0']);
+      return [lowerBound(partial), comparator('<', upper, true)];
+    }
+    case '>':
+      if (partial.major === undefined) return [comparator('<', version(0, 0, 0, ['0']), true)];
+      if (isFull) return [comparator('>', version(major, minor, patch, partial.prerelease))];
+      return partial.minor === undefined
+        ? [comparator('>=', version(major + 1, 0, 0))]
+        : [comparator('>=', version(major, minor + 1, 0))];
+    case '>=':
+      return partial.major === undefined ? [] : [lowerBound(partial)];
+    case '<':
+      if (partial.major === undefined) return [comparator('<', version(0, 0, 0, ['0']), true)];
+      return isFull
+        ? [comparator('<', version(major, minor, patch, partial.prerelease))]
+        : [comparator('<', version(major, minor, 0, ['0']), true)];
+    case '<=': {
+      if (partial.major === undefined) return [];
+      if (isFull) return [comparator('<=', version(major, minor, patch, partial.prerelease))];
+      return [xRangeUpperBound(partial)!];
+    }
+    default: {
+      // Plain or '=' versions are x-ranges when partial
+      if (isFull) return [comparator('=', version(major, minor, patch, partial.prerelease))];
+      const upper = xRangeUpperBound(partial);
+      return upper ? [lowerBound(partial), upper] : [];
+    }
+  }
+}
+
+/**
+ * Parses one space separated comparator set, including hyphen ranges
+ */
+function parseComparatorSet(set: string): Comparator[] | null {
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(set);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) return null;
+    const upper =
+      to.patch !== undefined
+        ? comparator('<=', version(to.major!, to.minor!, to.patch, to.prerelease))
+        : xRangeUpperBound(to);
+    return [lowerBound(from), ...(upper ? [upper] : [])];
+  }
+
+  // Allow whitespace between an operator and its version, e.g. '>= 1.2.0'
+  const tokens = set
+    .replace(/(\^|~>?|<=|>=|<|>|=)\s+/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const comparators: Comparator[] = [];
+  for (const token of tokens) {
+    const desugared = desugar(token);
+    if (!desugared) return null;
+    comparators.push(...desugared);
+  }
+  return comparators;
+}
+
+function testComparator(value: SemVer, { operator, version: bound }: Comparator): boolean {
+  const result = compareSemVer(value, bound);
+  switch (operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    default:
+      return result === 0;
+  }
+}
+
+function testComparatorSet(value: SemVer, comparators: Comparator[]): boolean {
+  if (!comparators.every(item => testComparator(value, item))) {
+    return false;
+  }
+  if (!value.prerelease.length) {
+    return true;
+  }
+  // Prereleases only match when a comparator opts into the same major.minor.patch
+  return comparators.some(
+    ({ version: bound, synthetic }) =>
+      !synthetic &&
+      bound.prerelease.length > 0 &&
+      bound.major === value.major &&
+      bound.minor === value.minor &&
+      bound.patch === value.patch
+  );
+}
+
+/**
+ * Returns whether a version satisfies a semver range. Invalid input never matches.
+ */
+export function satisfies(versionString: string, range: string): boolean {
+  const value = parseVersion(versionString);
+  if (!value) return false;
+
+  const sets = range.trim() === '' ? [''] : range.split('||');
+  return sets.some(set => {
+    const comparators = parseComparatorSet(set.trim());
+    return comparators !== null && testComparatorSet(value, comparators);
+  });
+}
+
+/**
+ * Returns whether a string is a valid semver range
+ */
+export function isValidRange(range: string): boolean {
+  const sets = range.trim() === '' ? [''] : range.split('||');
+  return sets.every(set => parseComparatorSet(set.trim()) !== null);
+}
+
+/**
+ * Lowest version that can satisfy the range, e.g. '^1.2.0 || ^2.0.0' -> 1.2.0
+ */
+export function minVersion(range: string): string | null {
+  const sets = range.trim() === '' ? [''] : range.split('||');
+  let lowest: SemVer | null = null;
+
+  for (const set of sets) {
+    const comparators = parseComparatorSet(set.trim());
+    if (!comparators) return null;
+
+    let candidate = version(0, 0, 0);
+    for (const { operator, version: bound } of comparators) {
+      if (operator === '<' || operator === '<=') continue;
+      const floor =
+        operator === '>' ? version(bound.major, bound.minor, bound.patch + 1) : bound;
+      if (compareSemVer(floor, candidate) > 0) candidate = floor;
+    }
+
+    if (
+      testComparatorSet(candidate, comparators) &&
+      (!lowest || compareSemVer(candidate, lowest) < 0)
+    ) {
+      lowest = candidate;
+    }
+  }
+
+  if (!lowest) return null;
+  const base = `${lowest.major}.${lowest.minor}.${lowest.patch}`;
+  return lowest.prerelease.length ? `${base}-${lowest.prerelease.join('.')}` : base;
+}
+
+/**
+ * Highest version in the list satisfying the range
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  return versions
+    .filter(candidate => satisfies(candidate, range))
+    .reduce<string | null>(
+      (best, candidate) => (!best || compareVersions(candidate, best) > 0 ? candidate : best),
+      null
+    );
+}
+
+/**
+ * Whether a declared range uses the workspace: protocol
+ */
+export function isWorkspaceProtocol(range: string): boolean {
+  return range.trim().startsWith('workspace:');
+}
+
+/**
+ * Resolves workspace: and npm: alias specifiers to a plain semver range.
+ * 'workspace:^' and 'workspace:~' use the local version as their base.
+ */
+export function resolveDeclaredRange(range: string, localVersion: string): string {
+  const trimmed = range.trim();
+
+  if (trimmed.startsWith('workspace:')) {
+    const specifier = trimmed.slice('workspace:'.length);
+    if (specifier === '^' || specifier === '~') return specifier + localVersion;
+    return specifier;
+  }
+
+  // npm:<name>@<range> aliases
+  const alias = /^npm:(?:@[^/]+\/)?[^@]+@(.+)$/.exec(trimmed);
+  return alias ? alias[1] : trimmed;
+}
+
+/**
+ * Whether a declared dependency range accepts the local workspace package version.
+ * Local path protocols (file:, link:, portal:) always point at the local package.
+ */
+export function satisfiesLocalVersion(range: string, localVersion: string): boolean {
+  if (/^(file|link|portal):/.test(range.trim())) {
+    return true;
+  }
+  return satisfies(localVersion, resolveDeclaredRange(range, localVersion));
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { getPackageSize } from './utilities';
+import type {
+  PackedSize,
+  PackageSizeMeasurement,
+  PackageSizeSnapshot,
+  SizeMetric,
+  SizeRegression,
+} from '../types';
+
+const execPromise = promisify(exec);
+
+export const OUTPUT_DIRECTORIES = ['dist', 'build'];
+export const SIZE_METRICS: SizeMetric[] = ['sourceSize', 'outputSize', 'packedSize'];
+export const DEFAULT_REGRESSION_THRESHOLD = 10;
+
+/**
+ * Total bytes of every file below a directory, 0 when it does not exist
+ */
+export function getDirectorySize(dirPath: string): number {
+  let total = 0;
+  let items: fs.Dirent[];
+  try {
+    items = fs.readdirSync(dirPath, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const item of items) {
+    const fullPath = path.join(dirPath, item.name);
+    if (item.isDirectory()) {
+      total += getDirectorySize(fullPath);
+    } else if (item.isFile()) {
+      try {
+        total += fs.statSync(fullPath).size;
+      } catch {
+        // Skip files we can't read
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Combined size of the dist/ and build/ output of a package
+ */
+export function getOutputSize(packagePath: string): number {
+  return OUTPUT_DIRECTORIES.reduce(
+    (total, dir) => total + getDirectorySize(path.join(packagePath, dir)),
+    0
+  );
+}
+
+/**
+ * Tarball size as npm would publish it. Lifecycle scripts are skipped so
+ * measuring never triggers a build. Returns null when packing fails.
+ */
+export async function getPackedSize(packagePath: string): Promise<PackedSize | null> {
+  try {
+    const { stdout } = await execPromise('npm pack --dry-run --json --ignore-scripts', {
+      cwd: packagePath,
+      timeout: 60000,
+      maxBuffer: 20 * 1024 * 1024,
+    });
+    // Older npm versions print notices before the JSON
+    const [result] = JSON.parse(stdout.slice(stdout.indexOf('[')));
+    if (typeof result?.size !== 'number') {
+      return null;
+    }
+    return {
+      size: result.size,
+      unpackedSize: result.unpackedSize ?? 0,
+      entryCount: result.entryCount ?? 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Source, build output and packed sizes of a package
+ */
+export async function measurePackageSize(packagePath: string): Promise<PackageSizeMeasurement> {
+  const source = getPackageSize(packagePath);
+  const packed = await getPackedSize(packagePath);
+
+  return {
+    sourceSize: source.size,
+    sourceFiles: source.files,
+    outputSize: getOutputSize(packagePath),
+    packedSize: packed?.size ?? null,
+    unpackedSize: packed?.unpackedSize ?? null,
+  };
+}
+
+/**
+ * Metrics that grew by more than thresholdPercent from one snapshot to the next.
+ * Metrics missing (null or 0) in the previous snapshot have no baseline and are skipped.
+ */
+export function findSizeRegressions(
+  previous: PackageSizeSnapshot,
+  current: PackageSizeSnapshot,
+  thresholdPercent = DEFAULT_REGRESSION_THRESHOLD
+): SizeRegression[] {
+  const regressions: SizeRegression[] = [];
+
+  for (const metric of SIZE_METRICS) {
+    const before = previous[metric];
+    const after = current[metric];
+    if (!before || after === null) continue;
+
+    const changePercent = Math.round(((after - before) / before) * 1000) / 10;
+    if (changePercent > thresholdPercent) {
+      regressions.push({
+        metric,
+        commitHash: current.commitHash,
+        previousCommitHash: previous.commitHash,
+        previous: before,
+        current: after,
+        changePercent,
+      });
+    }
+  }
+  return regressions;
+}
+
+/**
+ * Regressions between each pair of consecutive snapshots, oldest first
+ */
+export function findSizeHistoryRegressions(
+  snapshots: PackageSizeSnapshot[],
+  thresholdPercent = DEFAULT_REGRESSION_THRESHOLD
+): SizeRegression[] {
+  return snapshots
+    .slice(1)
+    .flatMap((snapshot, index) => findSizeRegressions(snapshots[index], snapshot, thresholdPercent));
+}
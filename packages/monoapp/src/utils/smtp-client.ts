@@ -0,0 +1,218 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { resolveSecret } from './notification-utils';
+import type { SmtpConfig } from '../types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Thrown when the SMTP server rejects a command or the connection fails
+ */
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+// 'Monodog <monodog@acme.dev>' -> 'monodog@acme.dev'
+const getAddress = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// RFC 2047 encoded-word for subjects outside ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * RFC 5322 message with a base64 encoded UTF-8 text body
+ */
+export function formatMailMessage(message: MailMessage, date = new Date()): string {
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${getAddress(message.from).split('@')[1] || 'monodog'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * One connection to an SMTP server, reading its replies line by line. The
+ * socket is swapped for a TLS one after STARTTLS.
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError('SMTP server timed out')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach() {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line);
+      // '250-' continues a multi-line reply, '250 ' ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines.map(item => item.slice(4)) });
+        this.lines = [];
+      }
+    }
+    this.flush();
+  };
+
+  private onError = (error: Error) => this.fail(error);
+
+  private onClose = () => this.fail(new SmtpError('SMTP connection closed'));
+
+  private fail(error: Error) {
+    this.failure = this.failure ?? error;
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.detach();
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.attach(secure);
+  }
+
+  close() {
+    this.detach();
+    this.socket.destroy();
+  }
+}
+
+function connect(smtp: SmtpConfig, port: number): net.Socket {
+  return smtp.secure
+    ? tls.connect({ host: smtp.host, port, servername: smtp.host })
+    : net.connect({ host: smtp.host, port });
+}
+
+async function authenticate(session: SmtpSession, extensions: string[], user: string, password: string) {
+  const mechanisms = extensions.find(line => /^AUTH[ =]/i.test(line))?.slice(5).toUpperCase().split(/\s+/) ?? [];
+  const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+  if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+    await session.command(`AUTH PLAIN ${base64(`\0${user}\0${password}`)}`, [235]);
+  } else {
+    await session.command('AUTH LOGIN', [334]);
+    await session.command(base64(user), [334]);
+    await session.command(base64(password), [235]);
+  }
+}
+
+/**
+ * Sends a message over SMTP: implicit TLS when secure, otherwise STARTTLS
+ * whenever the server offers it, then AUTH PLAIN or LOGIN when a user is set.
+ * Credentials are only sent over TLS unless allowInsecureAuth is set.
+ */
+export async function sendMail(smtp: SmtpConfig, message: MailMessage): Promise<void> {
+  const port = smtp.port ?? (smtp.secure ? 465 : 587);
+  const session = new SmtpSession(connect(smtp, port), smtp.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    await session.expect([220]);
+    let extensions = (await session.command(`EHLO ${os.hostname()}`, [250])).lines;
+    let encrypted = Boolean(smtp.secure);
+    if (!encrypted && extensions.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls(smtp.host);
+      encrypted = true;
+      extensions = (await session.command(`EHLO ${os.hostname()}`, [250])).lines;
+    }
+    if (smtp.user) {
+      if (!encrypted && !smtp.allowInsecureAuth) {
+        throw new SmtpError('SMTP server offers no TLS, refusing to send credentials in plain text');
+      }
+      await authenticate(session, extensions, smtp.user, resolveSecret(smtp.password) ?? '');
+    }
+
+    await session.command(`MAIL FROM:<${getAddress(smtp.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${getAddress(recipient)}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    // Lines starting with a dot are escaped by doubling it
+    const data = formatMailMessage(message).replace(/(^|\r\n)\./g, '$1..');
+    await session.command(`${data}\r\n.`, [250]);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,55 @@
+import type { TypeCheckReport, TypeDiagnostic } from '../types';
+
+/**
+ * Diagnostics kept per package
+ */
+export const MAX_TYPE_DIAGNOSTICS = 20;
+
+// 'src/index.ts(12,5): error TS2322: Type ...' as printed with --pretty false
+const LOCATED_DIAGNOSTIC = /^(.+?)\((\d+),(\d+)\): (error|warning) TS(\d+): (.*)$/;
+// 'error TS5083: Cannot read file ...' for project-wide diagnostics
+const GLOBAL_DIAGNOSTIC = /^(error|warning) TS(\d+): (.*)$/;
+
+/**
+ * Parses the output of tsc --pretty false. Indented lines continue the
+ * message of the diagnostic before them; anything else, such as package
+ * manager banners, is ignored.
+ */
+export function parseTscOutput(output: string, durationMs = 0): TypeCheckReport {
+  const diagnostics: TypeDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const located = LOCATED_DIAGNOSTIC.exec(line);
+    const global = located ? null : GLOBAL_DIAGNOSTIC.exec(line);
+    if (located) {
+      diagnostics.push({
+        file: located[1].trim().replace(/\\/g, '/'),
+        line: Number(located[2]),
+        column: Number(located[3]),
+        category: located[4] as TypeDiagnostic['category'],
+        code: Number(located[5]),
+        message: located[6],
+      });
+    } else if (global) {
+      diagnostics.push({
+        file: null,
+        line: null,
+        column: null,
+        category: global[1] as TypeDiagnostic['category'],
+        code: Number(global[2]),
+        message: global[3],
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+
+  const errors = diagnostics.filter(diagnostic => diagnostic.category === 'error');
+  const warnings = diagnostics.filter(diagnostic => diagnostic.category === 'warning');
+  return {
+    errorCount: errors.length,
+    warningCount: warnings.length,
+    diagnostics: [...errors, ...warnings].slice(0, MAX_TYPE_DIAGNOSTICS),
+    durationMs,
+  };
+}
@@ -1,44 +1,35 @@
 // import { Package } from '@prisma/client';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import path from 'path';
 import { appConfig } from '../config-loader';
 import { AppLogger } from '../middleware/logger';
 import {calculatePackageHealth} from './health-utils';
+import { resolveDirectoryGlobs } from './glob-utils';
+import { detectWorkspace } from './workspace-adapters';
+import { assignPackageOwners } from './codeowners-utils';
+import { DEPENDENCY_KINDS, getInternalEdges } from './graph-utils';
+import { getDeclaredDependencies, resolveDependencyStatuses } from './outdated-utils';
+import type { RegistryClient } from './registry-client';
 import * as yaml from 'js-yaml';
 
-import type { PackageInfo, DependencyInfo, MonorepoStats } from '../types';
+import type { PackageInfo, DependencyInfo, DependencyKind, MonorepoStats } from '../types';
 
 export type { PackageInfo, DependencyInfo, MonorepoStats } from '../types';
 export { type PackageHealth } from '../types';
 
 /**
- * Resolves simple workspace globs (like 'packages/*', 'apps/*') into actual package directory paths.
- * Note: This implementation only handles the 'folder/*' pattern and is not a full glob resolver.
+ * Root-level manifests which mark a monorepo root
  */
-export function resolveWorkspaceGlobs(rootDir: string, globs: string[]): string[] {
-    const resolvedPaths: string[] = [];
-
-    for (const glob of globs) {
-        if (glob.endsWith('/*')) {
-            const baseDirName = glob.slice(0, -2); // e.g., 'packages'
-            const baseDirPath = path.join(rootDir, baseDirName);
+export const WORKSPACE_MANIFESTS = ['pnpm-workspace.yaml', 'lerna.json', 'nx.json', 'rush.json'];
 
-            if (fs.existsSync(baseDirPath) && fs.statSync(baseDirPath).isDirectory()) {
-                const subDirs = fs.readdirSync(baseDirPath, { withFileTypes: true })
-                    .filter(dirent => dirent.isDirectory())
-                    .map(dirent => path.join(baseDirName, dirent.name)); // e.g., 'packages/my-utils'
-
-                resolvedPaths.push(...subDirs);
-            }
-        } else {
-            // Handle non-glob paths (e.g., 'packages/my-package') if it's explicitly listed
-            const directPath = path.join(rootDir, glob);
-            if (fs.existsSync(directPath) && fs.statSync(directPath).isDirectory()) {
-                 resolvedPaths.push(glob);
-            }
-        }
-    }
-    return resolvedPaths;
+/**
+ * Resolves workspace globs (like 'packages/*', recursive globstars, 'apps/{web,api}' brace sets
+ * and '!' exclusions) into actual package directory paths relative to rootDir.
+ * Negated patterns are applied in order and node_modules is never traversed.
+ */
+export function resolveWorkspaceGlobs(rootDir: string, globs: string[]): string[] {
+    return resolveDirectoryGlobs(rootDir, globs);
 }
 
 /**
@@ -55,12 +46,12 @@ function getWorkspacesFromPnpmYaml(rootDir: string): string[] | undefined {
         const yamlData = yaml.load(yamlContent) as { packages?: (string | string[]) };
 
         if (yamlData && yamlData.packages) {
-            // Filter out exclusion patterns (lines starting with '!')
+            // Keep exclusion patterns (starting with '!'), they are applied in order during resolution
             const packages = Array.isArray(yamlData.packages)
-                ? yamlData.packages.filter((pkg) => typeof pkg === 'string' && !pkg.startsWith('!'))
+                ? yamlData.packages.filter((pkg) => typeof pkg === 'string')
                 : [];
 
-            if (packages.length > 0) {
+            if (packages.some(pkg => !pkg.startsWith('!'))) {
                 return packages;
             }
         }
@@ -115,41 +106,47 @@ function scanMonorepo(rootDir: string): PackageInfo[] {
   const packages: PackageInfo[] = [];
   AppLogger.debug('rootDir: ' + rootDir);
   const workspacesGlobs = appConfig.workspaces;
-  // Use provided workspaces globs if given, otherwise attempt to detect from root package.json or pnpm-workspace.yaml
-  const detectedWorkspacesGlobs = workspacesGlobs.length > 0 ? workspacesGlobs : getWorkspacesFromRoot(rootDir);
-  if (detectedWorkspacesGlobs && detectedWorkspacesGlobs.length > 0) {
-    if (workspacesGlobs.length) {
-      AppLogger.info(`Using provided workspaces globs: ${detectedWorkspacesGlobs.join(', ')}`);
-    } else {
-      AppLogger.info(`Detected Monorepo Workspaces Globs: ${detectedWorkspacesGlobs.join(', ')}`);
+
+  // Without explicit globs, let the workspace adapters (pnpm, npm, yarn, lerna, nx, rush) discover projects
+  if (!workspacesGlobs.length) {
+    const workspace = detectWorkspace(rootDir);
+    if (!workspace) {
+      AppLogger.warn('No workspace globs provided or detected. Returning empty package list.');
+      return packages;
     }
 
-    // 1. Resolve the globs into concrete package directory paths
-    const resolvedPackagePaths = resolveWorkspaceGlobs(rootDir, detectedWorkspacesGlobs);
+    AppLogger.info(
+      `Detected ${workspace.tool} workspace (package manager: ${workspace.packageManager}) with ${workspace.projects.length} projects`
+    );
+    return assignPackageOwners(rootDir, workspace.projects.map(project => project.packageInfo));
+  }
 
-    AppLogger.debug(`Resolved package directories (Total ${resolvedPackagePaths.length})`);
-    if (resolvedPackagePaths.length < workspacesGlobs.length) {
-      AppLogger.warn('Some workspaces globs provided are invalid.');
-    }
+  AppLogger.info(`Using provided workspaces globs: ${workspacesGlobs.join(', ')}`);
+
+  // 1. Resolve the globs into concrete package directory paths
+  const resolvedPackagePaths = resolveWorkspaceGlobs(rootDir, workspacesGlobs);
 
-    // 2. Integration of the requested loop structure for package scanning
-    for (const workspacePath of resolvedPackagePaths) {
-      const fullPackagePath = path.join(rootDir, workspacePath);
-      // The package name would be read from the package.json inside this path
-      const packageName = path.basename(fullPackagePath);
+  AppLogger.debug(`Resolved package directories (Total ${resolvedPackagePaths.length})`);
+  const includeGlobs = workspacesGlobs.filter(glob => !glob.startsWith('!'));
+  if (resolvedPackagePaths.length < includeGlobs.length) {
+    AppLogger.warn('Some workspaces globs provided are invalid.');
+  }
 
-      AppLogger.debug(`- Scanning path: ${workspacePath} (Package: ${packageName})`);
+  // 2. Integration of the requested loop structure for package scanning
+  for (const workspacePath of resolvedPackagePaths) {
+    const fullPackagePath = path.join(rootDir, workspacePath);
+    // The package name would be read from the package.json inside this path
+    const packageName = path.basename(fullPackagePath);
 
-      const packageInfo = parsePackageInfo(fullPackagePath, packageName);
-      if (packageInfo) {
-        packages.push(packageInfo);
-      }
+    AppLogger.debug(`- Scanning path: ${workspacePath} (Package: ${packageName})`);
+
+    const packageInfo = parsePackageInfo(fullPackagePath, packageName);
+    if (packageInfo) {
+      packages.push(packageInfo);
     }
-  } else {
-    AppLogger.warn('No workspace globs provided or detected. Returning empty package list.');
   }
 
-  return packages;
+  return assignPackageOwners(rootDir, packages);
 }
 
 /*** Parses package.json and determines package type */
@@ -185,11 +182,13 @@ export function parsePackageInfo(
       dependencies: packageJson.dependencies || {},
       devDependencies: packageJson.devDependencies || {},
       peerDependencies: packageJson.peerDependencies || {},
+      optionalDependencies: packageJson.optionalDependencies || {},
       scripts: packageJson.scripts || {},
       maintainers: packageJson.maintainers || [],
       description: packageJson.description,
       license: packageJson.license,
       repository: packageJson.repository || {},
+      tags: packageJson.monodog?.tags || packageJson.nx?.tags || [],
     };
   } catch (error) {
     AppLogger.error(`Error parsing package.json for ${packageName}`, error as Error);
@@ -274,7 +273,10 @@ function findCircularDependencies(packages: PackageInfo[]): string[][] {
 /**
  * Generates a dependency graph for visualization
  */
-function generateDependencyGraph(packages: PackageInfo[]) {
+function generateDependencyGraph(
+  packages: PackageInfo[],
+  dependencyTypes: DependencyKind[] = DEPENDENCY_KINDS
+) {
   const nodes = packages.map(pkg => ({
     // id: pkg.name,
     label: pkg.name,
@@ -283,45 +285,22 @@ function generateDependencyGraph(packages: PackageInfo[]) {
     dependencies: Object.keys(pkg.dependencies).length,
   }));
 
-  const edges: Array<{ from: string; to: string; type: string }> = [];
-
-  packages.forEach(pkg => {
-    Object.keys(pkg.dependencies).forEach(depName => {
-      // Only include internal dependencies
-      if (packages.some(p => p.name === depName)) {
-        edges.push({
-          from: pkg.name,
-          to: depName,
-          type: 'internal',
-        });
-      }
-    });
-  });
+  // Only internal dependencies, typed by the field that declares them
+  const edges = getInternalEdges(packages, dependencyTypes);
 
   return { nodes, edges };
 }
 
 /**
- * Checks if a package has outdated dependencies
+ * Checks the package dependencies against the configured npm registry and
+ * returns the ones with a newer version outside their declared range
  */
-function checkOutdatedDependencies(packageInfo: PackageInfo): DependencyInfo[] {
-  const outdated: DependencyInfo[] = [];
-
-  // This would typically involve checking against npm registry
-  // For now, we'll simulate with some basic checks
-  Object.entries(packageInfo.dependencies).forEach(([name, version]) => {
-    if (version.startsWith('^') || version.startsWith('~')) {
-      // Could be outdated, would need registry check
-      outdated.push({
-        name,
-        version: version,
-        status: 'unknown',
-        type: 'dependency',
-      });
-    }
-  });
-
-  return outdated;
+async function checkOutdatedDependencies(
+  packageInfo: PackageInfo,
+  client?: RegistryClient
+): Promise<DependencyInfo[]> {
+  const dependencies = await resolveDependencyStatuses(getDeclaredDependencies(packageInfo), client);
+  return dependencies.filter(dep => dep.outdated);
 }
 
 /**
@@ -370,23 +349,80 @@ function getPackageSize(packagePath: string): {
 }
 
 /**
- * Find the monorepo root by looking for package.json with workspaces or pnpm-workspace.yaml
+ * Directories skipped when hashing a package source tree
+ */
+const HASH_IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', 'coverage'];
+
+/**
+ * Hashes the parsed manifest together with the package source tree, so any
+ * manifest or source edit produces a new hash
+ */
+function hashPackageContents(pkg: PackageInfo): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(JSON.stringify(pkg));
+
+  const hashDirectory = (dirPath: string, relativeDir: string): void => {
+    let items: fs.Dirent[];
+    try {
+      items = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch (error) {
+      return;
+    }
+
+    // Directory listing order is not guaranteed across platforms
+    items.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const item of items) {
+      const fullPath = path.join(dirPath, item.name);
+      const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+
+      if (item.isDirectory()) {
+        // Skip build artifacts and hidden directories such as .git or tool caches
+        if (!HASH_IGNORED_DIRECTORIES.includes(item.name) && !item.name.startsWith('.')) {
+          hashDirectory(fullPath, relativePath);
+        }
+      } else if (item.isFile()) {
+        try {
+          hash.update(relativePath + '\0');
+          hash.update(fs.readFileSync(fullPath));
+        } catch (error) {
+          // Skip files we can't read
+        }
+      }
+    }
+  };
+
+  hashDirectory(pkg.path, '');
+  return hash.digest('hex');
+}
+
+/**
+ * Find the monorepo root by looking for package.json with workspaces or a workspace manifest
+ * (pnpm-workspace.yaml, lerna.json, nx.json, rush.json)
  */
 function findMonorepoRoot(): string {
   let currentDir = __dirname;
 
   while (currentDir !== path.parse(currentDir).root) {
     const packageJsonPath = path.join(currentDir, 'package.json');
-    const pnpmWorkspacePath = path.join(currentDir, 'pnpm-workspace.yaml');
+    const hasWorkspaceManifest = WORKSPACE_MANIFESTS.some(manifest =>
+      fs.existsSync(path.join(currentDir, manifest))
+    );
+
+    // Rush repositories may not have a root package.json
+    if (hasWorkspaceManifest && !fs.existsSync(packageJsonPath)) {
+      AppLogger.debug('Found monorepo root: ' + currentDir);
+      return currentDir;
+    }
 
-    // Check if this directory has package.json with workspaces or pnpm-workspace.yaml
+    // Check if this directory has package.json with workspaces or a workspace manifest
     if (fs.existsSync(packageJsonPath)) {
       try {
         const packageJson = JSON.parse(
           fs.readFileSync(packageJsonPath, 'utf8')
         );
         // If it has workspaces or is the root monorepo package
-        if (packageJson.workspaces || fs.existsSync(pnpmWorkspacePath)) {
+        if (packageJson.workspaces || hasWorkspaceManifest) {
           AppLogger.debug('Found monorepo root: ' + currentDir);
           return currentDir;
         }
@@ -422,6 +458,7 @@ export {
   generateDependencyGraph,
   checkOutdatedDependencies,
   getPackageSize,
+  hashPackageContents,
   calculatePackageHealth,
   findMonorepoRoot,
 };
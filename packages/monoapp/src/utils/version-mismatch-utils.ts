@@ -0,0 +1,83 @@
+import { DEPENDENCY_FIELDS } from './graph-utils';
+import { compareVersions, minVersion } from './semver-utils';
+import type {
+  DependencyKind,
+  DependencyUsage,
+  DependencyVersionGroup,
+  PackageInfo,
+  VersionMismatchReport,
+} from '../types';
+
+/**
+ * Dependency types whose ranges are compared and can be aligned
+ */
+export const VERSIONED_KINDS: DependencyKind[] = ['prod', 'dev', 'peer'];
+
+/**
+ * Picks the range with the highest minimum version; ties go to the most used range
+ */
+export function pickSuggestedRange(ranges: string[]): string {
+  return ranges.reduce((best, range) => {
+    const comparison = compareVersions(minVersion(range) || '', minVersion(best) || '');
+    return comparison > 0 ? range : best;
+  }, ranges[0]);
+}
+
+/**
+ * Groups every external (non workspace) dependency by name with the ranges declared for it
+ */
+export function groupExternalDependencies(
+  packages: PackageInfo[],
+  dependencyTypes: DependencyKind[] = VERSIONED_KINDS
+): DependencyVersionGroup[] {
+  const workspaceNames = new Set(packages.map(pkg => pkg.name));
+  const usagesByName = new Map<string, DependencyUsage[]>();
+
+  for (const pkg of packages) {
+    for (const type of dependencyTypes) {
+      const declared = (pkg[DEPENDENCY_FIELDS[type]] || {}) as Record<string, string>;
+      Object.entries(declared).forEach(([name, range]) => {
+        if (workspaceNames.has(name)) return;
+        const usages = usagesByName.get(name) || [];
+        usages.push({ packageName: pkg.name, type, range });
+        usagesByName.set(name, usages);
+      });
+    }
+  }
+
+  return Array.from(usagesByName, ([name, usages]) => {
+    const byRange = new Map<string, DependencyUsage[]>();
+    usages.forEach(usage => {
+      byRange.set(usage.range, [...(byRange.get(usage.range) || []), usage]);
+    });
+    const ranges = Array.from(byRange, ([range, rangeUsages]) => ({ range, packages: rangeUsages }))
+      .sort((a, b) => b.packages.length - a.packages.length || a.range.localeCompare(b.range));
+
+    return {
+      name,
+      ranges,
+      usages: usages.length,
+      mismatched: ranges.length > 1,
+      suggestedRange: pickSuggestedRange(ranges.map(entry => entry.range)),
+    };
+  }).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Flags external dependencies declared with divergent ranges across packages
+ */
+export function findVersionMismatches(
+  packages: PackageInfo[],
+  dependencyTypes: DependencyKind[] = VERSIONED_KINDS
+): VersionMismatchReport {
+  const groups = groupExternalDependencies(packages, dependencyTypes);
+  const mismatchedGroups = groups
+    .filter(group => group.mismatched)
+    .sort((a, b) => b.ranges.length - a.ranges.length || a.name.localeCompare(b.name));
+
+  return {
+    dependencies: groups.length,
+    mismatched: mismatchedGroups.length,
+    groups: mismatchedGroups,
+  };
+}
@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+import { resolveSecret, signWebhookPayload } from './notification-utils';
+import type { WebhookChannelConfig } from '../types';
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface WebhookResult {
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Timeouts, rate limiting and server errors may pass; other client errors will not
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Delay before the next attempt: the server's Retry-After when it sends one,
+ * otherwise doubling from the base delay
+ */
+function getRetryDelay(response: Response | null, attempt: number, baseDelayMs: number): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS);
+  return baseDelayMs * 2 ** (attempt - 1);
+}
+
+/**
+ * Posts a JSON payload to a webhook, retrying failed deliveries. Every attempt
+ * carries the same delivery id so receivers can drop duplicates; with a secret
+ * the body is signed in X-Monodog-Signature (see signWebhookPayload). ${VAR}
+ * in the URL reads an environment variable.
+ */
+export async function sendWebhook(
+  channel: WebhookChannelConfig,
+  payload: Record<string, unknown>,
+  options: { retryDelayMs?: number } = {}
+): Promise<WebhookResult> {
+  const body = JSON.stringify(payload);
+  const url = resolveSecret(channel.url) ?? '';
+  const secret = resolveSecret(channel.secret);
+  const deliveryId = randomUUID();
+  const maxAttempts = Math.max(0, channel.retries ?? DEFAULT_RETRIES) + 1;
+  let result: WebhookResult = { ok: false, attempts: 0 };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let response: Response | null = null;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          ...channel.headers,
+          'Content-Type': 'application/json',
+          'User-Agent': 'monodog',
+          'X-Monodog-Event': 'health.notifications',
+          'X-Monodog-Delivery': deliveryId,
+          'X-Monodog-Timestamp': timestamp,
+          ...(secret ? { 'X-Monodog-Signature': signWebhookPayload(secret, timestamp, body) } : {}),
+        },
+        body,
+        signal: AbortSignal.timeout(channel.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      // Release the connection, the response body is not used
+      await response.arrayBuffer().catch(() => undefined);
+      result = response.ok
+        ? { ok: true, attempts: attempt, status: response.status }
+        : { ok: false, attempts: attempt, status: response.status, error: `Responded with status ${response.status}` };
+      if (response.ok || !isRetryableStatus(response.status)) return result;
+    } catch (error) {
+      result = { ok: false, attempts: attempt, error: (error as Error).message };
+    }
+
+    if (attempt < maxAttempts) {
+      await sleep(getRetryDelay(response, attempt, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS));
+    }
+  }
+  return result;
+}
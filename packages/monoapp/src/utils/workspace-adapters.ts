@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import path from 'path';
+import * as yaml from 'js-yaml';
+import { AppLogger } from '../middleware/logger';
+import { resolveDirectoryGlobs } from './glob-utils';
+import { getWorkspacesFromRoot, parsePackageInfo } from './utilities';
+
+import type {
+  PackageInfo,
+  PackageManager,
+  WorkspaceAdapter,
+  WorkspaceDetection,
+  WorkspaceProject,
+} from '../types';
+
+/**
+ * Lockfiles mapped to the package manager that writes them
+ */
+export const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+// A packageManager field naming Yarn 2 or later
+const YARN_BERRY_FIELD = /^yarn@([2-9]|\d{2,})\./;
+
+/**
+ * Reads and parses a JSON file, tolerating comments (as used by rush.json)
+ */
+function readJsonFile<T>(filePath: string): T | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const withoutComments = content
+      .replace(/("(?:[^"\\]|\\.)*")|\/\*[\s\S]*?\*\//g, (_m, str) => str ?? '')
+      .replace(/("(?:[^"\\]|\\.)*")|\/\/.*$/gm, (_m, str) => str ?? '');
+    return JSON.parse(withoutComments) as T;
+  } catch (error) {
+    AppLogger.error(`Error parsing ${filePath}`, error as Error);
+    return undefined;
+  }
+}
+
+/**
+ * Extracts the package manager name from a `packageManager` field, e.g. 'pnpm@8.10.0'
+ */
+function parsePackageManagerField(value?: string): PackageManager | undefined {
+  const name = value?.split('@')[0];
+  if (name === 'pnpm' || name === 'yarn' || name === 'npm') {
+    return name;
+  }
+  return undefined;
+}
+
+function readRootPackageJson(rootDir: string): Record<string, any> | undefined {
+  return readJsonFile<Record<string, any>>(path.join(rootDir, 'package.json'));
+}
+
+/**
+ * Keeps only resolved directories which contain one of the given manifests
+ */
+function filterProjectDirectories(rootDir: string, dirs: string[], manifests: string[]): string[] {
+  return dirs.filter(dir =>
+    manifests.some(manifest => fs.existsSync(path.join(rootDir, dir, manifest)))
+  );
+}
+
+/**
+ * Rush: projects are listed explicitly in rush.json
+ */
+const rushAdapter: WorkspaceAdapter = {
+  tool: 'rush',
+  detect: rootDir => fs.existsSync(path.join(rootDir, 'rush.json')),
+  getProjectPaths: rootDir => {
+    const rushJson = readJsonFile<{ projects?: Array<{ projectFolder?: string }> }>(
+      path.join(rootDir, 'rush.json')
+    );
+    return (rushJson?.projects || [])
+      .map(project => project.projectFolder)
+      .filter((folder): folder is string => typeof folder === 'string');
+  },
+  getPackageManager: rootDir => {
+    const rushJson = readJsonFile<Record<string, unknown>>(path.join(rootDir, 'rush.json'));
+    if (rushJson?.pnpmVersion) return 'pnpm';
+    if (rushJson?.yarnVersion) return 'yarn';
+    if (rushJson?.npmVersion) return 'npm';
+    return undefined;
+  },
+};
+
+/**
+ * Nx: projects are folders with a project.json (or package.json) inside the
+ * workspace layout directories and any package manager workspaces
+ */
+const nxAdapter: WorkspaceAdapter = {
+  tool: 'nx',
+  detect: rootDir => fs.existsSync(path.join(rootDir, 'nx.json')),
+  getProjectPaths: rootDir => {
+    const nxJson = readJsonFile<{ workspaceLayout?: { appsDir?: string; libsDir?: string } }>(
+      path.join(rootDir, 'nx.json')
+    );
+    const appsDir = nxJson?.workspaceLayout?.appsDir || 'apps';
+    const libsDir = nxJson?.workspaceLayout?.libsDir || 'libs';
+    const layoutDirs = resolveDirectoryGlobs(rootDir, [
+      `${appsDir}/**`,
+      `${libsDir}/**`,
+      'packages/**',
+      '!**/{dist,build,coverage}/**',
+    ]);
+    const projectDirs = filterProjectDirectories(rootDir, layoutDirs, ['project.json']);
+    const workspaceDirs = resolveDirectoryGlobs(rootDir, getWorkspacesFromRoot(rootDir) || []);
+
+    return Array.from(new Set([...projectDirs, ...workspaceDirs]));
+  },
+  parseProject: projectPath => {
+    const projectJson = readJsonFile<{
+      name?: string;
+      projectType?: string;
+      tags?: string[];
+      targets?: Record<string, unknown>;
+    }>(path.join(projectPath, 'project.json'));
+    const packageInfo = parsePackageInfo(projectPath, path.basename(projectPath));
+
+    if (!projectJson) {
+      return packageInfo;
+    }
+
+    const name = projectJson.name || packageInfo?.name || path.basename(projectPath);
+    // Nx targets are run through `nx run <project>:<target>`; package.json scripts of the same name win
+    const targetScripts: Record<string, string> = {};
+    Object.keys(projectJson.targets || {}).forEach(target => {
+      targetScripts[target] = `nx run ${name}:${target}`;
+    });
+    const nxTargets = Object.keys(targetScripts).filter(target => !packageInfo?.scripts?.[target]);
+
+    const type =
+      projectJson.projectType === 'application'
+        ? 'app'
+        : projectJson.projectType === 'library'
+          ? 'lib'
+          : packageInfo?.type || 'lib';
+
+    return {
+      version: '0.0.0',
+      dependencies: {},
+      devDependencies: {},
+      peerDependencies: {},
+      maintainers: [],
+      repository: {},
+      ...packageInfo,
+      name,
+      type,
+      path: projectPath,
+      scripts: { ...targetScripts, ...(packageInfo?.scripts || {}) },
+      tags: projectJson.tags || packageInfo?.tags || [],
+      nxTargets,
+    };
+  },
+};
+
+/**
+ * Lerna: globs come from lerna.json#packages, or from the package manager
+ * workspaces when `useWorkspaces` is set (or packages is omitted)
+ */
+const lernaAdapter: WorkspaceAdapter = {
+  tool: 'lerna',
+  detect: rootDir => fs.existsSync(path.join(rootDir, 'lerna.json')),
+  getProjectPaths: rootDir => {
+    const lernaJson = readJsonFile<{ packages?: string[]; useWorkspaces?: boolean }>(
+      path.join(rootDir, 'lerna.json')
+    );
+    const globs =
+      !lernaJson?.useWorkspaces && lernaJson?.packages?.length
+        ? lernaJson.packages
+        : getWorkspacesFromRoot(rootDir) || ['packages/*'];
+    return resolveDirectoryGlobs(rootDir, globs);
+  },
+  getPackageManager: rootDir => {
+    const lernaJson = readJsonFile<{ npmClient?: string }>(path.join(rootDir, 'lerna.json'));
+    return parsePackageManagerField(lernaJson?.npmClient);
+  },
+};
+
+/**
+ * pnpm: globs come from pnpm-workspace.yaml
+ */
+const pnpmAdapter: WorkspaceAdapter = {
+  tool: 'pnpm',
+  detect: rootDir => fs.existsSync(path.join(rootDir, 'pnpm-workspace.yaml')),
+  getProjectPaths: rootDir => {
+    try {
+      const content = fs.readFileSync(path.join(rootDir, 'pnpm-workspace.yaml'), 'utf8');
+      const data = yaml.load(content) as { packages?: string[] } | undefined;
+      const globs = (data?.packages || []).filter(glob => typeof glob === 'string');
+      return resolveDirectoryGlobs(rootDir, globs);
+    } catch (error) {
+      AppLogger.error('Error parsing pnpm-workspace.yaml', error as Error);
+      return [];
+    }
+  },
+  getPackageManager: () => 'pnpm',
+};
+
+/**
+ * Yarn Berry (v2+): package.json workspaces plus a .yarnrc.yml or a yarn >= 2 packageManager field
+ */
+const yarnBerryAdapter: WorkspaceAdapter = {
+  tool: 'yarn-berry',
+  detect: rootDir => {
+    const packageManager: string | undefined = readRootPackageJson(rootDir)?.packageManager;
+    const berryField = YARN_BERRY_FIELD.test(packageManager || '');
+    return (
+      (berryField || fs.existsSync(path.join(rootDir, '.yarnrc.yml'))) &&
+      !!getWorkspacesFromRoot(rootDir)
+    );
+  },
+  getProjectPaths: rootDir => resolveDirectoryGlobs(rootDir, getWorkspacesFromRoot(rootDir) || []),
+  getPackageManager: () => 'yarn',
+};
+
+/**
+ * Yarn classic: package.json workspaces with a yarn.lock
+ */
+const yarnAdapter: WorkspaceAdapter = {
+  tool: 'yarn',
+  detect: rootDir =>
+    fs.existsSync(path.join(rootDir, 'yarn.lock')) && !!readRootPackageJson(rootDir)?.workspaces,
+  getProjectPaths: rootDir => resolveDirectoryGlobs(rootDir, getWorkspacesFromRoot(rootDir) || []),
+  getPackageManager: () => 'yarn',
+};
+
+/**
+ * npm: package.json workspaces
+ */
+const npmAdapter: WorkspaceAdapter = {
+  tool: 'npm',
+  detect: rootDir => !!readRootPackageJson(rootDir)?.workspaces,
+  getProjectPaths: rootDir => resolveDirectoryGlobs(rootDir, getWorkspacesFromRoot(rootDir) || []),
+};
+
+/**
+ * Registered adapters in detection priority order
+ */
+const workspaceAdapters: WorkspaceAdapter[] = [
+  rushAdapter,
+  nxAdapter,
+  lernaAdapter,
+  pnpmAdapter,
+  yarnBerryAdapter,
+  yarnAdapter,
+  npmAdapter,
+];
+
+/**
+ * Registers a custom workspace adapter; it takes precedence over the built-in ones
+ */
+export function registerWorkspaceAdapter(adapter: WorkspaceAdapter): void {
+  const existingIndex = workspaceAdapters.findIndex(a => a.tool === adapter.tool);
+  if (existingIndex !== -1) {
+    workspaceAdapters.splice(existingIndex, 1);
+  }
+  workspaceAdapters.unshift(adapter);
+}
+
+/**
+ * Returns the adapter matching the monorepo layout at rootDir
+ */
+export function getWorkspaceAdapter(rootDir: string): WorkspaceAdapter | undefined {
+  return workspaceAdapters.find(adapter => {
+    try {
+      return adapter.detect(rootDir);
+    } catch (error) {
+      AppLogger.warn(`Workspace adapter ${adapter.tool} failed to detect layout`);
+      return false;
+    }
+  });
+}
+
+/**
+ * Detects the package manager used at (or above) the given directory from the
+ * `packageManager` field and lockfiles. Defaults to npm.
+ */
+export function detectPackageManager(startDir: string): PackageManager {
+  let currentDir: string | undefined = path.resolve(startDir);
+
+  while (currentDir) {
+    const fromField = parsePackageManagerField(readRootPackageJson(currentDir)?.packageManager);
+    if (fromField) {
+      return fromField;
+    }
+
+    for (const [lockfile, manager] of LOCKFILES) {
+      if (fs.existsSync(path.join(currentDir, lockfile))) {
+        return manager;
+      }
+    }
+
+    if (fs.existsSync(path.join(currentDir, 'pnpm-workspace.yaml'))) {
+      return 'pnpm';
+    }
+
+    const parentDir = path.dirname(currentDir);
+    currentDir = parentDir === currentDir ? undefined : parentDir;
+  }
+
+  return 'npm';
+}
+
+/**
+ * Whether the Yarn workspace at (or above) the given directory uses Yarn 2 or
+ * later: the nearest packageManager field naming Yarn or a .yarnrc.yml
+ */
+export function isYarnBerry(startDir: string): boolean {
+  let currentDir: string | undefined = path.resolve(startDir);
+
+  while (currentDir) {
+    const packageManager: string | undefined = readRootPackageJson(currentDir)?.packageManager;
+    if (packageManager?.startsWith('yarn@')) {
+      return YARN_BERRY_FIELD.test(packageManager);
+    }
+    if (fs.existsSync(path.join(currentDir, '.yarnrc.yml'))) {
+      return true;
+    }
+
+    const parentDir = path.dirname(currentDir);
+    currentDir = parentDir === currentDir ? undefined : parentDir;
+  }
+
+  return false;
+}
+
+/**
+ * Builds the command used to run a package script with the given package
+ * manager. `run` is kept for Yarn too, so scripts named like a Yarn command
+ * (e.g. `install` or `add`) still run the script.
+ */
+export function getRunScriptCommand(packageManager: PackageManager, script: string): string {
+  return `${packageManager} run ${script}`;
+}
+
+/**
+ * Builds the command running a binary installed for the workspace, without
+ * downloading it when it is missing
+ */
+export function getExecCommand(packageManager: PackageManager, command: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return `pnpm exec ${command}`;
+    case 'yarn':
+      return `yarn ${command}`;
+    default:
+      return `npx --no-install ${command}`;
+  }
+}
+
+/**
+ * Command and directory running a package script. Nx targets from
+ * project.json run through the nx CLI from the workspace root (the nearest
+ * directory with an nx.json), as the project may have no package.json.
+ */
+export function getPackageScriptCommand(pkg: PackageInfo, script: string): { command: string; cwd: string } {
+  if (!pkg.nxTargets?.includes(script)) {
+    return { command: getRunScriptCommand(detectPackageManager(pkg.path), script), cwd: pkg.path };
+  }
+
+  let workspaceRoot: string | undefined = path.resolve(pkg.path);
+  while (workspaceRoot && !fs.existsSync(path.join(workspaceRoot, 'nx.json'))) {
+    const parentDir = path.dirname(workspaceRoot);
+    workspaceRoot = parentDir === workspaceRoot ? undefined : parentDir;
+  }
+  const cwd = workspaceRoot ?? pkg.path;
+  return { command: getExecCommand(detectPackageManager(cwd), pkg.scripts[script]), cwd };
+}
+
+/**
+ * Builds the command printing a JSON audit report. Yarn prints one JSON
+ * object per line; Yarn 2 and later audit through `yarn npm audit`, with
+ * --recursive to include transitive dependencies.
+ */
+export function getAuditCommand(packageManager: PackageManager, yarnBerry = false): string {
+  if (packageManager === 'yarn' && yarnBerry) {
+    return 'yarn npm audit --json --recursive';
+  }
+  return `${packageManager} audit --json`;
+}
+
+/**
+ * Detects the workspace layout at rootDir and discovers its projects
+ */
+export function detectWorkspace(rootDir: string): WorkspaceDetection | undefined {
+  const adapter = getWorkspaceAdapter(rootDir);
+  if (!adapter) {
+    return undefined;
+  }
+
+  const projects: WorkspaceProject[] = [];
+  const seenNames = new Set<string>();
+
+  for (const relativePath of adapter.getProjectPaths(rootDir)) {
+    const projectPath = path.join(rootDir, relativePath);
+    const packageInfo = adapter.parseProject
+      ? adapter.parseProject(projectPath)
+      : parsePackageInfo(projectPath, path.basename(projectPath));
+
+    if (!packageInfo || seenNames.has(packageInfo.name)) {
+      continue;
+    }
+
+    seenNames.add(packageInfo.name);
+    projects.push({
+      name: packageInfo.name,
+      relativePath: relativePath.replace(/\\/g, '/'),
+      packageInfo,
+    });
+  }
+
+  return {
+    tool: adapter.tool,
+    packageManager: adapter.getPackageManager?.(rootDir) || detectPackageManager(rootDir),
+    projects,
+  };
+}